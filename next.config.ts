@@ -1,7 +1,21 @@
 import type { NextConfig } from "next";
 
+// 构建版本：service worker 的注册地址带上它，新版本部署后浏览器会安装新的 worker
+const buildId = process.env.VERCEL_GIT_COMMIT_SHA ?? Date.now().toString(36);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
+  async headers() {
+    return [
+      {
+        // service worker 脚本不走 HTTP 缓存，保证能及时发现新版本
+        source: "/sw.js",
+        headers: [{ key: "Cache-Control", value: "no-cache" }],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
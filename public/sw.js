@@ -0,0 +1,168 @@
+// ===================
+// 乐伴 Service Worker
+// ===================
+// 离线使用：安装时按 /api/precache 的清单预缓存页面、构建产出的全部脚本和样式（包括按需加载的模块）
+// 和所有乐谱文件。清单取不到时仍缓存基本页面，安装不会因此失败。
+// - 页面、乐谱：优先网络，离线时用缓存
+// - /_next/static：文件名带哈希，优先缓存
+// - 其他同源静态文件：先返回缓存，同时在后台更新
+// 注册地址带构建版本（/sw.js?v=<build>），新版本部署后安装的新 worker 进入等待状态，
+// 页面提示用户刷新后再接管（见 components/layout/UpdatePrompt）。
+
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev'
+const PRECACHE = `melobuddy-precache-${VERSION}`
+// 运行时缓存（访问过的页面、导入乐谱的练习页等），跨版本保留
+const RUNTIME = 'melobuddy-runtime'
+
+// 页面 HTML 中引用的静态资源
+const ASSET_PATTERN = /\/_next\/static\/[^"'\s\\)]+/g
+
+// 清单取不到时至少缓存的页面（与 /api/precache 的 APP_PAGES 一致）
+const SHELL_PAGES = ['/', '/library', '/practice', '/tools', '/profile', '/achievements', '/ai-chat']
+const SHELL_FILES = ['/manifest.json', '/favicon.svg']
+
+/**
+ * 缓存页面和页面引用的静态资源；单个失败不影响其他
+ */
+async function cachePages(cache, pages) {
+  const assets = new Set()
+  await Promise.all(pages.map(async (page) => {
+    try {
+      const response = await fetch(page, { cache: 'no-cache' })
+      if (!response.ok) return
+      const html = await response.clone().text()
+      for (const asset of html.match(ASSET_PATTERN) || []) assets.add(asset)
+      await cache.put(page, response)
+    } catch (error) {
+      console.warn(`Failed to precache ${page}:`, error)
+    }
+  }))
+  await cacheFiles(cache, [...assets])
+}
+
+async function cacheFiles(cache, files) {
+  await Promise.all(files.map(async (file) => {
+    try {
+      // 页面引用的文件已经随页面缓存过
+      if (await cache.match(file)) return
+      const response = await fetch(file, { cache: 'no-cache' })
+      if (response.ok) await cache.put(file, response)
+    } catch (error) {
+      console.warn(`Failed to precache ${file}:`, error)
+    }
+  }))
+}
+
+/**
+ * 读取预缓存清单；失败时只返回基本页面
+ */
+async function getPrecacheManifest() {
+  try {
+    const response = await fetch('/api/precache', { cache: 'no-cache' })
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+    const manifest = await response.json()
+    return {
+      pages: [...new Set([...SHELL_PAGES, ...(manifest.pages || [])])],
+      files: [...new Set([...SHELL_FILES, ...(manifest.files || [])])],
+    }
+  } catch (error) {
+    console.warn('Failed to load the precache manifest:', error)
+    return { pages: SHELL_PAGES, files: SHELL_FILES }
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const manifest = await getPrecacheManifest()
+    const cache = await caches.open(PRECACHE)
+    await cachePages(cache, manifest.pages)
+    await cacheFiles(cache, manifest.files)
+    // 第一次安装时直接接管；更新时等待用户确认
+    if (!self.registration.active) await self.skipWaiting()
+  })())
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names
+      .filter((name) => name.startsWith('melobuddy-precache-') && name !== PRECACHE)
+      .map((name) => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {}
+  if (data.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  } else if (data.type === 'CACHE_PAGES' && Array.isArray(data.pages)) {
+    // 导入乐谱等新增内容的页面
+    event.waitUntil(caches.open(RUNTIME).then((cache) => cachePages(cache, data.pages)))
+  }
+})
+
+/**
+ * 优先网络，成功时更新运行时缓存；离线时依次查找缓存
+ */
+async function networkFirst(request, fallbackUrl) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME)
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreVary: true })
+      || (fallbackUrl && await caches.match(fallbackUrl))
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function staleWhileRevalidate(event) {
+  const cached = await caches.match(event.request)
+  const update = fetch(event.request).then(async (response) => {
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME)
+      await cache.put(event.request, response.clone())
+    }
+    return response
+  })
+  if (cached) {
+    event.waitUntil(update.catch(() => undefined))
+    return cached
+  }
+  return update
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  // 只处理同源 GET；接口（AI 聊天等）不缓存
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    // 没缓存过的页面离线时退回首页
+    event.respondWith(networkFirst(request, '/'))
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request))
+  } else if (url.pathname.startsWith('/scores/') || request.headers.get('RSC') === '1') {
+    // 乐谱需要能拿到修正后的版本（见 score-cache）；RSC 数据随页面变化
+    event.respondWith(networkFirst(request))
+  } else {
+    event.respondWith(staleWhileRevalidate(event))
+  }
+})
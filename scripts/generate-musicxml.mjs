@@ -85,20 +85,26 @@ function getViolinTechnique(pitch) {
     // G String (4)
     'G3': { string: 4, finger: 0 },
     'A3': { string: 4, finger: 1 },
+    'Bb3': { string: 4, finger: 2 },
     'B3': { string: 4, finger: 2 },
     'C4': { string: 4, finger: 3 },
+    'C#4': { string: 4, finger: 3 },
     'D4': { string: 4, finger: 4, altString: 3, altFinger: 0 },
     // D String (3)
+    'Eb4': { string: 3, finger: 1 },
     'E4': { string: 3, finger: 1 },
     'F4': { string: 3, finger: 2 },
     'F#4': { string: 3, finger: 2 },
     'G4': { string: 3, finger: 3 },
+    'G#4': { string: 3, finger: 3 },
     'A4': { string: 3, finger: 4, altString: 2, altFinger: 0 },
     // A String (2)
+    'Bb4': { string: 2, finger: 1 },
     'B4': { string: 2, finger: 1 },
     'C5': { string: 2, finger: 2 },
     'C#5': { string: 2, finger: 2 },
     'D5': { string: 2, finger: 3 },
+    'Eb5': { string: 2, finger: 4 },
     'E5': { string: 2, finger: 4, altString: 1, altFinger: 0 },
     // E String (1)
     'F5': { string: 1, finger: 1 },
@@ -106,9 +112,13 @@ function getViolinTechnique(pitch) {
     'G5': { string: 1, finger: 2 },
     'G#5': { string: 1, finger: 2 },
     'A5': { string: 1, finger: 3 },
+    'Bb5': { string: 1, finger: 4 },
     'B5': { string: 1, finger: 4 },
   }
-  return techniques[pitch] || { string: 2, finger: 0 }
+  // 表中没有的音不能随便给一个弦/指法（以前默认写成 D 弦空弦），直接报错，补上表再生成
+  const technique = techniques[pitch]
+  if (!technique) throw new Error(`No fingering for ${pitch}`)
+  return technique
 }
 
 // Generate note XML
@@ -164,12 +174,14 @@ function generateMeasureXml(measureNumber, notes, options = {}) {
   let attributesXml = ''
   if (measureNumber === 1) {
     const fifths = options.fifths || 1 // G major default
+    const modeXml = options.mode ? `
+        <mode>${options.mode}</mode>` : ''
     const beats = options.beats || 4
     const beatType = options.beatType || 4
     attributesXml = `    <attributes>
       <divisions>4</divisions>
       <key>
-        <fifths>${fifths}</fifths>
+        <fifths>${fifths}</fifths>${modeXml}
       </key>
       <time>
         <beats>${beats}</beats>
@@ -251,7 +263,8 @@ const SONGS = {
       [{ pitch: 'D4', duration: 'quarter' }, { pitch: 'E4', duration: 'quarter' }, { pitch: 'F#4', duration: 'quarter' }, { pitch: 'G4', duration: 'quarter' }],
       // Descending
       [{ pitch: 'G4', duration: 'quarter' }, { pitch: 'F#4', duration: 'quarter' }, { pitch: 'E4', duration: 'quarter' }, { pitch: 'D4', duration: 'quarter' }],
-      [{ pitch: 'C4', duration: 'quarter' }, { pitch: 'B3', duration: 'quarter' }, { pitch: 'A3', duration: 'quarter' }, { pitch: 'G3', duration: 'whole' }],
+      [{ pitch: 'C4', duration: 'quarter' }, { pitch: 'B3', duration: 'quarter' }, { pitch: 'A3', duration: 'half' }],
+      [{ pitch: 'G3', duration: 'whole' }],
     ]
   },
 
@@ -263,7 +276,8 @@ const SONGS = {
       [{ pitch: 'D4', duration: 'quarter' }, { pitch: 'E4', duration: 'quarter' }, { pitch: 'F#4', duration: 'quarter' }, { pitch: 'G4', duration: 'quarter' }],
       [{ pitch: 'A4', duration: 'quarter' }, { pitch: 'B4', duration: 'quarter' }, { pitch: 'C#5', duration: 'quarter' }, { pitch: 'D5', duration: 'quarter' }],
       [{ pitch: 'D5', duration: 'quarter' }, { pitch: 'C#5', duration: 'quarter' }, { pitch: 'B4', duration: 'quarter' }, { pitch: 'A4', duration: 'quarter' }],
-      [{ pitch: 'G4', duration: 'quarter' }, { pitch: 'F#4', duration: 'quarter' }, { pitch: 'E4', duration: 'quarter' }, { pitch: 'D4', duration: 'whole' }],
+      [{ pitch: 'G4', duration: 'quarter' }, { pitch: 'F#4', duration: 'quarter' }, { pitch: 'E4', duration: 'half' }],
+      [{ pitch: 'D4', duration: 'whole' }],
     ]
   },
 
@@ -275,7 +289,8 @@ const SONGS = {
       [{ pitch: 'A4', duration: 'quarter' }, { pitch: 'B4', duration: 'quarter' }, { pitch: 'C#5', duration: 'quarter' }, { pitch: 'D5', duration: 'quarter' }],
       [{ pitch: 'E5', duration: 'quarter' }, { pitch: 'F#5', duration: 'quarter' }, { pitch: 'G#5', duration: 'quarter' }, { pitch: 'A5', duration: 'quarter' }],
       [{ pitch: 'A5', duration: 'quarter' }, { pitch: 'G#5', duration: 'quarter' }, { pitch: 'F#5', duration: 'quarter' }, { pitch: 'E5', duration: 'quarter' }],
-      [{ pitch: 'D5', duration: 'quarter' }, { pitch: 'C#5', duration: 'quarter' }, { pitch: 'B4', duration: 'quarter' }, { pitch: 'A4', duration: 'whole' }],
+      [{ pitch: 'D5', duration: 'quarter' }, { pitch: 'C#5', duration: 'quarter' }, { pitch: 'B4', duration: 'half' }],
+      [{ pitch: 'A4', duration: 'whole' }],
     ]
   },
 
@@ -355,7 +370,7 @@ const SONGS = {
   'scale-g-minor-2oct': {
     title: 'G小调音阶 (两个八度)',
     composer: '基础练习',
-    options: { fifths: -2, tempo: 66, beats: 4, beatType: 4 },
+    options: { fifths: -2, mode: 'minor', tempo: 66, beats: 4, beatType: 4 },
     measures: [
       [{ pitch: 'G3', duration: 'quarter' }, { pitch: 'A3', duration: 'quarter' }, { pitch: 'Bb3', duration: 'quarter' }, { pitch: 'C4', duration: 'quarter' }],
       [{ pitch: 'D4', duration: 'quarter' }, { pitch: 'Eb4', duration: 'quarter' }, { pitch: 'F#4', duration: 'quarter' }, { pitch: 'G4', duration: 'quarter' }],
@@ -371,7 +386,7 @@ const SONGS = {
   'scale-d-minor-2oct': {
     title: 'D小调音阶 (两个八度)',
     composer: '基础练习',
-    options: { fifths: -1, tempo: 66, beats: 4, beatType: 4 },
+    options: { fifths: -1, mode: 'minor', tempo: 66, beats: 4, beatType: 4 },
     measures: [
       [{ pitch: 'D4', duration: 'quarter' }, { pitch: 'E4', duration: 'quarter' }, { pitch: 'F4', duration: 'quarter' }, { pitch: 'G4', duration: 'quarter' }],
       [{ pitch: 'A4', duration: 'quarter' }, { pitch: 'Bb4', duration: 'quarter' }, { pitch: 'C#5', duration: 'quarter' }, { pitch: 'D5', duration: 'quarter' }],
@@ -729,11 +744,11 @@ const ALL_SONGS = [
   // Etudes
   { id: 'open-strings', category: 'etude' },
   { id: 'long-bow', category: 'etude' },
-  { id: 'wohlfahrt-op45-no1', title: 'Wohlfahrt Op.45 No.1', composer: 'Franz Wohlfahrt', category: 'etude' },
-  { id: 'wohlfahrt-op45-no2', title: 'Wohlfahrt Op.45 No.2', composer: 'Franz Wohlfahrt', category: 'etude' },
-  { id: 'kayser-op20-no1', title: 'Kayser Op.20 No.1', composer: 'Heinrich Kayser', category: 'etude' },
-  { id: 'kayser-op20-no2', title: 'Kayser Op.20 No.2', composer: 'Heinrich Kayser', category: 'etude' },
-  { id: 'sevcik-op2-no1', title: 'Sevcik Op.2 No.1', composer: 'Otakar Sevcik', category: 'etude' },
+  { id: 'wohlfahrt-op45-no1', title: 'Wohlfahrt Etude Op.45 No.1', composer: 'Franz Wohlfahrt', category: 'etude' },
+  { id: 'wohlfahrt-op45-no2', title: 'Wohlfahrt Etude Op.45 No.2', composer: 'Franz Wohlfahrt', category: 'etude' },
+  { id: 'kayser-op20-no1', title: 'Kayser Etude Op.20 No.1', composer: 'Heinrich Ernst Kayser', category: 'etude' },
+  { id: 'kayser-op20-no2', title: 'Kayser Etude Op.20 No.2', composer: 'Heinrich Ernst Kayser', category: 'etude' },
+  { id: 'sevcik-op2-no1', title: 'Sevcik Bowing Exercise Op.2 No.1', composer: 'Otakar Sevcik', category: 'etude' },
 
   // Pieces
   { id: 'twinkle-star', category: 'piece' },
@@ -0,0 +1,40 @@
+/**
+ * Node 脚本共用的乐谱文件工具
+ * 解析直接使用 src/lib/musicxml-parser.ts（需通过 tsx 运行），与应用是同一份实现
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { convertTimewiseToPartwise, extractMxl, isZipData } from '../../src/lib/musicxml-parser.ts'
+
+export const projectRoot = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..')
+export const publicDir = path.join(projectRoot, 'public')
+export const scoresDir = path.join(publicDir, 'scores')
+
+/**
+ * 列出 public/scores 下的所有乐谱文件，返回站点 URL（如 /scores/piece/twinkle-star.xml），按路径排序
+ */
+export function listScoreFiles(dir = scoresDir) {
+  const files = []
+  for (const item of fs.readdirSync(dir)) {
+    const fullPath = path.join(dir, item)
+    if (fs.statSync(fullPath).isDirectory()) {
+      files.push(...listScoreFiles(fullPath))
+    } else if (item.endsWith('.xml') || item.endsWith('.mxl')) {
+      files.push('/' + path.relative(publicDir, fullPath).split(path.sep).join('/'))
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * 读取乐谱文件（.xml 或 .mxl），返回 partwise MusicXML 文本
+ * @param url 站点 URL，相对 public 目录
+ */
+export async function readScoreXml(url) {
+  const buffer = fs.readFileSync(path.join(publicDir, url))
+  const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+  const xml = isZipData(data) ? await extractMxl(data) : buffer.toString('utf-8')
+  return convertTimewiseToPartwise(xml)
+}
@@ -1,123 +1,282 @@
 #!/usr/bin/env node
 /**
- * 验证曲库脚本
- * 检查所有MusicXML文件是否存在且可解析
+ * 曲库乐谱检查脚本
+ * 读取 songLibrary，用真实的 parseMusicXML 解析每个乐谱，检查：
+ * - 文件缺失、无法解析
+ * - 小节内容与拍号不符（弱起小节和与之配对的结尾小节除外）
+ * - 低于小提琴音域 (G3) 的音
+ * - 缺少指法、标题/作曲家与 SongMeta 不一致
+ * - 预计时长与 totalBeats / tempo 相差过大
+ * 以上都是错误；星级与自动难度分析不一致只给警告（分析只看音符，星级还考虑了曲目本身）
+ * 与其他曲目内容完全相同的乐谱是生成器的占位乐谱，不比较星级
+ *
+ * 有错误时以非零状态退出；加 --strict 时警告也视为错误
+ * 运行: npm run validate-songs（通过 tsx 直接引用 TypeScript 源码）
  */
 
 import fs from 'fs'
 import path from 'path'
-import { fileURLToPath } from 'url'
+import { songLibrary } from '../src/data/songs/index.ts'
+import { parseMusicXML, addDefaultFingerings } from '../src/lib/musicxml-parser.ts'
+import { expandPerformance } from '../src/lib/performance-order.ts'
+import { createTempoMap, beatToSeconds } from '../src/lib/tempo-map.ts'
+import { estimateDifficulty } from '../src/lib/difficulty.ts'
+import { listScoreFiles, publicDir, readScoreXml } from './lib/score-files.mjs'
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url))
-const projectRoot = path.join(__dirname, '..')
+const strict = process.argv.includes('--strict')
 
-// 从 songLibrary 提取所有曲目
-const songLibraryPath = path.join(projectRoot, 'src/data/songs/index.ts')
-const songLibraryContent = fs.readFileSync(songLibraryPath, 'utf-8')
+// 小提琴最低音 G3
+const VIOLIN_LOWEST_MIDI = 55
+// 预计时长允许的误差：相差超过 25% 且超过 5 秒才报告
+const DURATION_TOLERANCE_RATIO = 0.25
+const DURATION_TOLERANCE_SECONDS = 5
+// 拍数比较的误差
+const BEAT_EPSILON = 1e-3
 
-// 使用正则提取所有 musicXmlUrl
-const urlRegex = /musicXmlUrl:\s*['"]([^'"]+)['"]/g
-const matches = [...songLibraryContent.matchAll(urlRegex)]
-const expectedUrls = matches.map(m => m[1])
+// 收集到的问题: { level: 'error' | 'warning', songId, message }
+const issues = []
 
-console.log('🎵 MeloBuddy 曲库验证')
-console.log('='.repeat(50))
-console.log(`\n📊 曲库中定义的曲目数量: ${expectedUrls.length}`)
-
-// 检查文件是否存在
-const missing = []
-const existing = []
-
-for (const url of expectedUrls) {
-  const filePath = path.join(projectRoot, 'public', url)
-  if (fs.existsSync(filePath)) {
-    existing.push(url)
-  } else {
-    missing.push(url)
+function report(level, songId, message) {
+  issues.push({ level, songId, message })
+}
+
+function frequencyToMidi(frequency) {
+  return Math.round(69 + 12 * Math.log2(frequency / 440))
+}
+
+/**
+ * 小节开始处生效的拍号
+ */
+function getTimeSignatureAt(song, beat) {
+  let timeSignature = song.timeSignature
+  for (const change of song.timeSignatureChanges) {
+    if (change.beat > beat + BEAT_EPSILON) break
+    timeSignature = change.timeSignature
   }
+  return timeSignature
 }
 
-console.log(`✅ 存在的文件: ${existing.length}`)
-console.log(`❌ 缺失的文件: ${missing.length}`)
+/**
+ * 检查小节内容是否填满拍号
+ * 弱起小节（implicit 或第一小节不满）可以不满，最后一小节可以与之互补
+ */
+function checkMeasures(meta, song) {
+  const measures = song.measures
+  measures.forEach((measure, i) => {
+    const [beats, beatType] = getTimeSignatureAt(song, measure.startBeat)
+    const expected = (beats * 4) / beatType
+    const diff = measure.duration - expected
+    if (Math.abs(diff) < BEAT_EPSILON) return
+
+    const isPickup = measure.implicit || i === 0
+    const isClosing = i === measures.length - 1 && measures[0].duration < expected - BEAT_EPSILON
+    if (diff < 0 && (isPickup || isClosing)) return
 
-if (missing.length > 0) {
-  console.log('\n❌ 缺失的MusicXML文件:')
-  missing.forEach(url => console.log(`   - ${url}`))
+    report(
+      'error',
+      meta.id,
+      `第 ${measure.number} 小节 ${diff > 0 ? '超出' : '不满'}拍号 ${beats}/${beatType}：` +
+      `${+measure.duration.toFixed(3)} 拍，应为 ${expected} 拍`
+    )
+  })
 }
 
-// 检查实际存在但未被引用的文件
-const publicScoresDir = path.join(projectRoot, 'public/scores')
-
-function getAllXmlFiles(dir, baseDir = dir) {
-  const files = []
-  const items = fs.readdirSync(dir)
-  for (const item of items) {
-    const fullPath = path.join(dir, item)
-    const stat = fs.statSync(fullPath)
-    if (stat.isDirectory()) {
-      files.push(...getAllXmlFiles(fullPath, baseDir))
-    } else if (item.endsWith('.xml')) {
-      const relativePath = '/' + path.relative(path.join(baseDir, '..'), fullPath)
-      files.push(relativePath)
+/**
+ * 检查音域（含双音）
+ */
+function checkRange(meta, song) {
+  for (const note of song.notes) {
+    const pitches = [note, ...(note.chordPitches ?? [])]
+    for (const { pitch, frequency } of pitches) {
+      if (frequencyToMidi(frequency) < VIOLIN_LOWEST_MIDI) {
+        report('error', meta.id, `第 ${note.measureNumber} 小节的 ${pitch} 低于小提琴音域 (G3)`)
+      }
     }
   }
-  return files
 }
 
-const actualFiles = getAllXmlFiles(publicScoresDir)
-const unusedFiles = actualFiles.filter(f => !expectedUrls.includes(f))
+/**
+ * 检查乐谱中是否标了指法（应用内会由指法引擎补上，但曲库乐谱应当标全）
+ */
+function checkFingerings(meta, song) {
+  const missing = song.notes.filter((note) => note.finger === undefined)
+  if (missing.length > 0) {
+    const measureNumbers = [...new Set(missing.map((note) => note.measureNumber))]
+    report(
+      'error',
+      meta.id,
+      `${missing.length}/${song.notes.length} 个音符没有指法（小节 ${measureNumbers.slice(0, 8).join(', ')}` +
+      `${measureNumbers.length > 8 ? ' …' : ''}）`
+    )
+  }
+}
 
-console.log(`\n📁 实际XML文件数量: ${actualFiles.length}`)
-console.log(`🔗 被曲库引用的: ${existing.length}`)
-console.log(`📦 未被引用的: ${unusedFiles.length}`)
+/**
+ * 检查标题和作曲家是否与 SongMeta 一致
+ */
+function checkMetadata(meta, song) {
+  if (song.title !== meta.title && song.title !== meta.titleEn) {
+    report('error', meta.id, `标题不一致：乐谱「${song.title}」，曲库「${meta.title}」`)
+  }
+  if ((meta.composer ?? '') !== song.composer) {
+    report('error', meta.id, `作曲家不一致：乐谱「${song.composer}」，曲库「${meta.composer ?? ''}」`)
+  }
+}
 
-if (unusedFiles.length > 0) {
-  console.log('\n📦 未被曲库引用的XML文件:')
-  unusedFiles.forEach(url => console.log(`   - ${url}`))
+/**
+ * 乐谱内容的指纹（音高、位置、时值），用于找出共用同一份占位乐谱的曲目
+ */
+function getNotesFingerprint(song) {
+  return song.notes.map((note) => `${note.pitch}@${note.startBeat}/${note.duration}`).join(' ')
 }
 
-// 验证XML文件内容（简单检查）
-console.log('\n🔍 验证XML文件内容...')
-let validCount = 0
-let invalidFiles = []
+/**
+ * 检查预计时长和难度星级
+ * @returns 是否比较了星级，以及是否一致
+ */
+function checkDurationAndDifficulty(meta, song, isPlaceholder) {
+  const performed = expandPerformance(song)
+  const seconds = beatToSeconds(createTempoMap(performed), performed.totalBeats)
+  const diff = Math.abs(meta.duration - seconds)
+  if (diff > DURATION_TOLERANCE_SECONDS && diff > seconds * DURATION_TOLERANCE_RATIO) {
+    report(
+      'error',
+      meta.id,
+      `预计时长 ${meta.duration} 秒，按乐谱 ${performed.totalBeats} 拍 / ${song.tempo} BPM 约为 ${Math.round(seconds)} 秒`
+    )
+  }
+
+  if (isPlaceholder) return null
+
+  const { stars, xpReward, profile } = estimateDifficulty(addDefaultFingerings(song))
+  if (stars !== meta.difficulty) {
+    report(
+      'warning',
+      meta.id,
+      `星级 ${meta.difficulty}★，分析为 ${stars}★ (XP ${meta.xpReward} / ${xpReward})：` +
+      `音域 ${profile.lowestPitch}-${profile.highestPitch}，最高 ${profile.maxPosition} 把位，` +
+      `${profile.notesPerSecond.toFixed(1)} 音/秒，换把 ${profile.shifts} 次，跨弦 ${profile.stringCrossings} 次`
+    )
+  }
+  return stars === meta.difficulty
+}
 
-for (const url of existing) {
-  const filePath = path.join(projectRoot, 'public', url)
+// ===================
+// 检查曲库
+// ===================
+
+console.log('🎵 MeloBuddy 曲库检查')
+console.log('='.repeat(50))
+console.log(`\n📊 曲库中定义的曲目数量: ${songLibrary.length}`)
+
+const expectedUrls = songLibrary.map((song) => song.musicXmlUrl)
+let parsedCount = 0
+const parsedSongs = []
+
+for (const meta of songLibrary) {
+  if (!fs.existsSync(path.join(publicDir, meta.musicXmlUrl))) {
+    report('error', meta.id, `缺少乐谱文件 ${meta.musicXmlUrl}`)
+    continue
+  }
+
+  let song
   try {
-    const content = fs.readFileSync(filePath, 'utf-8')
-    // 检查是否包含MusicXML必需元素
-    if (content.includes('score-partwise') || content.includes('score-timewise')) {
-      validCount++
-    } else {
-      invalidFiles.push({ url, reason: '不是有效的MusicXML格式' })
-    }
+    song = parseMusicXML(await readScoreXml(meta.musicXmlUrl))
   } catch (err) {
-    invalidFiles.push({ url, reason: err.message })
+    report('error', meta.id, `无法解析 ${meta.musicXmlUrl}: ${err.message}`)
+    continue
+  }
+  parsedCount++
+
+  if (song.notes.length === 0) {
+    report('error', meta.id, '乐谱中没有音符')
+    continue
   }
+
+  checkMeasures(meta, song)
+  checkRange(meta, song)
+  checkFingerings(meta, song)
+  checkMetadata(meta, song)
+  parsedSongs.push({ meta, song, fingerprint: getNotesFingerprint(song) })
 }
 
-console.log(`✅ 有效的MusicXML: ${validCount}`)
-console.log(`❌ 无效的文件: ${invalidFiles.length}`)
+console.log(`✅ 成功解析: ${parsedCount}`)
 
-if (invalidFiles.length > 0) {
-  console.log('\n❌ 无效的XML文件:')
-  invalidFiles.forEach(f => console.log(`   - ${f.url}: ${f.reason}`))
+// 星级检查（跳过占位乐谱）
+const fingerprintCounts = new Map()
+for (const { fingerprint } of parsedSongs) {
+  fingerprintCounts.set(fingerprint, (fingerprintCounts.get(fingerprint) ?? 0) + 1)
+}
+const placeholderIds = []
+let ratedCount = 0
+let agreedCount = 0
+for (const { meta, song, fingerprint } of parsedSongs) {
+  const isPlaceholder = fingerprintCounts.get(fingerprint) > 1
+  if (isPlaceholder) placeholderIds.push(meta.id)
+  const agreed = checkDurationAndDifficulty(meta, song, isPlaceholder)
+  if (agreed === null) continue
+  ratedCount++
+  if (agreed) agreedCount++
+}
+console.log(`🎯 难度分析与星级一致: ${agreedCount} / ${ratedCount}`)
+
+// 检查实际存在但未被引用的文件
+const unusedFiles = listScoreFiles().filter((f) => !expectedUrls.includes(f))
+
+// ===================
+// 输出结果
+// ===================
+
+const errors = issues.filter((issue) => issue.level === 'error')
+const warnings = issues.filter((issue) => issue.level === 'warning')
+
+function printIssues(list, icon) {
+  const bySong = new Map()
+  for (const issue of list) {
+    if (!bySong.has(issue.songId)) bySong.set(issue.songId, [])
+    bySong.get(issue.songId).push(issue.message)
+  }
+  for (const [songId, messages] of bySong) {
+    console.log(`\n${icon} ${songId}`)
+    messages.forEach((message) => console.log(`   - ${message}`))
+  }
+}
+
+if (errors.length > 0) {
+  console.log('\n❌ 错误:')
+  printIssues(errors, '❌')
+}
+
+if (warnings.length > 0) {
+  console.log('\n⚠️  警告:')
+  printIssues(warnings, '⚠️ ')
+}
+
+if (unusedFiles.length > 0) {
+  console.log('\n📦 未被曲库引用的乐谱文件:')
+  unusedFiles.forEach((url) => console.log(`   - ${url}`))
 }
 
 // 总结
 console.log('\n' + '='.repeat(50))
-console.log('📋 验证总结')
+console.log('📋 检查总结')
 console.log('='.repeat(50))
+console.log(`❌ 错误: ${errors.length}`)
+console.log(`⚠️  警告: ${warnings.length}`)
 
-const issues = missing.length + invalidFiles.length
-if (issues === 0) {
-  console.log('✅ 所有曲目文件验证通过！')
-} else {
-  console.log(`⚠️  发现 ${issues} 个问题需要修复`)
+if (unusedFiles.length > 0) {
+  console.log(`ℹ️  有 ${unusedFiles.length} 个乐谱文件未被使用（可能是备份或旧版本）`)
+}
+if (placeholderIds.length > 0) {
+  console.log(`ℹ️  有 ${placeholderIds.length} 首曲目使用相同的占位乐谱，未检查星级: ${placeholderIds.join(', ')}`)
 }
 
-if (unusedFiles.length > 0) {
-  console.log(`ℹ️  有 ${unusedFiles.length} 个XML文件未被使用（可能是备份或旧版本）`)
+const failed = errors.length > 0 || (strict && warnings.length > 0)
+if (failed) {
+  console.log(strict && errors.length === 0 ? '\n⚠️  --strict: 警告视为错误' : '\n❌ 曲库检查未通过')
+} else {
+  console.log('\n✅ 曲库检查通过！')
 }
 
 console.log('')
+process.exit(failed ? 1 : 0)
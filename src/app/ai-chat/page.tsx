@@ -2,9 +2,10 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Sparkles } from 'lucide-react'
+import { Send, Sparkles, WifiOff } from 'lucide-react'
 import { useLanguageStore } from '@/stores/useLanguageStore'
 import { Language, t } from '@/i18n/translations'
+import { useOnlineStatus } from '@/hooks'
 
 // 消息类型
 interface Message {
@@ -118,6 +119,8 @@ interface AIChatPageProps {
 
 export default function AIChatPage({ context, isModal = false }: AIChatPageProps) {
   const { language } = useLanguageStore()
+  // 离线时不能提问
+  const isOnline = useOnlineStatus()
 
   const getWelcomeMessage = useCallback((lang: Language) => {
     if (context?.songName) {
@@ -151,7 +154,7 @@ export default function AIChatPage({ context, isModal = false }: AIChatPageProps
 
   // 发送消息（流式）
   const sendMessage = async (content: string) => {
-    if (!content.trim() || isTyping) return
+    if (!content.trim() || isTyping || !isOnline) return
 
     // 添加用户消息
     const userMessage: Message = {
@@ -320,8 +323,16 @@ export default function AIChatPage({ context, isModal = false }: AIChatPageProps
         <div ref={messagesEndRef} />
       </div>
 
+      {/* 离线提示 */}
+      {!isOnline && (
+        <div className="bg-amber-50 border-t border-amber-100 px-4 py-2.5 flex items-center gap-2 text-sm text-amber-700">
+          <WifiOff className="w-4 h-4 shrink-0" />
+          {t('aiChat.offline', language)}
+        </div>
+      )}
+
       {/* 快捷问题 */}
-      {messages.length <= 2 && !isTyping && (
+      {messages.length <= 2 && !isTyping && isOnline && (
         <div className="bg-white border-t border-gray-100 px-4 py-3">
           <p className="text-xs text-gray-500 mb-2">{t('aiChat.quickQuestions', language)}</p>
           <div className="flex flex-wrap gap-2">
@@ -349,11 +360,11 @@ export default function AIChatPage({ context, isModal = false }: AIChatPageProps
           onChange={(e) => setInputValue(e.target.value)}
           placeholder={t('aiChat.inputPlaceholder', language)}
           className="flex-1 bg-gray-100 rounded-full px-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-primary-500/20"
-          disabled={isTyping}
+          disabled={isTyping || !isOnline}
         />
         <motion.button
           type="submit"
-          disabled={!inputValue.trim() || isTyping}
+          disabled={!inputValue.trim() || isTyping || !isOnline}
           className="w-10 h-10 bg-gradient-primary rounded-full flex items-center justify-center text-white disabled:opacity-50 disabled:cursor-not-allowed"
           whileTap={{ scale: 0.95 }}
         >
@@ -0,0 +1,50 @@
+import { existsSync, readdirSync } from 'fs'
+import path from 'path'
+import { songs } from '@/data'
+
+// 构建时生成，内容随版本固定
+export const dynamic = 'force-static'
+
+// 离线可用的页面（曲目练习页按曲库展开）
+const APP_PAGES = ['/', '/library', '/practice', '/tools', '/profile', '/achievements', '/ai-chat']
+
+// 其他静态文件
+const STATIC_FILES = ['/manifest.json', '/favicon.svg']
+
+/**
+ * 列出目录下的所有文件（相对 root 的路径），目录不存在时为空
+ */
+function listFiles(root: string, dir = ''): string[] {
+  const fullPath = path.join(root, dir)
+  if (!existsSync(fullPath)) return []
+  return readdirSync(fullPath, { withFileTypes: true }).flatMap((entry) => {
+    const file = `${dir}/${entry.name}`
+    return entry.isDirectory() ? listFiles(root, file) : [file]
+  })
+}
+
+/**
+ * 构建产出的全部脚本和样式（/_next/static）
+ * 页面 HTML 只引用首屏用到的文件，按需加载的模块（乐谱渲染、MIDI / 简谱导入导出等）要在这里列出才能离线使用
+ */
+function listBuildFiles(): string[] {
+  return listFiles(path.join(process.cwd(), '.next/static'))
+    .filter((file) => !file.endsWith('.map'))
+    .map((file) => `/_next/static${file}`)
+}
+
+/**
+ * Service worker 安装时预缓存的清单（见 public/sw.js）
+ * - pages: 页面，service worker 会同时缓存页面引用的脚本和样式
+ * - files: 构建产出的静态文件、乐谱文件和其他静态文件
+ */
+export async function GET() {
+  return Response.json({
+    pages: [...APP_PAGES, ...songs.map((song) => `/practice/${song.id}`)],
+    files: [
+      ...STATIC_FILES,
+      ...listBuildFiles().map(encodeURI),
+      ...listFiles(path.join(process.cwd(), 'public'), '/scores').map(encodeURI),
+    ],
+  })
+}
@@ -1,17 +1,21 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { useGameStore } from '@/stores'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { useUserScoreStore } from '@/stores/useUserScoreStore'
+import { SCORE_FILE_ACCEPT } from '@/lib/user-scores'
+import { JIANPU_FILE_EXTENSION } from '@/lib/jianpu'
+import { preloadScores } from '@/lib/score-cache'
 import { Language, t } from '@/i18n/translations'
 import { songLibrary, searchSongs } from '@/data/songs/index'
 import { SongMeta } from '@/types'
 import { motion, AnimatePresence } from 'framer-motion'
 import Link from 'next/link'
-import { Music, Star, Clock, Check, Play, Search, X } from 'lucide-react'
+import { Music, Star, Clock, Check, Play, Search, X, Upload, Trash2, Loader2, FileText } from 'lucide-react'
 
 // 难度筛选选项
-type DifficultyFilter = 'all' | 1 | 2 | 3 | 4
+type DifficultyFilter = 'all' | 1 | 2 | 3 | 4 | 5
 
 const difficultyOptions: { value: DifficultyFilter; labelKey: string; stars?: number }[] = [
   { value: 'all', labelKey: 'library.all' },
@@ -19,10 +23,11 @@ const difficultyOptions: { value: DifficultyFilter; labelKey: string; stars?: nu
   { value: 2, labelKey: 'library.elementary', stars: 2 },
   { value: 3, labelKey: 'library.intermediate', stars: 3 },
   { value: 4, labelKey: 'library.advanced', stars: 4 },
+  { value: 5, labelKey: 'library.expert', stars: 5 },
 ]
 
 // 分类筛选选项
-type CategoryFilter = 'all' | 'scale' | 'etude' | 'piece' | 'exam'
+type CategoryFilter = 'all' | 'scale' | 'etude' | 'piece' | 'exam' | 'imported'
 
 const categoryOptions: { value: CategoryFilter; labelKey: string }[] = [
   { value: 'all', labelKey: 'library.all' },
@@ -30,6 +35,7 @@ const categoryOptions: { value: CategoryFilter; labelKey: string }[] = [
   { value: 'etude', labelKey: 'library.category.etude' },
   { value: 'piece', labelKey: 'library.category.piece' },
   { value: 'exam', labelKey: 'library.category.exam' },
+  { value: 'imported', labelKey: 'library.category.imported' },
 ]
 
 // SongCard 组件
@@ -37,10 +43,12 @@ function SongCard({
   song,
   isCompleted,
   language,
+  onDelete,
 }: {
   song: SongMeta
   isCompleted: boolean
   language: Language
+  onDelete?: () => void
 }) {
   const categoryColors: Record<SongMeta['category'], string> = {
     scale: 'bg-blue-100',
@@ -87,14 +95,21 @@ function SongCard({
 
           {/* 曲目信息 */}
           <div className="flex-1 min-w-0">
-            <h3 className="font-bold text-gray-800 truncate">{song.title}</h3>
+            <div className="flex items-center gap-1.5">
+              <h3 className="font-bold text-gray-800 truncate">{song.title}</h3>
+              {song.importedAt !== undefined && (
+                <span className="flex-shrink-0 text-[10px] font-medium text-secondary-600 bg-secondary-50 px-1.5 py-0.5 rounded">
+                  {t('library.imported', language)}
+                </span>
+              )}
+            </div>
             {song.composer && (
               <p className="text-sm text-gray-500 truncate">{song.composer}</p>
             )}
             <div className="flex items-center gap-3 mt-1.5">
               {/* 难度星级 */}
               <div className="flex gap-0.5">
-                {Array.from({ length: 4 }).map((_, i) => (
+                {Array.from({ length: 5 }).map((_, i) => (
                   <Star
                     key={i}
                     className={`w-3 h-3 ${
@@ -118,8 +133,24 @@ function SongCard({
             <span className="text-xs font-bold text-primary-600 bg-primary-50 px-2 py-0.5 rounded-full">
               +{song.xpReward} XP
             </span>
-            <div className="w-9 h-9 bg-gradient-primary rounded-full flex items-center justify-center shadow-sm">
-              <Play className="w-4 h-4 text-white" fill="white" />
+            <div className="flex items-center gap-2">
+              {/* 删除导入的曲目 */}
+              {onDelete && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    onDelete()
+                  }}
+                  className="w-9 h-9 rounded-full flex items-center justify-center text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                  aria-label={t('library.deleteImported', language)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+              <div className="w-9 h-9 bg-gradient-primary rounded-full flex items-center justify-center shadow-sm">
+                <Play className="w-4 h-4 text-white" fill="white" />
+              </div>
             </div>
           </div>
         </div>
@@ -131,6 +162,27 @@ function SongCard({
 export default function LibraryPage() {
   const { completedSongs } = useGameStore()
   const { language } = useLanguageStore()
+  const { scores: userScores, loadScores, importScore, removeScore } = useUserScoreStore()
+
+  // 导入状态
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  // 粘贴简谱
+  const [showJianpu, setShowJianpu] = useState(false)
+  const [jianpuText, setJianpuText] = useState('')
+  const [jianpuError, setJianpuError] = useState<string | null>(null)
+
+  // 读取本地保存的导入曲目
+  useEffect(() => {
+    loadScores()
+  }, [loadScores])
+
+  // 在后台把内置曲目解析好存入缓存，打开练习时不用再等下载和解析
+  useEffect(() => {
+    preloadScores(songLibrary)
+  }, [])
 
   // 搜索状态
   const [searchQuery, setSearchQuery] = useState('')
@@ -141,11 +193,12 @@ export default function LibraryPage() {
 
   // 筛选曲目
   const filteredSongs = useMemo(() => {
-    let songs = songLibrary
+    // 导入的曲目排在内置曲目前面
+    let songs = [...userScores, ...songLibrary]
 
     // 搜索过滤
     if (searchQuery.trim()) {
-      songs = searchSongs(searchQuery.trim())
+      songs = searchSongs(searchQuery.trim(), songs)
     }
 
     // 难度过滤
@@ -154,33 +207,171 @@ export default function LibraryPage() {
     }
 
     // 分类过滤
-    if (categoryFilter !== 'all') {
+    if (categoryFilter === 'imported') {
+      songs = songs.filter((song) => song.importedAt !== undefined)
+    } else if (categoryFilter !== 'all') {
       songs = songs.filter((song) => song.category === categoryFilter)
     }
 
     return songs
-  }, [searchQuery, difficultyFilter, categoryFilter])
+  }, [userScores, searchQuery, difficultyFilter, categoryFilter])
 
   // 统计
   const stats = useMemo(() => {
-    const total = songLibrary.length
+    const total = songLibrary.length + userScores.length
     const completed = completedSongs.length
     return { total, completed }
-  }, [completedSongs])
+  }, [completedSongs, userScores])
+
+  // 导入乐谱文件
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setIsImporting(true)
+    setImportError(null)
+    const failed: string[] = []
+    for (const file of files) {
+      try {
+        await importScore(file)
+      } catch (error) {
+        console.error('Failed to import score:', file.name, error)
+        failed.push(file.name)
+      }
+    }
+    setIsImporting(false)
+
+    if (failed.length > 0) {
+      setImportError(t('library.importFailed', language, { files: failed.join(', ') }))
+    } else {
+      setCategoryFilter('imported')
+    }
+  }
+
+  // 导入粘贴的简谱文本（和文件一样保存，标题由「标题:」行给出）
+  const handleImportJianpu = async () => {
+    if (!jianpuText.trim()) return
+
+    setIsImporting(true)
+    setJianpuError(null)
+    try {
+      const fileName = `${t('library.jianpu', language)}${JIANPU_FILE_EXTENSION}`
+      await importScore(new File([jianpuText], fileName, { type: 'text/plain' }))
+      setShowJianpu(false)
+      setJianpuText('')
+      setCategoryFilter('imported')
+    } catch (error) {
+      console.error('Failed to import jianpu:', error)
+      setJianpuError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  // 删除导入的曲目
+  const handleDelete = (song: SongMeta) => {
+    if (!window.confirm(t('library.deleteConfirm', language, { title: song.title }))) return
+    removeScore(song.id).catch((error) => console.error('Failed to delete score:', error))
+  }
 
   return (
     <div className="p-4 space-y-4">
       {/* 页面标题 */}
       <motion.div
+        className="flex items-start justify-between gap-3"
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
       >
-        <h1 className="text-2xl font-bold text-gray-800">{t('library.title', language)}</h1>
-        <p className="text-gray-500 text-sm">
-          {t('library.completed', language)} {stats.completed}/{stats.total} {t('library.songs', language)}
-        </p>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">{t('library.title', language)}</h1>
+          <p className="text-gray-500 text-sm">
+            {t('library.completed', language)} {stats.completed}/{stats.total} {t('library.songs', language)}
+          </p>
+        </div>
+
+        {/* 导入乐谱 */}
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowJianpu(!showJianpu)}
+            disabled={isImporting}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60 transition-colors btn-press"
+          >
+            <FileText className="w-4 h-4" />
+            {t('library.pasteJianpu', language)}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60 transition-colors btn-press"
+          >
+            {isImporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            {t(isImporting ? 'library.importing' : 'library.import', language)}
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SCORE_FILE_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={handleImport}
+        />
       </motion.div>
 
+      {/* 导入失败提示 */}
+      {importError && (
+        <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 border border-red-100 text-sm text-red-600">
+          <p className="flex-1">{importError}</p>
+          <button onClick={() => setImportError(null)} className="text-red-400 hover:text-red-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* 粘贴简谱 */}
+      <AnimatePresence>
+        {showJianpu && (
+          <motion.div
+            className="bg-white rounded-2xl p-4 shadow-cute space-y-3"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            <p className="text-xs text-gray-500">{t('library.jianpuHint', language)}</p>
+            <textarea
+              value={jianpuText}
+              onChange={(e) => setJianpuText(e.target.value)}
+              placeholder={'标题: 小蜜蜂\n1=D 2/4 ♩=100\n5_ 3_ 3 | 4_ 2_ 2 | 1_ 2_ 3_ 4_ | 5_ 5_ 5 |'}
+              rows={6}
+              className="w-full p-3 rounded-xl border border-gray-200 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-300"
+            />
+            {jianpuError && (
+              <p className="text-sm text-red-600">{t('library.jianpuFailed', language, { error: jianpuError })}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setShowJianpu(false)}
+                className="px-4 py-2 rounded-xl text-sm font-medium text-gray-600 hover:bg-gray-100"
+              >
+                {t('library.cancel', language)}
+              </button>
+              <button
+                onClick={handleImportJianpu}
+                disabled={isImporting || !jianpuText.trim()}
+                className="px-4 py-2 rounded-xl bg-gradient-primary text-sm font-bold text-white disabled:opacity-60"
+              >
+                {t(isImporting ? 'library.importing' : 'library.import', language)}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* 搜索栏 */}
       <motion.div
         className="relative"
@@ -285,6 +476,7 @@ export default function LibraryPage() {
                   song={song}
                   isCompleted={isCompleted}
                   language={language}
+                  onDelete={song.importedAt !== undefined ? () => handleDelete(song) : undefined}
                 />
               </motion.div>
             )
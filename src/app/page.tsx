@@ -2,12 +2,13 @@
 
 import { useGameStore } from '@/stores'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { useUserScoreStore } from '@/stores/useUserScoreStore'
 import { Language, t } from '@/i18n/translations'
 import { songs, getSongById } from '@/data'
 import { Music, Play, Flame, Star, ChevronRight, Music2, Timer } from 'lucide-react'
 import { motion } from 'framer-motion'
 import Link from 'next/link'
-import { useMemo } from 'react'
+import { useEffect, useMemo } from 'react'
 
 // 根据时间获取问候语
 function getGreeting(lang: Language): { text: string; tip: string } {
@@ -99,6 +100,12 @@ export default function HomePage() {
   } = useGameStore()
 
   const { language } = useLanguageStore()
+  const { scores: userScores, loadScores } = useUserScoreStore()
+
+  // 最近练习中可能有导入的曲目
+  useEffect(() => {
+    loadScores()
+  }, [loadScores])
 
   const greeting = useMemo(() => getGreeting(language), [language])
   const hour = new Date().getHours()
@@ -118,9 +125,9 @@ export default function HomePage() {
     const uniqueSongIds = [...new Set(recentPractice.map((r) => r.songId))]
     return uniqueSongIds
       .slice(0, 3)
-      .map((id) => getSongById(id))
+      .map((id) => getSongById(id) ?? userScores.find((song) => song.id === id))
       .filter(Boolean)
-  }, [recentPractice])
+  }, [recentPractice, userScores])
 
   // 今日目标（3首）
   const dailyGoal = 3
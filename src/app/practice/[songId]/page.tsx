@@ -1,11 +1,13 @@
 'use client'
 
 import { useParams, useRouter } from 'next/navigation'
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { AnimatePresence } from 'framer-motion'
 import { getSongById } from '@/data'
 import { useGameStore } from '@/stores'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { useUserScoreStore, useUserScore } from '@/stores/useUserScoreStore'
+import { t } from '@/i18n/translations'
 import { PracticeMode, PracticeResult } from '@/types/practice'
 import {
   ModeSelector,
@@ -21,15 +23,24 @@ export default function PracticePage() {
   const params = useParams()
   const router = useRouter()
   const songId = params.songId as string
-  const song = getSongById(songId)
+  // 内置曲目或用户导入的曲目
+  const userScore = useUserScore(songId)
+  const song = getSongById(songId) ?? userScore
 
   const { completePractice } = useGameStore()
   const { language } = useLanguageStore()
+  const { isLoaded: userScoresLoaded, loadScores } = useUserScoreStore()
+
+  useEffect(() => {
+    loadScores()
+  }, [loadScores])
 
   // 页面状态
   const [pageState, setPageState] = useState<PageState>('mode-select')
   const [selectedMode, setSelectedMode] = useState<PracticeMode | null>(null)
   const [practiceResult, setPracticeResult] = useState<PracticeResult | null>(null)
+  // 练习的声部（多声部乐谱），未选择时自动选择小提琴声部
+  const [partId, setPartId] = useState<string | undefined>(undefined)
 
   // 选择模式
   const handleSelectMode = useCallback((mode: PracticeMode) => {
@@ -79,6 +90,15 @@ export default function PracticePage() {
     setSelectedMode(null)
   }, [])
 
+  // 导入的曲目还在读取
+  if (!song && !userScoresLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-500">{t('library.loading', language)}</p>
+      </div>
+    )
+  }
+
   // 曲目不存在
   if (!song) {
     return (
@@ -93,6 +113,8 @@ export default function PracticePage() {
     return (
       <ModeSelector
         song={song}
+        partId={partId}
+        onPartChange={setPartId}
         onSelectMode={handleSelectMode}
         onBack={() => router.back()}
       />
@@ -122,6 +144,7 @@ export default function PracticePage() {
         return (
           <LearnMode
             song={song}
+            partId={partId}
             onComplete={handleComplete}
             onBack={handleBack}
           />
@@ -130,6 +153,7 @@ export default function PracticePage() {
         return (
           <FollowMode
             song={song}
+            partId={partId}
             onComplete={handleComplete}
             onBack={handleBack}
           />
@@ -138,6 +162,7 @@ export default function PracticePage() {
         return (
           <AssessMode
             song={song}
+            partId={partId}
             onComplete={handleComplete}
             onBack={handleBack}
           />
@@ -149,6 +174,8 @@ export default function PracticePage() {
   return (
     <ModeSelector
       song={song}
+      partId={partId}
+      onPartChange={setPartId}
       onSelectMode={handleSelectMode}
       onBack={() => router.back()}
     />
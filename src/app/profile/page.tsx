@@ -1,8 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useGameStore, getLevelXPRange } from '@/stores'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { useIntonationStore, useIntonationSessions } from '@/stores/useIntonationStore'
+import { useHistoryStore } from '@/stores/useHistoryStore'
+import { getIntonationReport } from '@/lib/intonation'
+import { getStorageUsage, type StorageUsage } from '@/lib/db'
+import type { IntonationGroup } from '@/lib/intonation'
 import { Language, languageNames, t } from '@/i18n/translations'
 import { songs } from '@/data'
 import { motion, AnimatePresence } from 'framer-motion'
@@ -20,8 +25,17 @@ import {
   Check,
   X,
   Globe,
+  Activity,
+  HardDrive,
 } from 'lucide-react'
 
+// 小提琴的弦 (1=E, 2=A, 3=D, 4=G)
+const stringNames = ['', 'E', 'A', 'D', 'G']
+
+// 音准报告最多显示的按法数，以及持续时漂移超过多少（音分/秒）才提示
+const MAX_INTONATION_FINDINGS = 5
+const DRIFT_HINT = 10
+
 // 可选头像列表
 const avatarEmojis = ['😺', '😸', '😻', '🐱', '🦊', '🐰', '🐻', '🐼', '🐨', '🦁', '🐯', '🐮']
 
@@ -241,6 +255,93 @@ function LanguagePicker({
   )
 }
 
+// 音准报告：经常偏高 / 偏低的按法，以及最近练习的平均偏差趋势
+function IntonationReportCard({ lang }: { lang: Language }) {
+  const sessions = useIntonationSessions()
+  const report = useMemo(() => getIntonationReport(sessions), [sessions])
+  const maxTrend = Math.max(10, ...report.trend.map((point) => point.meanAbs))
+
+  const fingeringLabel = (group: IntonationGroup) => {
+    const string = stringNames[group.string ?? 0] ?? ''
+    return group.finger === 0
+      ? t('profile.intonationOpenString', lang, { string })
+      : t('profile.intonationFinger', lang, { string, finger: group.finger ?? '' })
+  }
+
+  return (
+    <motion.div
+      className="bg-white rounded-2xl p-4 shadow-cute"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-bold text-gray-800 flex items-center gap-2">
+          <Activity className="w-5 h-5 text-primary-500" />
+          {t('profile.intonation', lang)}
+        </h2>
+        {sessions.length > 0 && (
+          <span className="text-xs text-gray-500">{t('profile.intonationSessions', lang, { count: sessions.length })}</span>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-400">{t('profile.intonationEmpty', lang)}</p>
+      ) : (
+        <>
+          {report.findings.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">{t('profile.intonationBalanced', lang)}</p>
+          ) : (
+            <div className="space-y-2 mb-3">
+              {report.findings.slice(0, MAX_INTONATION_FINDINGS).map((group) => (
+                <div key={group.key} className="flex items-center justify-between bg-gray-50 rounded-xl px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700">{fingeringLabel(group)}</p>
+                    <p className="text-xs text-gray-400">
+                      {t('profile.intonationCount', lang, { notes: group.notes, sessions: group.sessions })}
+                      {Math.abs(group.drift) >= DRIFT_HINT &&
+                        ` · ${t(group.drift < 0 ? 'profile.intonationDriftDown' : 'profile.intonationDriftUp', lang)}`}
+                    </p>
+                  </div>
+                  <span className={`text-sm font-bold ${group.mean < 0 ? 'text-blue-500' : 'text-red-500'}`}>
+                    {t(group.mean < 0 ? 'profile.intonationFlat' : 'profile.intonationSharp', lang, {
+                      cents: Math.round(Math.abs(group.mean)),
+                    })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* 趋势：每次练习的平均偏差（越低越准） */}
+          {report.trend.length > 1 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">{t('profile.intonationTrend', lang)}</p>
+              <div className="flex items-end gap-1 h-12">
+                {report.trend.map((point) => (
+                  <div
+                    key={point.timestamp}
+                    className="flex-1 bg-primary-200 rounded-t"
+                    style={{ height: `${Math.max(4, (point.meanAbs / maxTrend) * 100)}%` }}
+                    title={`${point.meanAbs}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </motion.div>
+  )
+}
+
+// 存储空间大小（KB / MB / GB）
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+}
+
 export default function ProfilePage() {
   const {
     xp,
@@ -270,6 +371,12 @@ export default function ProfilePage() {
     initLanguage()
   }, [initLanguage])
 
+  // 本地存储空间
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null)
+  useEffect(() => {
+    getStorageUsage().then(setStorageUsage)
+  }, [])
+
   // XP进度
   const { min: currentLevelXp, max: nextLevelXp } = getLevelXPRange(level)
   const xpProgress = ((xp - currentLevelXp) / (nextLevelXp - currentLevelXp)) * 100
@@ -296,6 +403,8 @@ export default function ProfilePage() {
 
   const handleResetProgress = () => {
     resetAllProgress()
+    useIntonationStore.getState().clearSessions()
+    useHistoryStore.getState().clearHistory()
     setShowResetConfirm(false)
   }
 
@@ -353,7 +462,11 @@ export default function ProfilePage() {
               </div>
             ) : (
               <button
-                onClick={() => setIsEditingName(true)}
+                onClick={() => {
+                  // 数据从本地数据库异步读取，打开编辑时再取当前昵称
+                  setTempNickname(nickname)
+                  setIsEditingName(true)
+                }}
                 className="flex items-center gap-2 mb-1"
               >
                 <h1 className="text-xl font-bold">{nickname}</h1>
@@ -478,6 +591,9 @@ export default function ProfilePage() {
         </div>
       </motion.div>
 
+      {/* 音准报告 */}
+      <IntonationReportCard lang={language} />
+
       {/* 设置 */}
       <motion.div
         className="bg-white rounded-2xl shadow-cute overflow-hidden"
@@ -500,6 +616,24 @@ export default function ProfilePage() {
           <ChevronRight className="w-5 h-5 text-gray-400" />
         </button>
 
+        {/* 存储空间 */}
+        {storageUsage && (
+          <div className="w-full flex items-center gap-4 px-4 py-3 border-b border-gray-100">
+            <div className="w-9 h-9 bg-amber-100 rounded-lg flex items-center justify-center text-amber-500">
+              <HardDrive className="w-5 h-5" />
+            </div>
+            <div className="flex-1">
+              <span className="text-gray-700">{t('profile.storage', language)}</span>
+              <p className="text-xs text-gray-400">
+                {t('profile.storageUsage', language, {
+                  used: formatBytes(storageUsage.usage),
+                  quota: formatBytes(storageUsage.quota),
+                })}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* 重置进度 */}
         <button
           onClick={() => setShowResetConfirm(true)}
@@ -1,7 +1,10 @@
 'use client'
 
+import { Loader2 } from 'lucide-react'
 import { StatusBar } from './StatusBar'
 import { BottomNav } from './BottomNav'
+import { UpdatePrompt } from './UpdatePrompt'
+import { usePersistHydrated } from '@/hooks/usePersistHydrated'
 
 interface AppShellProps {
   children: React.ReactNode
@@ -14,12 +17,15 @@ export function AppShell({
   hideStatusBar = false,
   hideBottomNav = false,
 }: AppShellProps) {
+  // 等数据（XP、历史记录、标注等）从本地数据库读出后再显示，避免先显示默认值、写入被覆盖
+  const hydrated = usePersistHydrated()
+
   return (
     <div className="min-h-screen bg-background">
       {/* 移动端容器 */}
       <div className="max-w-[430px] mx-auto min-h-screen bg-white shadow-xl relative">
         {/* 顶部状态栏 */}
-        {!hideStatusBar && <StatusBar />}
+        {!hideStatusBar && hydrated && <StatusBar />}
 
         {/* 主内容区域 */}
         <main
@@ -29,11 +35,21 @@ export function AppShell({
             min-h-screen
           `}
         >
-          {children}
+          {hydrated ? (
+            children
+          ) : (
+            // 服务端渲染和读取本地数据期间显示加载中，而不是空白页
+            <div className="flex items-center justify-center py-24">
+              <Loader2 className="w-8 h-8 text-primary-400 animate-spin" />
+            </div>
+          )}
         </main>
 
         {/* 底部导航 */}
         {!hideBottomNav && <BottomNav />}
+
+        {/* 新版本提示 */}
+        <UpdatePrompt />
       </div>
     </div>
   )
@@ -0,0 +1,52 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { RefreshCw } from 'lucide-react'
+import { useLanguageStore } from '@/stores/useLanguageStore'
+import { t } from '@/i18n/translations'
+import { activateUpdate, registerServiceWorker } from '@/lib/service-worker'
+
+/**
+ * 注册 service worker；新版本下载完成后提示刷新
+ */
+export function UpdatePrompt() {
+  const { language } = useLanguageStore()
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    registerServiceWorker(setWaitingWorker).catch((error) => {
+      console.warn('Service worker registration failed:', error)
+    })
+  }, [])
+
+  return (
+    <AnimatePresence>
+      {waitingWorker && (
+        <motion.div
+          className="fixed bottom-24 left-0 right-0 z-50 px-4"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+        >
+          <div className="max-w-[398px] mx-auto bg-gray-900 text-white rounded-2xl shadow-lg px-4 py-3 flex items-center gap-3">
+            <RefreshCw className="w-5 h-5 shrink-0 text-primary-300" />
+            <p className="flex-1 text-sm">{t('app.updateAvailable', language)}</p>
+            <button
+              onClick={() => setWaitingWorker(null)}
+              className="text-sm text-white/60"
+            >
+              {t('app.updateLater', language)}
+            </button>
+            <button
+              onClick={() => activateUpdate(waitingWorker)}
+              className="px-3 py-1.5 rounded-full bg-primary-500 text-sm font-medium"
+            >
+              {t('app.updateReload', language)}
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
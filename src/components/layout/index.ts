@@ -1,3 +1,4 @@
 export { StatusBar } from './StatusBar'
 export { BottomNav } from './BottomNav'
 export { AppShell } from './AppShell'
+export { UpdatePrompt } from './UpdatePrompt'
@@ -19,48 +19,50 @@ import {
   AlertCircle,
 } from 'lucide-react'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { getAnnotationKey, getNoteAnnotations, useNoteAnnotations } from '@/stores/useAnnotationStore'
+import { useHistoryStore } from '@/stores/useHistoryStore'
 import { t } from '@/i18n/translations'
 import { initAudio } from '@/lib/audio'
-import { usePitchDetection } from '@/hooks'
+import { usePitchDetection, useOnsetDetection, useIntonationRecorder, useMediaRecorder } from '@/hooks'
 import { SheetMusicDisplay } from '@/components/sheet'
-import { loadMusicXML, addDefaultFingerings } from '@/lib/musicxml-parser'
+import { addDefaultFingerings, getSoundingPitches } from '@/lib/musicxml-parser'
+import { getScore } from '@/lib/score-cache'
+import { expandPerformance, getWrittenNoteIndex } from '@/lib/performance-order'
+import { createTempoMap, beatToSeconds, beatSpanToSeconds } from '@/lib/tempo-map'
+import { alignOnsets, getRhythmScore, getTimingTolerance } from '@/lib/onset-detection'
+import { createScoreFollower } from '@/lib/score-follower'
+import { saveRecording } from '@/lib/recording-db'
+import type { NoteAlignment, ScoreFollower } from '@/lib/score-follower'
 import AIChatPage from '@/app/ai-chat/page'
 import type { AssessModeProps } from '@/types'
-import type { ParsedNote, ParsedSong } from '@/types'
+import type {
+  AssessStyle,
+  AssessmentData,
+  AssessmentDimensions,
+  NoteError,
+  ParsedNote,
+  ParsedSong,
+  PitchPoint,
+  RecordedNote,
+  RecordedTake,
+  SessionRecording,
+} from '@/types'
 
 // 评测状态
 type AssessState = 'ready' | 'recording' | 'finished'
 
-// 错误类型
-interface NoteError {
-  noteIndex: number
-  expected: string
-  actual: string
-  type: 'pitch' | 'rhythm' | 'missed'
-  timestamp: number
-}
+// 可选的评测速度（相对乐谱速度）
+const ASSESS_SPEEDS = [0.5, 0.75, 1] as const
 
-// 评测维度得分
-interface AssessmentDimensions {
-  pitch: number      // 音准得分
-  rhythm: number     // 节奏得分
-  tempo: number      // 速度稳定性
-  fluency: number    // 流畅度
-  completeness: number // 完整性
-}
+// 音高需要持续正确的最短时间（毫秒）；短音符按时值缩短确认时间，以便跟上乐谱速度
+const MIN_CORRECT_TIME = 80
 
-// 评测详细数据
-interface AssessmentData {
-  songId: string
-  duration: number
-  score: number
-  dimensions: AssessmentDimensions
-  errors: NoteError[]
-  timestamp: Date
-  totalNotes: number
-  correctNotes: number
-  maxCombo: number
-}
+// 录音上的音高曲线最密的间隔（毫秒）
+const PITCH_CURVE_INTERVAL = 20
+
+// 自由演奏：乐谱跟随的采样间隔，以及拉到最后一个音后静音多久自动结束（毫秒）
+const FOLLOW_INTERVAL = 30
+const FOLLOW_END_SILENCE = 1500
 
 // 格式化时间
 function formatTime(ms: number): string {
@@ -70,6 +72,58 @@ function formatTime(ms: number): string {
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
 }
 
+// 自由演奏的对齐结果整理成评测数据（时间为 Date.now() 时间戳）
+function summarizeAlignment(alignment: NoteAlignment[], notes: { pitch: string }[]) {
+  const errors: NoteError[] = []
+  const completed = new Set<number>()
+  const wrong = new Set<number>()
+  const takeNotes: RecordedNote[] = []
+  let combo = 0
+  let maxCombo = 0
+
+  alignment.forEach((result, i) => {
+    if (result.status === 'correct') {
+      completed.add(i)
+      combo++
+      maxCombo = Math.max(maxCombo, combo)
+    } else {
+      wrong.add(i)
+      combo = 0
+      errors.push({
+        noteIndex: i,
+        expected: notes[i].pitch,
+        actual: result.played ?? 'missed',
+        type: result.status === 'wrong' ? 'pitch' : 'missed',
+        timestamp: result.onset ?? 0,
+      })
+    }
+    if (result.onset !== null && result.played) {
+      takeNotes.push({ noteIndex: i, pitch: result.played, time: result.onset, duration: 0 })
+    }
+  })
+  takeNotes.sort((a, b) => a.time - b.time)
+
+  return { errors, completed, wrong, takeNotes, maxCombo, correctNotes: completed.size }
+}
+
+/**
+ * 演奏者自己的速度：起音时间对乐谱时间做最小二乘拟合，返回比例（演奏时间 / 乐谱时间）
+ */
+function fitTempoScale(expected: number[], onsets: (number | null)[]): number {
+  const points = expected.flatMap((time, i) => (onsets[i] === null ? [] : [[time, onsets[i] as number]]))
+  if (points.length < 2) return 1
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length
+  let covariance = 0
+  let variance = 0
+  for (const [x, y] of points) {
+    covariance += (x - meanX) * (y - meanY)
+    variance += (x - meanX) * (x - meanX)
+  }
+  const scale = variance > 0 ? covariance / variance : 1
+  return scale > 0 ? scale : 1
+}
+
 // 计算维度得分
 function calculateDimensions(
   correctNotes: number,
@@ -77,16 +131,13 @@ function calculateDimensions(
   errors: NoteError[],
   duration: number,
   expectedDuration: number,
-  maxCombo: number
+  maxCombo: number,
+  rhythm: number // 节奏得分：由起音与节拍的偏差得出（getRhythmScore）
 ): AssessmentDimensions {
   // 音准得分：正确音符 / 总音符
   const pitchErrors = errors.filter(e => e.type === 'pitch').length
   const pitch = Math.max(0, Math.round(((totalNotes - pitchErrors) / totalNotes) * 100))
 
-  // 节奏得分：基于节奏错误
-  const rhythmErrors = errors.filter(e => e.type === 'rhythm').length
-  const rhythm = Math.max(0, Math.round(((totalNotes - rhythmErrors) / totalNotes) * 100))
-
   // 速度稳定性：实际时长与预期时长的接近程度
   const tempoRatio = duration / (expectedDuration * 1000)
   const tempo = Math.max(0, Math.round((1 - Math.abs(1 - tempoRatio)) * 100))
@@ -101,7 +152,7 @@ function calculateDimensions(
   return { pitch, rhythm, tempo, fluency, completeness }
 }
 
-export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
+export function AssessMode({ song, partId, onComplete, onBack }: AssessModeProps) {
   const { language } = useLanguageStore()
 
   // 解析后的音符和歌曲信息
@@ -121,9 +172,18 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
   const [elapsedTime, setElapsedTime] = useState(0)
   const [errors, setErrors] = useState<NoteError[]>([])
 
-  // 节奏检测
-  const [noteStartTime, setNoteStartTime] = useState<number | null>(null)
-  const lastNoteTimeRef = useRef<number>(0)
+  // 评测速度（相对乐谱速度），节奏按这个速度评判
+  const [speed, setSpeed] = useState<number>(1)
+
+  // 每次评测的结果存入历史记录
+  const addAttempt = useHistoryStore((state) => state.addAttempt)
+
+  // 评测方式；自由演奏时由乐谱跟随器确定当前位置
+  const [assessStyle, setAssessStyle] = useState<AssessStyle>('strict')
+  const followerRef = useRef<ScoreFollower | null>(null)
+
+  // 录下的演奏（时间为 Date.now() 时间戳，结束时换算为相对时间）
+  const takeNotesRef = useRef<RecordedNote[]>([])
 
   // AI 聊天弹窗状态
   const [showAIChat, setShowAIChat] = useState(false)
@@ -140,12 +200,43 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     startListening,
     stopListening,
     setTargetNote,
+    stream,
+    takeIntonationSamples,
   } = usePitchDetection()
 
+  // 音准记录（每个音符的音分偏差，结束时存入音准报告）
+  const {
+    setNote: setIntonationNote,
+    reset: resetIntonation,
+    save: saveIntonation,
+  } = useIntonationRecorder(takeIntonationSamples)
+
+  // 起音检测（与音高检测共用麦克风），用于评判节奏
+  const { getOnsets, clearOnsets } = useOnsetDetection(stream)
+
+  // 录音（与音高检测共用麦克风）和录音期间的音高曲线（Date.now() 时间戳）
+  const { start: startRecording, stop: stopRecording } = useMediaRecorder()
+  const pitchCurveRef = useRef<PitchPoint[]>([])
+
+  useEffect(() => {
+    if (assessState === 'recording' && stream) startRecording(stream)
+  }, [assessState, stream, startRecording])
+
+  useEffect(() => {
+    if (assessState !== 'recording') return
+    const now = Date.now()
+    const curve = pitchCurveRef.current
+    const last = curve[curve.length - 1]
+    if (!last || now - last.time >= PITCH_CURVE_INTERVAL || (last.frequency === null) !== (frequency === null)) {
+      curve.push({ time: now, frequency })
+    }
+  }, [assessState, frequency])
+
   // 计时器和检测定时器
   const timerRef = useRef<NodeJS.Timeout | null>(null)
   const correctTimerRef = useRef<NodeJS.Timeout | null>(null)
   const REQUIRED_CORRECT_TIME = 300 // 需要持续正确的时间（毫秒）
+  const PIZZICATO_CORRECT_TIME = 120 // 拨弦音衰减很快，只需要短暂正确
 
   // 初始化音频
   useEffect(() => {
@@ -164,9 +255,10 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     const loadSong = async () => {
       try {
         setIsLoading(true)
-        const parsed = await loadMusicXML(musicXmlUrl)
-        const withFingerings = addDefaultFingerings(parsed)
-        setParsedSong(withFingerings)
+        const parsed = await getScore(song.id, musicXmlUrl, { partId })
+        const withFingerings = addDefaultFingerings(parsed, await getNoteAnnotations(getAnnotationKey(song.id, parsed.partId)))
+        // 按实际演奏顺序（反复、跳房子、D.C./D.S.）展开
+        setParsedSong(expandPerformance(withFingerings))
         setLoadError(null)
       } catch (err) {
         console.error('Load MusicXML error:', err)
@@ -177,7 +269,7 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     }
 
     loadSong()
-  }, [song])
+  }, [song, partId])
 
   // 获取当前使用的音符数组
   const notes = useMemo(() => {
@@ -186,16 +278,40 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     return []
   }, [parsedSong, song.notes])
 
+  // 速度图（拍 ↔ 秒）
+  const tempoMap = useMemo(() => (parsedSong ? createTempoMap(parsedSong) : null), [parsedSong])
+
+  // 用户标注的指法 / 弓向（绘制在乐谱上）
+  const annotations = useNoteAnnotations(parsedSong ? getAnnotationKey(song.id, parsedSong.partId) : null)
+
   const totalNotes = notes.length
 
+  // 每个音符在所选速度下的开始时间和时值（毫秒）
+  const noteTimes = useMemo(() => {
+    let position = 0
+    return notes.map(note => {
+      if (tempoMap && 'startBeat' in note) {
+        return {
+          start: (beatToSeconds(tempoMap, note.startBeat) * 1000) / speed,
+          duration: (beatSpanToSeconds(tempoMap, note.startBeat, note.startBeat + note.duration) * 1000) / speed,
+        }
+      }
+      // 旧数据没有 startBeat：按 120 BPM 依次排列
+      const duration = (note.duration * (60 / 120) * 1000) / speed
+      const start = position
+      position += duration
+      return { start, duration }
+    })
+  }, [notes, tempoMap, speed])
+
   // 更新目标音符
   useEffect(() => {
     if (currentIndex < notes.length) {
       const note = notes[currentIndex]
-      setTargetNote(note.pitch)
-      setNoteStartTime(Date.now())
+      setIntonationNote(currentIndex)
+      setTargetNote(...getSoundingPitches(note))
     }
-  }, [currentIndex, notes, setTargetNote])
+  }, [currentIndex, notes, setTargetNote, setIntonationNote])
 
   // 计时
   useEffect(() => {
@@ -213,7 +329,7 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
   }, [assessState, startTime])
 
   // 处理音符完成
-  const handleNoteComplete = useCallback((correct: boolean) => {
+  const handleNoteComplete = useCallback((correct: boolean, onsetTime?: number) => {
     if (currentIndex >= notes.length) return
 
     const now = Date.now()
@@ -223,22 +339,12 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
       // 正确音符
       setCompletedIndices(prev => new Set(prev).add(currentIndex))
       setCorrectNotes(prev => prev + 1)
-
-      // 检查节奏（是否在合理时间内）
-      const timeSinceLastNote = now - lastNoteTimeRef.current
-      const expectedDuration = currentNote.duration * (60 / (parsedSong?.tempo || 120)) * 1000
-      const rhythmTolerance = expectedDuration * 0.5 // 50% 容差
-
-      if (lastNoteTimeRef.current > 0 && Math.abs(timeSinceLastNote - expectedDuration) > rhythmTolerance) {
-        // 节奏错误
-        setErrors(prev => [...prev, {
-          noteIndex: currentIndex,
-          expected: currentNote.pitch,
-          actual: currentPitch || '',
-          type: 'rhythm',
-          timestamp: now,
-        }])
-      }
+      takeNotesRef.current.push({
+        noteIndex: currentIndex,
+        pitch: currentPitch || currentNote.pitch,
+        time: onsetTime ?? now,
+        duration: 0,
+      })
 
       // 更新连击
       const newCombo = currentCombo + 1
@@ -260,25 +366,26 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
       }])
     }
 
-    lastNoteTimeRef.current = now
+    // 下一个音符；最后一个音之后由下面的 effect 结束评测
+    setCurrentIndex(prev => prev + 1)
+  }, [currentIndex, notes, currentPitch, currentCombo, maxCombo])
 
-    // 下一个音符或完成
-    if (currentIndex < notes.length - 1) {
-      setCurrentIndex(prev => prev + 1)
-    } else {
-      finishAssessment()
-    }
-  }, [currentIndex, notes, currentPitch, currentCombo, maxCombo, parsedSong])
-
-  // 音高正确时自动确认
+  // 音高正确时自动确认（逐音等待）
   useEffect(() => {
-    if (isListening && isCorrect && assessState === 'recording') {
+    if (isListening && isCorrect && assessState === 'recording' && assessStyle === 'strict') {
       if (!correctTimerRef.current) {
         const startTimeRef = Date.now()
+        const note = notes[currentIndex]
+        const baseTime = note && 'pizzicato' in note && note.pizzicato
+          ? PIZZICATO_CORRECT_TIME
+          : REQUIRED_CORRECT_TIME
+        // 短音符不能要求持续太久，否则跟不上乐谱速度
+        const noteDuration = noteTimes[currentIndex]?.duration ?? Infinity
+        const requiredTime = Math.min(baseTime, Math.max(MIN_CORRECT_TIME, noteDuration * 0.5))
         const checkTimer = () => {
           const elapsed = Date.now() - startTimeRef
-          if (elapsed >= REQUIRED_CORRECT_TIME) {
-            handleNoteComplete(true)
+          if (elapsed >= requiredTime) {
+            handleNoteComplete(true, startTimeRef)
             correctTimerRef.current = null
           } else {
             correctTimerRef.current = setTimeout(checkTimer, 50)
@@ -298,7 +405,7 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
         clearTimeout(correctTimerRef.current)
       }
     }
-  }, [isListening, isCorrect, assessState, handleNoteComplete])
+  }, [isListening, isCorrect, assessState, assessStyle, handleNoteComplete, notes, noteTimes, currentIndex])
 
   // 开始评测
   const startAssessment = useCallback(async () => {
@@ -312,12 +419,17 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     setMaxCombo(0)
     setElapsedTime(0)
     setErrors([])
-    lastNoteTimeRef.current = 0
+    takeNotesRef.current = []
+    pitchCurveRef.current = []
+    followerRef.current = assessStyle === 'free' ? createScoreFollower(notes) : null
+    clearOnsets()
+    resetIntonation()
+    setIntonationNote(0)
     await startListening()
-  }, [startListening])
+  }, [startListening, clearOnsets, resetIntonation, setIntonationNote, assessStyle, notes])
 
   // 结束评测
-  const finishAssessment = useCallback(() => {
+  const finishAssessment = useCallback(async () => {
     stopListening()
     setAssessState('finished')
 
@@ -325,17 +437,59 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
       clearInterval(timerRef.current)
     }
 
-    const duration = startTime ? Date.now() - startTime : 0
-    const expectedDuration = song.duration || 60
+    const now = Date.now()
+    const duration = startTime ? now - startTime : 0
+    saveIntonation(song.id, notes)
+
+    // 自由演奏：乐谱跟随器回溯得到每个音符的结果，替换实时统计
+    let finalCorrect = correctNotes
+    let finalCombo = maxCombo
+    let finalErrors = errors
+    if (followerRef.current) {
+      const summary = summarizeAlignment(followerRef.current.finish(now), notes)
+      followerRef.current = null
+      finalCorrect = summary.correctNotes
+      finalCombo = summary.maxCombo
+      finalErrors = summary.errors
+      takeNotesRef.current = summary.takeNotes
+      setCorrectNotes(summary.correctNotes)
+      setMaxCombo(summary.maxCombo)
+      setErrors(summary.errors)
+      setCompletedIndices(summary.completed)
+      setErrorIndices(summary.wrong)
+    }
+
+    // 节奏：把检测到的起音对齐到节拍网格（自由演奏时按演奏者自己的速度）
+    const confirmed: (number | null)[] = notes.map(() => null)
+    takeNotesRef.current.forEach(recorded => { confirmed[recorded.noteIndex] = recorded.time })
+    const tempoScale = assessStyle === 'free' ? fitTempoScale(noteTimes.map(time => time.start), confirmed) : 1
+    const scaledTimes = noteTimes.map(time => ({ start: time.start * tempoScale, duration: time.duration * tempoScale }))
+    const expectedDuration = ((song.duration || 60) / speed) * tempoScale
+    const timings = alignOnsets(scaledTimes.map(time => time.start), getOnsets(), confirmed)
+    const tolerances = scaledTimes.map(time => getTimingTolerance(time.duration))
+    const rhythmErrors: NoteError[] = timings.flatMap((timing, i) =>
+      timing.offset !== null && timing.onset !== null && Math.abs(timing.offset) > tolerances[i]
+        ? [{
+          noteIndex: i,
+          expected: notes[i].pitch,
+          actual: notes[i].pitch,
+          type: 'rhythm' as const,
+          timestamp: timing.onset,
+          offset: timing.offset,
+        }]
+        : []
+    )
+    const allErrors = [...finalErrors, ...rhythmErrors]
 
     // 计算维度得分
     const dimensions = calculateDimensions(
-      correctNotes,
+      finalCorrect,
       totalNotes,
-      errors,
+      allErrors,
       duration,
       expectedDuration,
-      maxCombo
+      finalCombo,
+      getRhythmScore(timings, tolerances)
     )
 
     // 综合得分（各维度加权平均）
@@ -353,35 +507,154 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     else if (score >= 60) stars = 1
 
     // 评测模式给更多XP
-    const xpEarned = Math.round(score * 0.8) + (stars * 20) + (maxCombo >= 10 ? 15 : maxCombo >= 5 ? 10 : 0)
+    const xpEarned = Math.round(score * 0.8) + (stars * 20) + (finalCombo >= 10 ? 15 : finalCombo >= 5 ? 10 : 0)
 
     // 保存评测数据
     const assessmentData: AssessmentData = {
+      id: `${now}-${song.id}`,
       songId: song.id,
+      partId: parsedSong?.partId ?? partId,
+      style: assessStyle,
+      speed,
       duration,
       score,
       dimensions,
-      errors,
-      timestamp: new Date(),
+      errors: allErrors,
+      timestamp: now,
       totalNotes,
-      correctNotes,
-      maxCombo,
+      correctNotes: finalCorrect,
+      maxCombo: finalCombo,
+    }
+    addAttempt(assessmentData)
+
+    // 整理录下的演奏：有起音时以起音为准；每个音持续到下一个音开始，最后一个音按乐谱时值
+    const takeStart = startTime ?? 0
+    const recordedNotes = takeNotesRef.current.map(recorded => {
+      const timing = timings[recorded.noteIndex]
+      return {
+        ...recorded,
+        time: timing?.onset ?? recorded.time,
+        offset: timing?.offset ?? undefined,
+      }
+    })
+    const takeNotes = recordedNotes.map((recorded, i, all) => {
+      const next = all[i + 1]
+      return {
+        ...recorded,
+        time: recorded.time - takeStart,
+        duration: next ? next.time - recorded.time : scaledTimes[recorded.noteIndex].duration,
+      }
+    })
+    const take: RecordedTake = {
+      title: parsedSong?.title ?? song.title,
+      tempo: Math.round(((parsedSong?.tempo ?? 120) * speed) / tempoScale),
+      timeSignature: parsedSong?.timeSignature ?? [4, 4],
+      notes: takeNotes,
     }
 
-    // TODO: 可以保存到 localStorage 或发送到服务器
+    // 录音和评测数据一起保存在本机，错误标在录音的对应时刻
+    const audio = await stopRecording()
+    let recording: SessionRecording | undefined
+    if (audio) {
+      recording = {
+        id: assessmentData.id,
+        songId: song.id,
+        timestamp: audio.startedAt,
+        mimeType: audio.mimeType,
+        audio: audio.blob,
+        duration: audio.duration,
+        pitchCurve: pitchCurveRef.current
+          .filter((point) => point.time >= audio.startedAt)
+          .map((point) => ({ time: point.time - audio.startedAt, frequency: point.frequency })),
+        markers: allErrors
+          .filter((error) => error.timestamp >= audio.startedAt)
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .map((error) => ({
+            noteIndex: error.noteIndex,
+            expected: error.expected,
+            actual: error.actual,
+            type: error.type,
+            offset: error.offset,
+            time: error.timestamp - audio.startedAt,
+          })),
+        assessment: assessmentData,
+      }
+      saveRecording(recording).catch((err) => console.error('Save recording error:', err))
+    }
 
     onComplete({
       score,
       stars,
       xpEarned,
       totalNotes,
-      completedNotes: correctNotes,
-      skippedNotes: totalNotes - correctNotes,
-      maxCombo,
+      completedNotes: finalCorrect,
+      skippedNotes: totalNotes - finalCorrect,
+      maxCombo: finalCombo,
       duration,
       accuracy: dimensions.pitch,
+      take,
+      recording,
     })
-  }, [song, correctNotes, totalNotes, maxCombo, startTime, errors, stopListening, onComplete])
+  }, [song, parsedSong, notes, noteTimes, speed, assessStyle, correctNotes, totalNotes, maxCombo, startTime, errors, partId, stopListening, getOnsets, saveIntonation, stopRecording, addAttempt, onComplete])
+
+  // 逐音等待：最后一个音的结果提交后再结束，这样统计、历史记录和录音都包含最后一个音
+  useEffect(() => {
+    if (assessState === 'recording' && assessStyle === 'strict' && notes.length > 0 && currentIndex >= notes.length) {
+      finishAssessment()
+    }
+  }, [assessState, assessStyle, notes.length, currentIndex, finishAssessment])
+
+  // 自由演奏：定时把音高送入乐谱跟随器，跟随当前位置；拉到最后一个音后静音一段时间自动结束
+  const frequencyRef = useRef<number | null>(null)
+  const isCorrectRef = useRef(false)
+  useEffect(() => {
+    frequencyRef.current = frequency
+    isCorrectRef.current = isCorrect
+  }, [frequency, isCorrect])
+
+  useEffect(() => {
+    if (assessState !== 'recording' || assessStyle !== 'free' || !isListening) return
+
+    let onsetCount = getOnsets().length
+    let position = -1
+    let sawCorrect = false
+    let silentSince: number | null = null
+    const interval = setInterval(() => {
+      const follower = followerRef.current
+      if (!follower) return
+      const now = Date.now()
+      const onsets = getOnsets().length
+      const nextPosition = follower.push(frequencyRef.current, now, onsets > onsetCount)
+      onsetCount = onsets
+
+      // 实时统计（近似）：离开一个音符时，看刚才是否拉对过
+      if (nextPosition !== position) {
+        if (position >= 0) {
+          const left = position
+          if (sawCorrect) {
+            setCompletedIndices(prev => new Set(prev).add(left))
+            setCorrectNotes(prev => prev + 1)
+            setCurrentCombo(prev => prev + 1)
+          } else {
+            setErrorIndices(prev => new Set(prev).add(left))
+            setCurrentCombo(0)
+          }
+        }
+        position = nextPosition
+        sawCorrect = false
+        if (nextPosition >= 0) setCurrentIndex(nextPosition)
+      }
+      if (isCorrectRef.current) sawCorrect = true
+
+      silentSince = frequencyRef.current === null ? (silentSince ?? now) : null
+      if (position === notes.length - 1 && silentSince !== null && now - silentSince >= FOLLOW_END_SILENCE) {
+        clearInterval(interval)
+        finishAssessment()
+      }
+    }, FOLLOW_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [assessState, assessStyle, isListening, notes.length, getOnsets, finishAssessment])
 
   // 跳过当前音符
   const skipNote = useCallback(() => {
@@ -391,6 +664,7 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
   // 重新开始
   const handleRestart = useCallback(() => {
     stopListening()
+    stopRecording()
     if (timerRef.current) clearInterval(timerRef.current)
     if (correctTimerRef.current) clearTimeout(correctTimerRef.current)
     setAssessState('ready')
@@ -403,7 +677,8 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
     setStartTime(null)
     setElapsedTime(0)
     setErrors([])
-  }, [stopListening])
+    followerRef.current = null
+  }, [stopListening, stopRecording])
 
   // 当前音符
   const currentNote = notes[currentIndex]
@@ -518,6 +793,46 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
                   ))}
                 </div>
               </div>
+              {/* 评测方式 */}
+              <div className="flex bg-white/10 rounded-xl p-1 mb-4">
+                {(['strict', 'free'] as const).map((style) => (
+                  <button
+                    key={style}
+                    onClick={() => setAssessStyle(style)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      assessStyle === style ? 'bg-white text-purple-600' : 'text-white/80'
+                    }`}
+                  >
+                    {t(style === 'strict' ? 'practice.assessStrict' : 'practice.assessFree', language)}
+                  </button>
+                ))}
+              </div>
+              {/* 评测速度：节奏按这个速度的节拍评判；自由演奏按演奏者自己的速度 */}
+              {assessStyle === 'free' ? (
+                <p className="text-white/60 text-xs mb-6">{t('practice.assessFreeHint', language)}</p>
+              ) : (
+                <div className="mb-6">
+                  <div className="flex items-center justify-center gap-2">
+                    <span className="text-xs text-white/70 mr-1">{t('practice.speed', language)}:</span>
+                    {ASSESS_SPEEDS.map((rate) => (
+                      <button
+                        key={rate}
+                        onClick={() => setSpeed(rate)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                          speed === rate
+                            ? 'bg-white text-purple-600'
+                            : 'bg-white/10 text-white hover:bg-white/20'
+                        }`}
+                      >
+                        {rate}x
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-white/60 text-xs mt-2">
+                    {t('practice.assessSpeedHint', language, { bpm: Math.round((parsedSong?.tempo ?? 120) * speed) })}
+                  </p>
+                </div>
+              )}
               <motion.button
                 onClick={startAssessment}
                 className="w-full py-4 bg-white text-purple-600 rounded-2xl font-bold text-lg shadow-lg flex items-center justify-center gap-2"
@@ -538,7 +853,7 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
             <section className="px-4 py-3 bg-white border-b border-gray-100">
               <div className="mb-2">
                 <div className="flex justify-between text-xs text-gray-500 mb-1">
-                  <span>{currentIndex + 1} / {totalNotes}</span>
+                  <span>{Math.min(currentIndex + 1, totalNotes)} / {totalNotes}</span>
                   <span>{Math.round(progress)}%</span>
                 </div>
                 <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -557,7 +872,9 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
               {musicXmlUrl ? (
                 <SheetMusicDisplay
                   musicXmlUrl={musicXmlUrl}
-                  currentNoteIndex={currentIndex}
+                  partId={partId}
+                  currentNoteIndex={getWrittenNoteIndex(parsedSong, currentIndex)}
+                  annotations={annotations}
                   showCursor={true}
                   zoom={1.0}
                   highlightColor={isCorrect ? '#22C55E' : errorIndices.has(currentIndex) ? '#EF4444' : '#8B5CF6'}
@@ -721,13 +1038,15 @@ export function AssessMode({ song, onComplete, onBack }: AssessModeProps) {
       {assessState === 'recording' && (
         <footer className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-100 px-4 py-4 pb-safe z-40">
           <div className="flex gap-3">
-            <motion.button
-              onClick={skipNote}
-              className="flex-1 py-4 bg-gray-100 rounded-2xl font-bold text-gray-600 flex items-center justify-center gap-2"
-              whileTap={{ scale: 0.98 }}
-            >
-              {t('practice.skip', language)}
-            </motion.button>
+            {assessStyle === 'strict' && (
+              <motion.button
+                onClick={skipNote}
+                className="flex-1 py-4 bg-gray-100 rounded-2xl font-bold text-gray-600 flex items-center justify-center gap-2"
+                whileTap={{ scale: 0.98 }}
+              >
+                {t('practice.skip', language)}
+              </motion.button>
+            )}
 
             <motion.button
               onClick={finishAssessment}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { TrendingUp } from 'lucide-react'
+import { t, Language } from '@/i18n/translations'
+import type { AssessmentData, AssessmentDimensions } from '@/types'
+
+// 图表尺寸（SVG 坐标）
+const CHART_WIDTH = 300
+const CHART_HEIGHT = 120
+const CHART_PADDING = 6
+
+type Series = 'score' | keyof AssessmentDimensions
+
+// 曲线：总分 + 五个维度
+const SERIES: { key: Series; label: string; color: string }[] = [
+  { key: 'score', label: 'assess.totalScore', color: '#7C3AED' },
+  { key: 'pitch', label: 'assess.pitchScore', color: '#EF4444' },
+  { key: 'rhythm', label: 'assess.rhythmScore', color: '#F59E0B' },
+  { key: 'tempo', label: 'assess.tempoScore', color: '#10B981' },
+  { key: 'fluency', label: 'assess.fluencyScore', color: '#3B82F6' },
+  { key: 'completeness', label: 'assess.completenessScore', color: '#EC4899' },
+]
+
+function getValue(attempt: AssessmentData, series: Series): number {
+  return series === 'score' ? attempt.score : attempt.dimensions[series]
+}
+
+interface AssessmentProgressProps {
+  attempts: AssessmentData[] // 同一首曲目的评测，按时间顺序
+  language: Language
+}
+
+/**
+ * 曲目的评测进步曲线：每次评测的总分和各维度得分（0-100），以及第一次到最近一次的变化
+ */
+export function AssessmentProgress({ attempts, language }: AssessmentProgressProps) {
+  const [hidden, setHidden] = useState<Set<Series>>(new Set())
+
+  const toggleSeries = (series: Series) => {
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (next.has(series)) next.delete(series)
+      else next.add(series)
+      return next
+    })
+  }
+
+  const toX = (index: number) => attempts.length > 1
+    ? CHART_PADDING + (index / (attempts.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2)
+    : CHART_WIDTH / 2
+  const toY = (value: number) => CHART_PADDING + (1 - value / 100) * (CHART_HEIGHT - CHART_PADDING * 2)
+
+  const first = attempts[0]
+  const latest = attempts[attempts.length - 1]
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(language)
+
+  return (
+    <div className="bg-white rounded-2xl p-4 shadow-cute">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800 flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-primary-500" />
+          {t('assess.progress', language)}
+        </p>
+        <span className="text-xs text-gray-400">
+          {t('assess.progressAttempts', language, { count: attempts.length })}
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full mt-3" role="img">
+        {/* 网格线：0 / 50 / 100 分 */}
+        {[0, 50, 100].map((value) => (
+          <line
+            key={value}
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={toY(value)}
+            y2={toY(value)}
+            stroke="#F3F4F6"
+            strokeWidth={1}
+          />
+        ))}
+        {SERIES.filter(({ key }) => !hidden.has(key)).map(({ key, color }) => {
+          const points = attempts.map((attempt, i) => `${toX(i)},${toY(getValue(attempt, key))}`)
+          return (
+            <g key={key}>
+              <polyline
+                points={points.join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={key === 'score' ? 2.5 : 1.5}
+                strokeLinejoin="round"
+              />
+              {attempts.map((attempt, i) => (
+                <circle key={attempt.id} cx={toX(i)} cy={toY(getValue(attempt, key))} r={2.5} fill={color} />
+              ))}
+            </g>
+          )
+        })}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{formatDate(first.timestamp)}</span>
+        {attempts.length > 1 && <span>{formatDate(latest.timestamp)}</span>}
+      </div>
+
+      {/* 图例（点击显示 / 隐藏）和第一次到最近一次的变化 */}
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        {SERIES.map(({ key, label, color }) => {
+          const delta = getValue(latest, key) - getValue(first, key)
+          return (
+            <button
+              key={key}
+              onClick={() => toggleSeries(key)}
+              className={`px-2 py-1.5 rounded-xl text-xs text-left bg-gray-50 transition-opacity ${
+                hidden.has(key) ? 'opacity-40' : ''
+              }`}
+            >
+              <span className="flex items-center gap-1.5 text-gray-600">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                {t(label, language)}
+              </span>
+              <span className="font-bold text-gray-800">{getValue(latest, key)}</span>
+              {attempts.length > 1 && delta !== 0 && (
+                <span className={`ml-1 ${delta > 0 ? 'text-green-500' : 'text-red-500'}`}>
+                  {delta > 0 ? `+${delta}` : delta}
+                </span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+
+      {attempts.length === 1 && (
+        <p className="text-xs text-gray-400 mt-2">{t('assess.progressHint', language)}</p>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   ChevronLeft,
@@ -14,13 +14,19 @@ import {
   Loader2,
   MessageCircle,
   X,
+  Piano,
 } from 'lucide-react'
 import { SheetMusicDisplay } from '@/components/sheet'
 import { useAudioPlayer } from '@/hooks/useAudioPlayer'
-import { loadMusicXML, addDefaultFingerings } from '@/lib/musicxml-parser'
+import { addDefaultFingerings, getSoundingPitches } from '@/lib/musicxml-parser'
+import { getScore } from '@/lib/score-cache'
+import { expandPerformance, getWrittenNoteIndex } from '@/lib/performance-order'
+import { createTempoMap, beatToSeconds, beatSpanToSeconds, secondsToBeat, TempoMap } from '@/lib/tempo-map'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { getAnnotationKey, getNoteAnnotations, useNoteAnnotations } from '@/stores/useAnnotationStore'
 import { t } from '@/i18n/translations'
-import { playNote, initAudio } from '@/lib/audio'
+import { playNote, initAudio, getNoteExpression } from '@/lib/audio'
+import { AccompanimentPlayer } from '@/lib/accompaniment'
 import AIChatPage from '@/app/ai-chat/page'
 import type { FollowModeProps } from '@/types'
 import type { ParsedNote, ParsedSong } from '@/types'
@@ -35,19 +41,16 @@ function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
-// 根据当前时间和 tempo 计算当前音符索引
+// 根据当前时间和速度图计算当前音符索引
 function calculateCurrentNoteIndex(
   currentTime: number,
   notes: ParsedNote[],
-  tempo: number
+  tempoMap: TempoMap
 ): number {
   if (notes.length === 0) return -1
 
-  // 每拍的秒数
-  const secondsPerBeat = 60 / tempo
-
   // 当前时间对应的拍数
-  const currentBeat = currentTime / secondsPerBeat
+  const currentBeat = secondsToBeat(tempoMap, currentTime)
 
   // 找到当前应该显示的音符
   for (let i = notes.length - 1; i >= 0; i--) {
@@ -63,15 +66,14 @@ function calculateCurrentNoteIndex(
 function calculateTimeFromNoteIndex(
   noteIndex: number,
   notes: ParsedNote[],
-  tempo: number
+  tempoMap: TempoMap
 ): number {
   if (noteIndex < 0 || noteIndex >= notes.length) return 0
 
-  const secondsPerBeat = 60 / tempo
-  return notes[noteIndex].startBeat * secondsPerBeat
+  return beatToSeconds(tempoMap, notes[noteIndex].startBeat)
 }
 
-export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
+export function FollowMode({ song, partId, onComplete, onBack }: FollowModeProps) {
   const { language } = useLanguageStore()
 
   // 解析后的音符和歌曲信息
@@ -93,6 +95,10 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
   const [isSynthPlaying, setIsSynthPlaying] = useState(false)
   const [synthCurrentTime, setSynthCurrentTime] = useState(0)
 
+  // 伴奏：合成播放时同时播放其他声部；减一模式下不播放小提琴声部
+  const accompanimentRef = useRef<AccompanimentPlayer | null>(null)
+  const [minusOne, setMinusOne] = useState(false)
+
   // 音频播放器
   const audioUrl = (song as { audioUrl?: string }).audioUrl || null
   const {
@@ -116,15 +122,20 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
   const isPlaying = audioUrl ? isRealPlaying : isSynthPlaying
   const currentTime = audioUrl ? realCurrentTime : synthCurrentTime
 
+  // 速度图（拍 ↔ 秒）
+  const tempoMap = useMemo(() => (parsedSong ? createTempoMap(parsedSong) : null), [parsedSong])
+
+  // 用户标注的指法 / 弓向（绘制在乐谱上）
+  const annotations = useNoteAnnotations(parsedSong ? getAnnotationKey(song.id, parsedSong.partId) : null)
+
   // 计算总时长
   const duration = useMemo(() => {
     if (audioUrl && realDuration > 0) return realDuration
-    if (parsedSong) {
-      const secondsPerBeat = 60 / parsedSong.tempo
-      return parsedSong.totalBeats * secondsPerBeat
+    if (parsedSong && tempoMap) {
+      return beatToSeconds(tempoMap, parsedSong.totalBeats)
     }
     return song.duration || 60
-  }, [audioUrl, realDuration, parsedSong, song.duration])
+  }, [audioUrl, realDuration, parsedSong, tempoMap, song.duration])
 
   // 初始化音频
   useEffect(() => {
@@ -143,9 +154,10 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
     const loadSong = async () => {
       try {
         setIsLoading(true)
-        const parsed = await loadMusicXML(musicXmlUrl)
-        const withFingerings = addDefaultFingerings(parsed)
-        setParsedSong(withFingerings)
+        const parsed = await getScore(song.id, musicXmlUrl, { partId })
+        const withFingerings = addDefaultFingerings(parsed, await getNoteAnnotations(getAnnotationKey(song.id, parsed.partId)))
+        // 按实际演奏顺序（反复、跳房子、D.C./D.S.）展开
+        setParsedSong(expandPerformance(withFingerings))
         setLoadError(null)
       } catch (err) {
         console.error('Load MusicXML error:', err)
@@ -156,18 +168,18 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
     }
 
     loadSong()
-  }, [song])
+  }, [song, partId])
 
   // 合成音频播放逻辑
   useEffect(() => {
     if (!isSynthPlaying || audioUrl || !parsedSong) return
 
-    const secondsPerBeat = 60 / (parsedSong.tempo * playbackRate)
     let animationId: number
     let lastTime = performance.now()
 
     const animate = (time: number) => {
-      const delta = (time - lastTime) / 1000
+      // 合成播放的时间轴为乐谱时间，按播放速度推进
+      const delta = ((time - lastTime) / 1000) * playbackRate
       lastTime = time
 
       setSynthCurrentTime((prev) => {
@@ -194,31 +206,53 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
 
   // 播放合成音符
   useEffect(() => {
-    if (!isSynthPlaying || audioUrl || !parsedSong) return
+    if (!isSynthPlaying || audioUrl || !parsedSong || !tempoMap || minusOne) return
 
-    const currentIndex = calculateCurrentNoteIndex(synthCurrentTime, parsedSong.notes, parsedSong.tempo)
+    const currentIndex = calculateCurrentNoteIndex(synthCurrentTime, parsedSong.notes, tempoMap)
     if (currentIndex >= 0 && currentIndex < parsedSong.notes.length) {
       const note = parsedSong.notes[currentIndex]
-      const secondsPerBeat = 60 / parsedSong.tempo
-      const noteDuration = note.duration * secondsPerBeat * 0.9
+      const noteDuration = beatSpanToSeconds(tempoMap, note.startBeat, note.startBeat + note.duration) * 0.9
 
       // 只在音符开始时播放
-      const noteStartTime = note.startBeat * secondsPerBeat
+      const noteStartTime = beatToSeconds(tempoMap, note.startBeat)
       if (Math.abs(synthCurrentTime - noteStartTime) < 0.05) {
-        playNote(note.pitch, noteDuration / playbackRate)
+        playNote(getSoundingPitches(note), noteDuration / playbackRate, getNoteExpression(note))
       }
     }
-  }, [isSynthPlaying, audioUrl, parsedSong, synthCurrentTime, playbackRate])
+  }, [isSynthPlaying, audioUrl, parsedSong, tempoMap, synthCurrentTime, playbackRate, minusOne])
+
+  // 创建伴奏播放器（只用于合成播放，真实音频已包含伴奏）
+  const hasAccompaniment = !audioUrl && (parsedSong?.accompaniment.length ?? 0) > 0
+  useEffect(() => {
+    if (!hasAccompaniment || !parsedSong || !tempoMap) return
+    const player = new AccompanimentPlayer(parsedSong.accompaniment, tempoMap)
+    accompanimentRef.current = player
+    return () => {
+      player.dispose()
+      accompanimentRef.current = null
+    }
+  }, [hasAccompaniment, parsedSong, tempoMap])
+
+  // 伴奏跟随播放时间（变速、A-B 循环、拖动进度都由播放器处理）
+  useEffect(() => {
+    const player = accompanimentRef.current
+    if (!player) return
+    if (isSynthPlaying) {
+      player.update(synthCurrentTime, playbackRate)
+    } else {
+      player.stop()
+    }
+  }, [isSynthPlaying, synthCurrentTime, playbackRate])
 
   // 当前音符索引
   const currentNoteIndex = useMemo(() => {
-    if (!parsedSong) return -1
+    if (!parsedSong || !tempoMap) return -1
     return calculateCurrentNoteIndex(
       currentTime,
       parsedSong.notes,
-      parsedSong.tempo
+      tempoMap
     )
-  }, [currentTime, parsedSong])
+  }, [currentTime, parsedSong, tempoMap])
 
   // 处理播放/暂停
   const handleToggle = useCallback(() => {
@@ -253,7 +287,7 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
   // 跳到上一个/下一个音符
   const skipToNote = useCallback(
     (direction: 'prev' | 'next') => {
-      if (!parsedSong) return
+      if (!parsedSong || !tempoMap) return
 
       const targetIndex =
         direction === 'prev'
@@ -263,7 +297,7 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
       const targetTime = calculateTimeFromNoteIndex(
         targetIndex,
         parsedSong.notes,
-        parsedSong.tempo
+        tempoMap
       )
 
       if (audioUrl) {
@@ -272,7 +306,7 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
         setSynthCurrentTime(targetTime)
       }
     },
-    [parsedSong, currentNoteIndex, audioUrl, seek]
+    [parsedSong, tempoMap, currentNoteIndex, audioUrl, seek]
   )
 
   // A-B 循环控制
@@ -522,7 +556,9 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
           {musicXmlUrl ? (
             <SheetMusicDisplay
               musicXmlUrl={musicXmlUrl}
-              currentNoteIndex={currentNoteIndex}
+              partId={partId}
+              currentNoteIndex={getWrittenNoteIndex(parsedSong, currentNoteIndex)}
+              annotations={annotations}
               showCursor={true}
               zoom={1.0}
             />
@@ -620,7 +656,7 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
         </div>
 
         {/* 循环控制 */}
-        <div className="flex justify-center">
+        <div className="flex justify-center gap-2">
           <button
             onClick={handleLoopToggle}
             className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors ${
@@ -639,6 +675,22 @@ export function FollowMode({ song, onComplete, onBack }: FollowModeProps) {
               </span>
             )}
           </button>
+
+          {/* 减一模式：只播放伴奏 */}
+          {hasAccompaniment && (
+            <button
+              onClick={() => setMinusOne((prev) => !prev)}
+              title={t('practice.minusOneDesc', language)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                minusOne
+                  ? 'bg-green-100 text-green-700'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              <Piano className="w-4 h-4" />
+              {t('practice.minusOne', language)}
+            </button>
+          )}
         </div>
       </footer>
 
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   SkipForward,
@@ -16,16 +16,20 @@ import {
   ArrowDown,
   ArrowLeft,
   Star,
+  PenLine,
 } from 'lucide-react'
 import { Song } from '@/data'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { useAnnotationStore, useNoteAnnotations, getAnnotationKey } from '@/stores/useAnnotationStore'
 import { t } from '@/i18n/translations'
 import { PracticeResult, NotationMode } from '@/types/practice'
 import { ParsedNote, ParsedSong } from '@/types'
-import { playNote, playSuccess, playCombo, playSkip, initAudio } from '@/lib/audio'
-import { usePitchDetection } from '@/hooks'
+import { playNote, playSuccess, playCombo, playSkip, initAudio, getNoteExpression } from '@/lib/audio'
+import { usePitchDetection, useIntonationRecorder } from '@/hooks'
 import { SheetMusicDisplay } from '@/components/sheet'
-import { loadMusicXML } from '@/lib/musicxml-parser'
+import { addDefaultFingerings, getSoundingPitches } from '@/lib/musicxml-parser'
+import { getScore } from '@/lib/score-cache'
+import { createTempoMap, beatSpanToSeconds } from '@/lib/tempo-map'
 import AIChatPage from '@/app/ai-chat/page'
 import {
   StaffDisplay,
@@ -33,17 +37,19 @@ import {
   ViolinFingerboard,
   FeedbackMessage,
   NotationSwitcher,
+  AnnotationEditor,
   stringNames,
   getFingerLabel,
 } from './shared'
 
 interface LearnModeProps {
   song: Song & { musicXmlUrl?: string }
+  partId?: string
   onComplete: (result: Omit<PracticeResult, 'mode' | 'songId'>) => void
   onBack: () => void
 }
 
-export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
+export function LearnMode({ song, partId, onComplete, onBack }: LearnModeProps) {
   const { language } = useLanguageStore()
 
   // 是否使用 MusicXML
@@ -60,10 +66,24 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
   const [startTime] = useState(Date.now())
 
   // MusicXML 解析后的数据
-  const [parsedSong, setParsedSong] = useState<ParsedSong | null>(null)
-  const [parsedNotes, setParsedNotes] = useState<ParsedNote[]>([])
+  const [loadedSong, setLoadedSong] = useState<ParsedSong | null>(null)
+  const [sheetNotes, setSheetNotes] = useState<ParsedNote[]>([])
   const [isLoading, setIsLoading] = useState(useMusicXML)
 
+  // 用户标注的指法 / 弓向，覆盖乐谱和自动指法
+  const [isAnnotating, setIsAnnotating] = useState(false)
+  const annotationKey = loadedSong ? getAnnotationKey(song.id, loadedSong.partId) : null
+  const annotations = useNoteAnnotations(annotationKey)
+  const setNoteAnnotation = useAnnotationStore((state) => state.setNoteAnnotation)
+  const parsedSong = useMemo(
+    () => (loadedSong ? addDefaultFingerings(loadedSong, annotations) : null),
+    [loadedSong, annotations]
+  )
+  const parsedNotes = parsedSong?.notes ?? sheetNotes
+
+  // 速度图（拍 ↔ 秒）
+  const tempoMap = useMemo(() => (parsedSong ? createTempoMap(parsedSong) : null), [parsedSong])
+
   // 乐谱显示模式（仅用于非MusicXML模式）
   const [notationMode, setNotationMode] = useState<NotationMode>('staff')
 
@@ -82,12 +102,17 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
     startListening,
     stopListening,
     setTargetNote,
+    takeIntonationSamples,
   } = usePitchDetection()
 
+  // 音准记录（每个音符的音分偏差，结束时存入音准报告）
+  const { setNote: setIntonationNote, save: saveIntonation } = useIntonationRecorder(takeIntonationSamples)
+
   // 音高检测确认计时器
   const correctTimerRef = useRef<NodeJS.Timeout | null>(null)
   const [correctDuration, setCorrectDuration] = useState(0)
   const REQUIRED_CORRECT_TIME = 500
+  const PIZZICATO_CORRECT_TIME = 150
 
   // 初始化音频
   useEffect(() => {
@@ -98,12 +123,11 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
   useEffect(() => {
     if (useMusicXML && song.musicXmlUrl) {
       setIsLoading(true)
-      loadMusicXML(song.musicXmlUrl)
-        .then((result) => {
-          setParsedSong(result)
-          setParsedNotes(result.notes)
-          if (result.notes.length > 0) {
-            setTargetNote(result.notes[0].pitch)
+      getScore(song.id, song.musicXmlUrl, { partId })
+        .then((parsed) => {
+          setLoadedSong(parsed)
+          if (parsed.notes.length > 0) {
+            setTargetNote(...getSoundingPitches(parsed.notes[0]))
           }
         })
         .catch((error) => {
@@ -113,7 +137,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
           setIsLoading(false)
         })
     }
-  }, [useMusicXML, song.musicXmlUrl, setTargetNote])
+  }, [useMusicXML, song.id, song.musicXmlUrl, partId, setTargetNote])
 
   // 获取当前音符（支持两种数据源）
   const getCurrentNote = useCallback(() => {
@@ -137,18 +161,25 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
     if (currentIndex < totalNotes) {
       const note = getCurrentNote()
       if (note) {
-        setTargetNote(note.pitch)
+        setIntonationNote(currentIndex)
+        setTargetNote(...getSoundingPitches(note))
       }
     }
-  }, [currentIndex, getCurrentNote, getTotalNotes, setTargetNote])
+  }, [currentIndex, getCurrentNote, getTotalNotes, setTargetNote, setIntonationNote])
+
+  // 拨弦音衰减很快，需要持续正确的时间更短
+  const requiredCorrectTime = useMemo(() => {
+    const note = getCurrentNote()
+    return note && 'pizzicato' in note && note.pizzicato ? PIZZICATO_CORRECT_TIME : REQUIRED_CORRECT_TIME
+  }, [getCurrentNote])
 
   // SheetMusicDisplay ready 回调
   const handleSheetReady = useCallback((notes: ParsedNote[]) => {
-    // 如果已经从 loadMusicXML 加载了，可以忽略
+    // 如果已经从 getScore 加载了，可以忽略
     if (parsedNotes.length === 0) {
-      setParsedNotes(notes)
+      setSheetNotes(notes)
       if (notes.length > 0) {
-        setTargetNote(notes[0].pitch)
+        setTargetNote(...getSoundingPitches(notes[0]))
       }
     }
   }, [parsedNotes.length, setTargetNote])
@@ -164,6 +195,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
     else if (score >= 60) stars = 1
 
     const duration = Date.now() - startTime
+    saveIntonation(song.id, useMusicXML && parsedNotes.length > 0 ? parsedNotes : song.notes ?? [])
 
     onComplete({
       score,
@@ -176,7 +208,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
       duration,
       accuracy: score,
     })
-  }, [getTotalNotes, correctCount, skippedCount, maxCombo, startTime, onComplete])
+  }, [getTotalNotes, correctCount, skippedCount, maxCombo, startTime, onComplete, saveIntonation, song.id, song.notes, useMusicXML, parsedNotes])
 
   // 自动完成（音高检测成功）
   const handleAutoComplete = useCallback(() => {
@@ -227,7 +259,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
           const elapsed = Date.now() - startTimeRef
           setCorrectDuration(elapsed)
 
-          if (elapsed >= REQUIRED_CORRECT_TIME) {
+          if (elapsed >= requiredCorrectTime) {
             handleAutoComplete()
           } else {
             correctTimerRef.current = setTimeout(checkTimer, 50)
@@ -248,7 +280,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
         clearTimeout(correctTimerRef.current)
       }
     }
-  }, [isListening, isCorrect, handleAutoComplete])
+  }, [isListening, isCorrect, handleAutoComplete, requiredCorrectTime])
 
   // 手动完成当前音符
   const handleManualComplete = useCallback(() => {
@@ -297,10 +329,17 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
   // 播放当前音符示范
   const handlePlayDemo = useCallback(() => {
     const note = getCurrentNote()
-    if (note) {
+    if (!note) return
+    if (tempoMap && 'startBeat' in note) {
+      playNote(
+        getSoundingPitches(note),
+        beatSpanToSeconds(tempoMap, note.startBeat, note.startBeat + note.duration),
+        getNoteExpression(note)
+      )
+    } else {
       playNote(note.pitch, note.duration || 0.5)
     }
-  }, [getCurrentNote])
+  }, [getCurrentNote, tempoMap])
 
   // 点击乐谱音符
   const handleNoteClick = useCallback((index: number) => {
@@ -355,15 +394,41 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
         {useMusicXML && song.musicXmlUrl && (
           <SheetMusicDisplay
             musicXmlUrl={song.musicXmlUrl}
+            partId={partId}
             currentNoteIndex={currentIndex}
             highlightColor="#8B5CF6"
             zoom={1.0}
             showCursor={true}
             onReady={handleSheetReady}
             onNoteClick={handleNoteClick}
+            annotations={annotations}
           />
         )}
 
+        {/* 指法 / 弓向标注 */}
+        {parsedSong && annotationKey && (
+          isAnnotating && currentNote && 'startBeat' in currentNote ? (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500 text-center">{t('practice.annotateHint', language)}</p>
+              <AnnotationEditor
+                note={currentNote}
+                annotation={annotations[currentNote.index] ?? {}}
+                onChange={(annotation) => setNoteAnnotation(annotationKey, currentNote.index, annotation)}
+                onClose={() => setIsAnnotating(false)}
+                language={language}
+              />
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsAnnotating(true)}
+              className="w-full py-2 bg-white rounded-xl shadow-cute text-sm font-medium text-primary-600 flex items-center justify-center gap-1.5"
+            >
+              <PenLine className="w-4 h-4" />
+              {t('practice.annotate', language)}
+            </button>
+          )
+        )}
+
         {/* 乐谱显示 - 传统模式 */}
         {!useMusicXML && (
           <>
@@ -442,6 +507,55 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
                     </span>
                   </div>
                 )}
+                {/* 力度、奏法与特殊技巧 */}
+                {'startBeat' in currentNote && (
+                  currentNote.dynamic || currentNote.hairpin || currentNote.articulations
+                  || currentNote.pizzicato || currentNote.harmonic || currentNote.chordPitches
+                ) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {currentNote.pizzicato && (
+                      <span className="bg-white/20 px-3 py-1.5 rounded-full font-bold">
+                        {t('practice.pizzicato', language)}
+                      </span>
+                    )}
+                    {currentNote.harmonic && (
+                      <span className="bg-white/20 px-3 py-1.5 rounded-full font-bold">
+                        ◇ {t(`practice.harmonic.${currentNote.harmonic}`, language)}
+                        {currentNote.soundingPitch && currentNote.soundingPitch !== currentNote.pitch && (
+                          <span className="text-white/70 font-normal">
+                            {' '}{t('practice.soundingPitch', language, { pitch: currentNote.soundingPitch })}
+                          </span>
+                        )}
+                      </span>
+                    )}
+                    {currentNote.chordPitches && (
+                      <span className="bg-white/20 px-3 py-1.5 rounded-full font-bold">
+                        {t('practice.doubleStop', language)}{' '}
+                        <span className="text-white/70 font-normal">
+                          {[currentNote.pitch, ...currentNote.chordPitches.map((chordPitch) => chordPitch.pitch)].join(' + ')}
+                        </span>
+                      </span>
+                    )}
+                    {currentNote.dynamic && (
+                      <span
+                        className="bg-white/20 px-3 py-1.5 rounded-full font-bold"
+                        title={t(`practice.dynamic.${currentNote.dynamic}`, language)}
+                      >
+                        <span className="font-serif italic">{currentNote.dynamic}</span>
+                      </span>
+                    )}
+                    {currentNote.hairpin && (
+                      <span className="bg-white/20 px-3 py-1.5 rounded-full font-bold">
+                        {currentNote.hairpin === 'crescendo' ? '<' : '>'} {t(`practice.${currentNote.hairpin}`, language)}
+                      </span>
+                    )}
+                    {currentNote.articulations?.map((articulation) => (
+                      <span key={articulation} className="bg-white/20 px-3 py-1.5 rounded-full font-bold">
+                        {t(`practice.articulation.${articulation}`, language)}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -458,7 +572,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
                   <motion.div
                     className="h-full bg-white"
                     initial={{ width: 0 }}
-                    animate={{ width: `${(correctDuration / REQUIRED_CORRECT_TIME) * 100}%` }}
+                    animate={{ width: `${(correctDuration / requiredCorrectTime) * 100}%` }}
                   />
                 </div>
               </motion.div>
@@ -469,7 +583,7 @@ export function LearnMode({ song, onComplete, onBack }: LearnModeProps) {
         {/* 小提琴指板 */}
         {currentNote && 'string' in currentNote && 'finger' in currentNote && (
           <ViolinFingerboard
-            currentNote={currentNote as { pitch: string; string: number; finger: number; duration: number }}
+            currentNote={currentNote as { pitch: string; string: number; finger: number; duration: number } & Partial<ParsedNote>}
             language={language}
           />
         )}
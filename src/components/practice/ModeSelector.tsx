@@ -1,14 +1,27 @@
 'use client'
 
+import { useState, useEffect, useMemo } from 'react'
 import { motion } from 'framer-motion'
-import { ArrowLeft, BookOpen, Users, Award, ChevronRight } from 'lucide-react'
+import { ArrowLeft, BookOpen, Users, Award, ChevronRight, Music, Download, FileMusic, Loader2 } from 'lucide-react'
 import { useLanguageStore } from '@/stores/useLanguageStore'
+import { getAnnotationKey, getNoteAnnotations } from '@/stores/useAnnotationStore'
+import { getSongAttempts, useAssessmentAttempts } from '@/stores/useHistoryStore'
 import { t } from '@/i18n/translations'
 import { PracticeMode } from '@/types/practice'
+import type { ScorePart } from '@/types'
 import { Song } from '@/data'
+import { loadScoreParts, findViolinPart } from '@/lib/musicxml-parser'
+import { getScore } from '@/lib/score-cache'
+import { songToMidi } from '@/lib/midi'
+import { songToMxl } from '@/lib/musicxml-writer'
+import { applyNoteAnnotations } from '@/lib/violin-fingering'
+import { downloadBlob, toFileName } from '@/lib/download'
+import { AssessmentProgress } from './AssessmentProgress'
 
 interface ModeSelectorProps {
   song: Song
+  partId?: string
+  onPartChange: (partId: string) => void
   onSelectMode: (mode: PracticeMode) => void
   onBack: () => void
 }
@@ -40,10 +53,56 @@ const modeColors = {
   },
 }
 
-export function ModeSelector({ song, onSelectMode, onBack }: ModeSelectorProps) {
+export function ModeSelector({ song, partId, onPartChange, onSelectMode, onBack }: ModeSelectorProps) {
   const { language } = useLanguageStore()
   const modes: PracticeMode[] = ['learn', 'follow', 'assess']
 
+  // 乐谱的声部列表，多声部时可以选择练习的声部
+  const [parts, setParts] = useState<ScorePart[]>([])
+  useEffect(() => {
+    let cancelled = false
+    loadScoreParts(song.musicXmlUrl)
+      .then((scoreParts) => {
+        if (!cancelled) setParts(scoreParts)
+      })
+      .catch((error) => {
+        console.warn('Failed to load score parts:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [song.musicXmlUrl])
+  const selectedPartId = partId ?? findViolinPart(parts)?.id ?? parts[0]?.id
+
+  // 这首曲目（当前声部）的评测历史
+  const allAttempts = useAssessmentAttempts()
+  const attempts = useMemo(
+    () => getSongAttempts(allAttempts, song.id).filter((attempt) =>
+      !attempt.partId || !selectedPartId || attempt.partId === selectedPartId
+    ),
+    [allAttempts, song.id, selectedPartId]
+  )
+
+  // 导出 MIDI / MusicXML（当前选择的声部 + 伴奏声部）
+  const [exportingFormat, setExportingFormat] = useState<'mid' | 'mxl' | null>(null)
+  const handleExport = async (format: 'mid' | 'mxl') => {
+    setExportingFormat(format)
+    try {
+      const loaded = await getScore(song.id, song.musicXmlUrl, { partId: selectedPartId })
+      // 导出的乐谱包含用户标注的指法 / 弓向
+      const annotations = await getNoteAnnotations(getAnnotationKey(song.id, loaded.partId))
+      const parsed = { ...loaded, notes: applyNoteAnnotations(loaded.notes, annotations) }
+      const blob = format === 'mid'
+        ? new Blob([songToMidi(parsed)], { type: 'audio/midi' })
+        : new Blob([await songToMxl(parsed)], { type: 'application/vnd.recordare.musicxml' })
+      downloadBlob(blob, toFileName(song.title, format))
+    } catch (error) {
+      console.error(`Failed to export ${format}:`, error)
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* 顶部栏 */}
@@ -61,7 +120,34 @@ export function ModeSelector({ song, onSelectMode, onBack }: ModeSelectorProps)
             <p className="text-xs text-gray-500">{song.composer}</p>
           </div>
 
-          <div className="w-10" />
+          <div className="flex items-center -mr-2">
+            <button
+              onClick={() => handleExport('mxl')}
+              disabled={exportingFormat !== null}
+              className="p-2 rounded-full hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title={t('practice.exportMusicXml', language)}
+              aria-label={t('practice.exportMusicXml', language)}
+            >
+              {exportingFormat === 'mxl' ? (
+                <Loader2 className="w-6 h-6 text-gray-700 animate-spin" />
+              ) : (
+                <FileMusic className="w-6 h-6 text-gray-700" />
+              )}
+            </button>
+            <button
+              onClick={() => handleExport('mid')}
+              disabled={exportingFormat !== null}
+              className="p-2 rounded-full hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title={t('practice.exportMidi', language)}
+              aria-label={t('practice.exportMidi', language)}
+            >
+              {exportingFormat === 'mid' ? (
+                <Loader2 className="w-6 h-6 text-gray-700 animate-spin" />
+              ) : (
+                <Download className="w-6 h-6 text-gray-700" />
+              )}
+            </button>
+          </div>
         </div>
       </div>
 
@@ -81,6 +167,39 @@ export function ModeSelector({ song, onSelectMode, onBack }: ModeSelectorProps)
           </p>
         </motion.div>
 
+        {/* 声部选择 */}
+        {parts.length > 1 && (
+          <motion.div
+            className="bg-white rounded-2xl p-4 shadow-cute"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <p className="font-medium text-gray-800 flex items-center gap-2">
+              <Music className="w-4 h-4 text-primary-500" />
+              {t('practice.part', language)}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">{t('practice.partDesc', language)}</p>
+            <div className="flex flex-wrap gap-2 mt-3">
+              {parts.map((part) => (
+                <button
+                  key={part.id}
+                  onClick={() => onPartChange(part.id)}
+                  className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                    part.id === selectedPartId
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {part.name}
+                  {part.isViolin && (
+                    <span className="ml-1 text-xs opacity-80">({t('practice.violinPart', language)})</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* 模式卡片 */}
         <div className="space-y-4">
           {modes.map((mode, index) => {
@@ -133,6 +252,17 @@ export function ModeSelector({ song, onSelectMode, onBack }: ModeSelectorProps)
           })}
         </div>
 
+        {/* 评测进步 */}
+        {attempts.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.3 }}
+          >
+            <AssessmentProgress attempts={attempts} language={language} />
+          </motion.div>
+        )}
+
         {/* 曲目信息 */}
         <motion.div
           className="bg-white rounded-2xl p-4 shadow-cute"
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Play, Pause } from 'lucide-react'
+import { t, Language } from '@/i18n/translations'
+import type { RecordingMarker, SessionRecording } from '@/types'
+
+// 波形的柱数和画布高度
+const WAVEFORM_BARS = 120
+const CANVAS_HEIGHT = 96
+// 点错误跳转时提前一点开始播放（毫秒）
+const MARKER_PREROLL = 500
+// 音高曲线中超过这个间隔（毫秒）的两点不连线
+const CURVE_GAP = 200
+
+/**
+ * 解码录音，得到每一段的峰值（0-1）
+ */
+async function getPeaks(blob: Blob, bars: number): Promise<number[]> {
+  const context = new AudioContext()
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+    const data = buffer.getChannelData(0)
+    const size = Math.max(1, Math.floor(data.length / bars))
+    const peaks: number[] = []
+    for (let i = 0; i < bars; i++) {
+      let peak = 0
+      for (let j = i * size; j < Math.min(data.length, (i + 1) * size); j++) {
+        peak = Math.max(peak, Math.abs(data[j]))
+      }
+      peaks.push(peak)
+    }
+    const top = Math.max(0.01, ...peaks)
+    return peaks.map((peak) => peak / top)
+  } finally {
+    context.close()
+  }
+}
+
+// 错误标签：音符序号、应拉的音和问题
+function getMarkerLabel(marker: RecordingMarker, language: Language): string {
+  const note = `${marker.noteIndex + 1}. ${marker.expected}`
+  if (marker.type === 'pitch') return `${note} → ${marker.actual}`
+  if (marker.type === 'rhythm' && marker.offset !== undefined) {
+    return `${note} · ${t(marker.offset < 0 ? 'practice.markerEarly' : 'practice.markerLate', language, { ms: Math.abs(marker.offset) })}`
+  }
+  return `${note} · ${t('practice.markerMissed', language)}`
+}
+
+interface RecordingPlayerProps {
+  recording: SessionRecording
+  language: Language
+}
+
+/**
+ * 评测录音回放：波形上叠加检测到的音高曲线，标出错误的位置；点错误跳到录音中的对应时刻
+ */
+export function RecordingPlayer({ recording, language }: RecordingPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [peaks, setPeaks] = useState<number[]>([])
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0) // 毫秒
+
+  const duration = Math.max(1, recording.duration)
+
+  // 音频地址
+  const audioUrl = useMemo(() => URL.createObjectURL(recording.audio), [recording.audio])
+  useEffect(() => () => URL.revokeObjectURL(audioUrl), [audioUrl])
+
+  // 波形
+  useEffect(() => {
+    let cancelled = false
+    getPeaks(recording.audio, WAVEFORM_BARS)
+      .then((result) => {
+        if (!cancelled) setPeaks(result)
+      })
+      .catch((err) => console.error('Decode recording error:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [recording.audio])
+
+  // 播放时更新播放头
+  useEffect(() => {
+    if (!isPlaying) return
+    let animationFrame = 0
+    const update = () => {
+      if (audioRef.current) setCurrentTime(audioRef.current.currentTime * 1000)
+      animationFrame = requestAnimationFrame(update)
+    }
+    update()
+    return () => cancelAnimationFrame(animationFrame)
+  }, [isPlaying])
+
+  // 绘制波形、音高曲线、错误标记和播放头
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const width = canvas.clientWidth
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = width * ratio
+    canvas.height = CANVAS_HEIGHT * ratio
+    const context = canvas.getContext('2d')
+    if (!context) return
+    context.scale(ratio, ratio)
+    context.clearRect(0, 0, width, CANVAS_HEIGHT)
+
+    const toX = (time: number) => (time / duration) * width
+
+    // 波形
+    const barWidth = width / WAVEFORM_BARS
+    peaks.forEach((peak, i) => {
+      const height = Math.max(2, peak * (CANVAS_HEIGHT - 8))
+      context.fillStyle = (i + 0.5) * barWidth <= toX(currentTime) ? '#C4B5FD' : '#E5E7EB'
+      context.fillRect(i * barWidth + 0.5, (CANVAS_HEIGHT - height) / 2, Math.max(1, barWidth - 1), height)
+    })
+
+    // 音高曲线（对数刻度，上下留半音的余量）
+    const pitched = recording.pitchCurve.filter((point) => point.frequency !== null)
+    if (pitched.length > 0) {
+      const logs = pitched.map((point) => Math.log2(point.frequency as number))
+      const low = Math.min(...logs) - 1 / 12
+      const high = Math.max(...logs) + 1 / 12
+      const toY = (frequency: number) => CANVAS_HEIGHT - 6 - ((Math.log2(frequency) - low) / (high - low)) * (CANVAS_HEIGHT - 12)
+
+      context.strokeStyle = '#7C3AED'
+      context.lineWidth = 1.5
+      context.beginPath()
+      let previous: number | null = null
+      for (const point of recording.pitchCurve) {
+        if (point.frequency === null) {
+          previous = null
+          continue
+        }
+        const x = toX(point.time)
+        const y = toY(point.frequency)
+        if (previous === null || point.time - previous > CURVE_GAP) context.moveTo(x, y)
+        else context.lineTo(x, y)
+        previous = point.time
+      }
+      context.stroke()
+    }
+
+    // 错误标记
+    for (const marker of recording.markers) {
+      context.fillStyle = marker.type === 'rhythm' ? '#F59E0B' : '#EF4444'
+      context.fillRect(toX(marker.time) - 1, 0, 2, CANVAS_HEIGHT)
+    }
+
+    // 播放头
+    context.fillStyle = '#111827'
+    context.fillRect(toX(currentTime) - 0.5, 0, 1, CANVAS_HEIGHT)
+  }, [peaks, recording.pitchCurve, recording.markers, currentTime, duration])
+
+  const seek = useCallback((time: number, play = false) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = Math.max(0, time) / 1000
+    setCurrentTime(Math.max(0, time))
+    if (play) audio.play()
+  }, [])
+
+  const togglePlay = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) audio.play()
+    else audio.pause()
+  }
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    seek(((event.clientX - rect.left) / rect.width) * duration)
+  }
+
+  return (
+    <div className="text-left">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          className="w-10 h-10 shrink-0 rounded-full bg-primary-500 text-white flex items-center justify-center"
+        >
+          {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5 ml-0.5" />}
+        </button>
+        <canvas
+          ref={canvasRef}
+          onClick={handleCanvasClick}
+          className="flex-1 min-w-0 cursor-pointer"
+          style={{ height: CANVAS_HEIGHT }}
+        />
+      </div>
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        className="hidden"
+      />
+
+      {recording.markers.length > 0 && (
+        <>
+          <p className="text-xs text-gray-400 mt-2 mb-1">{t('practice.recordingHint', language)}</p>
+          <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+            {recording.markers.map((marker, i) => (
+              <button
+                key={i}
+                onClick={() => seek(marker.time - MARKER_PREROLL, true)}
+                className={`px-2 py-1 rounded-full text-xs ${
+                  marker.type === 'rhythm' ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-600'
+                }`}
+              >
+                {getMarkerLabel(marker, language)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
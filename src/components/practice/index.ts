@@ -2,4 +2,6 @@ export { ModeSelector } from './ModeSelector'
 export { LearnMode } from './LearnMode'
 export { FollowMode } from './FollowMode'
 export { AssessMode } from './AssessMode'
+export { RecordingPlayer } from './RecordingPlayer'
+export { AssessmentProgress } from './AssessmentProgress'
 export * from './shared'
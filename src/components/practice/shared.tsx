@@ -2,11 +2,15 @@
 
 import { useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Star, Trophy, Sparkles, RotateCcw, Home, ArrowLeft } from 'lucide-react'
+import { Star, Trophy, Sparkles, RotateCcw, Home, ArrowLeft, Download } from 'lucide-react'
 import { Note, Song } from '@/data'
 import { Language, t } from '@/i18n/translations'
 import { playComplete } from '@/lib/audio'
+import { takeToMidi } from '@/lib/midi'
+import { downloadBlob, toFileName } from '@/lib/download'
 import { PracticeResult, NotationMode } from '@/types/practice'
+import type { ChordPitch, NoteAnnotation, ParsedNote } from '@/types'
+import { RecordingPlayer } from './RecordingPlayer'
 
 // 弦名映射
 export const stringNames = ['', 'E', 'A', 'D', 'G']
@@ -17,6 +21,11 @@ export const getFingerLabel = (finger: number, lang: Language) => {
   return `${finger}${t('practice.finger', lang)}`
 }
 
+export const getPositionLabel = (position: number, lang: Language) => {
+  if (position === 0) return t('practice.halfPosition', lang)
+  return t('practice.position', lang, { position })
+}
+
 // 简谱音符映射
 const pitchToSolfege: Record<string, string> = {
   C: '1', D: '2', E: '3', F: '4', G: '5', A: '6', B: '7',
@@ -283,10 +292,63 @@ export function NumberedDisplay({ notes, currentIndex, completedIndices }: Numbe
 
 // 小提琴指板组件
 interface ViolinFingerboardProps {
-  currentNote: Note
+  currentNote: Note & Partial<Pick<ParsedNote, 'position' | 'pizzicato' | 'harmonic' | 'soundingPitch'>> & {
+    chordPitches?: ChordPitch[]
+  }
   language: Language
 }
 
+// 指板上的一个按弦位置；泛音用菱形表示轻触
+interface FingerMarkerProps {
+  string: number
+  finger: number
+  harmonic?: boolean
+  left: number
+}
+
+function FingerMarker({ string, finger, harmonic, left }: FingerMarkerProps) {
+  const style = { left: `${left}%`, top: `${12 + (4 - string) * 28}px` }
+
+  if (finger === 0) {
+    return (
+      <motion.div
+        className="absolute w-6 h-6 -translate-x-1/2 -translate-y-1/2 z-10"
+        style={style}
+        animate={{
+          scale: [1, 1.2, 1],
+          opacity: [0.8, 1, 0.8],
+        }}
+        transition={{ duration: 1, repeat: Infinity }}
+      >
+        <div className="w-full h-full border-2 border-primary-400 rounded-full bg-primary-500/30" />
+      </motion.div>
+    )
+  }
+
+  return (
+    <motion.div
+      className="absolute w-8 h-8 -translate-x-1/2 -translate-y-1/2 z-10"
+      style={style}
+      initial={{ scale: 0 }}
+      animate={{
+        scale: [1, 1.1, 1],
+      }}
+      transition={{ duration: 1, repeat: Infinity }}
+    >
+      <div className="absolute inset-0 bg-primary-500 rounded-full blur-md opacity-60" />
+      {harmonic ? (
+        <div className="absolute inset-1.5 rotate-45 border-2 border-white bg-primary-500/60 shadow-lg flex items-center justify-center">
+          <span className="-rotate-45 text-white text-xs font-bold">{finger}</span>
+        </div>
+      ) : (
+        <div className="absolute inset-1 bg-gradient-to-br from-primary-400 to-primary-600 rounded-full shadow-lg flex items-center justify-center">
+          <span className="text-white text-xs font-bold">{finger}</span>
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
 export function ViolinFingerboard({ currentNote, language }: ViolinFingerboardProps) {
   const stringThickness = {
     4: 'h-1.5',
@@ -304,6 +366,13 @@ export function ViolinFingerboard({ currentNote, language }: ViolinFingerboardPr
 
   const strings = [4, 3, 2, 1]
 
+  // 双音：主音和其他音都在指板上标出
+  const chordMarkers = (currentNote.chordPitches ?? []).filter(
+    (chordPitch): chordPitch is ChordPitch & { string: 1 | 2 | 3 | 4; finger: 0 | 1 | 2 | 3 | 4 } =>
+      chordPitch.string !== undefined && chordPitch.finger !== undefined
+  )
+  const activeStrings = [currentNote.string, ...chordMarkers.map((chordPitch) => chordPitch.string)]
+
   const fingerPositions: Record<number, number> = {
     0: 5,
     1: 25,
@@ -323,6 +392,16 @@ export function ViolinFingerboard({ currentNote, language }: ViolinFingerboardPr
           <span className="text-xs px-2 py-0.5 bg-secondary-100 text-secondary-700 rounded-full font-medium">
             {getFingerLabel(currentNote.finger, language)}
           </span>
+          {currentNote.position !== undefined && currentNote.finger !== 0 && (
+            <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full font-medium">
+              {getPositionLabel(currentNote.position, language)}
+            </span>
+          )}
+          {currentNote.pizzicato && (
+            <span className="text-xs px-2 py-0.5 bg-rose-100 text-rose-700 rounded-full font-medium">
+              pizz.
+            </span>
+          )}
         </div>
       </div>
 
@@ -352,7 +431,7 @@ export function ViolinFingerboard({ currentNote, language }: ViolinFingerboardPr
           <div className="absolute left-[70%] top-1 bottom-1 w-px bg-amber-900/30" />
 
           {strings.map((stringNum, index) => {
-            const isActiveString = currentNote.string === stringNum
+            const isActiveString = activeStrings.includes(stringNum)
             const topPosition = 12 + index * 28
 
             return (
@@ -379,42 +458,20 @@ export function ViolinFingerboard({ currentNote, language }: ViolinFingerboardPr
             )
           })}
 
-          {currentNote.finger > 0 && (
-            <motion.div
-              className="absolute w-8 h-8 -translate-x-1/2 -translate-y-1/2 z-10"
-              style={{
-                left: `${fingerPositions[currentNote.finger]}%`,
-                top: `${12 + (4 - currentNote.string) * 28}px`,
-              }}
-              initial={{ scale: 0 }}
-              animate={{
-                scale: [1, 1.1, 1],
-              }}
-              transition={{ duration: 1, repeat: Infinity }}
-            >
-              <div className="absolute inset-0 bg-primary-500 rounded-full blur-md opacity-60" />
-              <div className="absolute inset-1 bg-gradient-to-br from-primary-400 to-primary-600 rounded-full shadow-lg flex items-center justify-center">
-                <span className="text-white text-xs font-bold">{currentNote.finger}</span>
-              </div>
-            </motion.div>
-          )}
-
-          {currentNote.finger === 0 && (
-            <motion.div
-              className="absolute w-6 h-6 -translate-x-1/2 -translate-y-1/2 z-10"
-              style={{
-                left: `${fingerPositions[0]}%`,
-                top: `${12 + (4 - currentNote.string) * 28}px`,
-              }}
-              animate={{
-                scale: [1, 1.2, 1],
-                opacity: [0.8, 1, 0.8],
-              }}
-              transition={{ duration: 1, repeat: Infinity }}
-            >
-              <div className="w-full h-full border-2 border-primary-400 rounded-full bg-primary-500/30" />
-            </motion.div>
-          )}
+          <FingerMarker
+            string={currentNote.string}
+            finger={currentNote.finger}
+            harmonic={currentNote.harmonic !== undefined}
+            left={fingerPositions[currentNote.finger]}
+          />
+          {chordMarkers.map((chordPitch) => (
+            <FingerMarker
+              key={chordPitch.pitch}
+              string={chordPitch.string}
+              finger={chordPitch.finger}
+              left={fingerPositions[chordPitch.finger]}
+            />
+          ))}
         </div>
 
         <div className="flex justify-between px-2 mt-2">
@@ -428,11 +485,23 @@ export function ViolinFingerboard({ currentNote, language }: ViolinFingerboardPr
 
       <div className="mt-3 text-center">
         <p className="text-xs text-gray-500">
-          {currentNote.finger === 0
-            ? t('practice.playOpenString', language, { string: stringNames[currentNote.string] })
-            : t('practice.pressString', language, { finger: currentNote.finger, string: stringNames[currentNote.string] })
+          {currentNote.harmonic
+            ? t('practice.touchHarmonic', language, { finger: currentNote.finger, string: stringNames[currentNote.string] })
+            : currentNote.finger === 0
+              ? t('practice.playOpenString', language, { string: stringNames[currentNote.string] })
+              : t('practice.pressString', language, { finger: currentNote.finger, string: stringNames[currentNote.string] })
           }
         </p>
+        {chordMarkers.length > 0 && (
+          <p className="text-xs text-gray-500 mt-1">
+            {t('practice.doubleStopHint', language, {
+              strings: activeStrings.map((string) => stringNames[string]).join(' + '),
+            })}
+          </p>
+        )}
+        {currentNote.pizzicato && (
+          <p className="text-xs text-gray-500 mt-1">{t('practice.pizzicatoHint', language)}</p>
+        )}
       </div>
     </div>
   )
@@ -495,6 +564,19 @@ export function PracticeComplete({
     playComplete()
   }, [])
 
+  // 导出评测模式录下的演奏
+  const handleExportTake = () => {
+    if (!result.take) return
+    const blob = new Blob([takeToMidi(result.take)], { type: 'audio/midi' })
+    downloadBlob(blob, toFileName(`${song.title} take`, 'mid'))
+  }
+
+  // 评测模式的节奏小结：起音相对节拍的平均偏差
+  const offsets = result.take?.notes.flatMap(note => (note.offset === undefined ? [] : [note.offset])) ?? []
+  const meanOffset = offsets.length > 0
+    ? Math.round(offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length)
+    : null
+
   return (
     <motion.div
       className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
@@ -502,7 +584,7 @@ export function PracticeComplete({
       animate={{ opacity: 1 }}
     >
       <motion.div
-        className="bg-white rounded-3xl p-6 w-full max-w-sm text-center overflow-hidden"
+        className="bg-white rounded-3xl p-6 w-full max-w-sm text-center max-h-[90vh] overflow-y-auto"
         initial={{ scale: 0.8, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         transition={{ type: 'spring', delay: 0.1 }}
@@ -566,6 +648,30 @@ export function PracticeComplete({
           {t('practice.score', language)} <span className="font-bold text-gray-800">{result.score}%</span>
         </motion.p>
 
+        {meanOffset !== null && (
+          <motion.p
+            className="text-sm text-gray-500 -mt-2 mb-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.95 }}
+          >
+            {Math.abs(meanOffset) < 20
+              ? t('practice.timingSteady', language)
+              : t(meanOffset < 0 ? 'practice.timingEarly' : 'practice.timingLate', language, { ms: Math.abs(meanOffset) })}
+          </motion.p>
+        )}
+
+        {result.recording && (
+          <motion.div
+            className="mb-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.95 }}
+          >
+            <RecordingPlayer recording={result.recording} language={language} />
+          </motion.div>
+        )}
+
         <motion.div
           className="bg-gradient-to-r from-primary-50 to-secondary-50 rounded-xl p-4 mb-6"
           initial={{ opacity: 0, scale: 0.9 }}
@@ -608,6 +714,15 @@ export function PracticeComplete({
               {t('practice.backHome', language)}
             </button>
           </div>
+          {result.take && result.take.notes.length > 0 && (
+            <button
+              onClick={handleExportTake}
+              className="w-full py-2 bg-gray-50 rounded-xl font-medium text-sm text-gray-700 flex items-center justify-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              {t('practice.exportTakeMidi', language)}
+            </button>
+          )}
           <button
             onClick={onSelectMode}
             className="w-full py-2 text-primary-600 font-medium text-sm"
@@ -692,3 +807,102 @@ export function CurrentNoteDisplay({ note, currentIndex, language }: CurrentNote
     </motion.div>
   )
 }
+
+// 指法 / 弓向标注编辑器
+interface AnnotationEditorProps {
+  note: ParsedNote // 合并了标注和自动指法后的音符
+  annotation: NoteAnnotation // 该音符的用户标注
+  onChange: (annotation: NoteAnnotation) => void
+  onClose: () => void
+  language: Language
+}
+
+interface AnnotationOption<K extends keyof NoteAnnotation> {
+  value: NonNullable<NoteAnnotation[K]>
+  label: string
+}
+
+export function AnnotationEditor({ note, annotation, onChange, onClose, language }: AnnotationEditorProps) {
+  // 点击已标注的值取消标注（恢复自动），点击其他值设为标注
+  const toggle = <K extends keyof NoteAnnotation>(field: K, value: NonNullable<NoteAnnotation[K]>) => {
+    onChange({ ...annotation, [field]: annotation[field] === value ? undefined : value })
+  }
+
+  const renderRow = <K extends keyof NoteAnnotation>(field: K, label: string, options: AnnotationOption<K>[]) => (
+    <div className="flex items-center gap-2">
+      <span className="w-12 shrink-0 text-xs text-gray-500">{label}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((option) => {
+          const isAnnotated = annotation[field] === option.value
+          const isCurrent = note[field] === option.value
+          return (
+            <button
+              key={String(option.value)}
+              onClick={() => toggle(field, option.value)}
+              className={`min-w-8 px-2 py-1 rounded-lg text-sm font-medium transition-colors ${
+                isAnnotated
+                  ? 'bg-primary-500 text-white'
+                  : isCurrent
+                    ? 'bg-primary-100 text-primary-700'
+                    : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+
+  return (
+    <motion.div
+      className="bg-white rounded-2xl p-4 shadow-cute space-y-3"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-gray-800">
+          {t('practice.annotate', language)} · {note.pitch}
+        </span>
+        <button
+          onClick={() => onChange({})}
+          disabled={Object.keys(annotation).length === 0}
+          className="flex items-center gap-1 text-xs text-gray-500 disabled:opacity-40"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          {t('practice.annotationReset', language)}
+        </button>
+      </div>
+
+      {renderRow('finger', t('practice.fingering', language), [
+        { value: 0, label: t('practice.openString', language) },
+        { value: 1, label: '1' },
+        { value: 2, label: '2' },
+        { value: 3, label: '3' },
+        { value: 4, label: '4' },
+      ])}
+      {renderRow('string', t('practice.string', language), [
+        { value: 4, label: stringNames[4] },
+        { value: 3, label: stringNames[3] },
+        { value: 2, label: stringNames[2] },
+        { value: 1, label: stringNames[1] },
+      ])}
+      {renderRow('position', t('practice.positionLabel', language), [0, 1, 2, 3, 4, 5, 6, 7].map((position) => ({
+        value: position,
+        label: position === 0 ? '½' : String(position),
+      })))}
+      {renderRow('bowDirection', t('practice.bow', language), [
+        { value: 'down', label: `⊓ ${t('practice.downBow', language)}` },
+        { value: 'up', label: `V ${t('practice.upBow', language)}` },
+      ])}
+
+      <button
+        onClick={onClose}
+        className="w-full py-2 bg-gray-100 rounded-xl text-sm font-medium text-gray-600"
+      >
+        {t('practice.annotationDone', language)}
+      </button>
+    </motion.div>
+  )
+}
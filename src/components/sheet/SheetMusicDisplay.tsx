@@ -3,32 +3,111 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Loader2, AlertCircle, Music } from 'lucide-react'
-import { ParsedNote } from '@/types'
-import { loadMusicXML, addDefaultFingerings } from '@/lib/musicxml-parser'
+import type { OpenSheetMusicDisplay, VexFlowGraphicalNote } from 'opensheetmusicdisplay'
+import { NoteAnnotations, ParsedNote, ParsedSong } from '@/types'
+import { loadMusicXMLText, parseMusicXML, addDefaultFingerings } from '@/lib/musicxml-parser'
 
 interface SheetMusicDisplayProps {
   musicXmlUrl: string
+  partId?: string // 只显示练习的声部（多声部乐谱）
   currentNoteIndex?: number
   highlightColor?: string
   zoom?: number
   showCursor?: boolean
   onReady?: (notes: ParsedNote[]) => void
   onNoteClick?: (index: number) => void
+  annotations?: NoteAnnotations // 用户标注的指法 / 弓向，绘制在对应音符上方
 }
 
 type LoadingState = 'idle' | 'loading' | 'ready' | 'error'
 
+// 音符在乐谱容器内容中的位置（px，随容器一起滚动）
+interface NoteBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// 小节内位置的精度（每拍）
+const BEAT_RESOLUTION = 960
+
+const POSITION_NUMERALS = ['½', 'I', 'II', 'III', 'IV', 'V', 'VI', 'VII']
+const STRING_NUMERALS = ['', '①', '②', '③', '④']
+
+/**
+ * 找到 OSMD 渲染的每个音符对应的 ParsedNote.index，返回各音符的位置
+ * 按 (小节序号, 小节内的拍位置) 对应；休止符、倚音和延音线后半的音符没有对应的 ParsedNote
+ */
+function getNoteBoxes(osmd: OpenSheetMusicDisplay, song: ParsedSong, container: HTMLElement): Map<number, NoteBox> {
+  const noteIndexByTime = new Map<string, number>()
+  let measureIndex = 0
+  for (const note of song.notes) {
+    while (
+      measureIndex < song.measures.length - 1 &&
+      note.startBeat >= song.measures[measureIndex + 1].startBeat
+    ) {
+      measureIndex++
+    }
+    const measure = song.measures[measureIndex]
+    const key = `${measureIndex}:${Math.round((note.startBeat - (measure?.startBeat ?? 0)) * BEAT_RESOLUTION)}`
+    if (!noteIndexByTime.has(key)) noteIndexByTime.set(key, note.index)
+  }
+
+  const containerRect = container.getBoundingClientRect()
+  const sourceMeasureIndex = new Map(osmd.Sheet.SourceMeasures.map((measure, i) => [measure, i]))
+  const boxes = new Map<number, NoteBox>()
+  for (const row of osmd.GraphicSheet.MeasureList) {
+    for (const graphicalMeasure of row) {
+      if (!graphicalMeasure?.ParentStaff.ParentInstrument.Visible) continue
+      const index = sourceMeasureIndex.get(graphicalMeasure.parentSourceMeasure)
+      for (const staffEntry of graphicalMeasure.staffEntries) {
+        const beat = staffEntry.relInMeasureTimestamp.RealValue * 4
+        const noteIndex = noteIndexByTime.get(`${index}:${Math.round(beat * BEAT_RESOLUTION)}`)
+        if (noteIndex === undefined) continue
+
+        for (const voiceEntry of staffEntry.graphicalVoiceEntries) {
+          for (const graphicalNote of voiceEntry.notes) {
+            if (graphicalNote.sourceNote.isRest() || graphicalNote.sourceNote.IsGraceNote) continue
+            const element = (graphicalNote as VexFlowGraphicalNote).getSVGGElement?.()
+            if (!element) continue
+            // 双音的几个音符合并为一个框
+            const rect = element.getBoundingClientRect()
+            const left = rect.left - containerRect.left + container.scrollLeft
+            const top = rect.top - containerRect.top + container.scrollTop
+            const previous = boxes.get(noteIndex)
+            if (previous) {
+              const right = Math.max(previous.left + previous.width, left + rect.width)
+              const bottom = Math.max(previous.top + previous.height, top + rect.height)
+              previous.left = Math.min(previous.left, left)
+              previous.top = Math.min(previous.top, top)
+              previous.width = right - previous.left
+              previous.height = bottom - previous.top
+            } else {
+              boxes.set(noteIndex, { left, top, width: rect.width, height: rect.height })
+            }
+          }
+        }
+      }
+    }
+  }
+  return boxes
+}
+
 export function SheetMusicDisplay({
   musicXmlUrl,
+  partId,
   currentNoteIndex = -1,
   highlightColor = '#8B5CF6',
   zoom = 1.0,
   showCursor = true,
   onReady,
   onNoteClick,
+  annotations,
 }: SheetMusicDisplayProps) {
   const containerRef = useRef<HTMLDivElement>(null)
-  const osmdRef = useRef<InstanceType<typeof import('opensheetmusicdisplay').OpenSheetMusicDisplay> | null>(null)
+  const osmdRef = useRef<OpenSheetMusicDisplay | null>(null)
+  const parsedSongRef = useRef<ParsedSong | null>(null)
   const cursorRef = useRef<HTMLDivElement>(null)
 
   const [loadingState, setLoadingState] = useState<LoadingState>('idle')
@@ -37,8 +116,10 @@ export function SheetMusicDisplay({
   const [title, setTitle] = useState('')
   const [composer, setComposer] = useState('')
 
-  // 存储音符元素的位置信息
-  const notePositionsRef = useRef<Map<number, DOMRect>>(new Map())
+  // 各音符（ParsedNote.index）在乐谱中的位置
+  const [noteBoxes, setNoteBoxes] = useState<Map<number, NoteBox>>(new Map())
+  // 无法定位音符时的原因：标注和点选音符不可用
+  const [positionsError, setPositionsError] = useState<string | null>(null)
 
   // 初始化 OSMD
   const initOSMD = useCallback(async () => {
@@ -80,16 +161,24 @@ export function SheetMusicDisplay({
 
       osmdRef.current = osmd
 
-      // 加载并解析 MusicXML
-      const parsedSong = await loadMusicXML(musicXmlUrl)
+      // 加载并解析 MusicXML（timewise 已转换为 partwise，OSMD 只支持后者）
+      const xmlContent = await loadMusicXMLText(musicXmlUrl)
+      const parsedSong = parseMusicXML(xmlContent, { partId })
       const songWithFingerings = addDefaultFingerings(parsedSong)
 
+      parsedSongRef.current = parsedSong
       setTitle(parsedSong.title)
       setComposer(parsedSong.composer)
       setParsedNotes(songWithFingerings.notes)
 
-      // 使用 OSMD 渲染
-      await osmd.load(musicXmlUrl)
+      // 使用 OSMD 渲染，多声部时隐藏伴奏声部
+      await osmd.load(xmlContent)
+      if (parsedSong.parts.length > 1) {
+        const selectedIndex = parsedSong.parts.findIndex((part) => part.id === parsedSong.partId)
+        osmd.Sheet.Instruments.forEach((instrument, i) => {
+          instrument.Visible = i === selectedIndex
+        })
+      }
       osmd.zoom = zoom
       osmd.render()
 
@@ -108,20 +197,18 @@ export function SheetMusicDisplay({
       setError(err instanceof Error ? err.message : '加载乐谱失败')
       setLoadingState('error')
     }
-  }, [musicXmlUrl, zoom, showCursor, onReady])
+  }, [musicXmlUrl, partId, zoom, showCursor, onReady])
 
   // 收集音符元素位置
   const collectNotePositions = useCallback(() => {
-    if (!containerRef.current) return
-
-    notePositionsRef.current.clear()
-
-    // 查找所有音符元素
-    const noteElements = containerRef.current.querySelectorAll('.vf-stavenote, .vf-note')
-    noteElements.forEach((el, index) => {
-      const rect = el.getBoundingClientRect()
-      notePositionsRef.current.set(index, rect)
-    })
+    if (!containerRef.current || !osmdRef.current || !parsedSongRef.current) return
+    try {
+      setNoteBoxes(getNoteBoxes(osmdRef.current, parsedSongRef.current, containerRef.current))
+      setPositionsError(null)
+    } catch (err) {
+      setNoteBoxes(new Map())
+      setPositionsError(err instanceof Error ? err.message : String(err))
+    }
   }, [])
 
   // 初始化 - 等待下一帧确保 DOM 已渲染
@@ -252,14 +339,15 @@ export function SheetMusicDisplay({
     (e: React.MouseEvent) => {
       if (!onNoteClick || !containerRef.current) return
 
-      const clickX = e.clientX
-      const clickY = e.clientY
+      const containerRect = containerRef.current.getBoundingClientRect()
+      const clickX = e.clientX - containerRect.left + containerRef.current.scrollLeft
+      const clickY = e.clientY - containerRect.top + containerRef.current.scrollTop
 
       // 查找最近的音符
       let closestIndex = -1
       let closestDistance = Infinity
 
-      notePositionsRef.current.forEach((rect, index) => {
+      noteBoxes.forEach((rect, index) => {
         const centerX = rect.left + rect.width / 2
         const centerY = rect.top + rect.height / 2
         const distance = Math.sqrt(
@@ -276,7 +364,7 @@ export function SheetMusicDisplay({
         onNoteClick(closestIndex)
       }
     },
-    [onNoteClick]
+    [onNoteClick, noteBoxes]
   )
 
   return (
@@ -321,8 +409,36 @@ export function SheetMusicDisplay({
         }}
       >
         {/* OSMD 会在这里渲染 SVG */}
+
+        {/* 用户标注：弓向、指法、弦、把位画在音符上方 */}
+        {loadingState === 'ready' && annotations && Object.entries(annotations).map(([index, annotation]) => {
+          const box = noteBoxes.get(Number(index))
+          if (!box) return null
+          return (
+            <div
+              key={index}
+              className="absolute pointer-events-none flex flex-col items-center leading-none text-[11px] font-bold text-primary-600"
+              style={{ left: box.left + box.width / 2, top: box.top - 2, transform: 'translate(-50%, -100%)' }}
+            >
+              {annotation.bowDirection && <span>{annotation.bowDirection === 'down' ? '⊓' : 'V'}</span>}
+              {annotation.position !== undefined && <span className="font-serif">{POSITION_NUMERALS[annotation.position]}</span>}
+              {annotation.finger !== undefined && <span>{annotation.finger}</span>}
+              {annotation.string !== undefined && <span>{STRING_NUMERALS[annotation.string]}</span>}
+            </div>
+          )
+        })}
       </div>
 
+      {/* 音符定位失败：标注层不可用 */}
+      {loadingState === 'ready' && positionsError && (annotations || onNoteClick) && (
+        <div className="px-4 py-2 border-t border-amber-100 bg-amber-50 flex items-center gap-2 text-xs text-amber-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="min-w-0 truncate" title={positionsError}>
+            无法定位乐谱中的音符，标注和点选音符暂不可用
+          </span>
+        </div>
+      )}
+
       {/* 加载状态覆盖层 */}
       {loadingState === 'loading' && (
         <div className="p-8 flex flex-col items-center justify-center min-h-[200px]">
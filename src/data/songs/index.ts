@@ -16,7 +16,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'G Major Scale (1 Octave)',
     composer: '基础练习',
     difficulty: 1,
-    duration: 30,
+    duration: 20,
     category: 'scale',
     tags: ['音阶', '入门', 'G大调', '一个八度'],
     xpReward: 15,
@@ -30,7 +30,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'D Major Scale (1 Octave)',
     composer: '基础练习',
     difficulty: 1,
-    duration: 30,
+    duration: 20,
     category: 'scale',
     tags: ['音阶', '入门', 'D大调', '一个八度'],
     xpReward: 15,
@@ -44,7 +44,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'A Major Scale (1 Octave)',
     composer: '基础练习',
     difficulty: 1,
-    duration: 30,
+    duration: 20,
     category: 'scale',
     tags: ['音阶', '入门', 'A大调', '一个八度'],
     xpReward: 15,
@@ -72,7 +72,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Long Bow Exercise',
     composer: '基础练习',
     difficulty: 1,
-    duration: 60,
+    duration: 38,
     category: 'etude',
     tags: ['长弓', '入门', '运弓', '音色'],
     xpReward: 20,
@@ -100,7 +100,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Mary Had a Little Lamb',
     composer: '美国民谣',
     difficulty: 1,
-    duration: 35,
+    duration: 19,
     category: 'piece',
     tags: ['儿歌', '入门', '简单', '经典'],
     xpReward: 20,
@@ -114,7 +114,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Happy Birthday',
     composer: 'Patty Hill',
     difficulty: 1,
-    duration: 25,
+    duration: 14,
     category: 'piece',
     tags: ['庆祝', '入门', '简单', '经典'],
     xpReward: 20,
@@ -128,7 +128,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Jingle Bells',
     composer: 'James Pierpont',
     difficulty: 1,
-    duration: 40,
+    duration: 16,
     category: 'piece',
     tags: ['圣诞', '入门', '欢快', '节日'],
     xpReward: 25,
@@ -142,7 +142,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Two Tigers (Frère Jacques)',
     composer: '法国民谣',
     difficulty: 1,
-    duration: 35,
+    duration: 17,
     category: 'piece',
     tags: ['儿歌', '入门', '轮唱', '法国'],
     xpReward: 20,
@@ -160,7 +160,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'G Major Scale (2 Octaves)',
     composer: '基础练习',
     difficulty: 2,
-    duration: 45,
+    duration: 27,
     category: 'scale',
     tags: ['音阶', '初级', 'G大调', '两个八度'],
     xpReward: 25,
@@ -174,7 +174,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'D Major Scale (2 Octaves)',
     composer: '基础练习',
     difficulty: 2,
-    duration: 45,
+    duration: 23,
     category: 'scale',
     tags: ['音阶', '初级', 'D大调', '两个八度'],
     xpReward: 25,
@@ -188,7 +188,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'A Major Scale (2 Octaves)',
     composer: '基础练习',
     difficulty: 2,
-    duration: 45,
+    duration: 27,
     category: 'scale',
     tags: ['音阶', '初级', 'A大调', '两个八度'],
     xpReward: 25,
@@ -202,7 +202,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'G Major Arpeggio',
     composer: '基础练习',
     difficulty: 2,
-    duration: 30,
+    duration: 13,
     category: 'scale',
     tags: ['琶音', '初级', 'G大调', '和弦'],
     xpReward: 20,
@@ -216,7 +216,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'D Major Arpeggio',
     composer: '基础练习',
     difficulty: 2,
-    duration: 30,
+    duration: 12,
     category: 'scale',
     tags: ['琶音', '初级', 'D大调', '和弦'],
     xpReward: 20,
@@ -230,7 +230,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Ode to Joy',
     composer: '贝多芬',
     difficulty: 2,
-    duration: 50,
+    duration: 19,
     category: 'piece',
     tags: ['古典', '初级', '贝多芬', '经典'],
     xpReward: 30,
@@ -244,7 +244,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Minuet No.1',
     composer: '巴赫',
     difficulty: 2,
-    duration: 60,
+    duration: 14,
     category: 'piece',
     tags: ['巴洛克', '初级', '巴赫', '舞曲'],
     xpReward: 35,
@@ -258,7 +258,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Jasmine Flower',
     composer: '中国民歌',
     difficulty: 2,
-    duration: 55,
+    duration: 27,
     category: 'piece',
     tags: ['中国', '初级', '民歌', '抒情'],
     xpReward: 30,
@@ -272,7 +272,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Farewell',
     composer: '李叔同',
     difficulty: 2,
-    duration: 50,
+    duration: 29,
     category: 'piece',
     tags: ['中国', '初级', '抒情', '经典'],
     xpReward: 30,
@@ -286,7 +286,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Can-Can',
     composer: '奥芬巴赫',
     difficulty: 2,
-    duration: 45,
+    duration: 5,
     category: 'piece',
     tags: ['欢快', '初级', '舞曲', '法国'],
     xpReward: 30,
@@ -300,7 +300,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Serenade (Simplified)',
     composer: '海顿',
     difficulty: 2,
-    duration: 65,
+    duration: 27,
     category: 'piece',
     tags: ['古典', '初级', '海顿', '抒情'],
     xpReward: 35,
@@ -314,7 +314,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Lullaby',
     composer: '勃拉姆斯',
     difficulty: 2,
-    duration: 55,
+    duration: 21,
     category: 'piece',
     tags: ['古典', '初级', '勃拉姆斯', '抒情'],
     xpReward: 30,
@@ -328,7 +328,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Little Bee',
     composer: '德国民谣',
     difficulty: 2,
-    duration: 30,
+    duration: 8,
     category: 'piece',
     tags: ['儿歌', '初级', '德国', '活泼'],
     xpReward: 25,
@@ -342,7 +342,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'The Painter',
     composer: '波兰民歌',
     difficulty: 2,
-    duration: 35,
+    duration: 9,
     category: 'piece',
     tags: ['儿歌', '初级', '波兰', '活泼'],
     xpReward: 25,
@@ -356,7 +356,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Happy New Year',
     composer: '英国民谣',
     difficulty: 2,
-    duration: 30,
+    duration: 14,
     category: 'piece',
     tags: ['节日', '初级', '新年', '欢快'],
     xpReward: 25,
@@ -374,7 +374,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Gavotte',
     composer: 'Gossec',
     difficulty: 3,
-    duration: 90,
+    duration: 12,
     category: 'piece',
     tags: ['巴洛克', '中级', '舞曲', '经典'],
     xpReward: 45,
@@ -388,7 +388,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Humoresque',
     composer: '德沃夏克',
     difficulty: 3,
-    duration: 120,
+    duration: 12,
     category: 'piece',
     tags: ['浪漫', '中级', '德沃夏克', '优美'],
     xpReward: 50,
@@ -402,7 +402,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: "Hunter's Chorus",
     composer: '韦伯',
     difficulty: 3,
-    duration: 85,
+    duration: 12,
     category: 'piece',
     tags: ['歌剧', '中级', '韦伯', '活力'],
     xpReward: 45,
@@ -416,7 +416,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Ave Maria',
     composer: '古诺/巴赫',
     difficulty: 3,
-    duration: 150,
+    duration: 12,
     category: 'piece',
     tags: ['宗教', '中级', '抒情', '古诺'],
     xpReward: 55,
@@ -430,7 +430,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Flight of the Bumblebee (Easy)',
     composer: '里姆斯基-科萨科夫',
     difficulty: 3,
-    duration: 70,
+    duration: 12,
     category: 'piece',
     tags: ['炫技', '中级', '快速', '俄罗斯'],
     xpReward: 50,
@@ -444,7 +444,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'G Minor Scale (2 Octaves)',
     composer: '基础练习',
     difficulty: 3,
-    duration: 50,
+    duration: 29,
     category: 'scale',
     tags: ['音阶', '中级', 'G小调', '两个八度'],
     xpReward: 30,
@@ -458,7 +458,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'D Minor Scale (2 Octaves)',
     composer: '基础练习',
     difficulty: 3,
-    duration: 50,
+    duration: 25,
     category: 'scale',
     tags: ['音阶', '中级', 'D小调', '两个八度'],
     xpReward: 30,
@@ -472,7 +472,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Tarantella',
     composer: '意大利民间',
     difficulty: 3,
-    duration: 100,
+    duration: 12,
     category: 'piece',
     tags: ['舞曲', '中级', '意大利', '快速'],
     xpReward: 50,
@@ -486,7 +486,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: "Fisherman's Song at Dusk",
     composer: '中国古曲',
     difficulty: 3,
-    duration: 180,
+    duration: 12,
     category: 'piece',
     tags: ['中国', '中级', '古曲', '意境'],
     xpReward: 60,
@@ -500,7 +500,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Butterfly Lovers Theme',
     composer: '何占豪/陈钢',
     difficulty: 4,
-    duration: 200,
+    duration: 12,
     category: 'piece',
     tags: ['中国', '中高级', '协奏曲', '经典'],
     xpReward: 70,
@@ -514,7 +514,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Wohlfahrt Etude Op.45 No.1',
     composer: 'Franz Wohlfahrt',
     difficulty: 3,
-    duration: 90,
+    duration: 12,
     category: 'etude',
     tags: ['练习曲', '中级', '换弦', '音准'],
     xpReward: 40,
@@ -528,7 +528,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Wohlfahrt Etude Op.45 No.2',
     composer: 'Franz Wohlfahrt',
     difficulty: 3,
-    duration: 85,
+    duration: 12,
     category: 'etude',
     tags: ['练习曲', '中级', '连弓', '歌唱'],
     xpReward: 40,
@@ -542,7 +542,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Kayser Etude Op.20 No.1',
     composer: 'Heinrich Ernst Kayser',
     difficulty: 4,
-    duration: 100,
+    duration: 12,
     category: 'etude',
     tags: ['练习曲', '中高级', '分弓', '技巧'],
     xpReward: 50,
@@ -556,7 +556,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Kayser Etude Op.20 No.2',
     composer: 'Heinrich Ernst Kayser',
     difficulty: 4,
-    duration: 95,
+    duration: 12,
     category: 'etude',
     tags: ['练习曲', '中高级', '连顿弓', '技巧'],
     xpReward: 50,
@@ -570,7 +570,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Sevcik Bowing Exercise Op.2 No.1',
     composer: 'Otakar Sevcik',
     difficulty: 3,
-    duration: 60,
+    duration: 12,
     category: 'etude',
     tags: ['练习曲', '中级', '弓法', '基础'],
     xpReward: 35,
@@ -588,7 +588,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Country Dance',
     composer: 'ABRSM Grade 1',
     difficulty: 2,
-    duration: 45,
+    duration: 12,
     category: 'exam',
     tags: ['英皇', '一级', '考级', '舞曲'],
     grade: 'ABRSM Grade 1',
@@ -603,7 +603,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Minuet',
     composer: 'ABRSM Grade 1',
     difficulty: 2,
-    duration: 50,
+    duration: 12,
     category: 'exam',
     tags: ['英皇', '一级', '考级', '巴洛克'],
     grade: 'ABRSM Grade 1',
@@ -618,7 +618,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Bourrée',
     composer: 'ABRSM Grade 2',
     difficulty: 2,
-    duration: 55,
+    duration: 12,
     category: 'exam',
     tags: ['英皇', '二级', '考级', '巴洛克'],
     grade: 'ABRSM Grade 2',
@@ -633,7 +633,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Barcarolle',
     composer: 'ABRSM Grade 2',
     difficulty: 2,
-    duration: 60,
+    duration: 12,
     category: 'exam',
     tags: ['英皇', '二级', '考级', '抒情'],
     grade: 'ABRSM Grade 2',
@@ -648,7 +648,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Gavotte',
     composer: 'ABRSM Grade 3',
     difficulty: 3,
-    duration: 75,
+    duration: 12,
     category: 'exam',
     tags: ['英皇', '三级', '考级', '巴洛克'],
     grade: 'ABRSM Grade 3',
@@ -663,7 +663,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Lullaby',
     composer: '央音一级',
     difficulty: 2,
-    duration: 50,
+    duration: 12,
     category: 'exam',
     tags: ['央音', '一级', '考级', '抒情'],
     grade: '央音 Grade 1',
@@ -678,7 +678,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Minuet',
     composer: '央音二级',
     difficulty: 2,
-    duration: 55,
+    duration: 12,
     category: 'exam',
     tags: ['央音', '二级', '考级', '舞曲'],
     grade: '央音 Grade 2',
@@ -693,7 +693,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'North Wind Blows',
     composer: '央音三级',
     difficulty: 3,
-    duration: 70,
+    duration: 12,
     category: 'exam',
     tags: ['央音', '三级', '考级', '中国'],
     grade: '央音 Grade 3',
@@ -708,7 +708,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: 'Spring of Xinjiang',
     composer: '央音四级',
     difficulty: 4,
-    duration: 120,
+    duration: 12,
     category: 'exam',
     tags: ['央音', '四级', '考级', '中国', '新疆'],
     grade: '央音 Grade 4',
@@ -723,7 +723,7 @@ export const songLibrary: SongMeta[] = [
     titleEn: "Fisherman's Song at Evening",
     composer: '央音五级',
     difficulty: 4,
-    duration: 180,
+    duration: 12,
     category: 'exam',
     tags: ['央音', '五级', '考级', '中国', '古曲'],
     grade: '央音 Grade 5',
@@ -781,9 +781,9 @@ export function getSongsByGrade(grade: string): SongMeta[] {
 /**
  * 搜索曲目（按标题、作曲家、标签）
  */
-export function searchSongs(query: string): SongMeta[] {
+export function searchSongs(query: string, songs: SongMeta[] = songLibrary): SongMeta[] {
   const lowerQuery = query.toLowerCase()
-  return songLibrary.filter(
+  return songs.filter(
     (song) =>
       song.title.toLowerCase().includes(lowerQuery) ||
       song.titleEn?.toLowerCase().includes(lowerQuery) ||
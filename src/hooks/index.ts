@@ -1,2 +1,10 @@
 export { usePitchDetection } from './usePitchDetection'
 export type { PitchDetectionResult } from './usePitchDetection'
+export { useOnsetDetection } from './useOnsetDetection'
+export type { OnsetDetectionResult } from './useOnsetDetection'
+export { useIntonationRecorder } from './useIntonationRecorder'
+export type { IntonationRecorder } from './useIntonationRecorder'
+export { useMediaRecorder } from './useMediaRecorder'
+export type { MediaRecorderResult, RecordedAudio } from './useMediaRecorder'
+export { useOnlineStatus } from './useOnlineStatus'
+export { usePersistHydrated } from './usePersistHydrated'
@@ -0,0 +1,47 @@
+'use client'
+
+import { useRef, useCallback } from 'react'
+import { createIntonationSession } from '@/lib/intonation'
+import type { IntonationNote, IntonationSample } from '@/lib/intonation'
+import { useIntonationStore } from '@/stores/useIntonationStore'
+import type { IntonationSession } from '@/types'
+
+export interface IntonationRecorder {
+  setNote: (noteIndex: number | null) => void // 之前的帧记到上一个音符上，之后的帧记到这个音符上
+  reset: () => void
+  save: (songId: string, notes: IntonationNote[]) => IntonationSession | null
+}
+
+/**
+ * 练习时按音符收集音准帧（来自 usePitchDetection 的 takeIntonationSamples），结束时存入音准记录
+ */
+export function useIntonationRecorder(takeSamples: () => IntonationSample[]): IntonationRecorder {
+  const tracesRef = useRef(new Map<number, IntonationSample[]>())
+  const noteRef = useRef<number | null>(null)
+  const addSession = useIntonationStore((state) => state.addSession)
+
+  const setNote = useCallback((noteIndex: number | null) => {
+    const samples = takeSamples()
+    const previous = noteRef.current
+    if (previous !== null && samples.length > 0) {
+      tracesRef.current.set(previous, [...(tracesRef.current.get(previous) ?? []), ...samples])
+    }
+    noteRef.current = noteIndex
+  }, [takeSamples])
+
+  const reset = useCallback(() => {
+    takeSamples()
+    tracesRef.current = new Map()
+    noteRef.current = null
+  }, [takeSamples])
+
+  const save = useCallback((songId: string, notes: IntonationNote[]) => {
+    setNote(null)
+    const session = createIntonationSession(songId, notes, tracesRef.current)
+    if (session) addSession(session)
+    tracesRef.current = new Map()
+    return session
+  }, [setNote, addSession])
+
+  return { setNote, reset, save }
+}
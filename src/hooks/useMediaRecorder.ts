@@ -0,0 +1,79 @@
+'use client'
+
+import { useRef, useCallback, useEffect } from 'react'
+
+// 按顺序尝试的录音格式（Safari 只支持 mp4）
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus']
+
+// 录好的音频
+export interface RecordedAudio {
+  blob: Blob
+  mimeType: string
+  startedAt: number // 开始录音的时间（Date.now() 毫秒）
+  duration: number // 毫秒
+}
+
+export interface MediaRecorderResult {
+  start: (stream: MediaStream) => void
+  stop: () => Promise<RecordedAudio | null> // 没有在录音时返回 null
+}
+
+/**
+ * 用 MediaRecorder 录下麦克风输入（与 usePitchDetection 共用同一个 MediaStream）
+ * 麦克风被关闭时录音会自动结束，stop 仍能拿到录好的音频
+ */
+export function useMediaRecorder(): MediaRecorderResult {
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const resultRef = useRef<Promise<RecordedAudio | null> | null>(null)
+
+  const start = useCallback((stream: MediaStream) => {
+    if (typeof MediaRecorder === 'undefined' || recorderRef.current) return
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+    let recorder: MediaRecorder
+    try {
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    } catch (err) {
+      console.error('MediaRecorder error:', err)
+      return
+    }
+
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    resultRef.current = new Promise((resolve) => {
+      recorder.onstop = () => {
+        const type = recorder.mimeType || mimeType || 'audio/webm'
+        resolve(chunks.length > 0
+          ? { blob: new Blob(chunks, { type }), mimeType: type, startedAt, duration: Date.now() - startedAt }
+          : null)
+      }
+      recorder.onerror = () => resolve(null)
+    })
+
+    recorder.start()
+    recorderRef.current = recorder
+  }, [])
+
+  const stop = useCallback(async () => {
+    const recorder = recorderRef.current
+    const result = resultRef.current
+    recorderRef.current = null
+    resultRef.current = null
+    if (!recorder || !result) return null
+    if (recorder.state !== 'inactive') recorder.stop()
+    return result
+  }, [])
+
+  // 卸载时停止录音
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current
+      if (recorder && recorder.state !== 'inactive') recorder.stop()
+    }
+  }, [])
+
+  return { start, stop }
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useRef, useCallback, useEffect } from 'react'
+import { createOnsetDetector } from '@/lib/onset-detection'
+
+// 起音检测用较短的窗口（48kHz 下约 21ms），时间分辨率比音高检测高
+const FFT_SIZE = 1024
+
+export interface OnsetDetectionResult {
+  getOnsets: () => number[] // 从上次 clearOnsets 起检测到的所有起音（Date.now() 毫秒，升序）
+  clearOnsets: () => void
+}
+
+/**
+ * 在麦克风输入上检测起音（与 usePitchDetection 共用同一个 MediaStream）
+ * stream 为 null 时停止检测
+ */
+export function useOnsetDetection(stream: MediaStream | null): OnsetDetectionResult {
+  const onsetsRef = useRef<number[]>([])
+
+  useEffect(() => {
+    if (!stream) return
+
+    const audioContext = new AudioContext()
+    const source = audioContext.createMediaStreamSource(stream)
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = FFT_SIZE
+    analyser.smoothingTimeConstant = 0
+    source.connect(analyser)
+
+    const detector = createOnsetDetector(audioContext.sampleRate, analyser.fftSize)
+    const spectrum = new Float32Array(analyser.frequencyBinCount)
+    const buffer = new Float32Array(analyser.fftSize)
+    let animationFrame = 0
+
+    const detect = () => {
+      analyser.getFloatFrequencyData(spectrum)
+      analyser.getFloatTimeDomainData(buffer)
+      let sumSquares = 0
+      for (let i = 0; i < buffer.length; i++) {
+        sumSquares += buffer[i] * buffer[i]
+      }
+
+      const onset = detector.process(spectrum, Math.sqrt(sumSquares / buffer.length), Date.now())
+      if (onset !== null) {
+        onsetsRef.current.push(onset)
+      }
+      animationFrame = requestAnimationFrame(detect)
+    }
+    detect()
+
+    return () => {
+      cancelAnimationFrame(animationFrame)
+      source.disconnect()
+      if (audioContext.state !== 'closed') audioContext.close()
+    }
+  }, [stream])
+
+  const getOnsets = useCallback(() => [...onsetsRef.current], [])
+
+  const clearOnsets = useCallback(() => {
+    onsetsRef.current = []
+  }, [])
+
+  return { getOnsets, clearOnsets }
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { useGameStore } from '@/stores/useGameStore'
+import { useHistoryStore } from '@/stores/useHistoryStore'
+import { useIntonationStore } from '@/stores/useIntonationStore'
+import { useAnnotationStore } from '@/stores/useAnnotationStore'
+import { HYDRATION_TIMEOUT } from '@/lib/persist-storage'
+
+// 保存在 IndexedDB 中、异步读取的 store
+const PERSISTED_STORES = [useGameStore, useHistoryStore, useIntonationStore, useAnnotationStore]
+
+// 等待超时后不再等（读取失败时 persist 不会报告完成），按已有的数据 / 默认值显示
+let timedOut = false
+
+function subscribe(callback: () => void) {
+  const unsubscribes = PERSISTED_STORES.map((store) => store.persist.onFinishHydration(callback))
+  const timer = timedOut
+    ? undefined
+    : setTimeout(() => {
+        timedOut = true
+        callback()
+      }, HYDRATION_TIMEOUT)
+  return () => {
+    clearTimeout(timer)
+    unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }
+}
+
+function getSnapshot() {
+  return timedOut || PERSISTED_STORES.every((store) => store.persist.hasHydrated())
+}
+
+/**
+ * 持久化的 store 是否都已从本地数据库读取完成（服务端渲染时为 false）
+ * 读取完成前显示的是默认值（如 0 XP），写入也会被随后读到的数据覆盖
+ * 最多等待 HYDRATION_TIMEOUT，之后即使没有读完也返回 true
+ */
+export function usePersistHydrated(): boolean {
+  return useSyncExternalStore(subscribe, getSnapshot, () => false)
+}
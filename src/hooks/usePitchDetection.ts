@@ -2,6 +2,7 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { PitchDetector } from 'pitchy'
+import type { IntonationSample } from '@/lib/intonation'
 
 // 音符频率表 (A4 = 440Hz)
 const NOTE_FREQUENCIES: Record<string, number> = {
@@ -95,15 +96,46 @@ function notesMatch(detected: string, target: string): boolean {
   return enharmonics[detectedBase] === targetBase
 }
 
+// 音符名称转频率，表外的音（如高把位泛音）按十二平均律计算
+function noteToFrequency(note: string): number | null {
+  if (NOTE_FREQUENCIES[note]) return NOTE_FREQUENCIES[note]
+
+  const match = note.match(/^([A-G])(#|b)?(-?\d)$/)
+  if (!match) return null
+  const flatToSharp: Record<string, string> = { Db: 'C#', Eb: 'D#', Gb: 'F#', Ab: 'G#', Bb: 'A#' }
+  const name = match[2] === 'b' ? flatToSharp[match[1] + 'b'] : match[1] + (match[2] ?? '')
+  const noteIndex = NOTE_NAMES.indexOf(name ?? '')
+  if (noteIndex < 0) return null
+  const midi = (Number(match[3]) + 1) * 12 + noteIndex
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
+
 // 计算音分差距
 function getCentsDifference(detectedFreq: number, targetNote: string): number {
-  const targetFreq = NOTE_FREQUENCIES[targetNote]
+  const targetFreq = noteToFrequency(targetNote)
   if (!targetFreq) return 0
 
   // 音分 = 1200 * log2(f1/f2)
   return Math.round(1200 * Math.log2(detectedFreq / targetFreq))
 }
 
+// 双音：频谱中目标频率附近是否有明显高于底噪的峰
+function hasSpectralPeak(spectrum: Float32Array, frequency: number, binWidth: number, noiseFloor: number): boolean {
+  const center = Math.round(frequency / binWidth)
+  let peak = -Infinity
+  for (let bin = center - 2; bin <= center + 2; bin++) {
+    if (bin >= 0 && bin < spectrum.length) peak = Math.max(peak, spectrum[bin])
+  }
+  return peak - noiseFloor >= CONFIG.CHORD_PEAK_DB
+}
+
+// 频谱底噪：小提琴音域内各频段能量 (dB) 的中值
+function getNoiseFloor(spectrum: Float32Array, binWidth: number): number {
+  const start = Math.floor(CONFIG.MIN_FREQUENCY / binWidth)
+  const end = Math.min(spectrum.length, Math.ceil(CONFIG.MAX_FREQUENCY / binWidth))
+  return medianFilter(Array.from(spectrum.subarray(start, end)))
+}
+
 // 中值滤波器 - 去除异常值
 function medianFilter(values: number[]): number {
   if (values.length === 0) return 0
@@ -127,9 +159,11 @@ export interface PitchDetectionResult {
   isCorrect: boolean
   error: string | null
   volume: number // 音量级别 0-1
+  stream: MediaStream | null // 麦克风输入，可供起音检测等共用
   startListening: () => Promise<void>
   stopListening: () => void
-  setTargetNote: (note: string) => void
+  setTargetNote: (note: string, ...otherNotes: string[]) => void // 双音时传入其他音
+  takeIntonationSamples: () => IntonationSample[] // 取出上次取出以来拉目标音时每帧的音分偏差
 }
 
 // 配置参数
@@ -138,7 +172,9 @@ const CONFIG = {
   MIN_CLARITY: 0.85,           // 置信度阈值 - pitchy的clarity范围是0-1
   MIN_VOLUME: 0.005,           // 最小音量阈值 (降低以检测更轻的声音)
   MIN_FREQUENCY: 180,          // 最小频率 (略低于G3=196Hz)
-  MAX_FREQUENCY: 2000,         // 最大频率 (小提琴高把位)
+  MAX_FREQUENCY: 2700,         // 最大频率 (小提琴高把位及泛音)
+  MIN_CHORD_CLARITY: 0.6,      // 双音时的置信度阈值 (两个音叠加时 clarity 较低)
+  CHORD_PEAK_DB: 20,           // 双音中其他音的频谱峰需高出底噪的分贝数
   STABILITY_FRAMES: 3,         // 需要连续稳定的帧数
   STABILITY_TOLERANCE: 15,     // 稳定性容差（音分）
   SMOOTHING_ALPHA: 0.3,        // 平滑系数 (0-1, 越小越平滑)
@@ -155,9 +191,11 @@ export function usePitchDetection(): PitchDetectionResult {
   const [isCorrect, setIsCorrect] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [volume, setVolume] = useState(0)
+  const [stream, setStream] = useState<MediaStream | null>(null)
 
   // 使用 ref 存储目标音符，避免闭包问题
   const targetNoteRef = useRef<string>('')
+  const otherTargetNotesRef = useRef<string[]>([])
 
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
@@ -176,9 +214,19 @@ export function usePitchDetection(): PitchDetectionResult {
   const lastStablePitchRef = useRef<number | null>(null)
   const smoothedFrequencyRef = useRef<number | null>(null)
 
+  // 音准记录：拉的是目标音（主音）时每帧的音分偏差
+  const intonationSamplesRef = useRef<IntonationSample[]>([])
+
+  const takeIntonationSamples = useCallback(() => {
+    const samples = intonationSamplesRef.current
+    intonationSamplesRef.current = []
+    return samples
+  }, [])
+
   // 设置目标音符
-  const setTargetNote = useCallback((note: string) => {
+  const setTargetNote = useCallback((note: string, ...otherNotes: string[]) => {
     targetNoteRef.current = note
+    otherTargetNotesRef.current = otherNotes
   }, [])
 
   // 清理函数
@@ -229,6 +277,7 @@ export function usePitchDetection(): PitchDetectionResult {
     setCentsDiff(0)
     setIsCorrect(false)
     setVolume(0)
+    setStream(null)
   }, [cleanup])
 
   // 开始监听
@@ -253,6 +302,7 @@ export function usePitchDetection(): PitchDetectionResult {
       })
 
       streamRef.current = stream
+      setStream(stream)
 
       // 创建音频上下文
       const audioContext = new AudioContext({ sampleRate: 48000 })
@@ -287,6 +337,7 @@ export function usePitchDetection(): PitchDetectionResult {
 
       setIsListening(true)
       isListeningRef.current = true
+      intonationSamplesRef.current = []
 
       // 音高检测循环
       const detectPitch = () => {
@@ -312,9 +363,10 @@ export function usePitchDetection(): PitchDetectionResult {
         )
 
         // 检查是否有有效信号
+        const isChord = otherTargetNotesRef.current.length > 0
         const hasValidSignal =
           rms > CONFIG.MIN_VOLUME &&
-          clarity > CONFIG.MIN_CLARITY &&
+          clarity > (isChord ? CONFIG.MIN_CHORD_CLARITY : CONFIG.MIN_CLARITY) &&
           pitch > CONFIG.MIN_FREQUENCY &&
           pitch < CONFIG.MAX_FREQUENCY
 
@@ -364,13 +416,32 @@ export function usePitchDetection(): PitchDetectionResult {
             setCents(detectedCents)
 
             // 使用 ref 获取最新的目标音符
-            const currentTargetNote = targetNoteRef.current
-            if (currentTargetNote) {
-              const diff = getCentsDifference(smoothedPitch, currentTargetNote)
+            const targetNotes = [targetNoteRef.current, ...otherTargetNotesRef.current].filter(Boolean)
+            if (targetNotes.length > 0) {
+              // 双音时检测到的主音高可能是其中任意一个音
+              const matchedNote = targetNotes.find((target) => notesMatch(note, target)) ?? targetNotes[0]
+              const diff = getCentsDifference(smoothedPitch, matchedNote)
               setCentsDiff(diff)
+              if (matchedNote === targetNoteRef.current && notesMatch(note, matchedNote)) {
+                intonationSamplesRef.current.push({ time: performance.now(), cents: diff })
+              }
 
               // 判断是否正确 (±40 cents 容差)
-              const isMatch = notesMatch(note, currentTargetNote) && Math.abs(detectedCents) <= 40
+              let isMatch = notesMatch(note, matchedNote) && Math.abs(detectedCents) <= 40
+
+              // 双音：其他音需要在频谱中同时出现
+              if (isMatch && targetNotes.length > 1 && analyserRef.current && audioContextRef.current) {
+                const spectrum = new Float32Array(analyserRef.current.frequencyBinCount)
+                analyserRef.current.getFloatFrequencyData(spectrum)
+                const binWidth = audioContextRef.current.sampleRate / analyserRef.current.fftSize
+                const noiseFloor = getNoiseFloor(spectrum, binWidth)
+                isMatch = targetNotes
+                  .filter((target) => target !== matchedNote)
+                  .every((target) => {
+                    const targetFreq = noteToFrequency(target)
+                    return targetFreq !== null && hasSpectralPeak(spectrum, targetFreq, binWidth, noiseFloor)
+                  })
+              }
               setIsCorrect(isMatch)
             }
           }
@@ -408,6 +479,7 @@ export function usePitchDetection(): PitchDetectionResult {
         }
       }
       cleanup()
+      setStream(null)
     }
   }, [cleanup])
 
@@ -428,8 +500,10 @@ export function usePitchDetection(): PitchDetectionResult {
     isCorrect,
     error,
     volume,
+    stream,
     startListening,
     stopListening,
     setTargetNote,
+    takeIntonationSamples,
   }
 }
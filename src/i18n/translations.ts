@@ -53,6 +53,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.elementary': '初级',
     'library.intermediate': '中级',
     'library.advanced': '进阶',
+    'library.expert': '高级',
     'library.completed': '已完成',
     'library.locked': '需要 Lv.',
     'library.search': '搜索曲目...',
@@ -61,12 +62,23 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.category.etude': '练习曲',
     'library.category.piece': '乐曲',
     'library.category.exam': '考级',
+    'library.category.imported': '我的乐谱',
+    'library.imported': '导入',
+    'library.import': '导入乐谱',
+    'library.importing': '导入中...',
+    'library.importFailed': '无法导入 {files}，请选择 MusicXML (.xml / .mxl) 或 MIDI (.mid) 乐谱文件',
+    'library.deleteImported': '删除导入的曲目',
+    'library.deleteConfirm': '删除「{title}」？',
+    'library.loading': '加载中...',
     'library.songs': '首曲目',
     'library.seconds': '秒',
 
     // 练习模式选择
     'practice.selectMode': '选择练习模式',
     'practice.selectModeDesc': '选择最适合你的练习方式',
+    'practice.part': '练习声部',
+    'practice.partDesc': '选择你要演奏的声部，其他声部作为伴奏',
+    'practice.violinPart': '小提琴',
     'practice.mode.learn': '识谱模式',
     'practice.mode.learn.desc': '逐音确认，不限时间，重点练习准确性',
     'practice.mode.learn.tip': '适合初学者熟悉乐谱',
@@ -98,6 +110,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.string': '弦',
     'practice.openString': '空弦',
     'practice.finger': '指',
+    'practice.position': '{position}把位',
+    'practice.halfPosition': '半把位',
     'practice.skip': '跳过',
     'practice.startDetection': '开始检测',
     'practice.stopDetection': '停止检测',
@@ -122,6 +136,37 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.bow': '弓向',
     'practice.upBow': '上弓',
     'practice.downBow': '下弓',
+    'practice.annotate': '标注指法',
+    'practice.annotateHint': '点击乐谱中的音符，修改它的指法、弦、把位和弓向',
+    'practice.fingering': '指法',
+    'practice.positionLabel': '把位',
+    'practice.annotationReset': '恢复自动指法',
+    'practice.annotationDone': '完成',
+    'practice.dynamic.ppp': '极弱',
+    'practice.dynamic.pp': '很弱',
+    'practice.dynamic.p': '弱',
+    'practice.dynamic.mp': '中弱',
+    'practice.dynamic.mf': '中强',
+    'practice.dynamic.f': '强',
+    'practice.dynamic.ff': '很强',
+    'practice.dynamic.fff': '极强',
+    'practice.crescendo': '渐强',
+    'practice.diminuendo': '渐弱',
+    'practice.articulation.staccato': '断奏',
+    'practice.articulation.staccatissimo': '短促断奏',
+    'practice.articulation.spiccato': '跳弓',
+    'practice.articulation.accent': '重音',
+    'practice.articulation.marcato': '强重音',
+    'practice.articulation.tenuto': '保持音',
+    'practice.articulation.detache': '分弓',
+    'practice.pizzicato': '拨弦 pizz.',
+    'practice.harmonic.natural': '自然泛音',
+    'practice.harmonic.artificial': '人工泛音',
+    'practice.soundingPitch': '实际音高 {pitch}',
+    'practice.doubleStop': '双音',
+    'practice.touchHarmonic': '用{finger}指轻触{string}弦（不要按到底）',
+    'practice.doubleStopHint': '同时拉 {strings} 两根弦',
+    'practice.pizzicatoHint': '用右手食指拨弦',
     'practice.playing': '播放中',
     'practice.paused': '已暂停',
     'practice.speed': '速度',
@@ -135,14 +180,26 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.setPointA': '设置A点',
     'practice.setPointB': '设置B点',
     'practice.cancelLoop': '取消循环',
+    'practice.minusOne': '只放伴奏',
+    'practice.minusOneDesc': '静音小提琴声部，跟着伴奏自己演奏',
     'practice.detected': '检测到',
     'practice.target': '目标',
     'assess.endAssessment': '结束评测',
     'assess.pitchScore': '音准',
     'assess.rhythmScore': '节奏',
+    'assess.tempoScore': '速度',
+    'assess.fluencyScore': '流畅',
+    'assess.completenessScore': '完整',
+    'assess.totalScore': '总分',
+    'assess.progress': '评测进步',
+    'assess.progressAttempts': '{count} 次评测',
+    'assess.progressHint': '再评测几次，就能看到各项得分的变化',
 
     // 通用
     'common.back': '返回',
+    'app.updateAvailable': '乐伴有新版本了',
+    'app.updateLater': '稍后',
+    'app.updateReload': '刷新',
 
     // AI聊天
     'aiChat.title': '喵Do老师',
@@ -158,6 +215,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'aiChat.q5': '每天练习多久合适？',
     'aiChat.q6': '什么是揉弦？',
     'aiChat.error': '喵呜...我暂时遇到了一点问题 😿\n\n请稍后再试，或者换个问题问我吧~',
+    'aiChat.offline': '现在没有网络，喵Do暂时不能回答。练习模式、调音器和节拍器离线也能用哦~',
 
     // 个人页面
     'profile.title': '我的',
@@ -169,8 +227,22 @@ export const translations: Record<Language, Record<string, string>> = {
     'profile.totalXP': '总获得XP',
     'profile.days': '天',
     'profile.achievements': '成就',
+    'profile.intonation': '音准分析',
+    'profile.intonationSessions': '{count} 次练习',
+    'profile.intonationEmpty': '打开麦克风练习几次后，这里会显示你经常偏高或偏低的按法',
+    'profile.intonationBalanced': '目前没有明显偏高或偏低的按法，继续保持！',
+    'profile.intonationFinger': '{string} 弦 {finger} 指',
+    'profile.intonationOpenString': '{string} 弦空弦',
+    'profile.intonationFlat': '偏低 {cents} 音分',
+    'profile.intonationSharp': '偏高 {cents} 音分',
+    'profile.intonationCount': '{notes} 个音 · {sessions} 次练习',
+    'profile.intonationDriftDown': '长音越拉越低',
+    'profile.intonationDriftUp': '长音越拉越高',
+    'profile.intonationTrend': '最近练习的平均偏差（越低越准）',
     'profile.settings': '设置',
     'profile.resetProgress': '重置进度',
+    'profile.storage': '存储空间',
+    'profile.storageUsage': '已用 {used} / 共 {quota}',
     'profile.aboutApp': '关于App',
     'profile.version': '乐伴 MeloBuddy',
     'profile.resetTitle': '重置进度',
@@ -227,6 +299,25 @@ export const translations: Record<Language, Record<string, string>> = {
     'achievement.level-10.desc': '达到10级',
     'achievement.xp-1000': '经验丰富',
     'achievement.xp-1000.desc': '累计获得1000 XP',
+    'practice.exportMidi': '导出 MIDI',
+    'practice.exportMusicXml': '导出 MusicXML',
+    'practice.exportTakeMidi': '导出这次演奏 (MIDI)',
+    'practice.assessSpeedHint': '节奏按 {bpm} BPM 的节拍评判',
+    'practice.assessStrict': '逐音等待',
+    'practice.assessFree': '自由演奏',
+    'practice.assessFreeHint': '按自己的速度拉完整首，错音、漏音和重复都会自动跟上',
+    'practice.timingEarly': '起音平均偏早 {ms} 毫秒',
+    'practice.timingLate': '起音平均偏晚 {ms} 毫秒',
+    'practice.timingSteady': '起音基本都在拍上',
+    'practice.recordingHint': '点一个错误，跳到录音里的那一刻',
+    'practice.markerMissed': '漏拉',
+    'practice.markerEarly': '早 {ms} 毫秒',
+    'practice.markerLate': '晚 {ms} 毫秒',
+    'library.pasteJianpu': '粘贴简谱',
+    'library.jianpu': '简谱',
+    'library.jianpuHint': '1=D 为调号，2/4 为拍号；\' 高八度、, 低八度，_ 八分音符、__ 十六分音符，- 延长一拍，^2 为指法，| 为小节线',
+    'library.jianpuFailed': '无法识别简谱：{error}',
+    'library.cancel': '取消',
   },
 
   'zh-TW': {
@@ -272,6 +363,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.elementary': '初級',
     'library.intermediate': '中級',
     'library.advanced': '進階',
+    'library.expert': '高級',
     'library.completed': '已完成',
     'library.locked': '需要 Lv.',
     'library.search': '搜尋曲目...',
@@ -280,12 +372,23 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.category.etude': '練習曲',
     'library.category.piece': '樂曲',
     'library.category.exam': '考級',
+    'library.category.imported': '我的樂譜',
+    'library.imported': '匯入',
+    'library.import': '匯入樂譜',
+    'library.importing': '匯入中...',
+    'library.importFailed': '無法匯入 {files}，請選擇 MusicXML (.xml / .mxl) 或 MIDI (.mid) 樂譜檔案',
+    'library.deleteImported': '刪除匯入的曲目',
+    'library.deleteConfirm': '刪除「{title}」？',
+    'library.loading': '載入中...',
     'library.songs': '首曲目',
     'library.seconds': '秒',
 
     // 練習模式選擇
     'practice.selectMode': '選擇練習模式',
     'practice.selectModeDesc': '選擇最適合你的練習方式',
+    'practice.part': '練習聲部',
+    'practice.partDesc': '選擇你要演奏的聲部，其他聲部作為伴奏',
+    'practice.violinPart': '小提琴',
     'practice.mode.learn': '識譜模式',
     'practice.mode.learn.desc': '逐音確認，不限時間，重點練習準確性',
     'practice.mode.learn.tip': '適合初學者熟悉樂譜',
@@ -317,6 +420,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.string': '弦',
     'practice.openString': '空弦',
     'practice.finger': '指',
+    'practice.position': '{position}把位',
+    'practice.halfPosition': '半把位',
     'practice.skip': '跳過',
     'practice.startDetection': '開始檢測',
     'practice.stopDetection': '停止檢測',
@@ -341,6 +446,37 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.bow': '弓向',
     'practice.upBow': '上弓',
     'practice.downBow': '下弓',
+    'practice.annotate': '標註指法',
+    'practice.annotateHint': '點擊樂譜中的音符，修改它的指法、弦、把位和弓向',
+    'practice.fingering': '指法',
+    'practice.positionLabel': '把位',
+    'practice.annotationReset': '恢復自動指法',
+    'practice.annotationDone': '完成',
+    'practice.dynamic.ppp': '極弱',
+    'practice.dynamic.pp': '很弱',
+    'practice.dynamic.p': '弱',
+    'practice.dynamic.mp': '中弱',
+    'practice.dynamic.mf': '中強',
+    'practice.dynamic.f': '強',
+    'practice.dynamic.ff': '很強',
+    'practice.dynamic.fff': '極強',
+    'practice.crescendo': '漸強',
+    'practice.diminuendo': '漸弱',
+    'practice.articulation.staccato': '斷奏',
+    'practice.articulation.staccatissimo': '短促斷奏',
+    'practice.articulation.spiccato': '跳弓',
+    'practice.articulation.accent': '重音',
+    'practice.articulation.marcato': '強重音',
+    'practice.articulation.tenuto': '保持音',
+    'practice.articulation.detache': '分弓',
+    'practice.pizzicato': '撥弦 pizz.',
+    'practice.harmonic.natural': '自然泛音',
+    'practice.harmonic.artificial': '人工泛音',
+    'practice.soundingPitch': '實際音高 {pitch}',
+    'practice.doubleStop': '雙音',
+    'practice.touchHarmonic': '用{finger}指輕觸{string}弦（不要按到底）',
+    'practice.doubleStopHint': '同時拉 {strings} 兩根弦',
+    'practice.pizzicatoHint': '用右手食指撥弦',
     'practice.playing': '播放中',
     'practice.paused': '已暫停',
     'practice.speed': '速度',
@@ -354,14 +490,26 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.setPointA': '設定A點',
     'practice.setPointB': '設定B點',
     'practice.cancelLoop': '取消循環',
+    'practice.minusOne': '只放伴奏',
+    'practice.minusOneDesc': '靜音小提琴聲部，跟著伴奏自己演奏',
     'practice.detected': '偵測到',
     'practice.target': '目標',
     'assess.endAssessment': '結束評測',
     'assess.pitchScore': '音準',
     'assess.rhythmScore': '節奏',
+    'assess.tempoScore': '速度',
+    'assess.fluencyScore': '流暢',
+    'assess.completenessScore': '完整',
+    'assess.totalScore': '總分',
+    'assess.progress': '評測進步',
+    'assess.progressAttempts': '{count} 次評測',
+    'assess.progressHint': '再評測幾次，就能看到各項得分的變化',
 
     // 通用
     'common.back': '返回',
+    'app.updateAvailable': '樂伴有新版本了',
+    'app.updateLater': '稍後',
+    'app.updateReload': '重新整理',
 
     // AI聊天
     'aiChat.title': '喵Do老師',
@@ -377,6 +525,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'aiChat.q5': '每天練習多久合適？',
     'aiChat.q6': '什麼是揉弦？',
     'aiChat.error': '喵嗚...我暫時遇到了一點問題 😿\n\n請稍後再試，或者換個問題問我吧~',
+    'aiChat.offline': '現在沒有網路，喵Do暫時不能回答。練習模式、調音器和節拍器離線也能用哦~',
 
     // 個人頁面
     'profile.title': '我的',
@@ -388,8 +537,22 @@ export const translations: Record<Language, Record<string, string>> = {
     'profile.totalXP': '總獲得XP',
     'profile.days': '天',
     'profile.achievements': '成就',
+    'profile.intonation': '音準分析',
+    'profile.intonationSessions': '{count} 次練習',
+    'profile.intonationEmpty': '打開麥克風練習幾次後，這裡會顯示你經常偏高或偏低的按法',
+    'profile.intonationBalanced': '目前沒有明顯偏高或偏低的按法，繼續保持！',
+    'profile.intonationFinger': '{string} 弦 {finger} 指',
+    'profile.intonationOpenString': '{string} 弦空弦',
+    'profile.intonationFlat': '偏低 {cents} 音分',
+    'profile.intonationSharp': '偏高 {cents} 音分',
+    'profile.intonationCount': '{notes} 個音 · {sessions} 次練習',
+    'profile.intonationDriftDown': '長音越拉越低',
+    'profile.intonationDriftUp': '長音越拉越高',
+    'profile.intonationTrend': '最近練習的平均偏差（越低越準）',
     'profile.settings': '設置',
     'profile.resetProgress': '重置進度',
+    'profile.storage': '儲存空間',
+    'profile.storageUsage': '已用 {used} / 共 {quota}',
     'profile.aboutApp': '關於App',
     'profile.version': '樂伴 MeloBuddy',
     'profile.resetTitle': '重置進度',
@@ -446,6 +609,25 @@ export const translations: Record<Language, Record<string, string>> = {
     'achievement.level-10.desc': '達到10級',
     'achievement.xp-1000': '經驗豐富',
     'achievement.xp-1000.desc': '累計獲得1000 XP',
+    'practice.exportMidi': '匯出 MIDI',
+    'practice.exportMusicXml': '匯出 MusicXML',
+    'practice.exportTakeMidi': '匯出這次演奏 (MIDI)',
+    'practice.assessSpeedHint': '節奏按 {bpm} BPM 的節拍評判',
+    'practice.assessStrict': '逐音等待',
+    'practice.assessFree': '自由演奏',
+    'practice.assessFreeHint': '按自己的速度拉完整首，錯音、漏音和重複都會自動跟上',
+    'practice.timingEarly': '起音平均偏早 {ms} 毫秒',
+    'practice.timingLate': '起音平均偏晚 {ms} 毫秒',
+    'practice.timingSteady': '起音基本都在拍上',
+    'practice.recordingHint': '點一個錯誤，跳到錄音裡的那一刻',
+    'practice.markerMissed': '漏拉',
+    'practice.markerEarly': '早 {ms} 毫秒',
+    'practice.markerLate': '晚 {ms} 毫秒',
+    'library.pasteJianpu': '貼上簡譜',
+    'library.jianpu': '簡譜',
+    'library.jianpuHint': '1=D 為調號，2/4 為拍號；\' 高八度、, 低八度，_ 八分音符、__ 十六分音符，- 延長一拍，^2 為指法，| 為小節線',
+    'library.jianpuFailed': '無法識別簡譜：{error}',
+    'library.cancel': '取消',
   },
 
   'en': {
@@ -491,6 +673,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.elementary': 'Elementary',
     'library.intermediate': 'Intermediate',
     'library.advanced': 'Advanced',
+    'library.expert': 'Expert',
     'library.completed': 'Completed',
     'library.locked': 'Requires Lv.',
     'library.search': 'Search songs...',
@@ -499,12 +682,23 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.category.etude': 'Etudes',
     'library.category.piece': 'Pieces',
     'library.category.exam': 'Exam',
+    'library.category.imported': 'My Scores',
+    'library.imported': 'Imported',
+    'library.import': 'Import',
+    'library.importing': 'Importing...',
+    'library.importFailed': 'Could not import {files}. Please choose a MusicXML (.xml / .mxl) or MIDI (.mid) score.',
+    'library.deleteImported': 'Delete imported score',
+    'library.deleteConfirm': 'Delete "{title}"?',
+    'library.loading': 'Loading...',
     'library.songs': 'songs',
     'library.seconds': 'sec',
 
     // Practice Mode Selection
     'practice.selectMode': 'Select Practice Mode',
     'practice.selectModeDesc': 'Choose the best way for you to practice',
+    'practice.part': 'Part to practice',
+    'practice.partDesc': 'Choose the part you will play; the others become the accompaniment',
+    'practice.violinPart': 'violin',
     'practice.mode.learn': 'Learn Mode',
     'practice.mode.learn.desc': 'Note by note, no time limit, focus on accuracy',
     'practice.mode.learn.tip': 'Great for beginners to learn the score',
@@ -536,6 +730,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.string': 'String',
     'practice.openString': 'Open',
     'practice.finger': 'Finger',
+    'practice.position': 'Position {position}',
+    'practice.halfPosition': 'Half position',
     'practice.skip': 'Skip',
     'practice.startDetection': 'Start Listening',
     'practice.stopDetection': 'Stop',
@@ -560,6 +756,37 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.bow': 'Bow',
     'practice.upBow': 'Up bow',
     'practice.downBow': 'Down bow',
+    'practice.annotate': 'Edit fingering',
+    'practice.annotateHint': 'Tap a note in the score to change its finger, string, position and bow direction',
+    'practice.fingering': 'Finger',
+    'practice.positionLabel': 'Position',
+    'practice.annotationReset': 'Reset to auto',
+    'practice.annotationDone': 'Done',
+    'practice.dynamic.ppp': 'Pianississimo',
+    'practice.dynamic.pp': 'Pianissimo',
+    'practice.dynamic.p': 'Piano',
+    'practice.dynamic.mp': 'Mezzo piano',
+    'practice.dynamic.mf': 'Mezzo forte',
+    'practice.dynamic.f': 'Forte',
+    'practice.dynamic.ff': 'Fortissimo',
+    'practice.dynamic.fff': 'Fortississimo',
+    'practice.crescendo': 'Crescendo',
+    'practice.diminuendo': 'Diminuendo',
+    'practice.articulation.staccato': 'Staccato',
+    'practice.articulation.staccatissimo': 'Staccatissimo',
+    'practice.articulation.spiccato': 'Spiccato',
+    'practice.articulation.accent': 'Accent',
+    'practice.articulation.marcato': 'Marcato',
+    'practice.articulation.tenuto': 'Tenuto',
+    'practice.articulation.detache': 'Détaché',
+    'practice.pizzicato': 'Pizzicato',
+    'practice.harmonic.natural': 'Natural harmonic',
+    'practice.harmonic.artificial': 'Artificial harmonic',
+    'practice.soundingPitch': 'sounds {pitch}',
+    'practice.doubleStop': 'Double stop',
+    'practice.touchHarmonic': 'Lightly touch the {string} string with finger {finger} (don\'t press down)',
+    'practice.doubleStopHint': 'Bow the {strings} strings together',
+    'practice.pizzicatoHint': 'Pluck the string with your right index finger',
     'practice.playing': 'Playing',
     'practice.paused': 'Paused',
     'practice.speed': 'Speed',
@@ -573,14 +800,26 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.setPointA': 'Set point A',
     'practice.setPointB': 'Set point B',
     'practice.cancelLoop': 'Cancel loop',
+    'practice.minusOne': 'Minus one',
+    'practice.minusOneDesc': 'Mute the violin line and play along with the accompaniment',
     'practice.detected': 'Detected',
     'practice.target': 'Target',
     'assess.endAssessment': 'End Assessment',
     'assess.pitchScore': 'Pitch',
     'assess.rhythmScore': 'Rhythm',
+    'assess.tempoScore': 'Tempo',
+    'assess.fluencyScore': 'Fluency',
+    'assess.completenessScore': 'Completeness',
+    'assess.totalScore': 'Total',
+    'assess.progress': 'Assessment Progress',
+    'assess.progressAttempts': '{count} attempts',
+    'assess.progressHint': 'Take a few more assessments to see how each score changes',
 
     // Common
     'common.back': 'Back',
+    'app.updateAvailable': 'A new version of MeloBuddy is available',
+    'app.updateLater': 'Later',
+    'app.updateReload': 'Refresh',
 
     // AI Chat
     'aiChat.title': 'MiaoDo Teacher',
@@ -596,6 +835,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'aiChat.q5': 'How long to practice daily?',
     'aiChat.q6': 'What is vibrato?',
     'aiChat.error': 'Meow... I\'m having some trouble 😿\n\nPlease try again later~',
+    'aiChat.offline': 'You\'re offline, so MiaoDo can\'t answer right now. Practice modes, the tuner and the metronome still work offline.',
 
     // Profile
     'profile.title': 'Profile',
@@ -607,8 +847,22 @@ export const translations: Record<Language, Record<string, string>> = {
     'profile.totalXP': 'Total XP',
     'profile.days': 'days',
     'profile.achievements': 'Achievements',
+    'profile.intonation': 'Intonation',
+    'profile.intonationSessions': '{count} sessions',
+    'profile.intonationEmpty': 'Practice with the microphone on a few times to see which fingerings you tend to play sharp or flat',
+    'profile.intonationBalanced': 'No fingering is consistently sharp or flat. Keep it up!',
+    'profile.intonationFinger': 'Finger {finger} on the {string} string',
+    'profile.intonationOpenString': 'Open {string} string',
+    'profile.intonationFlat': '{cents} cents flat',
+    'profile.intonationSharp': '{cents} cents sharp',
+    'profile.intonationCount': '{notes} notes · {sessions} sessions',
+    'profile.intonationDriftDown': 'sinks on long notes',
+    'profile.intonationDriftUp': 'rises on long notes',
+    'profile.intonationTrend': 'Average deviation in recent sessions (lower is better)',
     'profile.settings': 'Settings',
     'profile.resetProgress': 'Reset Progress',
+    'profile.storage': 'Storage',
+    'profile.storageUsage': '{used} used of {quota}',
     'profile.aboutApp': 'About',
     'profile.version': 'MeloBuddy',
     'profile.resetTitle': 'Reset Progress',
@@ -665,6 +919,25 @@ export const translations: Record<Language, Record<string, string>> = {
     'achievement.level-10.desc': 'Reach level 10',
     'achievement.xp-1000': 'Experienced',
     'achievement.xp-1000.desc': 'Earn 1000 XP total',
+    'practice.exportMidi': 'Export MIDI',
+    'practice.exportMusicXml': 'Export MusicXML',
+    'practice.exportTakeMidi': 'Export this take (MIDI)',
+    'practice.assessSpeedHint': 'Rhythm is judged against a {bpm} BPM beat',
+    'practice.assessStrict': 'Note by note',
+    'practice.assessFree': 'Play freely',
+    'practice.assessFreeHint': 'Play the whole piece at your own tempo. Wrong notes, skips and repeats are followed automatically',
+    'practice.timingEarly': 'Notes started {ms} ms early on average',
+    'practice.timingLate': 'Notes started {ms} ms late on average',
+    'practice.timingSteady': 'Notes started right on the beat',
+    'practice.recordingHint': 'Tap a mistake to jump to that moment in the recording',
+    'practice.markerMissed': 'missed',
+    'practice.markerEarly': '{ms} ms early',
+    'practice.markerLate': '{ms} ms late',
+    'library.pasteJianpu': 'Paste jianpu',
+    'library.jianpu': 'Jianpu',
+    'library.jianpuHint': '1=D sets the key and 2/4 the meter; \' raises and , lowers an octave, _ is an eighth and __ a sixteenth, - holds one beat, ^2 is a fingering, | is a bar line',
+    'library.jianpuFailed': 'Could not read the jianpu: {error}',
+    'library.cancel': 'Cancel',
   },
 
   'ko': {
@@ -710,6 +983,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.elementary': '초급',
     'library.intermediate': '중급',
     'library.advanced': '고급',
+    'library.expert': '전문가',
     'library.completed': '완료',
     'library.locked': 'Lv. 필요',
     'library.search': '곡 검색...',
@@ -718,12 +992,23 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.category.etude': '연습곡',
     'library.category.piece': '악곡',
     'library.category.exam': '시험곡',
+    'library.category.imported': '내 악보',
+    'library.imported': '가져옴',
+    'library.import': '악보 가져오기',
+    'library.importing': '가져오는 중...',
+    'library.importFailed': '{files}을(를) 가져올 수 없습니다. MusicXML (.xml / .mxl) 또는 MIDI (.mid) 악보를 선택하세요.',
+    'library.deleteImported': '가져온 곡 삭제',
+    'library.deleteConfirm': '"{title}"을(를) 삭제할까요?',
+    'library.loading': '불러오는 중...',
     'library.songs': '곡',
     'library.seconds': '초',
 
     // 연습 모드 선택
     'practice.selectMode': '연습 모드 선택',
     'practice.selectModeDesc': '자신에게 맞는 연습 방법을 선택하세요',
+    'practice.part': '연습할 파트',
+    'practice.partDesc': '연주할 파트를 고르세요. 나머지 파트는 반주가 됩니다',
+    'practice.violinPart': '바이올린',
     'practice.mode.learn': '학습 모드',
     'practice.mode.learn.desc': '음표별 확인, 시간 제한 없음, 정확성 중심',
     'practice.mode.learn.tip': '초보자가 악보를 익히기에 적합',
@@ -755,6 +1040,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.string': '현',
     'practice.openString': '개방현',
     'practice.finger': '손가락',
+    'practice.position': '{position}포지션',
+    'practice.halfPosition': '하프 포지션',
     'practice.skip': '건너뛰기',
     'practice.startDetection': '감지 시작',
     'practice.stopDetection': '중지',
@@ -779,6 +1066,37 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.bow': '활',
     'practice.upBow': '올림활',
     'practice.downBow': '내림활',
+    'practice.annotate': '운지 편집',
+    'practice.annotateHint': '악보의 음표를 눌러 손가락, 현, 포지션, 활 방향을 바꾸세요',
+    'practice.fingering': '운지',
+    'practice.positionLabel': '포지션',
+    'practice.annotationReset': '자동으로 되돌리기',
+    'practice.annotationDone': '완료',
+    'practice.dynamic.ppp': '아주 아주 여리게',
+    'practice.dynamic.pp': '아주 여리게',
+    'practice.dynamic.p': '여리게',
+    'practice.dynamic.mp': '조금 여리게',
+    'practice.dynamic.mf': '조금 세게',
+    'practice.dynamic.f': '세게',
+    'practice.dynamic.ff': '아주 세게',
+    'practice.dynamic.fff': '아주 아주 세게',
+    'practice.crescendo': '점점 세게',
+    'practice.diminuendo': '점점 여리게',
+    'practice.articulation.staccato': '스타카토',
+    'practice.articulation.staccatissimo': '스타카티시모',
+    'practice.articulation.spiccato': '스피카토',
+    'practice.articulation.accent': '악센트',
+    'practice.articulation.marcato': '마르카토',
+    'practice.articulation.tenuto': '테누토',
+    'practice.articulation.detache': '데타셰',
+    'practice.pizzicato': '피치카토',
+    'practice.harmonic.natural': '자연 하모닉스',
+    'practice.harmonic.artificial': '인공 하모닉스',
+    'practice.soundingPitch': '실제 음 {pitch}',
+    'practice.doubleStop': '겹음',
+    'practice.touchHarmonic': '{finger}번 손가락으로 {string}현을 가볍게 대세요 (누르지 마세요)',
+    'practice.doubleStopHint': '{strings} 두 현을 함께 켜세요',
+    'practice.pizzicatoHint': '오른손 검지로 현을 튕기세요',
     'practice.playing': '재생 중',
     'practice.paused': '일시정지',
     'practice.speed': '속도',
@@ -792,14 +1110,26 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.setPointA': 'A점 설정',
     'practice.setPointB': 'B점 설정',
     'practice.cancelLoop': '반복 취소',
+    'practice.minusOne': '반주만',
+    'practice.minusOneDesc': '바이올린 파트를 끄고 반주에 맞춰 직접 연주하세요',
     'practice.detected': '감지됨',
     'practice.target': '목표',
     'assess.endAssessment': '평가 종료',
     'assess.pitchScore': '음정',
     'assess.rhythmScore': '리듬',
+    'assess.tempoScore': '템포',
+    'assess.fluencyScore': '유창성',
+    'assess.completenessScore': '완성도',
+    'assess.totalScore': '총점',
+    'assess.progress': '평가 기록',
+    'assess.progressAttempts': '평가 {count}회',
+    'assess.progressHint': '몇 번 더 평가하면 항목별 점수 변화를 볼 수 있어요',
 
     // 공통
     'common.back': '뒤로',
+    'app.updateAvailable': 'MeloBuddy 새 버전이 있어요',
+    'app.updateLater': '나중에',
+    'app.updateReload': '새로고침',
 
     // AI 채팅
     'aiChat.title': '미아오Do 선생님',
@@ -815,6 +1145,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'aiChat.q5': '하루에 얼마나 연습해야 하나요?',
     'aiChat.q6': '비브라토란 무엇인가요?',
     'aiChat.error': '야옹... 문제가 생겼어요 😿\n\n나중에 다시 시도해주세요~',
+    'aiChat.offline': '지금은 오프라인이라 미아오Do가 답할 수 없어요. 연습 모드, 튜너, 메트로놈은 오프라인에서도 쓸 수 있어요.',
 
     // 프로필
     'profile.title': '프로필',
@@ -826,8 +1157,22 @@ export const translations: Record<Language, Record<string, string>> = {
     'profile.totalXP': '총 XP',
     'profile.days': '일',
     'profile.achievements': '업적',
+    'profile.intonation': '음정 분석',
+    'profile.intonationSessions': '연습 {count}회',
+    'profile.intonationEmpty': '마이크를 켜고 몇 번 연습하면 자주 높거나 낮게 짚는 운지를 보여 드려요',
+    'profile.intonationBalanced': '꾸준히 높거나 낮은 운지가 없어요. 계속 이렇게!',
+    'profile.intonationFinger': '{string}현 {finger}번 손가락',
+    'profile.intonationOpenString': '{string}현 개방현',
+    'profile.intonationFlat': '{cents}센트 낮음',
+    'profile.intonationSharp': '{cents}센트 높음',
+    'profile.intonationCount': '{notes}개 음 · 연습 {sessions}회',
+    'profile.intonationDriftDown': '긴 음에서 점점 낮아짐',
+    'profile.intonationDriftUp': '긴 음에서 점점 높아짐',
+    'profile.intonationTrend': '최근 연습의 평균 편차 (낮을수록 정확)',
     'profile.settings': '설정',
     'profile.resetProgress': '진행 초기화',
+    'profile.storage': '저장 공간',
+    'profile.storageUsage': '{quota} 중 {used} 사용',
     'profile.aboutApp': '앱 정보',
     'profile.version': 'MeloBuddy',
     'profile.resetTitle': '진행 초기화',
@@ -884,6 +1229,25 @@ export const translations: Record<Language, Record<string, string>> = {
     'achievement.level-10.desc': '레벨 10 달성',
     'achievement.xp-1000': '경험 많은',
     'achievement.xp-1000.desc': '총 1000 XP 획득',
+    'practice.exportMidi': 'MIDI 내보내기',
+    'practice.exportMusicXml': 'MusicXML 내보내기',
+    'practice.exportTakeMidi': '이번 연주 내보내기 (MIDI)',
+    'practice.assessSpeedHint': '리듬은 {bpm} BPM 박자로 평가합니다',
+    'practice.assessStrict': '한 음씩',
+    'practice.assessFree': '자유 연주',
+    'practice.assessFreeHint': '내 속도로 곡 전체를 연주하세요. 틀린 음, 건너뛴 음, 반복도 자동으로 따라가요',
+    'practice.timingEarly': '음 시작이 평균 {ms}ms 빨랐어요',
+    'practice.timingLate': '음 시작이 평균 {ms}ms 늦었어요',
+    'practice.timingSteady': '음 시작이 박자에 잘 맞았어요',
+    'practice.recordingHint': '실수를 누르면 녹음의 그 순간으로 이동해요',
+    'practice.markerMissed': '놓침',
+    'practice.markerEarly': '{ms}ms 빠름',
+    'practice.markerLate': '{ms}ms 늦음',
+    'library.pasteJianpu': '숫자보 붙여넣기',
+    'library.jianpu': '숫자보',
+    'library.jianpuHint': '1=D는 조표, 2/4는 박자표; \' 한 옥타브 위, , 한 옥타브 아래, _ 8분음표, __ 16분음표, - 한 박 늘임, ^2 운지, | 마디선',
+    'library.jianpuFailed': '숫자보를 읽을 수 없습니다: {error}',
+    'library.cancel': '취소',
   },
 
   'ja': {
@@ -929,6 +1293,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.elementary': '初級',
     'library.intermediate': '中級',
     'library.advanced': '上級',
+    'library.expert': 'エキスパート',
     'library.completed': '完了',
     'library.locked': 'Lv.が必要',
     'library.search': '曲を検索...',
@@ -937,12 +1302,23 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.category.etude': 'エチュード',
     'library.category.piece': '楽曲',
     'library.category.exam': '検定曲',
+    'library.category.imported': 'マイ楽譜',
+    'library.imported': 'インポート',
+    'library.import': '楽譜をインポート',
+    'library.importing': 'インポート中...',
+    'library.importFailed': '{files} をインポートできません。MusicXML (.xml / .mxl) または MIDI (.mid) の楽譜を選んでください',
+    'library.deleteImported': 'インポートした曲を削除',
+    'library.deleteConfirm': '「{title}」を削除しますか？',
+    'library.loading': '読み込み中...',
     'library.songs': '曲',
     'library.seconds': '秒',
 
     // 練習モード選択
     'practice.selectMode': '練習モードを選択',
     'practice.selectModeDesc': '自分に合った練習方法を選んでください',
+    'practice.part': '練習するパート',
+    'practice.partDesc': '演奏するパートを選んでください。他のパートは伴奏になります',
+    'practice.violinPart': 'バイオリン',
     'practice.mode.learn': '学習モード',
     'practice.mode.learn.desc': '音符ごとに確認、時間制限なし、正確性重視',
     'practice.mode.learn.tip': '初心者が楽譜を覚えるのに最適',
@@ -974,6 +1350,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.string': '弦',
     'practice.openString': '開放弦',
     'practice.finger': '指',
+    'practice.position': '第{position}ポジション',
+    'practice.halfPosition': 'ハーフポジション',
     'practice.skip': 'スキップ',
     'practice.startDetection': '検出開始',
     'practice.stopDetection': '停止',
@@ -998,6 +1376,37 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.bow': '弓',
     'practice.upBow': 'アップボウ',
     'practice.downBow': 'ダウンボウ',
+    'practice.annotate': '運指を編集',
+    'practice.annotateHint': '楽譜の音符をタップして、指・弦・ポジション・弓の方向を変更します',
+    'practice.fingering': '運指',
+    'practice.positionLabel': 'ポジション',
+    'practice.annotationReset': '自動に戻す',
+    'practice.annotationDone': '完了',
+    'practice.dynamic.ppp': 'ピアニッシシモ',
+    'practice.dynamic.pp': 'ピアニッシモ',
+    'practice.dynamic.p': 'ピアノ',
+    'practice.dynamic.mp': 'メゾピアノ',
+    'practice.dynamic.mf': 'メゾフォルテ',
+    'practice.dynamic.f': 'フォルテ',
+    'practice.dynamic.ff': 'フォルティッシモ',
+    'practice.dynamic.fff': 'フォルティッシシモ',
+    'practice.crescendo': 'クレッシェンド',
+    'practice.diminuendo': 'ディミヌエンド',
+    'practice.articulation.staccato': 'スタッカート',
+    'practice.articulation.staccatissimo': 'スタッカーティッシモ',
+    'practice.articulation.spiccato': 'スピッカート',
+    'practice.articulation.accent': 'アクセント',
+    'practice.articulation.marcato': 'マルカート',
+    'practice.articulation.tenuto': 'テヌート',
+    'practice.articulation.detache': 'デタシェ',
+    'practice.pizzicato': 'ピチカート',
+    'practice.harmonic.natural': '自然ハーモニクス',
+    'practice.harmonic.artificial': '人工ハーモニクス',
+    'practice.soundingPitch': '実音 {pitch}',
+    'practice.doubleStop': '重音',
+    'practice.touchHarmonic': '{finger}の指で{string}線に軽く触れる（押さえない）',
+    'practice.doubleStopHint': '{strings} の2本の弦を同時に弾く',
+    'practice.pizzicatoHint': '右手の人差し指で弦をはじく',
     'practice.playing': '再生中',
     'practice.paused': '一時停止',
     'practice.speed': '速度',
@@ -1011,14 +1420,26 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.setPointA': 'Aポイント設定',
     'practice.setPointB': 'Bポイント設定',
     'practice.cancelLoop': 'ループ解除',
+    'practice.minusOne': '伴奏のみ',
+    'practice.minusOneDesc': 'バイオリンパートを消して、伴奏に合わせて弾きましょう',
     'practice.detected': '検出',
     'practice.target': '目標',
     'assess.endAssessment': '評価終了',
     'assess.pitchScore': '音程',
     'assess.rhythmScore': 'リズム',
+    'assess.tempoScore': 'テンポ',
+    'assess.fluencyScore': '流暢さ',
+    'assess.completenessScore': '完成度',
+    'assess.totalScore': '総合',
+    'assess.progress': '評価の推移',
+    'assess.progressAttempts': '{count} 回の評価',
+    'assess.progressHint': 'あと数回評価すると、各項目の変化が見られます',
 
     // 共通
     'common.back': '戻る',
+    'app.updateAvailable': 'MeloBuddy の新しいバージョンがあります',
+    'app.updateLater': 'あとで',
+    'app.updateReload': '更新',
 
     // AIチャット
     'aiChat.title': 'ニャーDo先生',
@@ -1034,6 +1455,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'aiChat.q5': '毎日どのくらい練習すればいい？',
     'aiChat.q6': 'ビブラートとは？',
     'aiChat.error': 'にゃー...問題が発生しました 😿\n\n後でもう一度試してね~',
+    'aiChat.offline': 'オフラインのため、ニャーDoは今は答えられません。練習モード・チューナー・メトロノームはオフラインでも使えます。',
 
     // プロフィール
     'profile.title': 'マイページ',
@@ -1045,8 +1467,22 @@ export const translations: Record<Language, Record<string, string>> = {
     'profile.totalXP': '総XP',
     'profile.days': '日',
     'profile.achievements': '実績',
+    'profile.intonation': '音程分析',
+    'profile.intonationSessions': '{count} 回の練習',
+    'profile.intonationEmpty': 'マイクをオンにして何回か練習すると、高め・低めになりやすい指使いが表示されます',
+    'profile.intonationBalanced': 'いつも高め・低めになる指使いはありません。この調子！',
+    'profile.intonationFinger': '{string} 線の {finger} の指',
+    'profile.intonationOpenString': '{string} 線の開放弦',
+    'profile.intonationFlat': '{cents} セント低め',
+    'profile.intonationSharp': '{cents} セント高め',
+    'profile.intonationCount': '{notes} 音 · {sessions} 回の練習',
+    'profile.intonationDriftDown': '長い音でだんだん低くなる',
+    'profile.intonationDriftUp': '長い音でだんだん高くなる',
+    'profile.intonationTrend': '最近の練習の平均のずれ（低いほど正確）',
     'profile.settings': '設定',
     'profile.resetProgress': '進捗をリセット',
+    'profile.storage': 'ストレージ',
+    'profile.storageUsage': '{quota} 中 {used} 使用',
     'profile.aboutApp': 'アプリについて',
     'profile.version': 'MeloBuddy',
     'profile.resetTitle': '進捗をリセット',
@@ -1103,6 +1539,25 @@ export const translations: Record<Language, Record<string, string>> = {
     'achievement.level-10.desc': 'レベル10達成',
     'achievement.xp-1000': '経験豊富',
     'achievement.xp-1000.desc': '合計1000 XP獲得',
+    'practice.exportMidi': 'MIDI を書き出す',
+    'practice.exportMusicXml': 'MusicXML を書き出す',
+    'practice.exportTakeMidi': '今回の演奏を書き出す (MIDI)',
+    'practice.assessSpeedHint': 'リズムは {bpm} BPM の拍で評価します',
+    'practice.assessStrict': '一音ずつ',
+    'practice.assessFree': '自由に演奏',
+    'practice.assessFreeHint': '自分のテンポで最後まで弾いてください。間違った音や飛ばし、繰り返しにも自動でついていきます',
+    'practice.timingEarly': '音の出だしが平均 {ms} ミリ秒早めでした',
+    'practice.timingLate': '音の出だしが平均 {ms} ミリ秒遅めでした',
+    'practice.timingSteady': '音の出だしはほぼ拍どおりでした',
+    'practice.recordingHint': 'ミスをタップすると録音のその場面に移動します',
+    'practice.markerMissed': '抜け',
+    'practice.markerEarly': '{ms} ミリ秒早い',
+    'practice.markerLate': '{ms} ミリ秒遅い',
+    'library.pasteJianpu': '数字譜を貼り付け',
+    'library.jianpu': '数字譜',
+    'library.jianpuHint': '1=D は調、2/4 は拍子。\' で1オクターブ上、, で下、_ は八分音符、__ は十六分音符、- は1拍延ばす、^2 は運指、| は小節線',
+    'library.jianpuFailed': '数字譜を読み取れません：{error}',
+    'library.cancel': 'キャンセル',
   },
 
   'es': {
@@ -1148,6 +1603,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.elementary': 'Elemental',
     'library.intermediate': 'Intermedio',
     'library.advanced': 'Avanzado',
+    'library.expert': 'Experto',
     'library.completed': 'Completado',
     'library.locked': 'Requiere Nv.',
     'library.search': 'Buscar canciones...',
@@ -1156,12 +1612,23 @@ export const translations: Record<Language, Record<string, string>> = {
     'library.category.etude': 'Estudios',
     'library.category.piece': 'Piezas',
     'library.category.exam': 'Examen',
+    'library.category.imported': 'Mis partituras',
+    'library.imported': 'Importada',
+    'library.import': 'Importar',
+    'library.importing': 'Importando...',
+    'library.importFailed': 'No se pudo importar {files}. Elige una partitura MusicXML (.xml / .mxl) o MIDI (.mid).',
+    'library.deleteImported': 'Eliminar partitura importada',
+    'library.deleteConfirm': '¿Eliminar "{title}"?',
+    'library.loading': 'Cargando...',
     'library.songs': 'canciones',
     'library.seconds': 'seg',
 
     // Selección de Modo de Práctica
     'practice.selectMode': 'Seleccionar Modo',
     'practice.selectModeDesc': 'Elige la mejor manera de practicar',
+    'practice.part': 'Parte a practicar',
+    'practice.partDesc': 'Elige la parte que vas a tocar; las demás serán el acompañamiento',
+    'practice.violinPart': 'violín',
     'practice.mode.learn': 'Modo Aprender',
     'practice.mode.learn.desc': 'Nota por nota, sin límite de tiempo, enfoque en precisión',
     'practice.mode.learn.tip': 'Ideal para principiantes',
@@ -1193,6 +1660,8 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.string': 'Cuerda',
     'practice.openString': 'Al aire',
     'practice.finger': 'Dedo',
+    'practice.position': 'Posición {position}',
+    'practice.halfPosition': 'Media posición',
     'practice.skip': 'Saltar',
     'practice.startDetection': 'Iniciar Detección',
     'practice.stopDetection': 'Detener',
@@ -1217,6 +1686,37 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.bow': 'Arco',
     'practice.upBow': 'Arco arriba',
     'practice.downBow': 'Arco abajo',
+    'practice.annotate': 'Editar digitación',
+    'practice.annotateHint': 'Toca una nota de la partitura para cambiar su dedo, cuerda, posición y dirección del arco',
+    'practice.fingering': 'Dedo',
+    'practice.positionLabel': 'Posición',
+    'practice.annotationReset': 'Volver a automático',
+    'practice.annotationDone': 'Listo',
+    'practice.dynamic.ppp': 'Pianississimo',
+    'practice.dynamic.pp': 'Pianissimo',
+    'practice.dynamic.p': 'Piano',
+    'practice.dynamic.mp': 'Mezzo piano',
+    'practice.dynamic.mf': 'Mezzo forte',
+    'practice.dynamic.f': 'Forte',
+    'practice.dynamic.ff': 'Fortissimo',
+    'practice.dynamic.fff': 'Fortississimo',
+    'practice.crescendo': 'Crescendo',
+    'practice.diminuendo': 'Diminuendo',
+    'practice.articulation.staccato': 'Staccato',
+    'practice.articulation.staccatissimo': 'Staccatissimo',
+    'practice.articulation.spiccato': 'Spiccato',
+    'practice.articulation.accent': 'Acento',
+    'practice.articulation.marcato': 'Marcato',
+    'practice.articulation.tenuto': 'Tenuto',
+    'practice.articulation.detache': 'Détaché',
+    'practice.pizzicato': 'Pizzicato',
+    'practice.harmonic.natural': 'Armónico natural',
+    'practice.harmonic.artificial': 'Armónico artificial',
+    'practice.soundingPitch': 'suena {pitch}',
+    'practice.doubleStop': 'Doble cuerda',
+    'practice.touchHarmonic': 'Roza la cuerda {string} con el dedo {finger} (sin presionar)',
+    'practice.doubleStopHint': 'Toca las cuerdas {strings} a la vez',
+    'practice.pizzicatoHint': 'Pulsa la cuerda con el índice derecho',
     'practice.playing': 'Reproduciendo',
     'practice.paused': 'Pausado',
     'practice.speed': 'Velocidad',
@@ -1230,14 +1730,26 @@ export const translations: Record<Language, Record<string, string>> = {
     'practice.setPointA': 'Establecer punto A',
     'practice.setPointB': 'Establecer punto B',
     'practice.cancelLoop': 'Cancelar bucle',
+    'practice.minusOne': 'Solo acompañamiento',
+    'practice.minusOneDesc': 'Silencia la línea de violín y toca con el acompañamiento',
     'practice.detected': 'Detectado',
     'practice.target': 'Objetivo',
     'assess.endAssessment': 'Terminar evaluación',
     'assess.pitchScore': 'Tono',
     'assess.rhythmScore': 'Ritmo',
+    'assess.tempoScore': 'Tempo',
+    'assess.fluencyScore': 'Fluidez',
+    'assess.completenessScore': 'Completitud',
+    'assess.totalScore': 'Total',
+    'assess.progress': 'Progreso de evaluación',
+    'assess.progressAttempts': '{count} evaluaciones',
+    'assess.progressHint': 'Haz algunas evaluaciones más para ver cómo cambia cada puntuación',
 
     // Común
     'common.back': 'Volver',
+    'app.updateAvailable': 'Hay una nueva versión de MeloBuddy',
+    'app.updateLater': 'Más tarde',
+    'app.updateReload': 'Actualizar',
 
     // Chat IA
     'aiChat.title': 'Profesor MiaoDo',
@@ -1253,6 +1765,7 @@ export const translations: Record<Language, Record<string, string>> = {
     'aiChat.q5': '¿Cuánto practicar diariamente?',
     'aiChat.q6': '¿Qué es el vibrato?',
     'aiChat.error': 'Miau... Tengo un problema 😿\n\nPor favor intenta más tarde~',
+    'aiChat.offline': 'Estás sin conexión, así que MiaoDo no puede responder ahora. Los modos de práctica, el afinador y el metrónomo funcionan sin conexión.',
 
     // Perfil
     'profile.title': 'Perfil',
@@ -1264,8 +1777,22 @@ export const translations: Record<Language, Record<string, string>> = {
     'profile.totalXP': 'XP Total',
     'profile.days': 'días',
     'profile.achievements': 'Logros',
+    'profile.intonation': 'Afinación',
+    'profile.intonationSessions': '{count} sesiones',
+    'profile.intonationEmpty': 'Practica unas cuantas veces con el micrófono para ver qué digitaciones tiendes a tocar altas o bajas',
+    'profile.intonationBalanced': 'Ninguna digitación sale siempre alta o baja. ¡Sigue así!',
+    'profile.intonationFinger': 'Dedo {finger} en la cuerda {string}',
+    'profile.intonationOpenString': 'Cuerda {string} al aire',
+    'profile.intonationFlat': '{cents} cents bajo',
+    'profile.intonationSharp': '{cents} cents alto',
+    'profile.intonationCount': '{notes} notas · {sessions} sesiones',
+    'profile.intonationDriftDown': 'baja en las notas largas',
+    'profile.intonationDriftUp': 'sube en las notas largas',
+    'profile.intonationTrend': 'Desviación media en las últimas sesiones (menos es mejor)',
     'profile.settings': 'Ajustes',
     'profile.resetProgress': 'Reiniciar Progreso',
+    'profile.storage': 'Almacenamiento',
+    'profile.storageUsage': '{used} usados de {quota}',
     'profile.aboutApp': 'Acerca de',
     'profile.version': 'MeloBuddy',
     'profile.resetTitle': 'Reiniciar Progreso',
@@ -1322,6 +1849,25 @@ export const translations: Record<Language, Record<string, string>> = {
     'achievement.level-10.desc': 'Alcanza nivel 10',
     'achievement.xp-1000': 'Experimentado',
     'achievement.xp-1000.desc': 'Gana 1000 XP en total',
+    'practice.exportMidi': 'Exportar MIDI',
+    'practice.exportMusicXml': 'Exportar MusicXML',
+    'practice.exportTakeMidi': 'Exportar esta interpretación (MIDI)',
+    'practice.assessSpeedHint': 'El ritmo se evalúa con un pulso de {bpm} BPM',
+    'practice.assessStrict': 'Nota a nota',
+    'practice.assessFree': 'Tocar libremente',
+    'practice.assessFreeHint': 'Toca la pieza completa a tu ritmo. Las notas falsas, saltos y repeticiones se siguen automáticamente',
+    'practice.timingEarly': 'Las notas empezaron {ms} ms antes de tiempo en promedio',
+    'practice.timingLate': 'Las notas empezaron {ms} ms tarde en promedio',
+    'practice.timingSteady': 'Las notas empezaron justo a tiempo',
+    'practice.recordingHint': 'Toca un error para ir a ese momento de la grabación',
+    'practice.markerMissed': 'omitida',
+    'practice.markerEarly': '{ms} ms antes',
+    'practice.markerLate': '{ms} ms después',
+    'library.pasteJianpu': 'Pegar jianpu',
+    'library.jianpu': 'Jianpu',
+    'library.jianpuHint': '1=D indica la tonalidad y 2/4 el compás; \' sube y , baja una octava, _ es corchea y __ semicorchea, - prolonga un tiempo, ^2 es una digitación, | es la barra de compás',
+    'library.jianpuFailed': 'No se pudo leer el jianpu: {error}',
+    'library.cancel': 'Cancelar',
   },
 }
 
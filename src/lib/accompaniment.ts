@@ -0,0 +1,135 @@
+import * as Tone from 'tone'
+import type { AccompanimentPart } from '@/types'
+import { getSoundingPitches } from '@/lib/musicxml-parser'
+import { TempoMap, beatToSeconds, beatSpanToSeconds } from '@/lib/tempo-map'
+
+// ===================
+// 伴奏播放
+// ===================
+// 播放乐谱中的其他声部（钢琴伴奏、第二小提琴等），跟随练习的播放时间。
+// 每帧根据当前乐谱时间提前安排即将开始的音符，支持变速和跳转（A-B 循环、拖动进度）。
+
+// 提前安排音符的时间窗口 (秒，乐谱时间)
+const LOOKAHEAD_SECONDS = 0.15
+// 时间向前跳过超过这个值视为拖动进度，重新定位
+const SEEK_THRESHOLD_SECONDS = 0.5
+// 伴奏整体音量 (dB)，比小提琴主旋律低
+const ACCOMPANIMENT_VOLUME_DB = -10
+// 弦乐声部的名称，用较柔和的持续音色
+const STRING_PART_PATTERN = /violin|viola|cello|violon|contrabass|bass|strings|小提琴|中提琴|大提琴/i
+
+// 一个要播放的音（和弦一起发声）
+interface AccompanimentEvent {
+  time: number // 乐谱时间 (秒)
+  duration: number // 秒
+  pitches: string[]
+  velocity: number
+  voice: number // 所属音色在 synths 中的序号
+}
+
+/**
+ * 按声部名称选择音色：弦乐用持续音色，其他（钢琴等）用衰减的击弦音色
+ */
+function createVoice(part: AccompanimentPart, output: Tone.ToneAudioNode): Tone.PolySynth {
+  const isStrings = STRING_PART_PATTERN.test(part.name)
+  const synth = new Tone.PolySynth(Tone.Synth, isStrings
+    ? {
+        oscillator: { type: 'fatsawtooth', count: 2, spread: 12 },
+        envelope: { attack: 0.08, decay: 0.2, sustain: 0.7, release: 0.4 },
+      }
+    : {
+        oscillator: { type: 'fmtriangle', modulationIndex: 2, harmonicity: 3 },
+        envelope: { attack: 0.005, decay: 1.2, sustain: 0.15, release: 0.8 },
+      })
+  synth.maxPolyphony = 32
+  synth.connect(output)
+  return synth
+}
+
+export class AccompanimentPlayer {
+  private events: AccompanimentEvent[]
+  private parts: AccompanimentPart[]
+  private output: Tone.Volume | null = null
+  private synths: Tone.PolySynth[] = []
+  private nextIndex = 0
+  private lastTime: number | null = null
+
+  constructor(parts: AccompanimentPart[], tempoMap: TempoMap) {
+    this.parts = parts
+    this.events = parts
+      .flatMap((part, voice) =>
+        part.notes.map((note) => ({
+          time: beatToSeconds(tempoMap, note.startBeat),
+          duration: beatSpanToSeconds(tempoMap, note.startBeat, note.startBeat + note.duration),
+          pitches: getSoundingPitches(note),
+          velocity: note.velocity ?? 0.65,
+          voice,
+        }))
+      )
+      .sort((a, b) => a.time - b.time)
+  }
+
+  get isEmpty(): boolean {
+    return this.events.length === 0
+  }
+
+  /**
+   * 每帧调用：安排从当前乐谱时间开始、在时间窗口内的音符
+   * @param currentTime 当前乐谱时间 (秒)
+   * @param playbackRate 播放速度
+   */
+  update(currentTime: number, playbackRate: number) {
+    if (this.isEmpty) return
+
+    // 向后跳（A-B 循环、后退）或向前拖动：停止已安排的音符并重新定位
+    const jumped = this.lastTime === null
+      || currentTime < this.lastTime
+      || currentTime - this.lastTime > SEEK_THRESHOLD_SECONDS
+    if (jumped) {
+      this.disposeSynths()
+      this.nextIndex = this.events.findIndex((event) => event.time >= currentTime - 1e-3)
+      if (this.nextIndex < 0) this.nextIndex = this.events.length
+    }
+    this.lastTime = currentTime
+    this.ensureSynths()
+
+    const now = Tone.now()
+    const windowEnd = currentTime + LOOKAHEAD_SECONDS * playbackRate
+    while (this.nextIndex < this.events.length && this.events[this.nextIndex].time < windowEnd) {
+      const event = this.events[this.nextIndex]
+      const startAt = now + Math.max(0, (event.time - currentTime) / playbackRate)
+      this.synths[event.voice].triggerAttackRelease(
+        event.pitches,
+        Math.max(0.05, (event.duration * 0.95) / playbackRate),
+        startAt,
+        event.velocity
+      )
+      this.nextIndex++
+    }
+  }
+
+  /**
+   * 暂停：立即停止所有声音（包括已安排但尚未开始的音符）
+   */
+  stop() {
+    this.disposeSynths()
+    this.lastTime = null
+  }
+
+  dispose() {
+    this.stop()
+  }
+
+  private ensureSynths() {
+    if (this.output) return
+    this.output = new Tone.Volume(ACCOMPANIMENT_VOLUME_DB).toDestination()
+    this.synths = this.parts.map((part) => createVoice(part, this.output!))
+  }
+
+  private disposeSynths() {
+    this.synths.forEach((synth) => synth.dispose())
+    this.synths = []
+    this.output?.dispose()
+    this.output = null
+  }
+}
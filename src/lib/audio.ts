@@ -1,4 +1,5 @@
 import * as Tone from 'tone'
+import type { Articulation, ParsedNote } from '@/types'
 
 // ===================
 // 小提琴音色合成器
@@ -18,6 +19,92 @@ const HARMONIC_AMPLITUDES = [
   0.05,   // 8th
 ]
 
+// 默认力度 (mf)
+const DEFAULT_VELOCITY = 0.65
+const DEFAULT_PEAK_GAIN = 0.7
+
+// 泛音：几乎只有基频的纯净音色
+const HARMONIC_TONE_AMPLITUDES = [1.0, 0.08, 0.02]
+
+// 拨弦余音长度范围 (秒)
+const PIZZICATO_MIN_DECAY = 0.25
+const PIZZICATO_MAX_DECAY = 1.2
+
+// 同时发声的声部数（双音、和弦）
+const VOICE_POOL_SIZE = 4
+
+// 音符表情：力度、奏法与特殊技巧
+export interface NoteExpression {
+  velocity?: number // 0-1
+  articulations?: Articulation[]
+  pizzicato?: boolean // 拨弦
+  harmonic?: boolean // 泛音
+}
+
+/**
+ * 从解析后的音符得到播放用的表情参数
+ */
+export function getNoteExpression(note: ParsedNote): NoteExpression {
+  return {
+    velocity: note.velocity,
+    articulations: note.articulations,
+    pizzicato: note.pizzicato,
+    harmonic: note.harmonic !== undefined,
+  }
+}
+
+// 奏法对应的包络
+interface ArticulationEnvelope {
+  attack: number // 起音时间 (秒)
+  release: number // 释放时间 (秒)
+  lengthRatio: number // 实际发声占时值的比例
+  accentBoost: number // 起音处的音量提升倍数
+  noiseLevel: number // 弓噪声强度
+}
+
+function getArticulationEnvelope({ articulations = [], pizzicato, harmonic }: NoteExpression): ArticulationEnvelope {
+  const envelope: ArticulationEnvelope = {
+    attack: 0.05,
+    release: 0.3,
+    lengthRatio: 1,
+    accentBoost: 1,
+    noiseLevel: 0.008,
+  }
+
+  if (articulations.includes('detache')) {
+    Object.assign(envelope, { attack: 0.03, release: 0.12, lengthRatio: 0.92 })
+  }
+  if (articulations.includes('tenuto')) {
+    Object.assign(envelope, { release: 0.4, lengthRatio: 1 })
+  }
+  if (articulations.includes('staccato')) {
+    Object.assign(envelope, { attack: 0.03, release: 0.08, lengthRatio: 0.5 })
+  }
+  if (articulations.includes('staccatissimo')) {
+    Object.assign(envelope, { attack: 0.02, release: 0.05, lengthRatio: 0.3 })
+  }
+  // 跳弓：弓离弦，起音快、弓噪声明显
+  if (articulations.includes('spiccato')) {
+    Object.assign(envelope, { attack: 0.01, release: 0.06, lengthRatio: 0.4, noiseLevel: 0.02 })
+  }
+  if (articulations.includes('accent')) {
+    Object.assign(envelope, { attack: Math.min(envelope.attack, 0.02), accentBoost: 1.3 })
+  }
+  if (articulations.includes('marcato')) {
+    Object.assign(envelope, { attack: Math.min(envelope.attack, 0.015), accentBoost: 1.5 })
+  }
+  // 泛音：起音柔和，几乎没有弓噪声
+  if (harmonic) {
+    Object.assign(envelope, { attack: Math.max(envelope.attack, 0.08), noiseLevel: 0.002 })
+  }
+  // 拨弦：瞬间起音后自然衰减，没有弓噪声
+  if (pizzicato) {
+    Object.assign(envelope, { attack: 0.004, release: 0.05, accentBoost: 1, noiseLevel: 0 })
+  }
+
+  return envelope
+}
+
 class ViolinVoice {
   private partials: Tone.Oscillator[] = []
   private gains: Tone.Gain[] = []
@@ -74,16 +161,23 @@ class ViolinVoice {
     this.masterGain.connect(destination)
   }
 
-  play(frequency: number, duration: number) {
+  play(frequency: number, duration: number, expression: NoteExpression = {}) {
     // 清理之前的音符
     this.cleanup()
 
     const now = Tone.now()
+    const envelope = getArticulationEnvelope(expression)
+    const peakGain = DEFAULT_PEAK_GAIN * ((expression.velocity ?? DEFAULT_VELOCITY) / DEFAULT_VELOCITY)
+    // 短奏法缩短实际发声时间；拨弦的发声时间就是余音衰减的时间
+    const soundingDuration = expression.pizzicato
+      ? Math.min(PIZZICATO_MAX_DECAY, Math.max(PIZZICATO_MIN_DECAY, duration))
+      : Math.min(duration, Math.max(0.06, duration * envelope.lengthRatio))
+    const amplitudes = expression.harmonic ? HARMONIC_TONE_AMPLITUDES : HARMONIC_AMPLITUDES
 
     // 创建泛音振荡器
-    HARMONIC_AMPLITUDES.forEach((amp, i) => {
+    amplitudes.forEach((amp, i) => {
       const osc = new Tone.Oscillator({
-        type: i === 0 ? 'sawtooth' : 'sine',
+        type: i === 0 && !expression.harmonic ? 'sawtooth' : 'sine',
         frequency: frequency * (i + 1),
       })
 
@@ -97,7 +191,7 @@ class ViolinVoice {
       // Attack - 模拟弓接触弦
       const targetGain = amp * 0.12
       gain.gain.setValueAtTime(0, now)
-      gain.gain.linearRampToValueAtTime(targetGain, now + 0.06)
+      gain.gain.linearRampToValueAtTime(targetGain, now + envelope.attack + 0.01)
 
       this.partials.push(osc)
       this.gains.push(gain)
@@ -110,14 +204,22 @@ class ViolinVoice {
 
     this.noiseFilter.frequency.setValueAtTime(Math.min(frequency * 3, 4000), now)
     this.noiseGain.gain.setValueAtTime(0, now)
-    this.noiseGain.gain.linearRampToValueAtTime(0.008, now + 0.04)
+    this.noiseGain.gain.linearRampToValueAtTime(envelope.noiseLevel, now + Math.min(0.04, envelope.attack))
 
-    // 主增益
+    // 主增益（力度），重音先冲高再回落
     this.masterGain.gain.setValueAtTime(0, now)
-    this.masterGain.gain.linearRampToValueAtTime(0.7, now + 0.05)
+    this.masterGain.gain.linearRampToValueAtTime(peakGain * envelope.accentBoost, now + envelope.attack)
+    if (envelope.accentBoost > 1) {
+      this.masterGain.gain.linearRampToValueAtTime(peakGain, now + envelope.attack + 0.15)
+    }
+
+    // 拨弦：起音后立即指数衰减
+    if (expression.pizzicato) {
+      this.masterGain.gain.setTargetAtTime(0, now + envelope.attack, soundingDuration / 4)
+    }
 
-    // 揉弦 (长音符才加)
-    if (duration > 0.4) {
+    // 揉弦 (长音符才加，拨弦和泛音不加)
+    if (soundingDuration > 0.4 && !expression.harmonic) {
       this.vibratoLFO = new Tone.LFO({
         frequency: 5.5,
         min: -0.015,
@@ -138,8 +240,8 @@ class ViolinVoice {
     }
 
     // 设置释放
-    const releaseStart = now + duration
-    const releaseTime = 0.3
+    const releaseStart = now + soundingDuration
+    const releaseTime = envelope.release
 
     // Release
     this.gains.forEach(gain => {
@@ -150,8 +252,10 @@ class ViolinVoice {
     this.noiseGain.gain.setValueAtTime(this.noiseGain.gain.value, releaseStart)
     this.noiseGain.gain.linearRampToValueAtTime(0, releaseStart + releaseTime)
 
-    this.masterGain.gain.setValueAtTime(0.7, releaseStart)
-    this.masterGain.gain.linearRampToValueAtTime(0, releaseStart + releaseTime)
+    if (!expression.pizzicato) {
+      this.masterGain.gain.setValueAtTime(peakGain, releaseStart)
+      this.masterGain.gain.linearRampToValueAtTime(0, releaseStart + releaseTime)
+    }
 
     // 停止振荡器
     const stopTime = releaseStart + releaseTime + 0.05
@@ -162,7 +266,7 @@ class ViolinVoice {
     // 清理定时器
     this.releaseTimeout = setTimeout(() => {
       this.cleanup()
-    }, (duration + releaseTime + 0.1) * 1000)
+    }, (soundingDuration + releaseTime + 0.1) * 1000)
   }
 
   stop() {
@@ -222,7 +326,7 @@ class ViolinVoice {
 // ===================
 
 class AudioManager {
-  private violinVoice: ViolinVoice | null = null
+  private violinVoices: ViolinVoice[] = []
   private successSynth: Tone.PolySynth | null = null
   private initialized = false
 
@@ -246,8 +350,8 @@ class AudioManager {
 
     await Tone.start()
 
-    // 创建小提琴声音
-    this.violinVoice = new ViolinVoice(Tone.getDestination())
+    // 创建小提琴声音（多个声部用于双音）
+    this.violinVoices = Array.from({ length: VOICE_POOL_SIZE }, () => new ViolinVoice(Tone.getDestination()))
 
     // 成功音效
     this.successSynth = new Tone.PolySynth(Tone.Synth, {
@@ -272,15 +376,33 @@ class AudioManager {
 
   private getFrequency(pitch: string): number {
     const normalized = pitch.replace('♯', '#').replace('♭', 'b')
-    return AudioManager.NOTE_FREQUENCIES[normalized] || 440
+    const known = AudioManager.NOTE_FREQUENCIES[normalized]
+    if (known) return known
+
+    // 表外的音（如高把位泛音）按十二平均律计算
+    const match = normalized.match(/^([A-G])(#|b)?(-?\d)$/)
+    if (!match) return 440
+    const semitone = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }[match[1] as 'C']
+      + (match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0)
+    const midi = (Number(match[3]) + 1) * 12 + semitone
+    return 440 * Math.pow(2, (midi - 69) / 12)
   }
 
-  async playNote(pitch: string, duration: number = 0.5) {
+  /**
+   * 播放一个音，传入多个音高时同时发声（双音、和弦）
+   */
+  async playNote(pitch: string | string[], duration: number = 0.5, expression?: NoteExpression) {
     await this.ensureInit()
-    if (!this.violinVoice) return
-
-    const freq = this.getFrequency(pitch)
-    this.violinVoice.play(freq, duration)
+    if (this.violinVoices.length === 0) return
+
+    const pitches = (Array.isArray(pitch) ? pitch : [pitch]).slice(0, this.violinVoices.length)
+    this.violinVoices.forEach((voice, i) => {
+      if (i < pitches.length) {
+        voice.play(this.getFrequency(pitches[i]), duration, expression)
+      } else {
+        voice.stop()
+      }
+    })
   }
 
   async playSuccess() {
@@ -325,7 +447,7 @@ class AudioManager {
   }
 
   stopAll() {
-    this.violinVoice?.stop()
+    this.violinVoices.forEach(voice => voice.stop())
   }
 
   setVolume(volume: number) {
@@ -338,8 +460,8 @@ class AudioManager {
 // 导出单例
 export const audioManager = new AudioManager()
 
-export const playNote = (pitch: string, duration?: number) =>
-  audioManager.playNote(pitch, duration)
+export const playNote = (pitch: string | string[], duration?: number, expression?: NoteExpression) =>
+  audioManager.playNote(pitch, duration, expression)
 
 export const playSuccess = () => audioManager.playSuccess()
 export const playCombo = () => audioManager.playCombo()
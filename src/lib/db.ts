@@ -0,0 +1,156 @@
+// ===================
+// 本地数据库（IndexedDB）
+// ===================
+// 所有较大的本地数据都存放在同一个 IndexedDB 数据库中：
+// - userScores / userScoreFiles: 用户导入的乐谱（见 user-score-db）
+// - recordings: 评测录音（见 recording-db）
+// - scores: 解析后的乐谱缓存（见 score-cache）
+// - state: zustand store 的持久化数据（见 persist-storage）
+//
+// 数据库结构有版本号，每个版本对应 MIGRATIONS 中的一步；打开时依次执行旧版本之后的所有步骤。
+
+export const DB_NAME = 'melobuddy'
+
+export const STORES = {
+  userScores: 'userScores',
+  userScoreFiles: 'userScoreFiles',
+  recordings: 'recordings',
+  scores: 'scores',
+  state: 'state',
+} as const
+
+// 升级步骤：MIGRATIONS[i] 把数据库从版本 i 升级到 i + 1
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void
+
+const MIGRATIONS: Migration[] = [
+  // v1: 导入的乐谱
+  (db) => {
+    db.createObjectStore(STORES.userScores, { keyPath: 'id' })
+    db.createObjectStore(STORES.userScoreFiles, { keyPath: 'id' })
+  },
+  // v2: 评测录音、乐谱缓存和 store 数据从 localStorage / 单独的数据库移到这里
+  (db) => {
+    const recordings = db.createObjectStore(STORES.recordings, { keyPath: 'id' })
+    recordings.createIndex('timestamp', 'timestamp')
+    db.createObjectStore(STORES.scores, { keyPath: 'id' })
+    db.createObjectStore(STORES.state) // 键为 store 的 name
+  },
+]
+
+export const DB_VERSION = MIGRATIONS.length
+
+// 打开数据库的最长等待时间（毫秒）。其他标签页的旧版本连接不关闭时升级会一直被阻塞，
+// 超时后按打开失败处理，调用方退回 localStorage / 默认值，下次使用时再重试
+const OPEN_TIMEOUT = 3000
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * 打开数据库（版本较旧时执行升级步骤）
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!dbPromise) {
+    const opening = new Promise<IDBDatabase>((resolve, reject) => {
+      let settled = false
+      const fail = (error: unknown) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        reject(error)
+      }
+      const timer = setTimeout(() => fail(new Error('Timed out opening IndexedDB')), OPEN_TIMEOUT)
+
+      let request: IDBOpenDBRequest
+      try {
+        request = indexedDB.open(DB_NAME, DB_VERSION)
+      } catch (error) {
+        // 禁用了网站数据时 open 直接抛出 SecurityError
+        fail(error)
+        return
+      }
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        const transaction = request.transaction as IDBTransaction
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, transaction)
+        }
+      }
+      request.onsuccess = () => {
+        const db = request.result
+        // 已经超时：不再使用这个连接，免得阻塞之后的升级
+        if (settled) {
+          db.close()
+          return
+        }
+        settled = true
+        clearTimeout(timer)
+        // 其他标签页要升级数据库时关闭连接，下次使用时重新打开
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        // 浏览器关闭了连接（如清除网站数据）
+        db.onclose = () => {
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => fail(request.error)
+      // 其他标签页还开着旧版本：等它们关闭连接（新版本的页面会自动关闭），超时前没关闭就按失败处理
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade is blocked by another open tab')
+      }
+    })
+    // 打开失败时不保留这次的结果，下次使用时重试
+    opening.catch(() => {
+      if (dbPromise === opening) dbPromise = null
+    })
+    dbPromise = opening
+  }
+  return dbPromise
+}
+
+/**
+ * 把 IDBRequest 包装成 Promise
+ */
+export function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 等待事务完成
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// 浏览器分配给本站的存储空间（字节）
+export interface StorageUsage {
+  usage: number
+  quota: number
+}
+
+/**
+ * 查询已用 / 可用的存储空间，浏览器不支持时返回 null
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+  } catch (error) {
+    console.warn('Failed to estimate storage:', error)
+    return null
+  }
+}
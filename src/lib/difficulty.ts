@@ -0,0 +1,226 @@
+import type { ParsedNote, ParsedSong, SongMeta } from '@/types'
+import { expandPerformance } from '@/lib/performance-order'
+import { createTempoMap, beatToSeconds } from '@/lib/tempo-map'
+
+// ===================
+// 乐曲难度分析
+// ===================
+// 从解析后的乐谱计算难度画像（音域、把位、调号与临时记号、节奏密度、速度、换把、跨弦、特殊技巧），
+// 再按计分表换算为 1-5 星和经验奖励。用于导入的乐谱，以及检查内置曲库的星级是否合理。
+
+export type DifficultyStars = SongMeta['difficulty']
+
+// 难度画像
+export interface DifficultyProfile {
+  noteCount: number
+  durationSeconds: number // 演奏顺序（含反复）的时长
+  lowestPitch: string
+  highestPitch: string
+  rangeSemitones: number // 音域（半音）
+  maxPosition: number // 需要的最高把位（不计空弦）
+  positionsUsed: number[] // 用到的把位（0 = 半把位）
+  keyAccidentals: number // 调号中升降号最多的数量
+  chromaticRatio: number // 调外音（临时记号）占比
+  notesPerSecond: number // 节奏密度
+  shortestNote: number // 最短音符（拍）
+  maxTempo: number // 最快速度 (BPM)
+  shifts: number // 换把次数
+  stringCrossings: number // 跨弦次数（每跨一根弦计一次）
+  doubleStops: number // 双音数量
+  harmonics: number // 泛音数量
+  pizzicatos: number // 拨弦数量
+}
+
+// 各项分值及总分
+export interface DifficultyRating {
+  stars: DifficultyStars
+  xpReward: number
+  score: number
+  breakdown: Record<string, number>
+}
+
+/**
+ * 频率 → MIDI 音高
+ */
+function frequencyToMidi(frequency: number): number {
+  return Math.round(69 + 12 * Math.log2(frequency / 440))
+}
+
+// 十二个大调在五度圈上的位置（降 D 到升 F）
+const KEY_FIFTHS = [-5, -4, -3, -2, -1, 0, 1, 2, 3, 4, 5, 6]
+
+/**
+ * 调号（五度圈位置）对应的自然音级集合
+ */
+function getKeyPitchClasses(fifths: number): Set<number> {
+  const tonic = (((fifths * 7) % 12) + 12) % 12
+  return new Set([0, 2, 4, 5, 7, 9, 11].map((step) => (tonic + step) % 12))
+}
+
+/**
+ * 音符所在位置生效的调号
+ */
+function getFifthsAt(song: ParsedSong, beat: number): number {
+  let fifths = song.keySignatureChanges[0]?.fifths ?? 0
+  for (const change of song.keySignatureChanges) {
+    if (change.beat > beat + 1e-6) break
+    fifths = change.fifths
+  }
+  return fifths
+}
+
+/**
+ * 是否是按弦的音（空弦和未标指法的音不参与把位统计）
+ */
+function isStopped(note: ParsedNote): boolean {
+  return note.finger !== undefined && note.finger > 0 && note.position !== undefined
+}
+
+/**
+ * 计算乐曲的难度画像
+ * 传入的乐谱应已分配指法（addDefaultFingerings）；反复会展开后再统计
+ */
+export function analyzeDifficulty(song: ParsedSong): DifficultyProfile {
+  const performed = expandPerformance(song)
+  const notes = performed.notes
+  const durationSeconds = beatToSeconds(createTempoMap(performed), performed.totalBeats)
+
+  // 音域（含双音）
+  const midiValues = notes.flatMap((note) => [
+    frequencyToMidi(note.frequency),
+    ...(note.chordPitches ?? []).map((chordPitch) => frequencyToMidi(chordPitch.frequency)),
+  ])
+  const lowestMidi = midiValues.length > 0 ? Math.min(...midiValues) : 0
+  const highestMidi = midiValues.length > 0 ? Math.max(...midiValues) : 0
+  const lowestNote = notes.find((note) => frequencyToMidi(note.frequency) === lowestMidi)
+  const highestNote = notes.find((note) => frequencyToMidi(note.frequency) === highestMidi)
+
+  // 把位与换把
+  const stopped = notes.filter(isStopped)
+  const positionsUsed = [...new Set(stopped.map((note) => note.position!))].sort((a, b) => a - b)
+  let shifts = 0
+  for (let i = 1; i < stopped.length; i++) {
+    if (stopped[i].position !== stopped[i - 1].position) shifts++
+  }
+
+  // 跨弦
+  let stringCrossings = 0
+  for (let i = 1; i < notes.length; i++) {
+    const from = notes[i - 1].string
+    const to = notes[i].string
+    if (from !== undefined && to !== undefined) stringCrossings += Math.abs(to - from)
+  }
+
+  // 调外音：按调号统计；整首的音更贴合另一个调时（调号写错，如 C 大调的旋律记了一个升号）按那个调统计
+  const pitchClasses = notes.map((note) => frequencyToMidi(note.frequency) % 12)
+  const writtenChromatic = notes.filter(
+    (note, i) => !getKeyPitchClasses(getFifthsAt(performed, note.startBeat)).has(pitchClasses[i])
+  ).length
+  const chromaticNotes = Math.min(
+    writtenChromatic,
+    ...KEY_FIFTHS.map((fifths) => {
+      const keyPitchClasses = getKeyPitchClasses(fifths)
+      return pitchClasses.filter((pitchClass) => !keyPitchClasses.has(pitchClass)).length
+    })
+  )
+
+  const tempos = [performed.tempo, ...performed.tempoChanges.map((change) => change.tempo)]
+
+  return {
+    noteCount: notes.length,
+    durationSeconds,
+    lowestPitch: lowestNote?.pitch ?? '',
+    highestPitch: highestNote?.pitch ?? '',
+    rangeSemitones: highestMidi - lowestMidi,
+    maxPosition: positionsUsed.length > 0 ? positionsUsed[positionsUsed.length - 1] : 1,
+    positionsUsed,
+    keyAccidentals: Math.max(0, ...performed.keySignatureChanges.map((change) => Math.abs(change.fifths))),
+    chromaticRatio: notes.length > 0 ? chromaticNotes / notes.length : 0,
+    notesPerSecond: durationSeconds > 0 ? notes.length / durationSeconds : 0,
+    shortestNote: notes.length > 0 ? Math.min(...notes.map((note) => note.duration)) : 0,
+    maxTempo: Math.max(...tempos.filter((tempo) => tempo > 0)),
+    shifts,
+    stringCrossings,
+    doubleStops: notes.filter((note) => note.chordPitches?.length).length,
+    harmonics: notes.filter((note) => note.harmonic).length,
+    pizzicatos: notes.filter((note) => note.pizzicato).length,
+  }
+}
+
+// ===================
+// 计分表
+// ===================
+// 每项按阈值给 0-4 分，总分再换算成星级。阈值表中第 i 个值是得到 i+1 分的下限。
+// 按内置曲库校准：一把位的儿歌和单八度音阶为 1 星，两个八度的音阶 / 琶音和较快的乐曲为 2 星，
+// 带临时升降号的两个八度小调音阶为 3 星；4 星以上需要换把和高把位。
+
+const SCORE_THRESHOLDS = {
+  rangeSemitones: [19, 26, 31, 36], // 一个半八度以内都在一把位的常用音域
+  maxPosition: [2, 3, 5, 7], // 一把位 → 高把位
+  keyAccidentals: [4, 5, 6, 7], // 三个升号以内是一把位常用调
+  chromaticRatio: [0.03, 0.15, 0.3], // 小调音阶的导音已算一次
+  notesPerSecond: [2, 4, 6, 8],
+  shiftsPerNote: [0.01, 0.05, 0.12],
+  crossingsPerNote: [0.6, 0.8, 1], // 儿歌和琶音约每两个音跨一次弦
+}
+
+// 特殊技巧的附加分
+const TECHNIQUE_SCORES = {
+  doubleStops: 2,
+  harmonics: 1,
+  pizzicatos: 0.5,
+}
+
+// 总分 → 星级：第 i 个值是得到 i+2 星的下限
+const STAR_THRESHOLDS = [1, 2, 6, 10]
+
+// 各星级的经验奖励基数（与曲库中同星级曲目的平均奖励一致），按时长适当增加
+const XP_BASE: Record<DifficultyStars, number> = {
+  1: 18,
+  2: 26,
+  3: 42,
+  4: 60,
+  5: 80,
+}
+const XP_PER_MINUTE = 5
+
+/**
+ * 按阈值表计分
+ */
+function scoreByThresholds(value: number, thresholds: number[]): number {
+  return thresholds.filter((threshold) => value >= threshold).length
+}
+
+/**
+ * 把难度画像换算为星级和经验奖励
+ */
+export function rateDifficulty(profile: DifficultyProfile): DifficultyRating {
+  const noteCount = Math.max(1, profile.noteCount)
+  const breakdown: Record<string, number> = {
+    range: scoreByThresholds(profile.rangeSemitones, SCORE_THRESHOLDS.rangeSemitones),
+    position: scoreByThresholds(profile.maxPosition, SCORE_THRESHOLDS.maxPosition),
+    key: scoreByThresholds(profile.keyAccidentals, SCORE_THRESHOLDS.keyAccidentals),
+    accidentals: scoreByThresholds(profile.chromaticRatio, SCORE_THRESHOLDS.chromaticRatio),
+    density: scoreByThresholds(profile.notesPerSecond, SCORE_THRESHOLDS.notesPerSecond),
+    shifts: scoreByThresholds(profile.shifts / noteCount, SCORE_THRESHOLDS.shiftsPerNote),
+    crossings: scoreByThresholds(profile.stringCrossings / noteCount, SCORE_THRESHOLDS.crossingsPerNote),
+    techniques:
+      (profile.doubleStops > 0 ? TECHNIQUE_SCORES.doubleStops : 0) +
+      (profile.harmonics > 0 ? TECHNIQUE_SCORES.harmonics : 0) +
+      (profile.pizzicatos > 0 ? TECHNIQUE_SCORES.pizzicatos : 0),
+  }
+
+  const score = Object.values(breakdown).reduce((sum, value) => sum + value, 0)
+  const stars = (1 + scoreByThresholds(score, STAR_THRESHOLDS)) as DifficultyStars
+  const xpReward = XP_BASE[stars] + Math.round((profile.durationSeconds / 60) * XP_PER_MINUTE)
+
+  return { stars, xpReward, score, breakdown }
+}
+
+/**
+ * 分析乐曲并给出星级和经验奖励
+ */
+export function estimateDifficulty(song: ParsedSong): DifficultyRating & { profile: DifficultyProfile } {
+  const profile = analyzeDifficulty(song)
+  return { ...rateDifficulty(profile), profile }
+}
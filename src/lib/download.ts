@@ -0,0 +1,26 @@
+// ===================
+// 文件下载
+// ===================
+
+/**
+ * 把生成的文件下载到本地
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // 等浏览器开始下载后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * 把标题转换为可用的文件名
+ */
+export function toFileName(title: string, extension: string): string {
+  const base = title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'score'
+  return `${base}.${extension}`
+}
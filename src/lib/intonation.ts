@@ -0,0 +1,173 @@
+// ===================
+// 音准分析
+// ===================
+// 练习时每帧记录检测到的音高相对目标音的音分偏差，每个音符汇总成平均值、离散度和持续时的漂移；
+// 多次练习的记录按“弦 + 手指”和音高分组，找出学生经常偏高 / 偏低的按法。
+
+import type { IntonationSession, NoteIntonation } from '@/types'
+
+const CONFIG = {
+  MIN_SAMPLES: 5, // 一个音符至少这么多帧才计入
+  MIN_NOTES: 4, // 一组至少这么多个音符才下结论
+  MIN_OFFSET: 8, // 平均偏差超过这么多音分才算一个问题
+  MIN_CONSISTENCY: 0.75, // 多次练习时，至少这么多比例的练习偏向同一侧
+  TREND_SESSIONS: 20, // 趋势图显示的最近练习次数
+}
+
+// 一帧音准
+export interface IntonationSample {
+  time: number // 毫秒
+  cents: number // 相对目标音的偏差，正数偏高
+}
+
+// 记录音准需要的音符信息（ParsedNote 或旧数据的 Note）
+export type IntonationNote = Pick<NoteIntonation, 'pitch' | 'string' | 'finger'>
+
+// 一组按法（或一个音高）在多次练习中的音准
+export interface IntonationGroup {
+  key: string
+  string?: number
+  finger?: number
+  pitch?: string
+  mean: number // 所有音符平均偏差的平均值（音分）
+  spread: number // 音符内离散度的平均值（音分）
+  drift: number // 漂移的平均值（音分/秒）
+  notes: number
+  sessions: number
+  consistency: number // 偏向同一侧的练习比例 (0-1)
+}
+
+// 一次练习的整体音准，用于趋势
+export interface IntonationTrendPoint {
+  timestamp: number
+  meanAbs: number // 各音符平均偏差绝对值的平均（音分）
+}
+
+export interface IntonationReport {
+  findings: IntonationGroup[] // 经常偏高 / 偏低的按法，按偏差从大到小
+  pitches: IntonationGroup[] // 按音高分组，按偏差从大到小
+  trend: IntonationTrendPoint[] // 按时间排列
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * 一个音符的音准：平均偏差、标准差和漂移（最小二乘斜率）
+ * 帧数太少时返回 null
+ */
+export function summarizeIntonation(samples: IntonationSample[]): Pick<NoteIntonation, 'mean' | 'spread' | 'drift' | 'samples'> | null {
+  if (samples.length < CONFIG.MIN_SAMPLES) return null
+
+  const mean = average(samples.map((sample) => sample.cents))
+  const spread = Math.sqrt(average(samples.map((sample) => (sample.cents - mean) ** 2)))
+
+  const meanTime = average(samples.map((sample) => sample.time))
+  let covariance = 0
+  let variance = 0
+  for (const sample of samples) {
+    covariance += (sample.time - meanTime) * (sample.cents - mean)
+    variance += (sample.time - meanTime) ** 2
+  }
+  const drift = variance > 0 ? (covariance / variance) * 1000 : 0
+
+  return { mean: round1(mean), spread: round1(spread), drift: round1(drift), samples: samples.length }
+}
+
+/**
+ * 把一次练习各音符的帧记录整理成音准记录
+ * @param traces 音符序号 → 该音符演奏时的帧（同一音符多次演奏时合并）
+ */
+export function createIntonationSession(
+  songId: string,
+  notes: IntonationNote[],
+  traces: Map<number, IntonationSample[]>
+): IntonationSession | null {
+  const noteIntonations: NoteIntonation[] = []
+  traces.forEach((samples, noteIndex) => {
+    const note = notes[noteIndex]
+    const summary = note ? summarizeIntonation(samples) : null
+    if (!summary) return
+    noteIntonations.push({ noteIndex, pitch: note.pitch, string: note.string, finger: note.finger, ...summary })
+  })
+  if (noteIntonations.length === 0) return null
+
+  noteIntonations.sort((a, b) => a.noteIndex - b.noteIndex)
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    songId,
+    timestamp: Date.now(),
+    notes: noteIntonations,
+  }
+}
+
+// 按分组键汇总
+function groupNotes(
+  sessions: IntonationSession[],
+  getKey: (note: NoteIntonation) => string | null
+): IntonationGroup[] {
+  const groups = new Map<string, { notes: NoteIntonation[]; bySession: Map<string, number[]> }>()
+  for (const session of sessions) {
+    for (const note of session.notes) {
+      const key = getKey(note)
+      if (key === null) continue
+      const group = groups.get(key) ?? { notes: [] as NoteIntonation[], bySession: new Map<string, number[]>() }
+      group.notes.push(note)
+      group.bySession.set(session.id, [...(group.bySession.get(session.id) ?? []), note.mean])
+      groups.set(key, group)
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, { notes, bySession }]) => {
+      const mean = average(notes.map((note) => note.mean))
+      const sessionMeans = [...bySession.values()].map(average)
+      const sameSide = sessionMeans.filter((sessionMean) => Math.sign(sessionMean) === Math.sign(mean)).length
+      return {
+        key,
+        string: notes[0].string,
+        finger: notes[0].finger,
+        pitch: notes[0].pitch,
+        mean: round1(mean),
+        spread: round1(average(notes.map((note) => note.spread))),
+        drift: round1(average(notes.map((note) => note.drift))),
+        notes: notes.length,
+        sessions: sessionMeans.length,
+        consistency: sameSide / sessionMeans.length,
+      }
+    })
+    .sort((a, b) => Math.abs(b.mean) - Math.abs(a.mean))
+}
+
+/**
+ * 多次练习的音准报告
+ */
+export function getIntonationReport(sessions: IntonationSession[]): IntonationReport {
+  const byFingering = groupNotes(sessions, (note) =>
+    note.string !== undefined && note.finger !== undefined ? `${note.string}-${note.finger}` : null
+  )
+  const findings = byFingering
+    .filter((group) =>
+      group.notes >= CONFIG.MIN_NOTES &&
+      Math.abs(group.mean) >= CONFIG.MIN_OFFSET &&
+      (group.sessions < 2 || group.consistency >= CONFIG.MIN_CONSISTENCY)
+    )
+    .map((group) => ({ ...group, pitch: undefined }))
+
+  const pitches = groupNotes(sessions, (note) => note.pitch)
+    .filter((group) => group.notes >= CONFIG.MIN_NOTES)
+    .map((group) => ({ ...group, string: undefined, finger: undefined }))
+
+  const trend = [...sessions]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-CONFIG.TREND_SESSIONS)
+    .map((session) => ({
+      timestamp: session.timestamp,
+      meanAbs: round1(average(session.notes.map((note) => Math.abs(note.mean)))),
+    }))
+
+  return { findings, pitches, trend }
+}
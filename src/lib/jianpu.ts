@@ -0,0 +1,420 @@
+import type {
+  KeySignatureChange,
+  ParsedMeasure,
+  ParsedNote,
+  ParsedSong,
+  TempoChange,
+  TimeSignatureChange,
+} from '@/types'
+import { getKeySignatureName } from '@/lib/musicxml-parser'
+
+// ===================
+// 简谱文本解析
+// ===================
+// 把老师常用的简谱文本转换为 ParsedSong，之后和 MusicXML 乐谱一样进入三种练习模式。
+//
+// 格式示例（《小蜜蜂》）:
+//   标题: 小蜜蜂
+//   作曲: 德国民歌
+//   1=D 2/4 ♩=100
+//   5_ 3_ 3 | 4_ 2_ 2 | 1_ 2_ 3_ 4_ | 5_ 5_ 5 |
+//
+// - 头部: `标题:` / `title:`、`作曲:` / `composer:`、`速度:` / `tempo:`（中英文冒号均可），
+//   各占一行，可以出现在任意位置；`速度:` 为初始速度
+// - 调号 `1=D`、`1=bB`、`1=F#`；拍号 `3/4`；速度 `♩=100` 或 `J=100`，出现在曲中时为变化
+// - 音符 1-7，休止符 0；前缀 `#` `b` `♮` 为临时记号（在本小节内有效）
+// - 八度: 后缀 `'` 高八度、`,` 低八度（可重复）；中音区的 1 为 4 组的主音（1=D 时为 D4）
+// - 时值: 不带标记为四分音符，后缀 `_` 为八分、`__` 为十六分（下划线），`.` 为附点，
+//   单独的 `-` 把前一个音延长一拍；后缀 `~` 与下一个同音高的音连音
+// - 指法: 后缀 `^0`-`^4`（0 = 空弦）
+// - 小节线 `|`、`||`，反复 `|:` `:|`；`//` 之后为注释
+// - 每小节的拍数要与拍号一致，只有弱起小节、反复段的最后一小节（与弱起合为一小节）和全曲最后一小节可以不满
+
+// 简谱文件的扩展名（导入和保存粘贴的简谱时使用）
+export const JIANPU_FILE_EXTENSION = '.jianpu'
+
+// 没有速度标记时的默认速度（与 MusicXML 解析一致）
+const DEFAULT_TEMPO = 120
+// 中音区主音所在的八度
+const BASE_OCTAVE = 4
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+const LETTER_SEMITONES = [0, 2, 4, 5, 7, 9, 11]
+// 大调音阶各级相对主音的半音数
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11]
+
+const HEADER_FIELDS: Record<string, 'title' | 'composer' | 'tempo'> = {
+  标题: 'title',
+  曲名: 'title',
+  title: 'title',
+  作曲: 'composer',
+  composer: 'composer',
+  速度: 'tempo',
+  tempo: 'tempo',
+}
+
+// 调号（主音）
+interface JianpuKey {
+  letter: number // 主音音名 (0 = C)
+  alter: number
+  fifths: number
+}
+
+// 解析过程中的一个音（休止符 degree 为 0）
+interface JianpuEvent {
+  degree: number
+  accidental?: number // 临时记号，undefined 表示沿用本小节之前的记号
+  octave: number // 相对中音区的八度
+  duration: number // 拍
+  finger?: 0 | 1 | 2 | 3 | 4
+  tie: boolean
+}
+
+// 一个小节的内容和其中的调号、拍号、速度变化
+interface JianpuMeasure {
+  events: JianpuEvent[]
+  key?: JianpuKey
+  timeSignature?: [number, number]
+  tempo?: number
+  repeatStart?: boolean
+  repeatEnd?: boolean
+  line?: number // 第一个音所在的行（报错用）
+}
+
+class JianpuSyntaxError extends Error {
+  constructor(line: number, message: string) {
+    super(`Jianpu line ${line}: ${message}`)
+    this.name = 'JianpuSyntaxError'
+  }
+}
+
+/**
+ * 解析调号 "D"、"bB"、"Bb"、"F#"
+ */
+function parseKey(text: string, line: number): JianpuKey {
+  const match = text.match(/^([#b♯♭]?)([A-Ga-g])([#b♯♭]?)$/)
+  if (!match) throw new JianpuSyntaxError(line, `invalid key "1=${text}"`)
+  const accidental = match[1] || match[3]
+  const alter = accidental === '#' || accidental === '♯' ? 1 : accidental ? -1 : 0
+  const letter = LETTERS.indexOf(match[2].toUpperCase())
+  const name = `${LETTERS[letter]}${alter === 1 ? '#' : alter === -1 ? 'b' : ''}`
+
+  for (let fifths = -7; fifths <= 7; fifths++) {
+    if (getKeySignatureName(fifths) === name) return { letter, alter, fifths }
+  }
+  throw new JianpuSyntaxError(line, `unsupported key "1=${text}"`)
+}
+
+/**
+ * 音级 → 音高（音名、八度、升降）
+ */
+function degreeToPitch(
+  key: JianpuKey,
+  degree: number,
+  octave: number,
+  accidental: number
+): { pitch: string; frequency: number } {
+  const letterIndex = key.letter + degree - 1
+  const letter = letterIndex % 7
+  const pitchOctave = BASE_OCTAVE + Math.floor(letterIndex / 7) + octave
+  const tonicMidi = (BASE_OCTAVE + 1) * 12 + LETTER_SEMITONES[key.letter] + key.alter
+  const midi = tonicMidi + MAJOR_SCALE[degree - 1] + octave * 12 + accidental
+  const alter = midi - ((pitchOctave + 1) * 12 + LETTER_SEMITONES[letter])
+  const accidentalText = alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter)
+
+  return {
+    pitch: `${LETTERS[letter]}${accidentalText}${pitchOctave}`,
+    frequency: Math.round(440 * Math.pow(2, (midi - 69) / 12) * 100) / 100,
+  }
+}
+
+// 记号的正则（按顺序尝试，使用 sticky 匹配）
+const TOKEN_PATTERNS = {
+  whitespace: /\s+/y,
+  key: /1\s*=\s*([#b♯♭]?[A-Ga-g][#b♯♭]?)/y,
+  invalidKey: /1\s*=\s*\S*/y,
+  timeSignature: /(\d+)\/(\d+)/y,
+  tempo: /[♩J]\s*=\s*(\d+)/y,
+  barline: /:?\|\|?:?/y,
+  dash: /-/y,
+  note: /([#b♯♭♮]?)([0-7])([',_.]*)(?:\^([0-4]))?(~?)/y,
+}
+
+/**
+ * 把一行简谱切分为小节内容，追加到 measures
+ */
+function tokenizeLine(text: string, line: number, measures: JianpuMeasure[]): void {
+  let current = measures[measures.length - 1]
+  let pos = 0
+
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = pos
+    const result = pattern.exec(text)
+    if (result) pos = pattern.lastIndex
+    return result
+  }
+
+  while (pos < text.length) {
+    if (match(TOKEN_PATTERNS.whitespace)) continue
+
+    let result = match(TOKEN_PATTERNS.key)
+    if (result) {
+      current.key = parseKey(result[1], line)
+      continue
+    }
+    result = match(TOKEN_PATTERNS.invalidKey)
+    if (result) throw new JianpuSyntaxError(line, `invalid key "${result[0]}"`)
+
+    result = match(TOKEN_PATTERNS.timeSignature)
+    if (result) {
+      const beats = parseInt(result[1], 10)
+      const beatType = parseInt(result[2], 10)
+      if (beats <= 0 || ![1, 2, 4, 8, 16].includes(beatType)) {
+        throw new JianpuSyntaxError(line, `invalid time signature "${result[0]}"`)
+      }
+      current.timeSignature = [beats, beatType]
+      continue
+    }
+
+    result = match(TOKEN_PATTERNS.tempo)
+    if (result) {
+      current.tempo = parseInt(result[1], 10)
+      continue
+    }
+
+    result = match(TOKEN_PATTERNS.barline)
+    if (result) {
+      const barline = result[0]
+      if (barline.startsWith(':')) current.repeatEnd = true
+      current = { events: [] }
+      if (barline.length > 1 && barline.endsWith(':')) current.repeatStart = true
+      measures.push(current)
+      continue
+    }
+
+    if (match(TOKEN_PATTERNS.dash)) {
+      // 延长前一个音（可以跨行，不能跨小节）
+      const previous = current.events[current.events.length - 1]
+      if (!previous) throw new JianpuSyntaxError(line, '"-" must follow a note in the same measure')
+      previous.duration += 1
+      continue
+    }
+
+    result = match(TOKEN_PATTERNS.note)
+    if (result) {
+      const [, accidentalMark, digit, modifiers, finger, tie] = result
+      let duration = 1
+      let dots = 0
+      let octave = 0
+      for (const mark of modifiers) {
+        if (mark === "'") octave++
+        else if (mark === ',') octave--
+        else if (mark === '_') duration /= 2
+        else dots++
+      }
+      duration *= 2 - Math.pow(0.5, dots)
+
+      const degree = parseInt(digit, 10)
+      if (degree === 0 && (accidentalMark || finger !== undefined)) {
+        throw new JianpuSyntaxError(line, `invalid rest "${result[0]}"`)
+      }
+
+      current.line ??= line
+      current.events.push({
+        degree,
+        accidental:
+          accidentalMark === '#' || accidentalMark === '♯' ? 1
+          : accidentalMark === 'b' || accidentalMark === '♭' ? -1
+          : accidentalMark === '♮' ? 0
+          : undefined,
+        octave,
+        duration,
+        finger: finger !== undefined ? (parseInt(finger, 10) as JianpuEvent['finger']) : undefined,
+        tie: tie === '~',
+      })
+      continue
+    }
+
+    if (parseHeaderLine(text.slice(pos))) {
+      throw new JianpuSyntaxError(line, `header "${text.slice(pos).trim()}" must be on its own line`)
+    }
+    throw new JianpuSyntaxError(line, `unexpected "${text[pos]}"`)
+  }
+}
+
+/**
+ * 判断一行是不是头部字段，是则返回字段和值
+ */
+function parseHeaderLine(text: string): { field?: 'title' | 'composer' | 'tempo'; value: string } | null {
+  const match = text.match(/^\s*([A-Za-z一-鿿]+)\s*[:：]\s*(.*)$/)
+  if (!match) return null
+  return { field: HEADER_FIELDS[match[1].toLowerCase()], value: match[2].trim() }
+}
+
+/**
+ * 解析简谱文本
+ */
+export function parseJianpu(text: string): ParsedSong {
+  let title = ''
+  let composer = ''
+  let headerTempo: number | undefined
+  const jianpuMeasures: JianpuMeasure[] = [{ events: [] }]
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = i + 1
+    const content = rawLine.replace(/\/\/.*$/, '')
+    if (!content.trim()) return
+
+    const header = parseHeaderLine(content)
+    if (header) {
+      if (header.field === 'title') title = header.value
+      else if (header.field === 'composer') composer = header.value
+      else if (header.field === 'tempo') {
+        headerTempo = parseInt(header.value.replace(/^[♩J]\s*=\s*/, ''), 10)
+        if (!(headerTempo > 0)) throw new JianpuSyntaxError(line, `invalid tempo "${header.value}"`)
+      }
+      // 其他字段（作词、出处等）忽略
+      return
+    }
+
+    tokenizeLine(content, line, jianpuMeasures)
+  })
+
+  // 去掉空小节（如开头或末尾小节线外的部分），其中的记号并入下一小节
+  const contentMeasures: JianpuMeasure[] = []
+  let pending: Omit<JianpuMeasure, 'events'> = {}
+  for (const measure of jianpuMeasures) {
+    if (measure.events.length === 0) {
+      pending = { ...pending, ...measure }
+      continue
+    }
+    const { repeatEnd, ...carried } = pending
+    if (repeatEnd && contentMeasures.length > 0) contentMeasures[contentMeasures.length - 1].repeatEnd = true
+    contentMeasures.push({ ...carried, ...measure })
+    pending = {}
+  }
+  if (pending.repeatEnd && contentMeasures.length > 0) contentMeasures[contentMeasures.length - 1].repeatEnd = true
+  if (!contentMeasures.some((measure) => measure.events.some((event) => event.degree > 0))) {
+    throw new Error('No notes found in the jianpu text')
+  }
+
+  const firstMeasure = contentMeasures[0]
+  let key: JianpuKey = firstMeasure.key ?? { letter: 0, alter: 0, fifths: 0 }
+  let timeSignature: [number, number] = firstMeasure.timeSignature ?? [4, 4]
+
+  const notes: ParsedNote[] = []
+  const measures: ParsedMeasure[] = []
+  const tempoChanges: TempoChange[] = []
+  const timeSignatureChanges: TimeSignatureChange[] = []
+  const keySignatureChanges: KeySignatureChange[] = []
+  let beat = 0
+  let measureNumber = 1
+  let tiedNote: ParsedNote | null = null
+
+  const initialTempo = firstMeasure.tempo ?? headerTempo
+
+  contentMeasures.forEach((jianpuMeasure, measureIndex) => {
+    if (jianpuMeasure.key) key = jianpuMeasure.key
+    if (jianpuMeasure.timeSignature) timeSignature = jianpuMeasure.timeSignature
+
+    const duration = jianpuMeasure.events.reduce((sum, event) => sum + event.duration, 0)
+    const expected = (timeSignature[0] * 4) / timeSignature[1]
+    // 第一小节不满一小节时是弱起小节，不计小节号
+    const implicit = measureIndex === 0 && duration < expected - 1e-6
+    const number = implicit ? 0 : measureNumber++
+
+    const isLast = measureIndex === contentMeasures.length - 1
+    if (
+      duration > expected + 1e-6 ||
+      (duration < expected - 1e-6 && !implicit && !isLast && !jianpuMeasure.repeatEnd)
+    ) {
+      throw new JianpuSyntaxError(
+        jianpuMeasure.line ?? 0,
+        `measure ${number} has ${duration} beats, expected ${expected} for ${timeSignature.join('/')}`
+      )
+    }
+
+    const measure: ParsedMeasure = { index: measureIndex, number, startBeat: beat, duration }
+    if (implicit) measure.implicit = true
+    if (jianpuMeasure.repeatStart) measure.repeatStart = true
+    if (jianpuMeasure.repeatEnd) measure.repeatEnd = 2
+    measures.push(measure)
+
+    if (measureIndex === 0 || jianpuMeasure.key) {
+      keySignatureChanges.push({
+        beat,
+        measureNumber: number,
+        keySignature: getKeySignatureName(key.fifths),
+        fifths: key.fifths,
+        mode: 'major',
+      })
+    }
+    if (measureIndex === 0 || jianpuMeasure.timeSignature) {
+      timeSignatureChanges.push({ beat, measureNumber: number, timeSignature })
+    }
+    if (measureIndex === 0 && initialTempo !== undefined) {
+      tempoChanges.push({ beat, measureNumber: number, tempo: initialTempo })
+    } else if (measureIndex > 0 && jianpuMeasure.tempo !== undefined) {
+      tempoChanges.push({ beat, measureNumber: number, tempo: jianpuMeasure.tempo })
+    }
+
+    // 临时记号相对音阶中的音级，在本小节内有效（同一音级、同一八度）
+    const accidentals = new Map<string, number>()
+    let eventBeat = beat
+    for (const event of jianpuMeasure.events) {
+      if (event.degree === 0) {
+        tiedNote = null
+        eventBeat += event.duration
+        continue
+      }
+
+      const accidentalKey = `${event.degree},${event.octave}`
+      if (event.accidental !== undefined) {
+        accidentals.set(accidentalKey, event.accidental)
+      }
+      const { pitch, frequency } = degreeToPitch(key, event.degree, event.octave, accidentals.get(accidentalKey) ?? 0)
+
+      const previous: ParsedNote | null = tiedNote
+      let note: ParsedNote
+      if (previous && previous.pitch === pitch) {
+        // 连音：延长前一个音
+        note = previous
+        note.duration += event.duration
+      } else {
+        note = {
+          index: notes.length,
+          pitch,
+          frequency,
+          duration: event.duration,
+          startBeat: eventBeat,
+          measureNumber: number,
+        }
+        if (event.finger !== undefined) note.finger = event.finger
+        notes.push(note)
+      }
+      tiedNote = event.tie ? note : null
+      eventBeat += event.duration
+    }
+
+    beat += duration
+  })
+
+  return {
+    title: title || 'Untitled',
+    composer,
+    notes,
+    tempo: tempoChanges[0]?.tempo ?? DEFAULT_TEMPO,
+    timeSignature: timeSignatureChanges[0].timeSignature,
+    keySignature: keySignatureChanges[0].keySignature,
+    // 与 parseMusicXML 一致：总拍数为最后一个音的结束位置
+    totalBeats: Math.max(...notes.map((note) => note.startBeat + note.duration)),
+    tempoChanges,
+    timeSignatureChanges,
+    keySignatureChanges,
+    slurs: [],
+    measures,
+    parts: [{ id: 'P1', name: 'Violin', isViolin: true }],
+    partId: 'P1',
+    accompaniment: [],
+  }
+}
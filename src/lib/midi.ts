@@ -0,0 +1,755 @@
+import type {
+  AccompanimentPart,
+  ChordPitch,
+  KeySignatureChange,
+  ParsedMeasure,
+  ParsedNote,
+  ParsedSong,
+  RecordedTake,
+  ScorePart,
+  TempoChange,
+  TimeSignatureChange,
+} from '@/types'
+import {
+  VIOLIN_MIDI_PROGRAM,
+  VIOLIN_NAME_PATTERN,
+  findViolinPart,
+  getKeySignatureName,
+  getSoundingPitches,
+  type ParseOptions,
+} from '@/lib/musicxml-parser'
+import { expandPerformance } from '@/lib/performance-order'
+import { createTempoMap, getTempoAtBeat } from '@/lib/tempo-map'
+
+// ===================
+// MIDI 文件读写
+// ===================
+// 读取标准 MIDI 文件 (SMF 格式 0/1) 生成 ParsedSong：按拍量化、自动选择小提琴音域的音轨；
+// 把 ParsedSong 或评测模式录下的演奏写成 .mid，方便在 DAW 中打开。
+
+// 写出文件的时间精度（每四分音符 tick 数）
+const EXPORT_TICKS_PER_BEAT = 480
+// 打击乐通道（0 起算的第 10 通道），不作为旋律
+const DRUM_CHANNEL = 9
+// 小提琴音域 (G3 - E7)
+const VIOLIN_LOWEST_MIDI = 55
+const VIOLIN_HIGHEST_MIDI = 100
+// 导出速度曲线的采样间隔（拍）和最小变化 (BPM)
+const TEMPO_SAMPLE_BEATS = 0.25
+const TEMPO_CHANGE_THRESHOLD = 0.5
+// 没有速度事件时的默认速度
+const DEFAULT_TEMPO = 120
+
+// General MIDI 音色号（0 起算）
+const GM_PROGRAM = {
+  piano: 0,
+  violin: VIOLIN_MIDI_PROGRAM - 1,
+  viola: 41,
+  cello: 42,
+  contrabass: 43,
+}
+
+// 文件中的一个音
+interface MidiNoteEvent {
+  startTick: number
+  endTick: number
+  midi: number
+  velocity: number // 0-127
+  channel: number
+}
+
+interface MidiTrack {
+  name: string
+  program?: number
+  channel: number
+  notes: MidiNoteEvent[]
+}
+
+interface MidiFile {
+  ticksPerBeat: number
+  title: string
+  tracks: MidiTrack[]
+  tempos: Array<{ tick: number; tempo: number }>
+  timeSignatures: Array<{ tick: number; beats: number; beatType: number }>
+  keySignatures: Array<{ tick: number; fifths: number; mode: 'major' | 'minor' }>
+}
+
+// ===================
+// 读取
+// ===================
+
+/**
+ * 顺序读取字节的游标
+ */
+class ByteReader {
+  private view: DataView
+  pos: number
+
+  constructor(view: DataView, pos = 0) {
+    this.view = view
+    this.pos = pos
+  }
+
+  get length(): number {
+    return this.view.byteLength
+  }
+
+  uint8(): number {
+    if (this.pos >= this.view.byteLength) throw new Error('Invalid MIDI file: unexpected end of data')
+    return this.view.getUint8(this.pos++)
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8()
+  }
+
+  uint32(): number {
+    return ((this.uint16() << 16) >>> 0) + this.uint16()
+  }
+
+  text(length: number): string {
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.pos, length)
+    this.pos += length
+    return new TextDecoder().decode(bytes)
+  }
+
+  // 变长数值（每字节 7 位，最高位表示后面还有字节）
+  varLen(): number {
+    let value = 0
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8()
+      value = (value << 7) | (byte & 0x7f)
+      if (!(byte & 0x80)) return value
+    }
+    throw new Error('Invalid MIDI file: variable-length value too long')
+  }
+}
+
+/**
+ * 解析 MIDI 文件的所有音轨和全局事件
+ */
+function readMidiFile(data: ArrayBuffer): MidiFile {
+  const reader = new ByteReader(new DataView(data))
+  if (reader.text(4) !== 'MThd') {
+    throw new Error('Invalid MIDI file: missing MThd header')
+  }
+  const headerLength = reader.uint32()
+  const headerEnd = reader.pos + headerLength
+  reader.uint16() // 格式 0 / 1 / 2，按音轨统一处理
+  const trackCount = reader.uint16()
+  const division = reader.uint16()
+  if (division & 0x8000) {
+    throw new Error('SMPTE time division is not supported')
+  }
+  reader.pos = headerEnd
+
+  const file: MidiFile = {
+    ticksPerBeat: division,
+    title: '',
+    tracks: [],
+    tempos: [],
+    timeSignatures: [],
+    keySignatures: [],
+  }
+
+  for (let t = 0; t < trackCount && reader.pos < reader.length; t++) {
+    const chunkType = reader.text(4)
+    const chunkLength = reader.uint32()
+    const chunkEnd = reader.pos + chunkLength
+    if (chunkType !== 'MTrk') {
+      reader.pos = chunkEnd
+      continue
+    }
+
+    let tick = 0
+    let runningStatus = 0
+    let trackName = ''
+    const programs = new Map<number, number>()
+    const notesByChannel = new Map<number, MidiNoteEvent[]>()
+    const openNotes = new Map<string, MidiNoteEvent[]>()
+
+    const closeNote = (channel: number, midi: number) => {
+      const open = openNotes.get(`${channel}:${midi}`)
+      const note = open?.shift()
+      if (note) note.endTick = tick
+    }
+
+    while (reader.pos < chunkEnd) {
+      tick += reader.varLen()
+      let status = reader.uint8()
+
+      if (status === 0xff) {
+        // Meta 事件
+        const type = reader.uint8()
+        const length = reader.varLen()
+        const start = reader.pos
+        if (type === 0x03) {
+          trackName = reader.text(length).trim()
+        } else if (type === 0x51 && length === 3) {
+          const microseconds = (reader.uint8() << 16) | (reader.uint8() << 8) | reader.uint8()
+          file.tempos.push({ tick, tempo: Math.round((60_000_000 / microseconds) * 100) / 100 })
+        } else if (type === 0x58 && length >= 2) {
+          const beats = reader.uint8()
+          const beatType = Math.pow(2, reader.uint8())
+          file.timeSignatures.push({ tick, beats, beatType })
+        } else if (type === 0x59 && length === 2) {
+          const fifths = (reader.uint8() << 24) >> 24 // 有符号
+          const mode = reader.uint8() === 1 ? 'minor' : 'major'
+          file.keySignatures.push({ tick, fifths, mode })
+        }
+        reader.pos = start + length
+        continue
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        // SysEx，跳过
+        reader.pos += reader.varLen()
+        continue
+      }
+
+      // 通道消息（支持 running status）
+      let firstData: number
+      if (status < 0x80) {
+        firstData = status
+        status = runningStatus
+        if (!status) throw new Error('Invalid MIDI file: data byte without status')
+      } else {
+        runningStatus = status
+        firstData = reader.uint8()
+      }
+
+      const channel = status & 0x0f
+      switch (status & 0xf0) {
+        case 0x90: {
+          const velocity = reader.uint8()
+          if (velocity === 0) {
+            closeNote(channel, firstData)
+            break
+          }
+          const note: MidiNoteEvent = { startTick: tick, endTick: tick, midi: firstData, velocity, channel }
+          const key = `${channel}:${firstData}`
+          if (!openNotes.has(key)) openNotes.set(key, [])
+          openNotes.get(key)!.push(note)
+          if (!notesByChannel.has(channel)) notesByChannel.set(channel, [])
+          notesByChannel.get(channel)!.push(note)
+          break
+        }
+        case 0x80:
+          reader.uint8()
+          closeNote(channel, firstData)
+          break
+        case 0xc0:
+          if (!programs.has(channel)) programs.set(channel, firstData)
+          break
+        case 0xd0:
+          break
+        default:
+          // 0xA0 触后、0xB0 控制器、0xE0 弯音：再读一个数据字节
+          reader.uint8()
+      }
+    }
+    reader.pos = chunkEnd
+
+    // 没有收尾的音持续到音轨结束
+    openNotes.forEach((open) => open.forEach((note) => (note.endTick = tick)))
+
+    // 曲名：格式 1 的速度音轨（没有音符）或格式 0 唯一音轨的名称
+    if (!file.title && trackName && (notesByChannel.size === 0 || trackCount === 1)) {
+      file.title = trackName
+    }
+
+    // 格式 0 的文件把所有通道放在一个音轨里，按通道拆开
+    const channels = [...notesByChannel.keys()].sort((a, b) => a - b)
+    channels.forEach((channel) => {
+      file.tracks.push({
+        name: channels.length > 1 ? `${trackName || `Track ${t + 1}`} (${channel + 1})` : trackName,
+        program: programs.get(channel),
+        channel,
+        notes: notesByChannel.get(channel)!.filter((note) => note.endTick > note.startTick),
+      })
+    })
+  }
+
+  return file
+}
+
+// ===================
+// 生成 ParsedSong
+// ===================
+
+/**
+ * 量化到最近的十六分音符或八分三连音位置（拍）
+ */
+function quantizeBeat(beat: number): number {
+  const sixteenth = Math.round(beat * 4) / 4
+  const triplet = Math.round(beat * 3) / 3
+  return Math.abs(triplet - beat) < Math.abs(sixteenth - beat) - 1e-6 ? triplet : sixteenth
+}
+
+const STEPS = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+const STEP_SEMITONES = [0, 2, 4, 5, 7, 9, 11]
+// 调号中升号的顺序（F C G D A E B 的音级序号），降号顺序相反
+const SHARP_ORDER = [3, 0, 4, 1, 5, 2, 6]
+
+/**
+ * 调内各音的拼写：音高类 → 音级和变音
+ * 小调另加旋律小调的升高六级和升高七级（导音），如 d 小调的 B、C#
+ */
+function getKeySpellings(fifths: number, mode: 'major' | 'minor'): Map<number, { step: number; alter: number }> {
+  const alters = new Array<number>(7).fill(0)
+  const order = fifths >= 0 ? SHARP_ORDER : [...SHARP_ORDER].reverse()
+  order.slice(0, Math.min(Math.abs(fifths), 7)).forEach((step) => (alters[step] = Math.sign(fifths)))
+
+  const spellings = new Map<number, { step: number; alter: number }>()
+  const add = (step: number, alter: number) => {
+    spellings.set((((STEP_SEMITONES[step] + alter) % 12) + 12) % 12, { step, alter })
+  }
+  alters.forEach((alter, step) => add(step, alter))
+
+  if (mode === 'minor') {
+    // 关系大调主音的音级；小调的六级、七级是关系大调的四级、五级
+    const majorTonic = (((fifths * 4) % 7) + 7) % 7
+    for (const degree of [3, 4]) {
+      const step = (majorTonic + degree) % 7
+      add(step, alters[step] + 1)
+    }
+  }
+  return spellings
+}
+
+/**
+ * MIDI 音高 → 音名：调内音和小调导音按音级拼写，其他变化音按调号选择升号或降号
+ */
+function midiToSpelledPitch(midi: number, fifths: number, mode: 'major' | 'minor' = 'major'): string {
+  const pitchClass = ((midi % 12) + 12) % 12
+  const spelling = getKeySpellings(fifths, mode).get(pitchClass)
+  if (!spelling) {
+    const sharps = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+    const flats = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B']
+    const names = fifths < 0 ? flats : sharps
+    return `${names[pitchClass]}${Math.floor(midi / 12) - 1}`
+  }
+  const { step, alter } = spelling
+  const accidental = alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter)
+  // Cb、B# 等跨八度的拼写按音级算八度
+  const octave = (midi - STEP_SEMITONES[step] - alter) / 12 - 1
+  return `${STEPS[step]}${accidental}${octave}`
+}
+
+/**
+ * 音名 → MIDI 音高（"C#4"、"Bb3"）
+ */
+function pitchToMidi(pitch: string): number {
+  const match = pitch.match(/^([A-G])(#{1,2}|b{1,2})?(-?\d+)$/)
+  if (!match) throw new Error(`Invalid pitch: ${pitch}`)
+  const semitones: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+  const accidental = match[2] ?? ''
+  const alter = accidental.startsWith('#') ? accidental.length : -accidental.length
+  return (parseInt(match[3], 10) + 1) * 12 + semitones[match[1]] + alter
+}
+
+function midiToFrequency(midi: number): number {
+  return Math.round(440 * Math.pow(2, (midi - 69) / 12) * 100) / 100
+}
+
+/**
+ * 某一拍生效的事件（事件按拍排序）
+ */
+function getEventAt<T extends { beat: number }>(events: T[], beat: number): T | undefined {
+  let active: T | undefined
+  for (const event of events) {
+    if (event.beat > beat + 1e-6) break
+    active = event
+  }
+  return active
+}
+
+/**
+ * 某一拍所在的小节号
+ */
+function getMeasureNumberAt(measures: ParsedMeasure[], beat: number): number {
+  let number = measures[0]?.number ?? 1
+  for (const measure of measures) {
+    if (measure.startBeat > beat + 1e-6) break
+    number = measure.number
+  }
+  return number
+}
+
+/**
+ * 按拍号划分小节，覆盖到最后一个音结束
+ */
+function buildMeasures(timeSignatureChanges: TimeSignatureChange[], endBeat: number): ParsedMeasure[] {
+  const measures: ParsedMeasure[] = []
+  let beat = 0
+  while (beat < endBeat - 1e-6 || measures.length === 0) {
+    const [beats, beatType] = getEventAt(timeSignatureChanges, beat)?.timeSignature ?? [4, 4]
+    const duration = (beats * 4) / beatType
+    measures.push({ index: measures.length, number: measures.length + 1, startBeat: beat, duration })
+    beat += duration
+  }
+  return measures
+}
+
+/**
+ * 把一个音轨的音符按起始拍分组：同时开始的音合并为双音（最低音为主音），
+ * 时值截到下一个音开始处，得到单声部的旋律线
+ */
+function trackToNotes(
+  track: MidiTrack,
+  ticksPerBeat: number,
+  keySignatureChanges: KeySignatureChange[],
+  measures: ParsedMeasure[]
+): ParsedNote[] {
+  const groups = new Map<number, MidiNoteEvent[]>()
+  for (const event of track.notes) {
+    const start = quantizeBeat(event.startTick / ticksPerBeat)
+    if (!groups.has(start)) groups.set(start, [])
+    groups.get(start)!.push(event)
+  }
+
+  const starts = [...groups.keys()].sort((a, b) => a - b)
+  return starts.map((startBeat, i) => {
+    const events = groups.get(startBeat)!.sort((a, b) => a.midi - b.midi)
+    const key = getEventAt(keySignatureChanges, startBeat)
+    const fifths = key?.fifths ?? 0
+    const mode = key?.mode ?? 'major'
+    const endBeat = Math.max(...events.map((event) => quantizeBeat(event.endTick / ticksPerBeat)))
+    const nextStart = starts[i + 1] ?? Infinity
+    const duration = Math.max(1 / 4, Math.min(endBeat, nextStart) - startBeat)
+    const [main, ...others] = events
+    const velocity = Math.max(...events.map((event) => event.velocity)) / 127
+
+    const chordPitches: ChordPitch[] = [...new Set(others.map((event) => event.midi))]
+      .filter((midi) => midi !== main.midi)
+      .map((midi) => ({ pitch: midiToSpelledPitch(midi, fifths, mode), frequency: midiToFrequency(midi) }))
+
+    return {
+      index: i,
+      pitch: midiToSpelledPitch(main.midi, fifths, mode),
+      frequency: midiToFrequency(main.midi),
+      duration,
+      startBeat,
+      measureNumber: getMeasureNumberAt(measures, startBeat),
+      velocity: Math.round(velocity * 100) / 100,
+      ...(chordPitches.length > 0 ? { chordPitches } : {}),
+    }
+  })
+}
+
+/**
+ * 没有明确的小提琴音轨时，按音域和单声部程度给音轨打分
+ */
+function getViolinLikeness(notes: ParsedNote[]): number {
+  if (notes.length === 0) return -Infinity
+  const inRange = notes.filter((note) => {
+    const midi = pitchToMidi(note.pitch)
+    return midi >= VIOLIN_LOWEST_MIDI && midi <= VIOLIN_HIGHEST_MIDI
+  }).length
+  const chords = notes.filter((note) => note.chordPitches?.length).length
+  return inRange / notes.length - (chords / notes.length) * 0.5
+}
+
+/**
+ * 解析 MIDI 文件
+ * 默认练习的音轨：指定的 partId → 名称或音色为小提琴的音轨 → 最像小提琴旋律的音轨
+ */
+export function parseMidi(data: ArrayBuffer, options: ParseOptions = {}): ParsedSong {
+  const file = readMidiFile(data)
+  const toBeat = (tick: number) => quantizeBeat(tick / file.ticksPerBeat)
+
+  const tracks = file.tracks.filter((track) => track.channel !== DRUM_CHANNEL && track.notes.length > 0)
+  if (tracks.length === 0) {
+    throw new Error('Invalid MIDI file: no melodic tracks found')
+  }
+
+  const timeSignatureChanges: TimeSignatureChange[] = file.timeSignatures
+    .sort((a, b) => a.tick - b.tick)
+    .map((event) => ({ beat: toBeat(event.tick), measureNumber: 0, timeSignature: [event.beats, event.beatType] }))
+  const lastTick = Math.max(...tracks.flatMap((track) => track.notes.map((note) => note.endTick)))
+  const measures = buildMeasures(timeSignatureChanges, toBeat(lastTick))
+  const getMeasureNumber = (beat: number) => getMeasureNumberAt(measures, beat)
+  timeSignatureChanges.forEach((change) => (change.measureNumber = getMeasureNumber(change.beat)))
+
+  const keySignatureChanges: KeySignatureChange[] = file.keySignatures
+    .sort((a, b) => a.tick - b.tick)
+    .map((event) => {
+      const beat = toBeat(event.tick)
+      return {
+        beat,
+        measureNumber: getMeasureNumber(beat),
+        keySignature: getKeySignatureName(event.fifths, event.mode),
+        fifths: event.fifths,
+        mode: event.mode,
+      }
+    })
+
+  const tempoChanges: TempoChange[] = file.tempos
+    .sort((a, b) => a.tick - b.tick)
+    .map((event) => {
+      const beat = toBeat(event.tick)
+      return { beat, measureNumber: getMeasureNumber(beat), tempo: event.tempo }
+    })
+    .filter((change, i, all) => i === 0 || change.tempo !== all[i - 1].tempo)
+
+  // 各音轨作为声部
+  const trackNotes = tracks.map((track) => trackToNotes(track, file.ticksPerBeat, keySignatureChanges, measures))
+  const parts: ScorePart[] = tracks.map((track, i) => {
+    const name = track.name || `Track ${i + 1}`
+    return {
+      id: `T${i + 1}`,
+      name,
+      isViolin: VIOLIN_NAME_PATTERN.test(name) || track.program === GM_PROGRAM.violin,
+    }
+  })
+
+  const byLikeness = parts
+    .map((part, i) => ({ part, score: getViolinLikeness(trackNotes[i]) }))
+    .sort((a, b) => b.score - a.score)
+  const selected =
+    parts.find((part) => part.id === options.partId) ??
+    findViolinPart(parts) ??
+    byLikeness[0].part
+  const selectedIndex = parts.indexOf(selected)
+
+  const accompaniment: AccompanimentPart[] = parts
+    .map((part, i) => ({ id: part.id, name: part.name, notes: trackNotes[i] }))
+    .filter((_, i) => i !== selectedIndex)
+
+  const firstTimeSignature = timeSignatureChanges[0]?.beat === 0 ? timeSignatureChanges[0].timeSignature : undefined
+  const firstKey = keySignatureChanges[0]?.beat === 0 ? keySignatureChanges[0] : undefined
+
+  return {
+    title: file.title || 'Untitled',
+    composer: '',
+    notes: trackNotes[selectedIndex],
+    tempo: tempoChanges[0]?.beat === 0 ? tempoChanges[0].tempo : DEFAULT_TEMPO,
+    timeSignature: firstTimeSignature ?? [4, 4],
+    keySignature: firstKey?.keySignature ?? 'C',
+    totalBeats: measures.reduce((sum, measure) => sum + measure.duration, 0),
+    tempoChanges,
+    timeSignatureChanges,
+    keySignatureChanges,
+    slurs: [],
+    measures,
+    parts,
+    partId: selected.id,
+    accompaniment,
+  }
+}
+
+// ===================
+// 写出
+// ===================
+
+// 要写出的一个音（可以是和弦）
+interface ExportNote {
+  startBeat: number
+  duration: number
+  midi: number[]
+  velocity: number // 0-1
+}
+
+interface ExportTrack {
+  name: string
+  program: number
+  channel: number
+  notes: ExportNote[]
+}
+
+interface ExportHeader {
+  title: string
+  tempos: Array<{ beat: number; tempo: number }>
+  timeSignatures: Array<{ beat: number; timeSignature: [number, number] }>
+  keySignatures: Array<{ beat: number; fifths: number; mode: 'major' | 'minor' }>
+}
+
+// 音轨中的一个事件，order 决定同一 tick 内的先后（先关音再开音）
+interface TrackEvent {
+  tick: number
+  order: number
+  bytes: number[]
+}
+
+function encodeVarLen(value: number): number[] {
+  const bytes = [value & 0x7f]
+  let rest = value >>> 7
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80)
+    rest >>>= 7
+  }
+  return bytes
+}
+
+function encodeText(text: string): number[] {
+  return [...new TextEncoder().encode(text)]
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...encodeVarLen(data.length), ...data]
+}
+
+/**
+ * 把事件编码为 MTrk 块
+ */
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order)
+  const body: number[] = []
+  let lastTick = 0
+  for (const event of sorted) {
+    body.push(...encodeVarLen(event.tick - lastTick), ...event.bytes)
+    lastTick = event.tick
+  }
+  body.push(0x00, ...metaEvent(0x2f, []))
+
+  const length = body.length
+  return [...encodeText('MTrk'), (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...body]
+}
+
+/**
+ * 生成格式 1 的 MIDI 文件：第一个音轨放速度、拍号、调号，后面每个声部一个音轨
+ */
+function encodeMidiFile(header: ExportHeader, tracks: ExportTrack[]): Uint8Array<ArrayBuffer> {
+  const toTick = (beat: number) => Math.max(0, Math.round(beat * EXPORT_TICKS_PER_BEAT))
+
+  const conductor: TrackEvent[] = [{ tick: 0, order: 0, bytes: metaEvent(0x03, encodeText(header.title)) }]
+  header.tempos.forEach(({ beat, tempo }) => {
+    const microseconds = Math.round(60_000_000 / tempo)
+    conductor.push({
+      tick: toTick(beat),
+      order: 1,
+      bytes: metaEvent(0x51, [(microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff]),
+    })
+  })
+  header.timeSignatures.forEach(({ beat, timeSignature: [beats, beatType] }) => {
+    conductor.push({
+      tick: toTick(beat),
+      order: 1,
+      bytes: metaEvent(0x58, [beats, Math.round(Math.log2(beatType)), 24, 8]),
+    })
+  })
+  header.keySignatures.forEach(({ beat, fifths, mode }) => {
+    conductor.push({ tick: toTick(beat), order: 1, bytes: metaEvent(0x59, [fifths & 0xff, mode === 'minor' ? 1 : 0]) })
+  })
+
+  const trackChunks = tracks.map((track) => {
+    const events: TrackEvent[] = [
+      { tick: 0, order: 0, bytes: metaEvent(0x03, encodeText(track.name)) },
+      { tick: 0, order: 0, bytes: [0xc0 | track.channel, track.program] },
+    ]
+    track.notes.forEach((note) => {
+      const start = toTick(note.startBeat)
+      const end = Math.max(start + 1, toTick(note.startBeat + note.duration))
+      const velocity = Math.min(127, Math.max(1, Math.round(note.velocity * 127)))
+      note.midi.forEach((midi) => {
+        events.push({ tick: start, order: 2, bytes: [0x90 | track.channel, midi, velocity] })
+        events.push({ tick: end, order: 1, bytes: [0x80 | track.channel, midi, 0] })
+      })
+    })
+    return encodeTrack(events)
+  })
+
+  const trackCount = tracks.length + 1
+  const fileHeader = [
+    ...encodeText('MThd'), 0, 0, 0, 6,
+    0, 1, // 格式 1
+    (trackCount >> 8) & 0xff, trackCount & 0xff,
+    (EXPORT_TICKS_PER_BEAT >> 8) & 0xff, EXPORT_TICKS_PER_BEAT & 0xff,
+  ]
+  return new Uint8Array([...fileHeader, ...encodeTrack(conductor), ...trackChunks.flat()])
+}
+
+/**
+ * 按声部名称选择 General MIDI 音色
+ */
+function getProgramForPart(name: string): number {
+  if (VIOLIN_NAME_PATTERN.test(name)) return GM_PROGRAM.violin
+  if (/viola|bratsche|中提琴/i.test(name)) return GM_PROGRAM.viola
+  if (/cello|violoncell|大提琴/i.test(name)) return GM_PROGRAM.cello
+  if (/contrabass|double bass|低音提琴/i.test(name)) return GM_PROGRAM.contrabass
+  return GM_PROGRAM.piano
+}
+
+function toExportNotes(notes: ParsedNote[]): ExportNote[] {
+  return notes.map((note) => ({
+    startBeat: note.startBeat,
+    duration: note.duration,
+    midi: getSoundingPitches(note).map(pitchToMidi),
+    velocity: note.velocity ?? 0.8,
+  }))
+}
+
+/**
+ * 把乐曲写成 MIDI 文件（按演奏顺序展开反复，速度曲线包含渐快渐慢和延长记号）
+ */
+export function songToMidi(song: ParsedSong): Uint8Array<ArrayBuffer> {
+  const performed = expandPerformance(song)
+  const tempoMap = createTempoMap(performed)
+
+  // 按速度图采样，速度有变化时写一个速度事件
+  const tempos: ExportHeader['tempos'] = []
+  for (let beat = 0; beat < Math.max(performed.totalBeats, TEMPO_SAMPLE_BEATS); beat += TEMPO_SAMPLE_BEATS) {
+    const tempo = Math.round(getTempoAtBeat(tempoMap, beat) * 100) / 100
+    const last = tempos[tempos.length - 1]
+    if (!last || Math.abs(last.tempo - tempo) >= TEMPO_CHANGE_THRESHOLD) {
+      tempos.push({ beat, tempo })
+    }
+  }
+
+  const violinPart = performed.parts.find((part) => part.id === performed.partId)
+  const tracks: ExportTrack[] = [
+    {
+      name: violinPart?.name ?? 'Violin',
+      program: GM_PROGRAM.violin,
+      channel: 0,
+      notes: toExportNotes(performed.notes),
+    },
+    ...performed.accompaniment.map((part, i) => ({
+      name: part.name,
+      program: getProgramForPart(part.name),
+      channel: i + 1 >= DRUM_CHANNEL ? (i + 2) % 16 : i + 1,
+      notes: toExportNotes(part.notes),
+    })),
+  ]
+
+  return encodeMidiFile(
+    {
+      title: performed.title,
+      tempos,
+      timeSignatures: performed.timeSignatureChanges.length > 0
+        ? performed.timeSignatureChanges
+        : [{ beat: 0, timeSignature: performed.timeSignature }],
+      keySignatures: performed.keySignatureChanges,
+    },
+    tracks
+  )
+}
+
+/**
+ * 把评测模式录下的演奏写成 MIDI 文件（按乐曲的初始速度换算拍）
+ */
+export function takeToMidi(take: RecordedTake): Uint8Array<ArrayBuffer> {
+  const msToBeat = (ms: number) => (ms / 1000) * (take.tempo / 60)
+
+  return encodeMidiFile(
+    {
+      title: take.title,
+      tempos: [{ beat: 0, tempo: take.tempo }],
+      timeSignatures: [{ beat: 0, timeSignature: take.timeSignature }],
+      keySignatures: [],
+    },
+    [
+      {
+        name: 'Violin',
+        program: GM_PROGRAM.violin,
+        channel: 0,
+        notes: take.notes.map((note) => ({
+          startBeat: msToBeat(note.time),
+          duration: msToBeat(note.duration),
+          midi: [pitchToMidi(note.pitch)],
+          velocity: 0.8,
+        })),
+      },
+    ]
+  )
+}
@@ -1,6 +1,20 @@
-import { XMLParser } from 'fast-xml-parser'
+import { XMLBuilder, XMLParser } from 'fast-xml-parser'
 import JSZip from 'jszip'
-import { ParsedNote, ParsedSong } from '@/types'
+import { applyNoteAnnotations, assignFingerings, OPEN_STRING_MIDI } from '@/lib/violin-fingering'
+import { USER_SCORE_URL_PREFIX, getUserScoreFile, type UserScoreFile } from '@/lib/user-score-db'
+import {
+  Articulation,
+  DynamicLevel,
+  KeySignatureChange,
+  NoteAnnotations,
+  ParsedMeasure,
+  ParsedNote,
+  ParsedSong,
+  ScorePart,
+  SlurSpan,
+  TempoChange,
+  TimeSignatureChange,
+} from '@/types'
 
 // ===================
 // 音高频率计算
@@ -61,6 +75,21 @@ function formatPitchName(step: string, octave: number, alter: number = 0): strin
   return `${step}${accidental}${octave}`
 }
 
+/**
+ * 频率转换为 MIDI 音符号
+ */
+function frequencyToMidi(frequency: number): number {
+  return Math.round(A4_MIDI + 12 * Math.log2(frequency / A4_FREQUENCY))
+}
+
+/**
+ * MIDI 音符号转换为音高名称（统一用升号）
+ */
+function midiToPitchName(midi: number): string {
+  const names = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+  return `${names[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`
+}
+
 // ===================
 // MusicXML 解析
 // ===================
@@ -115,7 +144,7 @@ function ensureArray<T>(value: T | T[] | undefined | null): T[] {
 /**
  * 从 MusicXML 提取调号名称
  */
-function getKeySignatureName(fifths: number, mode: string = 'major'): string {
+export function getKeySignatureName(fifths: number, mode: string = 'major'): string {
   const majorKeys = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#']
   const majorFlats = ['C', 'F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb']
   const minorKeys = ['A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#']
@@ -168,6 +197,20 @@ interface TechnicalInfo {
   string?: 1 | 2 | 3 | 4
   finger?: 0 | 1 | 2 | 3 | 4
   bowDirection?: 'up' | 'down'
+  articulations?: Articulation[]
+  pizzicato?: boolean
+  harmonic?: 'natural' | 'artificial'
+  harmonicPitch?: 'base' | 'touching' | 'sounding' // 泛音记谱的是哪一个音
+}
+
+// MusicXML <articulations> 子元素 → 奏法
+const ARTICULATION_ELEMENTS: Record<string, Articulation> = {
+  staccato: 'staccato',
+  staccatissimo: 'staccatissimo',
+  spiccato: 'spiccato',
+  accent: 'accent',
+  'strong-accent': 'marcato',
+  tenuto: 'tenuto',
 }
 
 function parseTechnical(notations: unknown): TechnicalInfo {
@@ -205,11 +248,27 @@ function parseTechnical(notations: unknown): TechnicalInfo {
     if (techObj['down-bow'] !== undefined) {
       result.bowDirection = 'down'
     }
+
+    // 拨弦
+    if (techObj.pizzicato !== undefined || techObj['snap-pizzicato'] !== undefined) {
+      result.pizzicato = true
+    }
+
+    // 泛音 (<harmonic><natural|artificial/><base-pitch|touching-pitch|sounding-pitch/></harmonic>)
+    if (techObj.harmonic !== undefined) {
+      const harmonic = techObj.harmonic && typeof techObj.harmonic === 'object'
+        ? techObj.harmonic as Record<string, unknown>
+        : {}
+      result.harmonic = harmonic.artificial !== undefined ? 'artificial' : 'natural'
+      if (harmonic['base-pitch'] !== undefined) result.harmonicPitch = 'base'
+      else if (harmonic['touching-pitch'] !== undefined) result.harmonicPitch = 'touching'
+      else if (harmonic['sounding-pitch'] !== undefined) result.harmonicPitch = 'sounding'
+    }
   }
 
-  // 也检查 articulations 中的弓向标记
-  const articulations = safeGet<unknown>(notations, 'articulations', null)
-  if (articulations && typeof articulations === 'object') {
+  // 奏法，也检查 articulations 中的弓向标记
+  for (const articulations of ensureArray(safeGet<unknown>(notations, 'articulations', null))) {
+    if (!articulations || typeof articulations !== 'object') continue
     const artObj = articulations as Record<string, unknown>
     if (artObj['up-bow'] !== undefined) {
       result.bowDirection = 'up'
@@ -217,126 +276,697 @@ function parseTechnical(notations: unknown): TechnicalInfo {
     if (artObj['down-bow'] !== undefined) {
       result.bowDirection = 'down'
     }
+    for (const [element, articulation] of Object.entries(ARTICULATION_ELEMENTS)) {
+      if (artObj[element] === undefined) continue
+      result.articulations = [...(result.articulations ?? []), articulation]
+    }
   }
 
   return result
 }
 
 /**
- * 解析 MusicXML 字符串内容
+ * 读取音符上的延音线标记 (<tie> 与 <notations><tied>)
  */
-export function parseMusicXML(xmlContent: string): ParsedSong {
-  const doc = xmlParser.parse(xmlContent)
+function parseTies(noteObj: Record<string, unknown>, notations: unknown): { start: boolean; stop: boolean } {
+  const types = [
+    ...ensureArray(noteObj.tie),
+    ...ensureArray(safeGet<unknown>(notations, 'tied', null)),
+  ].map((tie) => safeGet<string>(tie, '@_type', ''))
 
-  // 获取根元素 (score-partwise 或 score-timewise)
-  const scorePartwise = doc['score-partwise']
-  if (!scorePartwise) {
-    throw new Error('Invalid MusicXML: missing score-partwise element')
+  return {
+    start: types.includes('start') || types.includes('continue'),
+    stop: types.includes('stop') || types.includes('continue'),
   }
+}
 
-  // 提取元数据
-  const work = safeGet<Record<string, unknown>>(scorePartwise, 'work', {})
-  const identification = safeGet<Record<string, unknown>>(scorePartwise, 'identification', {})
+/**
+ * 读取音符上的连线（圆滑线）标记
+ */
+function parseSlurs(notations: unknown): Array<{ type: string; number: string }> {
+  return ensureArray(safeGet<unknown>(notations, 'slur', null)).map((slur) => ({
+    type: safeGet<string>(slur, '@_type', ''),
+    number: String(safeGet<string | number>(slur, '@_number', 1)),
+  }))
+}
 
-  const title = safeGet<string>(work, 'work-title', '') ||
-                safeGet<string>(scorePartwise, 'movement-title', '') ||
-                'Untitled'
+/**
+ * 收集元素上的 <sound> 属性（sound 可能直接位于小节内，也可能在 <direction> 中）
+ */
+function getSoundAttributes(node: unknown): Record<string, unknown> {
+  return ensureArray(safeGet<unknown>(node, 'sound', null)).reduce<Record<string, unknown>>(
+    (attrs, sound) => (sound && typeof sound === 'object' ? { ...attrs, ...(sound as Record<string, unknown>) } : attrs),
+    {}
+  )
+}
 
-  // 提取作曲家
-  let composer = ''
-  const creators = ensureArray(safeGet<unknown>(identification, 'creator', []))
-  for (const creator of creators) {
-    if (typeof creator === 'string') {
-      composer = creator
-      break
+/**
+ * 解析 <barline> 中的反复与跳房子标记
+ */
+function parseBarline(barline: Record<string, unknown>, measure: ParsedMeasure): {
+  endingStart?: number[]
+  endingStop?: boolean
+} {
+  const result: { endingStart?: number[]; endingStop?: boolean } = {}
+
+  const repeat = safeGet<Record<string, unknown> | null>(barline, 'repeat', null)
+  if (repeat) {
+    if (repeat['@_direction'] === 'forward') {
+      measure.repeatStart = true
+    } else if (repeat['@_direction'] === 'backward') {
+      measure.repeatEnd = parseInt(String(repeat['@_times'] ?? 2), 10) || 2
     }
-    if (typeof creator === 'object' && creator !== null) {
-      const creatorObj = creator as Record<string, unknown>
-      if (creatorObj['@_type'] === 'composer') {
-        composer = String(creatorObj['#text'] || '')
+  }
+
+  const ending = safeGet<Record<string, unknown> | null>(barline, 'ending', null)
+  if (ending) {
+    const numbers = String(ending['@_number'] ?? '')
+      .split(/[,\s]+/)
+      .map((n) => parseInt(n, 10))
+      .filter((n) => n > 0)
+    if (ending['@_type'] === 'start') {
+      result.endingStart = numbers
+    } else {
+      result.endingStop = true
+    }
+  }
+
+  return result
+}
+
+/**
+ * 解析反复跳转记号（<sound> 属性、segno/coda 图形与文字 D.C./D.S./Fine/To Coda）
+ */
+function parseJumpMarks(node: Record<string, unknown>, measure: ParsedMeasure, sawToCoda: boolean): void {
+  const sound = getSoundAttributes(node)
+  if (sound['@_dacapo'] === 'yes') measure.daCapo = true
+  if (sound['@_dalsegno'] !== undefined) measure.dalSegno = true
+  if (sound['@_segno'] !== undefined) measure.segno = true
+  if (sound['@_coda'] !== undefined) measure.coda = true
+  if (sound['@_tocoda'] !== undefined) measure.toCoda = true
+  if (sound['@_fine'] !== undefined) measure.fine = true
+
+  for (const directionType of ensureArray(safeGet<unknown>(node, 'direction-type', null))) {
+    if (!directionType || typeof directionType !== 'object') continue
+    const typeObj = directionType as Record<string, unknown>
+
+    if (typeObj.segno !== undefined) measure.segno = true
+    // 只有图形时：先出现的 coda 是跳转处，之后的是尾声
+    if (typeObj.coda !== undefined && !measure.toCoda && !measure.coda) {
+      if (sawToCoda) measure.coda = true
+      else measure.toCoda = true
+    }
+
+    for (const words of ensureArray(typeObj.words)) {
+      const text = String(typeof words === 'object' ? safeGet<string>(words, '#text', '') : words).trim()
+      if (/^D\.?\s?C\./i.test(text) || /^da capo/i.test(text)) measure.daCapo = true
+      else if (/^D\.?\s?S\./i.test(text) || /^dal segno/i.test(text)) measure.dalSegno = true
+      else if (/^fine$/i.test(text)) measure.fine = true
+      else if (/to coda/i.test(text)) measure.toCoda = true
+    }
+  }
+}
+
+/**
+ * 解析速度标记：<sound tempo>、<metronome> 以及 rit. / accel. / a tempo 文字
+ * @returns tempo 为四分音符速度；aTempo 表示回到渐变前的速度
+ */
+function parseTempoDirection(node: Record<string, unknown>): {
+  tempo?: number
+  transition?: 'ritardando' | 'accelerando'
+  aTempo?: boolean
+} {
+  const result: ReturnType<typeof parseTempoDirection> = {}
+
+  // <sound tempo> 已经是四分音符速度，优先使用
+  const soundTempo = parseFloat(String(getSoundAttributes(node)['@_tempo'] ?? ''))
+  if (soundTempo > 0) result.tempo = soundTempo
+
+  for (const directionType of ensureArray(safeGet<unknown>(node, 'direction-type', null))) {
+    if (!directionType || typeof directionType !== 'object') continue
+    const typeObj = directionType as Record<string, unknown>
+
+    // 节拍器标记：换算成四分音符速度（如 附点四分音符 = 60 → 90）
+    const metronome = safeGet<Record<string, unknown> | null>(typeObj, 'metronome', null)
+    if (metronome && result.tempo === undefined) {
+      const perMinute = parseFloat(String(metronome['per-minute'] ?? ''))
+      const beatUnit = String(ensureArray(metronome['beat-unit'])[0] ?? 'quarter')
+      const dots = ensureArray(metronome['beat-unit-dot']).length
+      if (perMinute > 0) result.tempo = perMinute * getDurationInBeats(beatUnit, dots)
+    }
+
+    for (const words of ensureArray(typeObj.words)) {
+      const text = String(typeof words === 'object' ? safeGet<string>(words, '#text', '') : words).trim()
+      if (/\b(rit|ritard|ritardando|rall|rallentando)\b/i.test(text)) result.transition = 'ritardando'
+      else if (/\b(accel|accelerando|stringendo)\b/i.test(text)) result.transition = 'accelerando'
+      else if (/\b(a tempo|tempo primo|tempo I)\b/i.test(text)) result.aTempo = true
+    }
+  }
+
+  return result
+}
+
+// ===================
+// 泛音
+// ===================
+
+// 轻触点相对空弦（人工泛音相对按弦音）的半音数 → 实际发音相对的半音数
+const HARMONIC_INTERVALS: Record<number, number> = {
+  3: 31, // 小三度 → 五倍频
+  4: 28, // 大三度 → 四倍频
+  5: 24, // 纯四度 → 两个八度
+  7: 19, // 纯五度 → 八度 + 五度
+  12: 12, // 八度
+  19: 19,
+  24: 24,
+}
+
+/**
+ * 计算泛音实际发出的音高
+ * - 自然泛音记在轻触点：由所在空弦推算
+ * - 人工泛音只记按弦音：默认四度轻触，高两个八度
+ * - 记的就是实际音高（或未说明）：不变
+ */
+function setHarmonicSoundingPitch(note: ParsedNote, written: TechnicalInfo['harmonicPitch']): void {
+  const midi = frequencyToMidi(note.frequency)
+  let soundingMidi = midi
+
+  if (note.harmonic === 'natural' && written === 'touching') {
+    const strings = note.string ? [note.string] : ([1, 2, 3, 4] as const)
+    for (const string of strings) {
+      const interval = HARMONIC_INTERVALS[midi - OPEN_STRING_MIDI[string]]
+      if (interval) {
+        soundingMidi = OPEN_STRING_MIDI[string] + interval
         break
       }
     }
+  } else if (note.harmonic === 'artificial' && written === 'base') {
+    soundingMidi = midi + HARMONIC_INTERVALS[5]
   }
 
-  // 获取第一个 part
-  const parts = ensureArray(scorePartwise.part)
-  if (parts.length === 0) {
-    throw new Error('Invalid MusicXML: no parts found')
+  note.soundingPitch = midiToPitchName(soundingMidi)
+  note.soundingFrequency = Math.round(midiToFrequency(soundingMidi) * 100) / 100
+}
+
+/**
+ * 人工泛音：和弦中的菱形音符是轻触点，按弦音为 base
+ */
+function applyArtificialHarmonic(base: ParsedNote, touchingFrequency: number): void {
+  const baseMidi = frequencyToMidi(base.frequency)
+  const interval = HARMONIC_INTERVALS[frequencyToMidi(touchingFrequency) - baseMidi] ?? HARMONIC_INTERVALS[5]
+  base.harmonic = 'artificial'
+  base.soundingPitch = midiToPitchName(baseMidi + interval)
+  base.soundingFrequency = Math.round(midiToFrequency(baseMidi + interval) * 100) / 100
+}
+
+// ===================
+// 力度与表情
+// ===================
+
+// 力度记号对应的力度值
+const DYNAMIC_VELOCITY: Record<DynamicLevel, number> = {
+  ppp: 0.2,
+  pp: 0.3,
+  p: 0.42,
+  mp: 0.54,
+  mf: 0.65,
+  f: 0.78,
+  ff: 0.9,
+  fff: 1,
+}
+const DYNAMIC_LEVELS = Object.keys(DYNAMIC_VELOCITY) as DynamicLevel[]
+
+// 突强类记号：按重音处理（fp / sfp 之后回到 p）
+const SFORZANDO_MARKS = ['sf', 'sfz', 'sffz', 'fz', 'rf', 'rfz', 'fp', 'sfp']
+
+interface ExpressionMarks {
+  dynamics: Array<{ beat: number; dynamic: DynamicLevel }>
+  accents: number[] // 突强作用于该拍及之后的第一个音符
+  wedges: Array<{ type: 'crescendo' | 'diminuendo'; startBeat: number; endBeat: number }>
+  bowStyles: Array<{ beat: number; style: BowStyle }>
+  pizzicato: Array<{ beat: number; on: boolean }> // pizz. / arco
+}
+
+// 弓法文字：spicc. / détaché，ord. 等取消
+type BowStyle = 'spiccato' | 'detache' | 'ordinary'
+
+/**
+ * 解析 <dynamics> 元素
+ */
+function parseDynamics(value: unknown): { dynamic?: DynamicLevel; accent?: boolean } {
+  const result: { dynamic?: DynamicLevel; accent?: boolean } = {}
+  for (const dynamics of ensureArray(value)) {
+    if (!dynamics || typeof dynamics !== 'object') continue
+    for (const mark of Object.keys(dynamics)) {
+      if (DYNAMIC_LEVELS.includes(mark as DynamicLevel)) result.dynamic = mark as DynamicLevel
+      if (SFORZANDO_MARKS.includes(mark)) result.accent = true
+      if (mark === 'fp' || mark === 'sfp') result.dynamic = 'p'
+    }
+  }
+  return result
+}
+
+/**
+ * 解析方向标记中的力度、渐强/渐弱 (<wedge>) 和弓法文字
+ */
+function parseExpressionDirection(node: Record<string, unknown>): {
+  dynamic?: DynamicLevel
+  accent?: boolean
+  wedge?: 'crescendo' | 'diminuendo' | 'stop'
+  bowStyle?: BowStyle
+  pizzicato?: boolean
+} {
+  const result: ReturnType<typeof parseExpressionDirection> = {}
+
+  const soundPizzicato = getSoundAttributes(node)['@_pizzicato']
+  if (soundPizzicato !== undefined) result.pizzicato = soundPizzicato === 'yes'
+
+  for (const directionType of ensureArray(safeGet<unknown>(node, 'direction-type', null))) {
+    if (!directionType || typeof directionType !== 'object') continue
+    const typeObj = directionType as Record<string, unknown>
+
+    Object.assign(result, parseDynamics(typeObj.dynamics))
+
+    for (const wedge of ensureArray(typeObj.wedge)) {
+      const type = safeGet<string>(wedge, '@_type', '')
+      if (type === 'crescendo' || type === 'diminuendo' || type === 'stop') result.wedge = type
+    }
+
+    for (const words of ensureArray(typeObj.words)) {
+      const text = String(typeof words === 'object' ? safeGet<string>(words, '#text', '') : words).trim()
+      if (/\bspicc/i.test(text)) result.bowStyle = 'spiccato'
+      else if (/d[ée]tach[ée]/i.test(text)) result.bowStyle = 'detache'
+      else if (/\b(ord|ordinario|nat|naturale|legato)\b/i.test(text)) result.bowStyle = 'ordinary'
+
+      if (/\bpizz/i.test(text)) result.pizzicato = true
+      else if (/\barco\b/i.test(text)) result.pizzicato = false
+    }
   }
 
-  const part = parts[0] as Record<string, unknown>
+  return result
+}
+
+/**
+ * 获取 beat 处生效的最后一个标记
+ */
+function getActiveMark<T extends { beat: number }>(marks: T[], beat: number): T | undefined {
+  return marks.filter((mark) => mark.beat <= beat + 1e-6).pop()
+}
+
+/**
+ * 把力度、渐强/渐弱和弓法应用到音符上（音符已按起始拍排序）
+ */
+function applyExpression(notes: ParsedNote[], marks: ExpressionMarks): void {
+  const dynamics = [...marks.dynamics].sort((a, b) => a.beat - b.beat)
+
+  for (const note of notes) {
+    const active = getActiveMark(dynamics, note.startBeat)
+    if (active) {
+      note.dynamic = active.dynamic
+      note.velocity = DYNAMIC_VELOCITY[active.dynamic]
+    }
+
+    // 渐强/渐弱：在起点力度与终点力度之间插值
+    const wedge = marks.wedges.find((w) => note.startBeat >= w.startBeat && note.startBeat < w.endBeat)
+    if (wedge) {
+      const startLevel = getActiveMark(dynamics, wedge.startBeat)?.dynamic ?? 'mf'
+      const startVelocity = DYNAMIC_VELOCITY[startLevel]
+      // 终点：紧接着的力度记号（方向一致时），否则升/降一级
+      const next = dynamics.find((d) => d.beat >= wedge.endBeat - 1e-6 && d.beat <= wedge.endBeat + 1)
+      const step = wedge.type === 'crescendo' ? 1 : -1
+      const nextVelocity = next ? DYNAMIC_VELOCITY[next.dynamic] : undefined
+      const steppedIndex = Math.min(DYNAMIC_LEVELS.length - 1, Math.max(0, DYNAMIC_LEVELS.indexOf(startLevel) + step))
+      const endVelocity = nextVelocity !== undefined && Math.sign(nextVelocity - startVelocity) === step
+        ? nextVelocity
+        : DYNAMIC_VELOCITY[DYNAMIC_LEVELS[steppedIndex]]
+      const progress = (note.startBeat - wedge.startBeat) / (wedge.endBeat - wedge.startBeat)
+      note.hairpin = wedge.type
+      note.velocity = startVelocity + (endVelocity - startVelocity) * progress
+    }
+
+    // 弓法文字（spicc. / détaché）一直有效，直到 ord. 等取消
+    const bowStyle = getActiveMark(marks.bowStyles, note.startBeat)?.style
+    if (bowStyle && bowStyle !== 'ordinary' && !note.articulations?.includes(bowStyle)) {
+      note.articulations = [...(note.articulations ?? []), bowStyle]
+    }
+
+    // pizz. 一直有效，直到 arco
+    if (getActiveMark(marks.pizzicato, note.startBeat)?.on) note.pizzicato = true
+  }
+
+  // 突强：作用于该位置之后的第一个音符
+  for (const beat of marks.accents) {
+    const note = notes.find((n) => n.startBeat >= beat - 1e-6)
+    if (note && !note.articulations?.includes('accent')) {
+      note.articulations = [...(note.articulations ?? []), 'accent']
+    }
+  }
+}
+
+// 保留子元素顺序的解析器：fast-xml-parser 默认按标签名分组，
+// 会丢失 <note> 与 <backup>/<forward> 之间的先后关系
+const orderedXmlParser = new XMLParser({
+  ignoreAttributes: true,
+  preserveOrder: true,
+})
+
+/**
+ * 获取每个 part 中每个小节的子元素标签顺序
+ * @returns [partIndex][measureIndex] => 标签名列表
+ */
+function getMeasureChildOrder(xmlContent: string): string[][][] {
+  const tagName = (node: unknown): string =>
+    Object.keys(node as Record<string, unknown>).find((key) => key !== ':@' && key !== '#text') ?? ''
+  const children = (node: unknown): unknown[] =>
+    ensureArray((node as Record<string, unknown>)[tagName(node)] as unknown[])
+
+  const root = ensureArray(orderedXmlParser.parse(xmlContent) as unknown[])
+    .find((node) => tagName(node) === 'score-partwise')
+  if (!root) return []
+
+  return children(root)
+    .filter((node) => tagName(node) === 'part')
+    .map((part) =>
+      children(part)
+        .filter((node) => tagName(node) === 'measure')
+        .map((measure) => children(measure).map(tagName).filter(Boolean))
+    )
+}
+
+/**
+ * 按文档顺序列出小节中的元素
+ * 若无法获得顺序信息，退回到 attributes → direction → note 的分组顺序
+ */
+function getOrderedMeasureElements(
+  measure: Record<string, unknown>,
+  order: string[] | undefined
+): Array<{ name: string; node: Record<string, unknown> }> {
+  const tagOrder = order ?? [
+    ...ensureArray(measure.attributes).map(() => 'attributes'),
+    ...ensureArray(measure.direction).map(() => 'direction'),
+    ...ensureArray(measure.note).map(() => 'note'),
+    ...ensureArray(measure.barline).map(() => 'barline'),
+  ]
+
+  const counters: Record<string, number> = {}
+  const elements: Array<{ name: string; node: Record<string, unknown> }> = []
+
+  for (const name of tagOrder) {
+    const index = counters[name] ?? 0
+    counters[name] = index + 1
+    const node = ensureArray(measure[name])[index]
+    if (node && typeof node === 'object') {
+      elements.push({ name, node: node as Record<string, unknown> })
+    } else if (node === '') {
+      // 空元素（如 <backup/>）
+      elements.push({ name, node: {} })
+    }
+  }
+
+  return elements
+}
+
+// ===================
+// 声部与 timewise 乐谱
+// ===================
+
+// 带属性的保序解析器与生成器，用于 timewise → partwise 转换
+const orderedAttributeParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  preserveOrder: true,
+  parseTagValue: false,
+})
+const orderedXmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  preserveOrder: true,
+})
+
+type OrderedNode = Record<string, unknown> & { ':@'?: Record<string, unknown> }
+
+/**
+ * 把 score-timewise（小节 → 声部）转换为 score-partwise（声部 → 小节）
+ * 已经是 partwise 的文档原样返回
+ */
+export function convertTimewiseToPartwise(xmlContent: string): string {
+  if (!/<score-timewise[\s>]/.test(xmlContent)) return xmlContent
+
+  const nodes = ensureArray(orderedAttributeParser.parse(xmlContent) as OrderedNode[])
+  const root = nodes.find((node) => 'score-timewise' in node)
+  if (!root) return xmlContent
+
+  const header: OrderedNode[] = []
+  const partMeasures = new Map<string, OrderedNode[]>()
+
+  for (const child of root['score-timewise'] as OrderedNode[]) {
+    if (!('measure' in child)) {
+      header.push(child)
+      continue
+    }
+    for (const partNode of child.measure as OrderedNode[]) {
+      if (!('part' in partNode)) continue
+      const id = String(partNode[':@']?.['@_id'] ?? '')
+      const measures = partMeasures.get(id) ?? []
+      measures.push({ measure: partNode.part, ...(child[':@'] ? { ':@': child[':@'] } : {}) })
+      partMeasures.set(id, measures)
+    }
+  }
+
+  const partwise: OrderedNode = {
+    'score-partwise': [
+      ...header,
+      ...[...partMeasures].map(([id, measures]) => ({ part: measures, ':@': { '@_id': id } })),
+    ],
+    ...(root[':@'] ? { ':@': root[':@'] } : {}),
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${orderedXmlBuilder.build([partwise])}`
+}
+
+// 小提琴声部的名称（各语言）与 General MIDI 音色号
+export const VIOLIN_NAME_PATTERN = /violin|violino|violín|violon(?!cell)|geige|\bvln?\b|小提琴|ヴァイオリン|バイオリン|바이올린/i
+export const VIOLIN_MIDI_PROGRAM = 41
+
+/**
+ * 读取 part-list 中的声部信息；没有登记的 part 以 id 作为名称
+ */
+function getScoreParts(scorePartwise: Record<string, unknown>, parts: Record<string, unknown>[]): ScorePart[] {
+  const text = (value: unknown): string =>
+    typeof value === 'object' && value !== null
+      ? String((value as Record<string, unknown>)['#text'] ?? '')
+      : String(value ?? '')
+  const declared = ensureArray(safeGet<unknown>(scorePartwise, 'part-list.score-part', [])) as Record<string, unknown>[]
+
+  return parts.map((part, i) => {
+    const id = String(part['@_id'] ?? `P${i + 1}`)
+    const scorePart = declared.find((entry) => String(entry['@_id']) === id) ?? {}
+    const name = text(scorePart['part-name']).trim() || id
+    const abbreviation = text(scorePart['part-abbreviation']).trim()
+    const instrument = text(safeGet<unknown>(scorePart, 'score-instrument.instrument-name', '')).trim()
+    const sound = text(safeGet<unknown>(scorePart, 'score-instrument.instrument-sound', '')).trim()
+    const midiProgram = parseInt(text(safeGet<unknown>(scorePart, 'midi-instrument.midi-program', '')), 10)
+
+    return {
+      id,
+      name,
+      ...(instrument ? { instrument } : {}),
+      isViolin:
+        [name, abbreviation, instrument].some((label) => VIOLIN_NAME_PATTERN.test(label)) ||
+        sound === 'strings.violin' ||
+        midiProgram === VIOLIN_MIDI_PROGRAM,
+    }
+  })
+}
+
+/**
+ * 自动选择练习的声部：第一个小提琴声部
+ */
+export function findViolinPart(parts: ScorePart[]): ScorePart | undefined {
+  return parts.find((part) => part.isViolin)
+}
+
+// ===================
+// 乐谱解析
+// ===================
+
+// 单个声部的解析结果
+interface PartContent {
+  notes: ParsedNote[]
+  measures: ParsedMeasure[]
+  slurs: SlurSpan[]
+  tempoChanges: TempoChange[]
+  timeSignatureChanges: TimeSignatureChange[]
+  keySignatureChanges: KeySignatureChange[]
+}
+
+/**
+ * 解析一个 part 的所有小节
+ * @param measureOrder 每个小节子元素的文档顺序
+ */
+function parsePart(part: Record<string, unknown>, measureOrder: string[][]): PartContent {
   const measures = ensureArray(part.measure)
 
-  // 解析属性
-  let tempo = 120 // 默认速度
+  // 解析属性（当前生效的值）
   let divisions = 1 // 每拍的 division 单位
   let timeSignature: [number, number] = [4, 4]
-  let keySignature = 'C'
+
+  // 速度 / 拍号 / 调号变化事件
+  const tempoChanges: TempoChange[] = []
+  // 最近一次明确给出的速度，a tempo 回到这个速度
+  let baseTempo = 120
+  const timeSignatureChanges: TimeSignatureChange[] = []
+  const keySignatureChanges: KeySignatureChange[] = []
 
   const notes: ParsedNote[] = []
-  let noteIndex = 0
+  const parsedMeasures: ParsedMeasure[] = []
   let currentBeat = 0
+  // 跳房子：当前所在的 volta 编号
+  let currentEnding: number[] | null = null
+
+  // 延音线：等待后续音符合并的音符 (key: 声部 + 音高)
+  const pendingTies = new Map<string, ParsedNote>()
+  // 连线：已开始但未结束的连线 (key: 连线编号)
+  const openSlurs = new Map<string, ParsedNote>()
+  const slurNotes: Array<{ start: ParsedNote; end: ParsedNote }> = []
+
+  // 力度与表情标记，所有音符解析完后统一应用
+  const expressionMarks: ExpressionMarks = { dynamics: [], accents: [], wedges: [], bowStyles: [], pizzicato: [] }
+  let openWedge: { type: 'crescendo' | 'diminuendo'; startBeat: number } | null = null
 
   // 遍历所有小节
   for (let measureIdx = 0; measureIdx < measures.length; measureIdx++) {
     const measure = measures[measureIdx] as Record<string, unknown>
     const measureNumber = parseInt(String(measure['@_number'] || measureIdx + 1), 10)
-
-    // 解析小节属性
-    const attributes = safeGet<Record<string, unknown>>(measure, 'attributes', {})
-    if (attributes.divisions !== undefined) {
-      divisions = parseInt(String(attributes.divisions), 10) || 1
+    const parsedMeasure: ParsedMeasure = {
+      index: measureIdx,
+      number: measureNumber,
+      startBeat: currentBeat,
+      duration: 0,
     }
-
-    // 拍号
-    const time = safeGet<Record<string, unknown> | null>(attributes, 'time', null)
-    if (time) {
-      const beats = parseInt(String(time.beats), 10) || 4
-      const beatType = parseInt(String(time['beat-type']), 10) || 4
-      timeSignature = [beats, beatType]
+    if (String(measure['@_implicit'] ?? '') === 'yes') {
+      parsedMeasure.implicit = true
     }
+    const sawToCoda = parsedMeasures.some((m) => m.toCoda)
+    let endingStop = false
+
+    // 直接位于小节内的 <sound>（如 D.C.）
+    parseJumpMarks(measure, parsedMeasure, sawToCoda)
+
+    // 小节内的时间游标（单位: division），<backup>/<forward> 会移动它
+    let cursor = 0
+    // 上一个非和弦音的起始位置，和弦音与其共享
+    let lastNoteStart = 0
+    // 上一个非和弦音，和弦音（双音）合并到它上面
+    let chordBase: ParsedNote | null = null
+    // 小节实际长度：所有声部中游标到达的最远位置（单位: 拍）
+    let measureLength = 0
+    const cursorBeat = () => currentBeat + cursor / divisions
+
+    for (const { name, node } of getOrderedMeasureElements(measure, measureOrder[measureIdx])) {
+      // 解析小节属性
+      if (name === 'attributes') {
+        if (node.divisions !== undefined) {
+          divisions = parseInt(String(node.divisions), 10) || 1
+        }
+
+        // 拍号
+        const time = safeGet<Record<string, unknown> | null>(node, 'time', null)
+        if (time) {
+          const beats = parseInt(String(time.beats), 10) || 4
+          const beatType = parseInt(String(time['beat-type']), 10) || 4
+          timeSignature = [beats, beatType]
+          const last = timeSignatureChanges[timeSignatureChanges.length - 1]
+          if (!last || last.timeSignature[0] !== beats || last.timeSignature[1] !== beatType) {
+            timeSignatureChanges.push({ beat: cursorBeat(), measureNumber, timeSignature })
+          }
+        }
+
+        // 调号
+        const key = safeGet<Record<string, unknown> | null>(node, 'key', null)
+        if (key) {
+          const fifths = parseInt(String(key.fifths), 10) || 0
+          const mode = String(key.mode || 'major') === 'minor' ? 'minor' : 'major'
+          const keySignature = getKeySignatureName(fifths, mode)
+          const last = keySignatureChanges[keySignatureChanges.length - 1]
+          if (!last || last.fifths !== fifths || last.mode !== mode) {
+            keySignatureChanges.push({ beat: cursorBeat(), measureNumber, keySignature, fifths, mode })
+          }
+        }
+        continue
+      }
 
-    // 调号
-    const key = safeGet<Record<string, unknown> | null>(attributes, 'key', null)
-    if (key) {
-      const fifths = parseInt(String(key.fifths), 10) || 0
-      const mode = String(key.mode || 'major')
-      keySignature = getKeySignatureName(fifths, mode)
-    }
+      // 解析方向标记（速度、反复跳转等）
+      if (name === 'direction') {
+        const tempoMark = parseTempoDirection(node)
+        if (tempoMark.tempo !== undefined) baseTempo = tempoMark.tempo
+        if (tempoMark.tempo !== undefined || tempoMark.aTempo || tempoMark.transition) {
+          const change: TempoChange = { beat: cursorBeat(), measureNumber, tempo: baseTempo }
+          if (tempoMark.transition) change.transition = tempoMark.transition
+          const last = tempoChanges[tempoChanges.length - 1]
+          if (last && last.beat === change.beat) {
+            // 同一位置的多个标记合并（如速度 + rit.）
+            tempoChanges[tempoChanges.length - 1] = { ...last, ...change }
+          } else if (!last || last.tempo !== change.tempo || last.transition || change.transition) {
+            tempoChanges.push(change)
+          }
+        }
+        const expression = parseExpressionDirection(node)
+        const beat = cursorBeat()
+        if (expression.dynamic) expressionMarks.dynamics.push({ beat, dynamic: expression.dynamic })
+        if (expression.accent) expressionMarks.accents.push(beat)
+        if (expression.bowStyle) expressionMarks.bowStyles.push({ beat, style: expression.bowStyle })
+        if (expression.pizzicato !== undefined) expressionMarks.pizzicato.push({ beat, on: expression.pizzicato })
+        if (expression.wedge === 'stop') {
+          if (openWedge) expressionMarks.wedges.push({ ...openWedge, endBeat: beat })
+          openWedge = null
+        } else if (expression.wedge) {
+          openWedge = { type: expression.wedge, startBeat: beat }
+        }
+        parseJumpMarks(node, parsedMeasure, sawToCoda)
+        continue
+      }
 
-    // 解析方向标记（速度等）
-    const directions = ensureArray(measure.direction)
-    for (const direction of directions) {
-      if (!direction || typeof direction !== 'object') continue
-      const dirObj = direction as Record<string, unknown>
-      const sound = safeGet<Record<string, unknown> | null>(dirObj, 'sound', null)
-      if (sound && sound['@_tempo'] !== undefined) {
-        tempo = parseFloat(String(sound['@_tempo'])) || tempo
+      // 反复记号与跳房子
+      if (name === 'barline') {
+        const barline = parseBarline(node, parsedMeasure)
+        if (barline.endingStart) currentEnding = barline.endingStart
+        if (barline.endingStop) endingStop = true
+        continue
       }
-    }
 
-    // 解析音符
-    const measureNotes = ensureArray(measure.note)
-    let measureBeatPosition = 0
+      // 声部间回退 / 前进
+      if (name === 'backup' || name === 'forward') {
+        const duration = parseInt(String(node.duration), 10) || 0
+        cursor = name === 'backup' ? Math.max(0, cursor - duration) : cursor + duration
+        measureLength = Math.max(measureLength, cursor / divisions)
+        continue
+      }
+
+      if (name !== 'note') continue
+
+      // 装饰音没有时值，不占据拍位
+      if (node.grace !== undefined) continue
 
-    for (const note of measureNotes) {
-      if (!note || typeof note !== 'object') continue
-      const noteObj = note as Record<string, unknown>
+      // 和弦音符共享前一个音符的起始位置
+      const isChord = node.chord !== undefined
+      const noteStart = isChord ? lastNoteStart : cursor
+      const duration = parseInt(String(node.duration), 10) || divisions
+      const durationInBeats = duration / divisions
+
+      if (!isChord) {
+        lastNoteStart = cursor
+        cursor += duration
+        measureLength = Math.max(measureLength, cursor / divisions)
+      }
 
       // 跳过休止符
-      if (noteObj.rest !== undefined) {
-        const duration = parseInt(String(noteObj.duration), 10) || divisions
-        measureBeatPosition += duration / divisions
+      if (node.rest !== undefined) {
+        if (!isChord) chordBase = null
         continue
       }
 
-      // 跳过和弦中的非首音符（chord 标记）
-      // 注意：chord 音符共享相同的起始位置
-      const isChord = noteObj.chord !== undefined
-
       // 获取音高信息
-      const pitch = safeGet<Record<string, unknown> | null>(noteObj, 'pitch', null)
+      const pitch = safeGet<Record<string, unknown> | null>(node, 'pitch', null)
       if (!pitch) continue
 
       const step = String(pitch.step || 'C')
@@ -346,39 +976,215 @@ export function parseMusicXML(xmlContent: string): ParsedSong {
       // 计算频率和音高名称
       const frequency = noteToFrequency(step, octave, alter)
       const pitchName = formatPitchName(step, octave, alter)
-
-      // 计算时值
-      const duration = parseInt(String(noteObj.duration), 10) || divisions
-      const durationInBeats = duration / divisions
+      const voice = parseInt(String(node.voice ?? 1), 10) || 1
 
       // 解析技术标记
-      const notations = safeGet<Record<string, unknown> | null>(noteObj, 'notations', null)
-      const technical = parseTechnical(notations)
-
-      // 创建音符对象
-      const parsedNote: ParsedNote = {
-        index: noteIndex,
-        pitch: pitchName,
-        frequency,
-        duration: durationInBeats,
-        startBeat: currentBeat + (isChord ? 0 : measureBeatPosition),
-        measureNumber,
-        ...technical,
+      const notations = safeGet<Record<string, unknown> | null>(node, 'notations', null)
+      const ties = parseTies(node, notations)
+      const tieKey = `${voice}:${pitchName}`
+
+      const noteBeat = currentBeat + noteStart / divisions
+
+      // 音符上的力度记号
+      const noteDynamics = parseDynamics(safeGet<unknown>(notations, 'dynamics', null))
+      if (noteDynamics.dynamic) expressionMarks.dynamics.push({ beat: noteBeat, dynamic: noteDynamics.dynamic })
+      if (noteDynamics.accent) expressionMarks.accents.push(noteBeat)
+
+      const { harmonicPitch, ...technical } = parseTechnical(notations)
+
+      // 双音 / 和弦：合并到主音上，作为一个整体的练习目标
+      if (isChord && chordBase) {
+        const notehead = String(safeGet<unknown>(node, 'notehead.#text', null) ?? node.notehead ?? '')
+        if (harmonicPitch === 'touching' || notehead === 'diamond') {
+          applyArtificialHarmonic(chordBase, frequency)
+        } else if (
+          !ties.stop &&
+          chordBase.pitch !== pitchName &&
+          !chordBase.chordPitches?.some((chordPitch) => chordPitch.pitch === pitchName)
+        ) {
+          chordBase.chordPitches = [
+            ...(chordBase.chordPitches ?? []),
+            {
+              pitch: pitchName,
+              frequency,
+              ...(technical.string !== undefined ? { string: technical.string } : {}),
+              ...(technical.finger !== undefined ? { finger: technical.finger } : {}),
+            },
+          ]
+        }
+        continue
+      }
+
+      // 延音线结束：合并到前面的音符，不产生新的练习目标
+      let parsedNote = ties.stop ? pendingTies.get(tieKey) : undefined
+      if (parsedNote) {
+        parsedNote.duration += durationInBeats
+        if (!ties.start) pendingTies.delete(tieKey)
+        if (notations?.fermata !== undefined) parsedNote.fermata = true
+      } else {
+        // 创建音符对象
+        parsedNote = {
+          index: notes.length,
+          pitch: pitchName,
+          frequency,
+          duration: durationInBeats,
+          startBeat: noteBeat,
+          measureNumber,
+          ...technical,
+          voice,
+        }
+        if (node['@_pizzicato'] === 'yes') parsedNote.pizzicato = true
+        if (parsedNote.harmonic) setHarmonicSoundingPitch(parsedNote, harmonicPitch)
+        if (notations?.fermata !== undefined) parsedNote.fermata = true
+        notes.push(parsedNote)
+        if (ties.start) pendingTies.set(tieKey, parsedNote)
+      }
+      chordBase = parsedNote
+
+      // 连线
+      for (const slur of parseSlurs(notations)) {
+        if (slur.type === 'start') {
+          openSlurs.set(slur.number, parsedNote)
+        } else if (slur.type === 'stop') {
+          const slurStart = openSlurs.get(slur.number)
+          if (slurStart) {
+            slurNotes.push({ start: slurStart, end: parsedNote })
+            openSlurs.delete(slur.number)
+          }
+        }
       }
+    }
 
-      notes.push(parsedNote)
-      noteIndex++
+    if (currentEnding) {
+      parsedMeasure.endings = currentEnding
+      if (endingStop) currentEnding = null
+    }
 
-      // 更新位置（和弦音符不增加位置）
-      if (!isChord) {
-        measureBeatPosition += durationInBeats
+    // 更新总拍数位置：按小节实际内容计算（弱起小节、不完整小节），
+    // 空小节按拍号的名义长度（以四分音符为一拍，6/8 = 3 拍）
+    parsedMeasure.duration = measureLength > 0
+      ? measureLength
+      : (timeSignature[0] * 4) / timeSignature[1]
+    parsedMeasures.push(parsedMeasure)
+    currentBeat += parsedMeasure.duration
+  }
+
+  // 多声部时按起始拍排序（稳定排序，同一拍内保持文档顺序），再重新编号
+  notes.sort((a, b) => a.startBeat - b.startBeat)
+  notes.forEach((note, i) => {
+    note.index = i
+  })
+
+  applyExpression(notes, expressionMarks)
+
+  const slurs = slurNotes
+    .map(({ start, end }) => ({ startIndex: start.index, endIndex: end.index }))
+    .filter((span) => span.endIndex > span.startIndex)
+    .sort((a, b) => a.startIndex - b.startIndex)
+
+  return {
+    notes,
+    measures: parsedMeasures,
+    slurs,
+    tempoChanges,
+    timeSignatureChanges,
+    keySignatureChanges,
+  }
+}
+
+// 跳转记号通常只写在最上面的声部
+const NAVIGATION_MARKS = ['segno', 'coda', 'toCoda', 'fine', 'daCapo', 'dalSegno'] as const
+
+/**
+ * 所选声部缺少的跳转记号从其他声部的同一小节补充
+ */
+function mergeNavigationMarks(measures: ParsedMeasure[], others: ParsedMeasure[][]): ParsedMeasure[] {
+  return measures.map((measure, i) => {
+    const merged = { ...measure }
+    for (const mark of NAVIGATION_MARKS) {
+      if (others.some((other) => other[i]?.[mark])) merged[mark] = true
+    }
+    return merged
+  })
+}
+
+/**
+ * 解析器版本：解析结果（ParsedSong）的结构或内容有变化时加一，
+ * 本地缓存的解析结果（见 score-cache）随之失效
+ */
+export const PARSER_VERSION = 1
+
+export interface ParseOptions {
+  partId?: string // 要练习的声部，默认自动选择小提琴声部
+}
+
+/**
+ * 解析 MusicXML 字符串内容
+ * 支持 score-partwise 和 score-timewise；多声部乐谱中选出一个声部练习，其他声部作为伴奏
+ */
+export function parseMusicXML(xmlContent: string, options: ParseOptions = {}): ParsedSong {
+  const partwiseXml = convertTimewiseToPartwise(xmlContent)
+  const doc = xmlParser.parse(partwiseXml)
+
+  const scorePartwise = doc['score-partwise']
+  if (!scorePartwise) {
+    throw new Error('Invalid MusicXML: missing score-partwise or score-timewise element')
+  }
+
+  // 提取元数据
+  // work / identification 在解析器配置中总是数组
+  const work = (ensureArray(scorePartwise.work)[0] ?? {}) as Record<string, unknown>
+  const identification = (ensureArray(scorePartwise.identification)[0] ?? {}) as Record<string, unknown>
+
+  const title = String(
+    safeGet<string>(work, 'work-title', '') ||
+    safeGet<string>(scorePartwise, 'movement-title', '') ||
+    'Untitled'
+  ).trim()
+
+  // 提取作曲家
+  let composer = ''
+  const creators = ensureArray(safeGet<unknown>(identification, 'creator', []))
+  for (const creator of creators) {
+    if (typeof creator === 'string') {
+      composer = creator
+      break
+    }
+    if (typeof creator === 'object' && creator !== null) {
+      const creatorObj = creator as Record<string, unknown>
+      if (creatorObj['@_type'] === 'composer') {
+        composer = String(creatorObj['#text'] || '')
+        break
       }
     }
+  }
 
-    // 更新总拍数位置
-    currentBeat += timeSignature[0] // 每小节的拍数
+  const parts = ensureArray(scorePartwise.part) as Record<string, unknown>[]
+  if (parts.length === 0) {
+    throw new Error('Invalid MusicXML: no parts found')
   }
 
+  // 选择练习的声部：指定的 > 小提琴 > 第一个
+  const scoreParts = getScoreParts(scorePartwise, parts)
+  const selected = scoreParts.find((part) => part.id === options.partId)
+    ?? findViolinPart(scoreParts)
+    ?? scoreParts[0]
+  const selectedIndex = scoreParts.indexOf(selected)
+
+  const measureOrders = getMeasureChildOrder(partwiseXml)
+  const contents = parts.map((part, i) => parsePart(part, measureOrders[i] ?? []))
+  const { notes, slurs, timeSignatureChanges, keySignatureChanges } = contents[selectedIndex]
+  const others = contents.filter((_, i) => i !== selectedIndex)
+
+  // 速度标记通常只写在最上面的声部，所选声部没有时使用其他声部的
+  const tempoChanges = contents[selectedIndex].tempoChanges.length > 0
+    ? contents[selectedIndex].tempoChanges
+    : others.find((content) => content.tempoChanges.length > 0)?.tempoChanges ?? []
+  const measures = mergeNavigationMarks(
+    contents[selectedIndex].measures,
+    others.map((content) => content.measures)
+  )
+
   // 计算总拍数
   const totalBeats = notes.length > 0
     ? Math.max(...notes.map(n => n.startBeat + n.duration))
@@ -388,141 +1194,211 @@ export function parseMusicXML(xmlContent: string): ParsedSong {
     title,
     composer,
     notes,
-    tempo,
-    timeSignature,
-    keySignature,
+    // 初始速度 / 拍号 / 调号
+    tempo: tempoChanges[0]?.tempo ?? 120, // 默认速度
+    timeSignature: timeSignatureChanges[0]?.timeSignature ?? [4, 4],
+    keySignature: keySignatureChanges[0]?.keySignature ?? 'C',
     totalBeats,
+    tempoChanges,
+    timeSignatureChanges,
+    keySignatureChanges,
+    slurs,
+    measures,
+    parts: scoreParts,
+    partId: selected.id,
+    accompaniment: scoreParts
+      .map((part, i) => ({ id: part.id, name: part.name, notes: contents[i].notes }))
+      .filter((_, i) => i !== selectedIndex),
   }
 }
 
 /**
- * 从 URL 加载并解析 MusicXML 文件
- * 支持 .xml 和 .mxl (压缩) 格式
+ * 解压 .mxl 文件，返回其中的主 MusicXML 文本
  */
-export async function loadMusicXML(url: string): Promise<ParsedSong> {
-  const response = await fetch(url)
+export async function extractMxl(data: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(data)
 
-  if (!response.ok) {
-    throw new Error(`Failed to load MusicXML: ${response.status} ${response.statusText}`)
+  // 读取 container.xml 找到主文件路径
+  const containerFile = zip.file('META-INF/container.xml')
+  if (!containerFile) {
+    throw new Error('Invalid MXL file: missing META-INF/container.xml')
   }
 
-  // 检查是否是压缩的 .mxl 文件
-  const isMxl = url.toLowerCase().endsWith('.mxl')
+  const containerXml = await containerFile.async('string')
+  const containerDoc = xmlParser.parse(containerXml)
 
-  if (isMxl) {
-    // 解压 MXL 文件
-    const arrayBuffer = await response.arrayBuffer()
-    const zip = await JSZip.loadAsync(arrayBuffer)
+  // 从 container.xml 提取主文件路径
+  const rootfile = safeGet<Record<string, unknown>>(
+    containerDoc,
+    'container.rootfiles.rootfile',
+    {}
+  )
 
-    // 读取 container.xml 找到主文件路径
-    const containerFile = zip.file('META-INF/container.xml')
-    if (!containerFile) {
-      throw new Error('Invalid MXL file: missing META-INF/container.xml')
-    }
+  let mainFilePath = safeGet<string>(rootfile, '@_full-path', '')
 
-    const containerXml = await containerFile.async('string')
-    const containerDoc = xmlParser.parse(containerXml)
+  // 如果没找到，尝试直接查找 .xml 文件
+  if (!mainFilePath) {
+    const files = Object.keys(zip.files)
+    mainFilePath = files.find(f => f.endsWith('.xml') && !f.includes('META-INF')) || ''
+  }
 
-    // 从 container.xml 提取主文件路径
-    const rootfile = safeGet<Record<string, unknown>>(
-      containerDoc,
-      'container.rootfiles.rootfile',
-      {}
-    )
+  if (!mainFilePath) {
+    throw new Error('Invalid MXL file: could not find main XML file')
+  }
 
-    let mainFilePath = safeGet<string>(rootfile, '@_full-path', '')
+  // 读取主 XML 文件
+  const mainFile = zip.file(mainFilePath)
+  if (!mainFile) {
+    throw new Error(`Invalid MXL file: missing main file ${mainFilePath}`)
+  }
 
-    // 如果没找到，尝试直接查找 .xml 文件
-    if (!mainFilePath) {
-      const files = Object.keys(zip.files)
-      mainFilePath = files.find(f => f.endsWith('.xml') && !f.includes('META-INF')) || ''
-    }
+  return mainFile.async('string')
+}
 
-    if (!mainFilePath) {
-      throw new Error('Invalid MXL file: could not find main XML file')
-    }
+/**
+ * 判断文件内容是否是 zip 压缩包（.mxl）
+ */
+export function isZipData(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength))
+  return bytes.length === 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+}
 
-    // 读取主 XML 文件
-    const mainFile = zip.file(mainFilePath)
-    if (!mainFile) {
-      throw new Error(`Invalid MXL file: missing main file ${mainFilePath}`)
-    }
+/**
+ * 解析 MusicXML 文件内容（.xml 或 .mxl）
+ */
+export async function parseMusicXMLData(data: ArrayBuffer, options: ParseOptions = {}): Promise<ParsedSong> {
+  const xmlContent = isZipData(data) ? await extractMxl(data) : new TextDecoder().decode(data)
+  return parseMusicXML(xmlContent, options)
+}
 
-    const xmlContent = await mainFile.async('string')
-    return parseMusicXML(xmlContent)
+/**
+ * 读取用户导入的乐谱文件 (user-score:<id>)
+ */
+async function loadUserScoreFile(url: string): Promise<UserScoreFile> {
+  const id = url.slice(USER_SCORE_URL_PREFIX.length)
+  const file = await getUserScoreFile(id)
+  if (!file) {
+    throw new Error(`Imported score not found: ${id}`)
   }
+  return file
+}
 
-  // 普通 XML 文件
-  const xmlContent = await response.text()
-  return parseMusicXML(xmlContent)
+/**
+ * 判断文件内容是否是标准 MIDI 文件
+ */
+export function isMidiData(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength))
+  return bytes.length === 4 && String.fromCharCode(...bytes) === 'MThd'
 }
 
-// ===================
-// 辅助工具函数
-// ===================
+/**
+ * 判断文件是否是简谱文本（按扩展名）
+ */
+export function isJianpuFileName(fileName: string): boolean {
+  return /\.(jianpu|txt)$/i.test(fileName)
+}
 
 /**
- * 获取音符在小提琴上的推荐弦和指法
- * 基于音高自动推算（如果 MusicXML 中没有标注）
+ * 导入的 MIDI 和简谱文件没有 MusicXML，直接解析为 ParsedSong；MusicXML 文件返回 null
  */
-export function getViolinFingering(pitch: string): { string: 1 | 2 | 3 | 4; finger: 0 | 1 | 2 | 3 | 4 } {
-  // 小提琴空弦: G3, D4, A4, E5
-  const violinStrings = {
-    G: { open: 'G3', range: ['G3', 'G4'] },
-    D: { open: 'D4', range: ['D4', 'D5'] },
-    A: { open: 'A4', range: ['A4', 'A5'] },
-    E: { open: 'E5', range: ['E5', 'E6'] },
+async function parseNonXmlScore(file: UserScoreFile, options: ParseOptions): Promise<ParsedSong | null> {
+  if (isMidiData(file.data)) {
+    const { parseMidi } = await import('@/lib/midi')
+    return parseMidi(file.data, options)
+  }
+  if (isJianpuFileName(file.fileName)) {
+    const { parseJianpu } = await import('@/lib/jianpu')
+    return parseJianpu(new TextDecoder().decode(file.data))
   }
+  return null
+}
 
-  // 提取音符信息
-  const match = pitch.match(/^([A-G])([#b]?)(\d)$/)
-  if (!match) return { string: 3, finger: 1 }
+/**
+ * 从 URL 加载 MusicXML 文本（timewise 会转换为 partwise）
+ * 支持 .xml 和 .mxl (压缩) 格式，以及用户导入的乐谱 (user-score:<id>)
+ */
+export async function loadMusicXMLText(url: string): Promise<string> {
+  // 用户导入的乐谱，从本地 IndexedDB 读取
+  if (url.startsWith(USER_SCORE_URL_PREFIX)) {
+    const file = await loadUserScoreFile(url)
+    // MIDI / 简谱没有五线谱记谱，解析后重新生成 MusicXML 供 OSMD 渲染
+    const nonXmlSong = await parseNonXmlScore(file, {})
+    if (nonXmlSong) {
+      const { songToMusicXML } = await import('@/lib/musicxml-writer')
+      return songToMusicXML(nonXmlSong)
+    }
+    const xmlContent = isZipData(file.data) ? await extractMxl(file.data) : new TextDecoder().decode(file.data)
+    return convertTimewiseToPartwise(xmlContent)
+  }
 
-  const [, note, accidental, octaveStr] = match
-  const octave = parseInt(octaveStr, 10)
-  const semitone = NOTE_SEMITONES[note] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0)
-  const midi = (octave + 1) * 12 + semitone
+  const response = await fetch(url)
 
-  // G3 = 55, D4 = 62, A4 = 69, E5 = 76
-  const openStrings = [
-    { string: 4 as const, midi: 55, name: 'G' }, // G 弦
-    { string: 3 as const, midi: 62, name: 'D' }, // D 弦
-    { string: 2 as const, midi: 69, name: 'A' }, // A 弦
-    { string: 1 as const, midi: 76, name: 'E' }, // E 弦
-  ]
+  if (!response.ok) {
+    throw new Error(`Failed to load MusicXML: ${response.status} ${response.statusText}`)
+  }
 
-  // 找到最合适的弦
-  for (const os of openStrings) {
-    const diff = midi - os.midi
-    if (diff >= 0 && diff <= 7) {
-      // 在该弦的一把位范围内
-      const finger = Math.min(diff, 4) as 0 | 1 | 2 | 3 | 4
-      return { string: os.string, finger }
-    }
+  // 检查是否是压缩的 .mxl 文件
+  const isMxl = url.toLowerCase().endsWith('.mxl')
+
+  if (isMxl) {
+    // 解压 MXL 文件
+    const xmlContent = await extractMxl(await response.arrayBuffer())
+    return convertTimewiseToPartwise(xmlContent)
+  }
+
+  // 普通 XML 文件
+  const xmlContent = await response.text()
+  return convertTimewiseToPartwise(xmlContent)
+}
+
+/**
+ * 从 URL 加载并解析 MusicXML 文件
+ */
+export async function loadMusicXML(url: string, options: ParseOptions = {}): Promise<ParsedSong> {
+  // 导入的 MIDI / 简谱文件直接生成 ParsedSong
+  if (url.startsWith(USER_SCORE_URL_PREFIX)) {
+    const song = await parseNonXmlScore(await loadUserScoreFile(url), options)
+    if (song) return song
   }
+  return parseMusicXML(await loadMusicXMLText(url), options)
+}
 
-  // 默认使用 A 弦
-  return { string: 2, finger: 1 }
+/**
+ * 只读取乐谱的声部列表（用于选择练习的声部）
+ */
+export async function loadScoreParts(url: string): Promise<ScorePart[]> {
+  if (url.startsWith(USER_SCORE_URL_PREFIX)) {
+    const song = await parseNonXmlScore(await loadUserScoreFile(url), {})
+    if (song) return song.parts
+  }
+  const doc = xmlParser.parse(await loadMusicXMLText(url))
+  const scorePartwise = doc['score-partwise']
+  if (!scorePartwise) return []
+  return getScoreParts(scorePartwise, ensureArray(scorePartwise.part) as Record<string, unknown>[])
 }
 
+// ===================
+// 辅助工具函数
+// ===================
+
 /**
- * 为没有技术标记的音符添加推荐指法
+ * 音符实际要发出的所有音高（泛音取实际音高，双音包含所有音）
+ * 用于音高检测的目标和合成播放
  */
-export function addDefaultFingerings(song: ParsedSong): ParsedSong {
-  const notesWithFingering = song.notes.map(note => {
-    if (note.string === undefined || note.finger === undefined) {
-      const { string, finger } = getViolinFingering(note.pitch)
-      return {
-        ...note,
-        string: note.string ?? string,
-        finger: note.finger ?? finger,
-      }
-    }
-    return note
-  })
+export function getSoundingPitches(
+  note: Pick<ParsedNote, 'pitch' | 'soundingPitch' | 'chordPitches'>
+): [string, ...string[]] {
+  return [note.soundingPitch ?? note.pitch, ...(note.chordPitches ?? []).map((chordPitch) => chordPitch.pitch)]
+}
 
+/**
+ * 为乐曲分配推荐的弦、指法和把位
+ * 乐谱中已有的合理标记和用户标注会被保留，作为整句指法选择的约束；
+ * 用户标注最后再覆盖一次，即使它不是引擎认为可行的按法
+ */
+export function addDefaultFingerings(song: ParsedSong, annotations: NoteAnnotations = {}): ParsedSong {
   return {
     ...song,
-    notes: notesWithFingering,
+    notes: applyNoteAnnotations(assignFingerings(applyNoteAnnotations(song.notes, annotations)), annotations),
   }
 }
@@ -0,0 +1,617 @@
+import JSZip from 'jszip'
+import type { Articulation, ChordPitch, ParsedMeasure, ParsedNote, ParsedSong, ScorePart } from '@/types'
+import { VIOLIN_MIDI_PROGRAM } from '@/lib/musicxml-parser'
+
+// ===================
+// MusicXML 写出
+// ===================
+// 把 ParsedSong（包括修改过的指法、弦、弓向、速度）写回 MusicXML / MXL。
+// 写出的文件可以再用 parseMusicXML 读回，也可以在 SheetMusicDisplay 中渲染：
+// - 跨小节或无法用一个音符表示的时值拆成用延音线连接的几个音符
+// - 双音写成 <chord/>，人工泛音的轻触点写成菱形符头
+// - 力度、渐强/渐弱、pizz./arco、détaché/ord.、速度和反复跳转写成 <direction>
+// 传入的乐谱应是书写顺序（不要先 expandPerformance）。
+
+const BEAT_EPSILON = 1e-6
+
+// 每拍的 division 候选值：选第一个能精确表示所有位置的
+const DIVISION_CANDIDATES = [1, 2, 4, 8, 16, 32, 3, 6, 12, 24, 48, 96, 5, 10, 20, 40, 60, 120, 240, 480, 960]
+
+// 音符类型对应的拍数
+const NOTE_TYPES: Array<[string, number]> = [
+  ['breve', 8],
+  ['whole', 4],
+  ['half', 2],
+  ['quarter', 1],
+  ['eighth', 0.5],
+  ['16th', 0.25],
+  ['32nd', 0.125],
+  ['64th', 0.0625],
+]
+
+// 连音（实际音符数 : 正常音符数）
+const TUPLETS: Array<[number, number]> = [
+  [3, 2],
+  [5, 4],
+  [6, 4],
+]
+
+// 奏法 → <articulations> 子元素（détaché 用文字标记）
+const ARTICULATION_ELEMENTS: Partial<Record<Articulation, string>> = {
+  staccato: 'staccato',
+  staccatissimo: 'staccatissimo',
+  spiccato: 'spiccato',
+  accent: 'accent',
+  marcato: 'strong-accent',
+  tenuto: 'tenuto',
+}
+
+// 人工泛音：实际发音相对按弦音的半音数 → 轻触点相对按弦音的半音数
+const ARTIFICIAL_HARMONIC_TOUCH: Record<number, number> = {
+  12: 12,
+  19: 7,
+  24: 5,
+  28: 4,
+  31: 3,
+}
+
+const NOTE_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+// 一个可以写成单个 <note> 的时值
+interface NoteValue {
+  beats: number
+  type: string
+  dots: number
+  tuplet?: [number, number]
+}
+
+// 小节中要写出的一段（音符或其跨小节 / 拆分后的片段）
+interface NoteSegment {
+  note: ParsedNote
+  start: number
+  value: NoteValue
+  tieStart: boolean
+  tieStop: boolean
+  first: boolean // 音符的第一段（写指法、奏法、连线开始等）
+  last: boolean // 音符的最后一段（写连线结束）
+}
+
+// 小节内某一拍的 <direction>
+interface DirectionMark {
+  beat: number
+  xml: string
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * 音名 → step / alter / octave
+ */
+function splitPitch(pitch: string): { step: string; alter: number; octave: number } {
+  const match = pitch.match(/^([A-G])(#{1,2}|b{1,2})?(-?\d+)$/)
+  if (!match) throw new Error(`Invalid pitch: ${pitch}`)
+  const accidental = match[2] ?? ''
+  return {
+    step: match[1],
+    alter: accidental.startsWith('#') ? accidental.length : -accidental.length,
+    octave: parseInt(match[3], 10),
+  }
+}
+
+function pitchToMidi(pitch: string): number {
+  const { step, alter, octave } = splitPitch(pitch)
+  return (octave + 1) * 12 + NOTE_SEMITONES[step] + alter
+}
+
+function midiToPitch(midi: number): string {
+  return `${SHARP_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`
+}
+
+function pitchXml(pitch: string): string {
+  const { step, alter, octave } = splitPitch(pitch)
+  return `<pitch><step>${step}</step>${alter !== 0 ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`
+}
+
+/**
+ * 选择每拍的 division 数，使所有音符、小节的位置都是整数
+ */
+function chooseDivisions(song: ParsedSong, parts: ParsedNote[][]): number {
+  const positions = [
+    ...song.measures.flatMap((measure) => [measure.startBeat, measure.duration]),
+    ...parts.flat().flatMap((note) => [note.startBeat, note.duration]),
+  ]
+  const isExact = (divisions: number) =>
+    positions.every((beat) => Math.abs(beat * divisions - Math.round(beat * divisions)) < 1e-4)
+  return DIVISION_CANDIDATES.find(isExact) ?? DIVISION_CANDIDATES[DIVISION_CANDIDATES.length - 1]
+}
+
+/**
+ * 能用单个音符（可带附点 / 连音）表示的时值
+ */
+function getNoteValue(beats: number): NoteValue | null {
+  for (const [type, base] of NOTE_TYPES) {
+    for (let dots = 0; dots <= 2; dots++) {
+      if (Math.abs(base * (2 - Math.pow(0.5, dots)) - beats) < BEAT_EPSILON) return { beats, type, dots }
+    }
+  }
+  for (const tuplet of TUPLETS) {
+    const [actual, normal] = tuplet
+    const plain = getNoteValue((beats * actual) / normal)
+    if (plain && !plain.tuplet) return { ...plain, beats, tuplet }
+  }
+  return null
+}
+
+/**
+ * 把时值拆成能用单个音符表示的几段（从长到短）
+ */
+function splitDuration(beats: number): NoteValue[] {
+  const values: NoteValue[] = []
+  let remaining = beats
+  while (remaining > BEAT_EPSILON && values.length < 16) {
+    const exact = getNoteValue(remaining)
+    if (exact) {
+      values.push(exact)
+      break
+    }
+    const [type, base] = NOTE_TYPES.find(([, value]) => value <= remaining + BEAT_EPSILON) ?? NOTE_TYPES[NOTE_TYPES.length - 1]
+    values.push({ beats: Math.min(base, remaining), type, dots: 0 })
+    remaining -= base
+  }
+  return values
+}
+
+function typeXml(value: NoteValue): string {
+  let xml = `<type>${value.type}</type>${'<dot/>'.repeat(value.dots)}`
+  if (value.tuplet) {
+    xml += `<time-modification><actual-notes>${value.tuplet[0]}</actual-notes><normal-notes>${value.tuplet[1]}</normal-notes></time-modification>`
+  }
+  return xml
+}
+
+function directionXml(directionTypes: string[], sound?: string, placement: 'above' | 'below' = 'above'): string {
+  const types = directionTypes.map((type) => `<direction-type>${type}</direction-type>`).join('')
+  return `<direction placement="${placement}">${types}${sound ? `<sound ${sound}/>` : ''}</direction>`
+}
+
+function wordsXml(text: string): string {
+  return `<words>${escapeXml(text)}</words>`
+}
+
+// ===================
+// 方向标记
+// ===================
+
+/**
+ * 速度和反复跳转记号（只写在练习的声部中）
+ */
+function getScoreDirections(song: ParsedSong, measure: ParsedMeasure, measureEnd: number): DirectionMark[] {
+  const marks: DirectionMark[] = []
+  const start = measure.startBeat
+
+  if (measure.segno) marks.push({ beat: start, xml: directionXml(['<segno/>'], 'segno="segno"') })
+  if (measure.coda) marks.push({ beat: start, xml: directionXml(['<coda/>'], 'coda="coda"') })
+
+  song.tempoChanges.forEach((change, i) => {
+    if (change.beat < start - BEAT_EPSILON || change.beat >= measureEnd - BEAT_EPSILON) return
+    // 只有渐变（rit. / accel.）或回原速 (a tempo) 时不重复写节拍器标记
+    const previous = song.tempoChanges[i - 1]
+    const tempo = Math.round(change.tempo * 100) / 100
+    const types: string[] = []
+    if (!previous || previous.tempo !== change.tempo) {
+      types.push(`<metronome><beat-unit>quarter</beat-unit><per-minute>${tempo}</per-minute></metronome>`)
+    } else if (previous.transition && !change.transition) {
+      types.push(wordsXml('a tempo'))
+    }
+    if (change.transition) types.push(wordsXml(change.transition === 'ritardando' ? 'rit.' : 'accel.'))
+    marks.push({ beat: change.beat, xml: directionXml(types, `tempo="${tempo}"`) })
+  })
+
+  if (measure.toCoda) marks.push({ beat: measureEnd, xml: directionXml([wordsXml('To Coda')], 'tocoda="coda"') })
+  if (measure.fine) marks.push({ beat: measureEnd, xml: directionXml([wordsXml('Fine')], 'fine="yes"') })
+  if (measure.daCapo) marks.push({ beat: measureEnd, xml: directionXml([wordsXml('D.C.')], 'dacapo="yes"') })
+  if (measure.dalSegno) marks.push({ beat: measureEnd, xml: directionXml([wordsXml('D.S.')], 'dalsegno="segno"') })
+
+  return marks
+}
+
+/**
+ * 从音符上的力度、渐强/渐弱、拨弦、分弓状态推出方向标记（变化处写一次）
+ */
+function getExpressionDirections(notes: ParsedNote[]): DirectionMark[] {
+  const marks: DirectionMark[] = []
+  let dynamic: ParsedNote['dynamic']
+  let hairpin: ParsedNote['hairpin']
+  let pizzicato = false
+  let detache = false
+
+  for (const note of notes) {
+    const beat = note.startBeat
+    if (hairpin && note.hairpin !== hairpin) {
+      marks.push({ beat, xml: directionXml(['<wedge type="stop"/>'], undefined, 'below') })
+    }
+    if (note.dynamic && note.dynamic !== dynamic) {
+      marks.push({ beat, xml: directionXml([`<dynamics><${note.dynamic}/></dynamics>`], undefined, 'below') })
+      dynamic = note.dynamic
+    }
+    if (note.hairpin && note.hairpin !== hairpin) {
+      marks.push({ beat, xml: directionXml([`<wedge type="${note.hairpin}"/>`], undefined, 'below') })
+    }
+    hairpin = note.hairpin
+
+    if (Boolean(note.pizzicato) !== pizzicato) {
+      pizzicato = Boolean(note.pizzicato)
+      marks.push({ beat, xml: directionXml([wordsXml(pizzicato ? 'pizz.' : 'arco')], `pizzicato="${pizzicato ? 'yes' : 'no'}"`) })
+    }
+
+    const isDetache = note.articulations?.includes('detache') ?? false
+    if (isDetache !== detache) {
+      detache = isDetache
+      marks.push({ beat, xml: directionXml([wordsXml(detache ? 'détaché' : 'ord.')]) })
+    }
+  }
+
+  const lastNote = notes[notes.length - 1]
+  if (hairpin && lastNote) {
+    marks.push({ beat: lastNote.startBeat + lastNote.duration, xml: directionXml(['<wedge type="stop"/>'], undefined, 'below') })
+  }
+  return marks
+}
+
+// ===================
+// 音符
+// ===================
+
+/**
+ * 音符的 <notations>：指法、弦、弓向、泛音、奏法、延音线、连线、延长记号
+ */
+function notationsXml(segment: NoteSegment, slurs: { start: number[]; stop: number[] }): string {
+  const { note, first, tieStart, tieStop } = segment
+  const parts: string[] = []
+
+  if (tieStop) parts.push('<tied type="stop"/>')
+  if (tieStart) parts.push('<tied type="start"/>')
+  if (first) slurs.start.forEach((number) => parts.push(`<slur type="start" number="${number}"/>`))
+  if (segment.last) slurs.stop.forEach((number) => parts.push(`<slur type="stop" number="${number}"/>`))
+
+  if (first) {
+    const technical: string[] = []
+    if (note.bowDirection) technical.push(note.bowDirection === 'up' ? '<up-bow/>' : '<down-bow/>')
+    if (note.harmonic === 'artificial') {
+      technical.push('<harmonic><artificial/><base-pitch/></harmonic>')
+    } else if (note.harmonic === 'natural') {
+      const written = note.soundingPitch && note.soundingPitch !== note.pitch ? '<touching-pitch/>' : '<sounding-pitch/>'
+      technical.push(`<harmonic><natural/>${written}</harmonic>`)
+    }
+    if (note.finger !== undefined) technical.push(`<fingering>${note.finger}</fingering>`)
+    if (note.string !== undefined) technical.push(`<string>${note.string}</string>`)
+    if (technical.length > 0) parts.push(`<technical>${technical.join('')}</technical>`)
+
+    const articulations = (note.articulations ?? [])
+      .map((articulation) => ARTICULATION_ELEMENTS[articulation])
+      .filter((element): element is string => element !== undefined)
+    if (articulations.length > 0) {
+      parts.push(`<articulations>${articulations.map((element) => `<${element}/>`).join('')}</articulations>`)
+    }
+    if (note.fermata) parts.push('<fermata type="upright"/>')
+  }
+
+  return parts.length > 0 ? `<notations>${parts.join('')}</notations>` : ''
+}
+
+/**
+ * 双音中其他音的 <notations>
+ */
+function chordNotationsXml(chordPitch: ChordPitch, segment: NoteSegment): string {
+  const parts: string[] = []
+  if (segment.tieStop) parts.push('<tied type="stop"/>')
+  if (segment.tieStart) parts.push('<tied type="start"/>')
+  if (segment.first) {
+    const technical: string[] = []
+    if (chordPitch.finger !== undefined) technical.push(`<fingering>${chordPitch.finger}</fingering>`)
+    if (chordPitch.string !== undefined) technical.push(`<string>${chordPitch.string}</string>`)
+    if (technical.length > 0) parts.push(`<technical>${technical.join('')}</technical>`)
+  }
+  return parts.length > 0 ? `<notations>${parts.join('')}</notations>` : ''
+}
+
+function tieXml(segment: Pick<NoteSegment, 'tieStart' | 'tieStop'>): string {
+  return `${segment.tieStop ? '<tie type="stop"/>' : ''}${segment.tieStart ? '<tie type="start"/>' : ''}`
+}
+
+/**
+ * 写出一个音符片段（包括双音和人工泛音的轻触点）
+ */
+function segmentXml(
+  segment: NoteSegment,
+  voice: number,
+  divisions: number,
+  slurs: { start: number[]; stop: number[] }
+): string[] {
+  const { note, value } = segment
+  const duration = Math.round(value.beats * divisions)
+  const common = `<duration>${duration}</duration>`
+  const lines = [
+    `<note>${pitchXml(note.pitch)}${common}${tieXml(segment)}<voice>${voice}</voice>${typeXml(value)}` +
+    `${notationsXml(segment, slurs)}</note>`,
+  ]
+
+  for (const chordPitch of note.chordPitches ?? []) {
+    lines.push(
+      `<note><chord/>${pitchXml(chordPitch.pitch)}${common}${tieXml(segment)}<voice>${voice}</voice>${typeXml(value)}` +
+      `${chordNotationsXml(chordPitch, segment)}</note>`
+    )
+  }
+
+  // 人工泛音：按弦音之上的菱形符头是轻触点
+  if (note.harmonic === 'artificial' && note.soundingPitch) {
+    const baseMidi = pitchToMidi(note.pitch)
+    const touch = ARTIFICIAL_HARMONIC_TOUCH[pitchToMidi(note.soundingPitch) - baseMidi] ?? ARTIFICIAL_HARMONIC_TOUCH[24]
+    lines.push(
+      `<note><chord/>${pitchXml(midiToPitch(baseMidi + touch))}${common}<voice>${voice}</voice>${typeXml(value)}` +
+      '<notehead>diamond</notehead><notations><technical><harmonic><touching-pitch/></harmonic></technical></notations></note>'
+    )
+  }
+
+  return lines
+}
+
+function restXml(value: NoteValue, voice: number, divisions: number): string {
+  return `<note><rest/><duration>${Math.round(value.beats * divisions)}</duration><voice>${voice}</voice>${typeXml(value)}</note>`
+}
+
+/**
+ * 把一个声部在小节中的音符切成片段（跨小节、与下一个音重叠、无法单个表示的时值）
+ */
+function getMeasureSegments(notes: ParsedNote[], measureStart: number, measureEnd: number): NoteSegment[] {
+  const segments: NoteSegment[] = []
+
+  notes.forEach((note, i) => {
+    const next = notes[i + 1]
+    const noteEnd = Math.min(note.startBeat + note.duration, next ? next.startBeat : Infinity)
+    const start = Math.max(note.startBeat, measureStart)
+    const end = Math.min(noteEnd, measureEnd)
+    if (end - start < BEAT_EPSILON) return
+
+    let beat = start
+    const values = splitDuration(end - start)
+    values.forEach((value, j) => {
+      const segmentEnd = beat + value.beats
+      segments.push({
+        note,
+        start: beat,
+        value,
+        tieStop: beat > note.startBeat + BEAT_EPSILON,
+        tieStart: segmentEnd < noteEnd - BEAT_EPSILON,
+        first: beat <= note.startBeat + BEAT_EPSILON,
+        last: j === values.length - 1 && segmentEnd >= noteEnd - BEAT_EPSILON,
+      })
+      beat = segmentEnd
+    })
+  })
+
+  return segments
+}
+
+// ===================
+// 声部与小节
+// ===================
+
+interface PartToWrite {
+  part: ScorePart
+  notes: ParsedNote[]
+  isPractice: boolean
+}
+
+/**
+ * 按小节写出一个声部
+ */
+function partXml(song: ParsedSong, { part, notes, isPractice }: PartToWrite, divisions: number): string {
+  const lines: string[] = [`<part id="${escapeXml(part.id)}">`]
+  const sorted = [...notes].sort((a, b) => a.startBeat - b.startBeat)
+  const voices = [...new Set(sorted.map((note) => note.voice ?? 1))].sort((a, b) => a - b)
+  const expressionMarks = getExpressionDirections(sorted)
+
+  // 连线编号（同时进行的连线用不同编号）
+  const slurStarts = new Map<ParsedNote, number[]>()
+  const slurStops = new Map<ParsedNote, number[]>()
+  if (isPractice) {
+    const openUntil: number[] = []
+    for (const span of song.slurs) {
+      let number = openUntil.findIndex((endIndex) => endIndex < span.startIndex)
+      if (number < 0) number = openUntil.length
+      openUntil[number] = span.endIndex
+      const start = song.notes[span.startIndex]
+      const end = song.notes[span.endIndex]
+      if (!start || !end) continue
+      slurStarts.set(start, [...(slurStarts.get(start) ?? []), number + 1])
+      slurStops.set(end, [...(slurStops.get(end) ?? []), number + 1])
+    }
+  }
+
+  // 低音声部用低音谱号
+  const midiValues = sorted.map((note) => pitchToMidi(note.pitch))
+  const averageMidi = midiValues.reduce((sum, midi) => sum + midi, 0) / Math.max(1, midiValues.length)
+  const clef = midiValues.length > 0 && averageMidi < 57
+    ? '<clef><sign>F</sign><line>4</line></clef>'
+    : '<clef><sign>G</sign><line>2</line></clef>'
+
+  let endingOpen: string | null = null
+
+  song.measures.forEach((measure, measureIndex) => {
+    const start = measure.startBeat
+    const end = start + measure.duration
+    const inMeasure = (beat: number) => beat >= start - BEAT_EPSILON && beat < end - BEAT_EPSILON
+    const isLast = measureIndex === song.measures.length - 1
+    lines.push(`<measure number="${measure.number}"${measure.implicit ? ' implicit="yes"' : ''}>`)
+
+    // 反复开始、跳房子开始
+    const endingKey = measure.endings?.join(', ') ?? null
+    const leftBarline: string[] = []
+    if (endingKey && endingKey !== endingOpen) leftBarline.push(`<ending number="${endingKey}" type="start"/>`)
+    if (measure.repeatStart) leftBarline.push('<repeat direction="forward"/>')
+    if (leftBarline.length > 0) {
+      lines.push(`<barline location="left">${measure.repeatStart ? '<bar-style>heavy-light</bar-style>' : ''}${leftBarline.join('')}</barline>`)
+    }
+    endingOpen = endingKey
+
+    // 属性：调号、拍号（写在所在小节开头）
+    const attributes: string[] = []
+    if (measureIndex === 0) attributes.push(`<divisions>${divisions}</divisions>`)
+    const key = song.keySignatureChanges.find((change) =>
+      measureIndex === 0 ? change.beat < end - BEAT_EPSILON : inMeasure(change.beat)
+    )
+    if (key) attributes.push(`<key><fifths>${key.fifths}</fifths><mode>${key.mode}</mode></key>`)
+    const time = song.timeSignatureChanges.find((change) =>
+      measureIndex === 0 ? change.beat < end - BEAT_EPSILON : inMeasure(change.beat)
+    )
+    if (time) attributes.push(`<time><beats>${time.timeSignature[0]}</beats><beat-type>${time.timeSignature[1]}</beat-type></time>`)
+    if (measureIndex === 0) attributes.push(clef)
+    if (attributes.length > 0) lines.push(`<attributes>${attributes.join('')}</attributes>`)
+
+    // 方向标记按拍插入到第一个声部的音符之间
+    const directions = [
+      ...(isPractice ? getScoreDirections(song, measure, end) : []),
+      ...expressionMarks.filter((mark) => inMeasure(mark.beat) || (isLast && mark.beat >= end - BEAT_EPSILON)),
+    ].sort((a, b) => a.beat - b.beat)
+    const flushDirections = (beat: number) => {
+      while (directions.length > 0 && directions[0].beat <= beat + BEAT_EPSILON) {
+        lines.push(directions.shift()!.xml)
+      }
+    }
+
+    voices.forEach((voice, voiceIndex) => {
+      if (voiceIndex > 0) lines.push(`<backup><duration>${Math.round(measure.duration * divisions)}</duration></backup>`)
+
+      const voiceNotes = sorted.filter((note) => (note.voice ?? 1) === voice)
+      const segments = getMeasureSegments(voiceNotes, start, end)
+      let cursor = start
+
+      // 空白处：第一个声部写休止符，其他声部只移动位置
+      const fillTo = (beat: number) => {
+        if (beat - cursor < BEAT_EPSILON) return
+        if (voiceIndex > 0) {
+          lines.push(`<forward><duration>${Math.round((beat - cursor) * divisions)}</duration></forward>`)
+        } else if (segments.length === 0 && !measure.implicit) {
+          lines.push(`<note><rest measure="yes"/><duration>${Math.round(measure.duration * divisions)}</duration><voice>${voice}</voice></note>`)
+        } else {
+          for (const value of splitDuration(beat - cursor)) {
+            flushDirections(cursor)
+            lines.push(restXml(value, voice, divisions))
+            cursor += value.beats
+          }
+        }
+        cursor = beat
+      }
+
+      for (const segment of segments) {
+        fillTo(segment.start)
+        if (voiceIndex === 0) flushDirections(segment.start)
+        lines.push(...segmentXml(segment, voice, divisions, {
+          start: slurStarts.get(segment.note) ?? [],
+          stop: slurStops.get(segment.note) ?? [],
+        }))
+        cursor = segment.start + segment.value.beats
+      }
+      fillTo(end)
+    })
+    if (voices.length === 0) {
+      lines.push(`<note><rest measure="yes"/><duration>${Math.round(measure.duration * divisions)}</duration><voice>1</voice></note>`)
+    }
+    flushDirections(Infinity)
+
+    // 反复结束、跳房子结束
+    const nextEndings = song.measures[measureIndex + 1]?.endings?.join(', ') ?? null
+    const rightBarline: string[] = []
+    if (endingKey && nextEndings !== endingKey) {
+      rightBarline.push(`<ending number="${endingKey}" type="${measure.repeatEnd ? 'stop' : 'discontinue'}"/>`)
+      endingOpen = null
+    }
+    if (measure.repeatEnd) {
+      rightBarline.push(`<repeat direction="backward"${measure.repeatEnd !== 2 ? ` times="${measure.repeatEnd}"` : ''}/>`)
+    }
+    if (rightBarline.length > 0 || isLast) {
+      const style = measure.repeatEnd || isLast ? 'light-heavy' : 'regular'
+      lines.push(`<barline location="right"><bar-style>${style}</bar-style>${rightBarline.join('')}</barline>`)
+    }
+
+    lines.push('</measure>')
+  })
+
+  lines.push('</part>')
+  return lines.join('\n')
+}
+
+/**
+ * 把 ParsedSong 写成 MusicXML (score-partwise) 文本
+ * 练习的声部和伴奏声部按 parts 的顺序写出
+ */
+export function songToMusicXML(song: ParsedSong): string {
+  if (song.performance) {
+    throw new Error('Cannot write an expanded performance; pass the song in written order')
+  }
+
+  const parts: PartToWrite[] = song.parts.map((part) => {
+    const isPractice = part.id === song.partId
+    const notes = isPractice ? song.notes : song.accompaniment.find((accompaniment) => accompaniment.id === part.id)?.notes ?? []
+    return { part, notes, isPractice }
+  })
+  if (!parts.some((part) => part.isPractice)) {
+    parts.unshift({ part: { id: song.partId, name: 'Violin', isViolin: true }, notes: song.notes, isPractice: true })
+  }
+  const divisions = chooseDivisions(song, parts.map((part) => part.notes))
+
+  const partList = parts.map(({ part }) => {
+    const instrument = part.instrument ?? (part.isViolin ? 'Violin' : '')
+    return [
+      `<score-part id="${escapeXml(part.id)}">`,
+      `<part-name>${escapeXml(part.name)}</part-name>`,
+      instrument ? `<score-instrument id="${escapeXml(part.id)}-I1"><instrument-name>${escapeXml(instrument)}</instrument-name></score-instrument>` : '',
+      part.isViolin ? `<midi-instrument id="${escapeXml(part.id)}-I1"><midi-program>${VIOLIN_MIDI_PROGRAM}</midi-program></midi-instrument>` : '',
+      '</score-part>',
+    ].filter(Boolean).join('')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="3.1">',
+    `<work><work-title>${escapeXml(song.title)}</work-title></work>`,
+    '<identification>',
+    song.composer ? `<creator type="composer">${escapeXml(song.composer)}</creator>` : '',
+    '<encoding><software>MeloBuddy</software></encoding>',
+    '</identification>',
+    `<part-list>${partList.join('')}</part-list>`,
+    ...parts.map((part) => partXml(song, part, divisions)),
+    '</score-partwise>',
+    '',
+  ].filter((line, i, lines) => line !== '' || i === lines.length - 1).join('\n')
+}
+
+/**
+ * 把 ParsedSong 写成压缩的 MusicXML (.mxl)
+ */
+export async function songToMxl(song: ParsedSong): Promise<Uint8Array<ArrayBuffer>> {
+  const zip = new JSZip()
+  // mimetype 必须是第一个且不压缩的文件
+  zip.file('mimetype', 'application/vnd.recordare.musicxml', { compression: 'STORE' })
+  zip.file(
+    'META-INF/container.xml',
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<container>',
+      '<rootfiles><rootfile full-path="score.xml" media-type="application/vnd.recordare.musicxml+xml"/></rootfiles>',
+      '</container>',
+      '',
+    ].join('\n')
+  )
+  zip.file('score.xml', songToMusicXML(song))
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }) as Promise<Uint8Array<ArrayBuffer>>
+}
@@ -0,0 +1,176 @@
+// ===================
+// 起音检测与节奏对齐
+// ===================
+// 起音：频谱通量 (spectral flux)，即相邻两帧各频段（对数）幅度增加量之和。
+// 换弓、拨弦、换音时频谱变化明显，连弓中的换音也能检测到。
+// 通量超过自适应阈值（近期中值的倍数）的局部峰即一个起音；音量太小时不检测。
+//
+// 对齐：每个音符的起音取它音高被确认之前最近的一次起音，
+// 与按所选速度由 startBeat 算出的时间比较，得到偏早（负）/ 偏晚（正）的毫秒数。
+// 节拍网格跟随演奏者缓慢的速度漂移（取前几个音偏移的中值），单个音的早晚不会影响后面的音。
+
+const CONFIG = {
+  MIN_FREQUENCY: 180, // 参与计算的频段（小提琴音域及泛音）
+  MAX_FREQUENCY: 6000,
+  COMPRESSION: 1000, // 对数压缩 log(1 + C·|X|)，弱音的变化也能体现
+  THRESHOLD_FRAMES: 12, // 自适应阈值使用的帧数
+  THRESHOLD_RATIO: 1.8, // 通量需超过近期中值的倍数
+  THRESHOLD_DELTA: 0.02, // 再加上的固定值，避免安静时被噪声触发
+  MIN_INTERVAL: 70, // 两次起音的最小间隔（毫秒）
+  MIN_RMS: 0.004, // 音量低于此值的帧不检测起音
+}
+
+// 音高确认通常晚于起音；起音可以比确认晚这么多（毫秒，帧时间的误差）
+const CONFIRM_SLACK = 40
+// 起音最多比音高确认早这么多（毫秒）
+const MAX_CONFIRM_DELAY = 1500
+// 跟随速度漂移时参考的音符数
+const DRIFT_NOTES = 4
+
+export interface OnsetDetector {
+  /**
+   * 处理一帧
+   * @param spectrum 频谱 (dB)，AnalyserNode.getFloatFrequencyData 的结果
+   * @param rms 这一帧的音量
+   * @param time 这一帧的时间（毫秒）
+   * @returns 确认的起音时间（上一帧），没有起音时返回 null
+   */
+  process: (spectrum: Float32Array, rms: number, time: number) => number | null
+  reset: () => void
+}
+
+// 一个音符的节奏
+export interface NoteTiming {
+  onset: number | null // 对应的起音时间（毫秒），没有找到时为 null
+  offset: number | null // 相对节拍网格的偏差（毫秒），负数为偏早
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * 创建起音检测器（每帧调用 process）
+ */
+export function createOnsetDetector(sampleRate: number, fftSize: number): OnsetDetector {
+  const binWidth = sampleRate / fftSize
+  const startBin = Math.max(1, Math.floor(CONFIG.MIN_FREQUENCY / binWidth))
+  const endBin = Math.min(fftSize / 2, Math.ceil(CONFIG.MAX_FREQUENCY / binWidth))
+
+  let previousMagnitudes: Float32Array | null = null
+  let history: number[] = []
+  // 最近两帧的通量和时间（峰需要下一帧确认）
+  let previous = { flux: 0, time: 0, threshold: Infinity }
+  let beforePrevious = 0
+  let lastOnset = -Infinity
+
+  const reset = () => {
+    previousMagnitudes = null
+    history = []
+    previous = { flux: 0, time: 0, threshold: Infinity }
+    beforePrevious = 0
+    lastOnset = -Infinity
+  }
+
+  const process = (spectrum: Float32Array, rms: number, time: number): number | null => {
+    const magnitudes = new Float32Array(endBin - startBin)
+    for (let bin = startBin; bin < endBin; bin++) {
+      const amplitude = Number.isFinite(spectrum[bin]) ? Math.pow(10, spectrum[bin] / 20) : 0
+      magnitudes[bin - startBin] = Math.log1p(CONFIG.COMPRESSION * amplitude)
+    }
+
+    let flux = 0
+    if (previousMagnitudes) {
+      for (let i = 0; i < magnitudes.length; i++) {
+        flux += Math.max(0, magnitudes[i] - previousMagnitudes[i])
+      }
+      flux /= magnitudes.length
+    }
+    previousMagnitudes = magnitudes
+    if (rms < CONFIG.MIN_RMS) flux = 0
+
+    // 上一帧是超过阈值的局部峰 → 起音
+    let onset: number | null = null
+    if (
+      previous.flux > previous.threshold &&
+      previous.flux > beforePrevious &&
+      previous.flux >= flux &&
+      previous.time - lastOnset >= CONFIG.MIN_INTERVAL
+    ) {
+      onset = previous.time
+      lastOnset = previous.time
+    }
+
+    const threshold = history.length > 0
+      ? median(history) * CONFIG.THRESHOLD_RATIO + CONFIG.THRESHOLD_DELTA
+      : Infinity
+    history.push(flux)
+    if (history.length > CONFIG.THRESHOLD_FRAMES) history.shift()
+
+    beforePrevious = previous.flux
+    previous = { flux, time, threshold }
+    return onset
+  }
+
+  return { process, reset }
+}
+
+/**
+ * 把检测到的起音对应到乐谱音符上
+ * @param expected 每个音符按所选速度应开始的时间（毫秒，任意起点）
+ * @param onsets 检测到的起音时间（毫秒，升序）
+ * @param confirmed 每个音符音高被确认的时间（毫秒），没有演奏的音符为 null
+ */
+export function alignOnsets(expected: number[], onsets: number[], confirmed: (number | null)[]): NoteTiming[] {
+  const shifts: number[] = [] // 已对齐音符的 起音 - 网格时间
+  let searchFrom = 0
+
+  return expected.map((expectedTime, i) => {
+    const confirmTime = confirmed[i]
+    if (confirmTime === null || confirmTime === undefined) return { onset: null, offset: null }
+
+    // 候选：上一个已对齐的起音之后、音高确认之前的起音
+    const candidates: number[] = []
+    let k = searchFrom
+    for (; k < onsets.length && onsets[k] <= confirmTime + CONFIRM_SLACK; k++) {
+      if (onsets[k] >= confirmTime - MAX_CONFIRM_DELAY) candidates.push(k)
+    }
+    if (candidates.length === 0) return { onset: null, offset: null }
+
+    // 第一个音取确认前最近的起音；之后取最接近网格的
+    const shift = shifts.length > 0 ? median(shifts.slice(-DRIFT_NOTES)) : null
+    const best = shift === null
+      ? candidates[candidates.length - 1]
+      : candidates.reduce((a, b) =>
+        Math.abs(onsets[b] - expectedTime - shift) < Math.abs(onsets[a] - expectedTime - shift) ? b : a
+      )
+
+    searchFrom = best + 1
+    const onset = onsets[best]
+    shifts.push(onset - expectedTime)
+    return { onset, offset: shift === null ? 0 : Math.round(onset - expectedTime - shift) }
+  })
+}
+
+/**
+ * 节奏容差（毫秒）：音符时值的 1/4，限制在 60-150ms
+ */
+export function getTimingTolerance(noteDurationMs: number): number {
+  return Math.min(150, Math.max(60, noteDurationMs * 0.25))
+}
+
+/**
+ * 节奏得分 (0-100)：容差内满分，偏差到 3 倍容差时降为 0
+ * 没有测到起音的音符不计入
+ */
+export function getRhythmScore(timings: NoteTiming[], tolerances: number[]): number {
+  const scores = timings.flatMap((timing, i) => {
+    if (timing.offset === null) return []
+    const excess = Math.abs(timing.offset) - tolerances[i]
+    return [excess <= 0 ? 1 : Math.max(0, 1 - excess / (2 * tolerances[i]))]
+  })
+  if (scores.length === 0) return 0
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100)
+}
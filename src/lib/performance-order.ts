@@ -0,0 +1,240 @@
+import { ParsedMeasure, ParsedNote, ParsedSong, PerformedMeasure, SlurSpan } from '@/types'
+
+// ===================
+// 演奏顺序展开
+// ===================
+// 乐谱按书写顺序解析，但实际演奏会经过反复、跳房子、D.C./D.S. 跳转。
+// 这里把书写顺序的小节展开成实际演奏的顺序，并保留到原始小节/音符的映射。
+
+// 防止错误的反复记号造成死循环
+const MAX_EXPANSION_FACTOR = 16
+
+/**
+ * 找到从 index 开始的跳房子组中最大的 volta 编号（即最后一遍要演奏的结尾）
+ */
+function getFinalEnding(measures: ParsedMeasure[], index: number): number {
+  let finalEnding = 0
+  for (let i = index; i < measures.length && measures[i].endings; i++) {
+    finalEnding = Math.max(finalEnding, ...measures[i].endings!)
+  }
+  return finalEnding
+}
+
+/**
+ * 计算小节的演奏顺序
+ * 规则：
+ * - :| 跳回最近的 |:（没有则回到开头或上一个反复结束后），按 times 演奏
+ * - 跳房子只在对应遍数演奏
+ * - D.C. / D.S. 只跳转一次，跳转后不再反复、只演奏最后一个跳房子
+ * - 跳转后遇到 To Coda 跳到尾声，遇到 Fine 结束
+ */
+export function getPerformanceOrder(measures: ParsedMeasure[]): PerformedMeasure[] {
+  const order: PerformedMeasure[] = []
+  const maxSteps = measures.length * MAX_EXPANSION_FACTOR
+
+  let i = 0
+  let pass = 1
+  let sectionStart = 0
+  let hasJumped = false
+  let repeatJumped = false // 刚从 :| 跳回
+  let performedBeat = 0
+
+  while (i < measures.length && order.length < maxSteps) {
+    const measure = measures[i]
+
+    // 顺序前进到达 |: 时开始新的反复段
+    if (measure.repeatStart && !repeatJumped) {
+      sectionStart = i
+      pass = 1
+    }
+    repeatJumped = false
+
+    // 跳房子：不是本遍的结尾则跳过
+    if (measure.endings) {
+      const targetEnding = hasJumped ? getFinalEnding(measures, i) : pass
+      if (!measure.endings.includes(targetEnding)) {
+        i++
+        continue
+      }
+    }
+
+    order.push({
+      measureIndex: i,
+      measureNumber: measure.number,
+      startBeat: performedBeat,
+      writtenStartBeat: measure.startBeat,
+      duration: measure.duration,
+      pass,
+    })
+    performedBeat += measure.duration
+
+    // 跳转后：Fine 结束，To Coda 跳到尾声
+    if (hasJumped && measure.fine) break
+    if (hasJumped && measure.toCoda) {
+      const codaIndex = measures.findIndex((m, idx) => idx > i && m.coda)
+      if (codaIndex >= 0) {
+        i = codaIndex
+        continue
+      }
+    }
+
+    // 反复结束
+    if (measure.repeatEnd && !hasJumped && pass < measure.repeatEnd) {
+      pass++
+      i = sectionStart
+      repeatJumped = true
+      continue
+    }
+
+    // D.C. / D.S.
+    if (!hasJumped && (measure.daCapo || measure.dalSegno)) {
+      hasJumped = true
+      pass = 1
+      const segnoIndex = measure.dalSegno ? measures.findIndex((m) => m.segno) : -1
+      i = segnoIndex >= 0 ? segnoIndex : 0
+      sectionStart = i
+      continue
+    }
+
+    // 反复段结束后，下一段从下一小节开始
+    if (measure.repeatEnd) {
+      pass = 1
+      sectionStart = i + 1
+    }
+
+    i++
+  }
+
+  return order
+}
+
+/**
+ * 把书写顺序的音符按演奏顺序复制展开
+ */
+function expandNotes(writtenNotes: ParsedNote[], performance: PerformedMeasure[]): ParsedNote[] {
+  const notes: ParsedNote[] = []
+  for (const performed of performance) {
+    const measureEnd = performed.writtenStartBeat + performed.duration
+    for (const note of writtenNotes) {
+      if (note.startBeat < performed.writtenStartBeat || note.startBeat >= measureEnd) continue
+      notes.push({
+        ...note,
+        index: notes.length,
+        startBeat: performed.startBeat + (note.startBeat - performed.writtenStartBeat),
+        writtenIndex: note.writtenIndex ?? note.index,
+      })
+    }
+  }
+  return notes
+}
+
+/**
+ * 将书写顺序的连线映射到演奏顺序的音符
+ */
+function expandSlurs(slurs: SlurSpan[], notes: ParsedNote[]): SlurSpan[] {
+  const expanded: SlurSpan[] = []
+
+  for (const slur of slurs) {
+    notes.forEach((note, i) => {
+      if (note.writtenIndex !== slur.startIndex) return
+      const endIndex = i + (slur.endIndex - slur.startIndex)
+      if (notes[endIndex]?.writtenIndex === slur.endIndex) {
+        expanded.push({ startIndex: i, endIndex })
+      }
+    })
+  }
+
+  return expanded.sort((a, b) => a.startIndex - b.startIndex)
+}
+
+/**
+ * 将书写顺序的变化事件（速度、拍号、调号）映射到演奏时间轴
+ * 每个演奏小节开头补上当时生效的值，这样跳转（如 To Coda 跳过了变化）后仍然正确
+ */
+function expandEvents<T extends { beat: number }>(
+  events: T[],
+  performance: PerformedMeasure[],
+  isSame: (a: T, b: T) => boolean
+): T[] {
+  const expanded: T[] = []
+
+  const push = (event: T, beat: number) => {
+    const last = expanded[expanded.length - 1]
+    if (last && isSame(last, event)) return
+    expanded.push({ ...event, beat })
+  }
+
+  for (const performed of performance) {
+    const measureStart = performed.writtenStartBeat
+    const measureEnd = measureStart + performed.duration
+
+    // 小节开头生效的事件
+    const active = events.filter((e) => e.beat <= measureStart).pop()
+    if (active) push(active, performed.startBeat)
+
+    // 小节中间的事件
+    for (const event of events) {
+      if (event.beat <= measureStart || event.beat >= measureEnd) continue
+      push(event, performed.startBeat + (event.beat - measureStart))
+    }
+  }
+
+  return expanded
+}
+
+/**
+ * 把乐曲展开为演奏顺序
+ * 返回的 notes 为实际演奏的音符序列，每个音符的 writtenIndex 指向原始音符，
+ * measureNumber 仍为书写小节号，startBeat / totalBeats / 变化事件为演奏时间轴上的拍数
+ * 伴奏声部按同样的顺序展开
+ */
+export function expandPerformance(song: ParsedSong): ParsedSong {
+  // 已经展开过
+  if (song.performance) return song
+
+  const performance = getPerformanceOrder(song.measures)
+  if (performance.length === 0) {
+    return { ...song, performance }
+  }
+
+  const notes = expandNotes(song.notes, performance)
+
+  const totalBeats = notes.length > 0
+    ? Math.max(...notes.map((n) => n.startBeat + n.duration))
+    : 0
+
+  return {
+    ...song,
+    notes,
+    totalBeats,
+    slurs: expandSlurs(song.slurs, notes),
+    tempoChanges: expandEvents(
+      song.tempoChanges,
+      performance,
+      (a, b) => a.tempo === b.tempo && a.transition === b.transition
+    ),
+    timeSignatureChanges: expandEvents(
+      song.timeSignatureChanges,
+      performance,
+      (a, b) => a.timeSignature[0] === b.timeSignature[0] && a.timeSignature[1] === b.timeSignature[1]
+    ),
+    keySignatureChanges: expandEvents(
+      song.keySignatureChanges,
+      performance,
+      (a, b) => a.fifths === b.fifths && a.mode === b.mode
+    ),
+    accompaniment: song.accompaniment.map((part) => ({
+      ...part,
+      notes: expandNotes(part.notes, performance),
+    })),
+    performance,
+  }
+}
+
+/**
+ * 演奏顺序音符 index → 乐谱（书写顺序）音符 index，用于乐谱光标定位
+ */
+export function getWrittenNoteIndex(song: ParsedSong | null, noteIndex: number): number {
+  if (!song || noteIndex < 0) return noteIndex
+  return song.notes[noteIndex]?.writtenIndex ?? noteIndex
+}
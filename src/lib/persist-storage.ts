@@ -0,0 +1,107 @@
+import { createJSONStorage, type StateStorage } from 'zustand/middleware'
+import { STORES, openDatabase, toPromise, transactionDone } from './db'
+
+// ===================
+// zustand 持久化存储（IndexedDB）
+// ===================
+// store 数据保存在本地数据库的 state 仓库中，键为 persist 的 name。
+// 以前保存在 localStorage 里的数据在第一次读取时搬到数据库，并从 localStorage 删除。
+// 数据库不可用（如部分浏览器的隐私模式）或打不开（见 db 的 OPEN_TIMEOUT）时退回 localStorage。
+
+// 等待 store 读取完成的最长时间（毫秒），比打开数据库的超时多留一些余量。
+// 读到的数据损坏或迁移出错时 persist 不会报告读取完成，超时后按默认值继续
+export const HYDRATION_TIMEOUT = 5000
+
+function getLocalStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage
+  } catch {
+    // 禁用了网站数据时访问 localStorage 会抛出 SecurityError
+    return null
+  }
+}
+
+const indexedDBStateStorage: StateStorage = {
+  getItem: async (name) => {
+    const local = getLocalStorage()
+    if (typeof indexedDB === 'undefined') return local?.getItem(name) ?? null
+    try {
+      const db = await openDatabase()
+      const value = await toPromise<string | undefined>(
+        db.transaction(STORES.state, 'readonly').objectStore(STORES.state).get(name)
+      )
+      if (value !== undefined) return value
+
+      // 一次性迁移 localStorage 中的旧数据
+      const legacy = local?.getItem(name) ?? null
+      if (legacy !== null) {
+        const transaction = db.transaction(STORES.state, 'readwrite')
+        transaction.objectStore(STORES.state).put(legacy, name)
+        await transactionDone(transaction)
+        local?.removeItem(name)
+      }
+      return legacy
+    } catch (error) {
+      console.warn(`Failed to read ${name} from IndexedDB:`, error)
+      return local?.getItem(name) ?? null
+    }
+  },
+
+  setItem: async (name, value) => {
+    if (typeof indexedDB === 'undefined') {
+      getLocalStorage()?.setItem(name, value)
+      return
+    }
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(STORES.state, 'readwrite')
+      transaction.objectStore(STORES.state).put(value, name)
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn(`Failed to write ${name} to IndexedDB:`, error)
+      getLocalStorage()?.setItem(name, value)
+    }
+  },
+
+  removeItem: async (name) => {
+    getLocalStorage()?.removeItem(name)
+    if (typeof indexedDB === 'undefined') return
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(STORES.state, 'readwrite')
+      transaction.objectStore(STORES.state).delete(name)
+      await transactionDone(transaction)
+    } catch (error) {
+      console.warn(`Failed to remove ${name} from IndexedDB:`, error)
+    }
+  },
+}
+
+/**
+ * persist 中间件的 storage 选项：把 store 保存在 IndexedDB 中
+ */
+export const indexedDBStorage = createJSONStorage(() => indexedDBStateStorage)
+
+// 使用 persist 中间件的 store
+interface PersistedStore {
+  persist: {
+    hasHydrated: () => boolean
+    onFinishHydration: (listener: () => void) => () => void
+  }
+}
+
+/**
+ * 等待 store 从本地数据库读取完成，最多等 HYDRATION_TIMEOUT
+ */
+export function waitForHydration(store: PersistedStore): Promise<void> {
+  if (store.persist.hasHydrated()) return Promise.resolve()
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timer)
+      unsubscribe()
+      resolve()
+    }
+    const timer = setTimeout(finish, HYDRATION_TIMEOUT)
+    const unsubscribe = store.persist.onFinishHydration(finish)
+  })
+}
@@ -0,0 +1,26 @@
+import type { SessionRecording } from '@/types'
+import { STORES, openDatabase, toPromise, transactionDone } from './db'
+
+// ===================
+// 评测录音的本地存储
+// ===================
+// 评测时录下的音频连同评测数据保存在本地数据库（见 db）中，只保留最近的几次。
+
+const RECORDING_STORE = STORES.recordings
+
+// 最多保留的录音数（旧的先删除）
+const MAX_RECORDINGS = 20
+
+/**
+ * 保存一次录音，超出数量上限时删除最旧的
+ */
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(RECORDING_STORE, 'readwrite')
+  const store = transaction.objectStore(RECORDING_STORE)
+  store.put(recording)
+
+  const keys = await toPromise(store.index('timestamp').getAllKeys())
+  keys.slice(0, Math.max(0, keys.length - MAX_RECORDINGS)).forEach((key) => store.delete(key))
+  await transactionDone(transaction)
+}
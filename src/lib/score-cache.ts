@@ -1,33 +1,270 @@
 import { ParsedSong } from '@/types'
-import { loadMusicXML } from './musicxml-parser'
+import { PARSER_VERSION, loadMusicXML, parseMusicXMLData, type ParseOptions } from './musicxml-parser'
+import { USER_SCORE_URL_PREFIX } from './user-score-db'
+import { STORES, openDatabase, toPromise, transactionDone } from './db'
 
-const CACHE_KEY_PREFIX = 'melobuddy_score_'
-const CACHE_VERSION = 'v1'
+// ===================
+// 解析后乐谱的本地缓存
+// ===================
+// 解析结果保存在本地数据库（见 db）的 scores 仓库中，键为曲目 ID（选择了声部时为 曲目 ID#声部 ID）。
+// 每条缓存记录解析器版本和源文件的哈希 / ETag：
+// - 解析器版本变化时缓存直接失效，重新加载
+// - 读取缓存时在后台重新验证源文件（带 If-None-Match），文件有改动就重新解析，下次读取时生效
+// 用户导入的乐谱（user-score:<id>）内容不会变，只按解析器版本失效。
+// 以前 localStorage 中的缓存（melobuddy_score_<曲目 ID>_v1）在第一次打开缓存时一次性迁移到 scores 仓库，
+// 并从 localStorage 删除。旧记录没有地址、源文件哈希和声部信息，解析器版本记为 LEGACY_PARSER_VERSION，
+// 读取时和其他过期的缓存一样按解析器版本检查失效并重新解析。
+
+const LEGACY_KEY_PATTERN = /^melobuddy_score_(.+)_v1$/
+const LEGACY_PARSER_VERSION = 0
+
+// 同一首乐谱两次重新验证的最短间隔（毫秒）
+const REVALIDATE_INTERVAL = 10 * 60 * 1000
+// 预加载时同时加载的乐谱数
+const PRELOAD_CONCURRENCY = 3
+
+// 缓存的一首乐谱
+interface CachedScore {
+  id: string // 缓存键（见 getCacheKey）
+  url: string
+  partId: string | null // 选择的声部，null 为默认声部
+  parserVersion: number
+  hash: string | null // 源文件内容的 SHA-256（导入的乐谱为 null）
+  etag: string | null
+  song: ParsedSong
+  size: number // JSON 字节数
+  cachedAt: number
+  checkedAt: number // 上次重新验证的时间
+}
+
+// 乐谱有更新时的回调
+type ScoreUpdateListener = (song: ParsedSong) => void
+
+/**
+ * 缓存键：同一首曲目选择不同声部时解析结果不同，分开缓存
+ */
+function getCacheKey(songId: string, partId?: string): string {
+  return partId ? `${songId}#${partId}` : songId
+}
+
+/**
+ * 源文件内容的哈希（不支持 crypto.subtle 的非安全上下文中用 FNV-1a）
+ */
+async function hashData(data: ArrayBuffer): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', data)
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+  }
+  let hash = 0x811c9dc5
+  for (const byte of new Uint8Array(data)) {
+    hash = Math.imul(hash ^ byte, 0x01000193)
+  }
+  return `fnv-${(hash >>> 0).toString(16)}`
+}
+
+function createCachedScore(
+  key: string,
+  url: string,
+  options: ParseOptions,
+  song: ParsedSong,
+  source: { hash: string | null; etag: string | null }
+): CachedScore {
+  const now = Date.now()
+  return {
+    id: key,
+    url,
+    partId: options.partId ?? null,
+    parserVersion: PARSER_VERSION,
+    hash: source.hash,
+    etag: source.etag,
+    song,
+    size: new TextEncoder().encode(JSON.stringify(song)).length,
+    cachedAt: now,
+    checkedAt: now,
+  }
+}
+
+let legacyMigration: Promise<void> | null = null
+
+/**
+ * 把 localStorage 中的旧缓存搬到 scores 仓库（已有同一曲目的缓存时不覆盖），然后从 localStorage 删除
+ * 迁移失败时保留旧数据，下次打开缓存时重试
+ */
+async function migrateLegacyCache(db: IDBDatabase): Promise<void> {
+  if (typeof localStorage === 'undefined') return
+
+  const entries: Array<{ key: string; songId: string; value: string }> = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    const match = key?.match(LEGACY_KEY_PATTERN)
+    if (key && match) entries.push({ key, songId: match[1], value: localStorage.getItem(key) ?? '' })
+  }
+  if (entries.length === 0) return
+
+  const transaction = db.transaction(STORES.scores, 'readwrite')
+  const store = transaction.objectStore(STORES.scores)
+  for (const { songId, value } of entries) {
+    let song: ParsedSong
+    try {
+      song = JSON.parse(value) as ParsedSong
+    } catch {
+      continue // 损坏的记录直接丢弃
+    }
+    const existing = store.getKey(songId)
+    existing.onsuccess = () => {
+      if (existing.result !== undefined) return
+      store.put({
+        ...createCachedScore(songId, '', {}, song, { hash: null, etag: null }),
+        parserVersion: LEGACY_PARSER_VERSION,
+      })
+    }
+  }
+  await transactionDone(transaction)
+
+  entries.forEach(({ key }) => localStorage.removeItem(key))
+}
+
+/**
+ * 打开乐谱缓存仓库（第一次打开时迁移旧缓存）
+ */
+async function getScoreStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase()
+  if (!legacyMigration) {
+    legacyMigration = migrateLegacyCache(db).catch((error) => {
+      console.warn('Failed to migrate legacy score cache:', error)
+      legacyMigration = null
+    })
+  }
+  await legacyMigration
+  return db.transaction(STORES.scores, mode).objectStore(STORES.scores)
+}
+
+async function writeCachedScore(score: CachedScore): Promise<void> {
+  const store = await getScoreStore('readwrite')
+  await toPromise(store.put(score))
+}
 
 /**
- * 获取乐谱（优先从缓存读取）
+ * 读取缓存，没有、地址不同或解析器版本不同时返回 null
+ */
+async function readCachedScore(key: string, url: string): Promise<CachedScore | null> {
+  const store = await getScoreStore('readonly')
+  const cached = await toPromise<CachedScore | undefined>(store.get(key))
+  // 验证缓存数据有效性
+  if (cached && cached.url === url && cached.parserVersion === PARSER_VERSION && Array.isArray(cached.song?.notes)) {
+    return cached
+  }
+  return null
+}
+
+/**
+ * 加载并解析乐谱，存入缓存
+ */
+async function loadAndCache(key: string, url: string, options: ParseOptions): Promise<ParsedSong> {
+  let song: ParsedSong
+  let source: { hash: string | null; etag: string | null }
+
+  if (url.startsWith(USER_SCORE_URL_PREFIX)) {
+    song = await loadMusicXML(url, options)
+    source = { hash: null, etag: null }
+  } else {
+    const response = await fetch(url, { cache: 'no-cache' })
+    if (!response.ok) {
+      throw new Error(`Failed to load MusicXML: ${response.status} ${response.statusText}`)
+    }
+    const data = await response.arrayBuffer()
+    song = await parseMusicXMLData(data, options)
+    source = { hash: await hashData(data), etag: response.headers.get('ETag') }
+  }
+
+  try {
+    // 存入缓存
+    await writeCachedScore(createCachedScore(key, url, options, song, source))
+  } catch (error) {
+    // 缓存写入失败（可能是存储空间不足）
+    console.warn('Failed to cache score:', error)
+  }
+  return song
+}
+
+// 正在进行的重新验证（同一首乐谱不重复请求）
+const revalidating = new Map<string, Promise<void>>()
+
+/**
+ * 重新验证缓存：源文件未变时只更新检查时间，有改动时重新解析
+ * @param onUpdate 乐谱有更新时调用
+ */
+function revalidate(cached: CachedScore, onUpdate?: ScoreUpdateListener): Promise<void> {
+  if (cached.hash === null || Date.now() - cached.checkedAt < REVALIDATE_INTERVAL) {
+    return Promise.resolve()
+  }
+
+  const pending = revalidating.get(cached.id)
+  if (pending) return pending
+
+  const task = (async () => {
+    const response = await fetch(cached.url, {
+      cache: 'no-cache',
+      headers: cached.etag ? { 'If-None-Match': cached.etag } : undefined,
+    })
+    if (response.status === 304) {
+      await writeCachedScore({ ...cached, checkedAt: Date.now() })
+      return
+    }
+    if (!response.ok) return
+
+    const data = await response.arrayBuffer()
+    const hash = await hashData(data)
+    const etag = response.headers.get('ETag')
+    if (hash === cached.hash) {
+      await writeCachedScore({ ...cached, etag, checkedAt: Date.now() })
+      return
+    }
+
+    // 源文件有改动，重新解析
+    const options: ParseOptions = cached.partId ? { partId: cached.partId } : {}
+    const song = await parseMusicXMLData(data, options)
+    await writeCachedScore(createCachedScore(cached.id, cached.url, options, song, { hash, etag }))
+    onUpdate?.(song)
+  })()
+    .catch((error) => {
+      console.warn(`Failed to revalidate score ${cached.id}:`, error)
+    })
+    .finally(() => {
+      revalidating.delete(cached.id)
+    })
+
+  revalidating.set(cached.id, task)
+  return task
+}
+
+/**
+ * 获取乐谱（优先从缓存读取，并在后台重新验证）
  * @param songId 曲目ID
  * @param xmlUrl MusicXML文件URL
+ * @param options 解析选项（练习的声部）
+ * @param onUpdate 后台发现源文件有改动、重新解析后调用
  * @returns 解析后的乐谱数据
  */
-export async function getScore(songId: string, xmlUrl: string): Promise<ParsedSong> {
-  const cacheKey = `${CACHE_KEY_PREFIX}${songId}_${CACHE_VERSION}`
-
+export async function getScore(
+  songId: string,
+  xmlUrl: string,
+  options: ParseOptions = {},
+  onUpdate?: ScoreUpdateListener
+): Promise<ParsedSong> {
   // 检查是否在浏览器环境
   if (typeof window === 'undefined') {
     // 服务端直接加载
-    return await loadMusicXML(xmlUrl)
+    return await loadMusicXML(xmlUrl, options)
   }
 
+  const key = getCacheKey(songId, options.partId)
   try {
     // 尝试读取缓存
-    const cached = localStorage.getItem(cacheKey)
+    const cached = await readCachedScore(key, xmlUrl)
     if (cached) {
-      const parsed = JSON.parse(cached) as ParsedSong
-      // 验证缓存数据有效性
-      if (parsed && parsed.notes && Array.isArray(parsed.notes)) {
-        return parsed
-      }
+      revalidate(cached, onUpdate)
+      return cached.song
     }
   } catch (error) {
     // 缓存读取失败，继续加载
@@ -35,29 +272,22 @@ export async function getScore(songId: string, xmlUrl: string): Promise<ParsedSo
   }
 
   // 加载并解析
-  const parsed = await loadMusicXML(xmlUrl)
-
-  try {
-    // 存入缓存
-    localStorage.setItem(cacheKey, JSON.stringify(parsed))
-  } catch (error) {
-    // 缓存写入失败（可能是存储空间不足）
-    console.warn('Failed to cache score:', error)
-  }
-
-  return parsed
+  return loadAndCache(key, xmlUrl, options)
 }
 
 /**
- * 清除指定乐谱的缓存
+ * 清除指定乐谱的缓存（包括各个声部）
  * @param songId 曲目ID
  */
-export function clearScoreCacheById(songId: string): void {
+export async function clearScoreCacheById(songId: string): Promise<void> {
   if (typeof window === 'undefined') return
 
-  const cacheKey = `${CACHE_KEY_PREFIX}${songId}_${CACHE_VERSION}`
   try {
-    localStorage.removeItem(cacheKey)
+    const store = await getScoreStore('readwrite')
+    await Promise.all([
+      toPromise(store.delete(songId)),
+      toPromise(store.delete(IDBKeyRange.bound(`${songId}#`, `${songId}#\uffff`))),
+    ])
   } catch (error) {
     console.warn('Failed to clear score cache:', error)
   }
@@ -66,91 +296,77 @@ export function clearScoreCacheById(songId: string): void {
 /**
  * 清除所有乐谱缓存
  */
-export function clearScoreCache(): void {
+export async function clearScoreCache(): Promise<void> {
   if (typeof window === 'undefined') return
 
   try {
-    const keysToRemove: string[] = []
-
-    // 遍历所有 localStorage 项
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i)
-      if (key && key.startsWith(CACHE_KEY_PREFIX)) {
-        keysToRemove.push(key)
-      }
-    }
-
-    // 删除所有乐谱缓存
-    keysToRemove.forEach((key) => {
-      localStorage.removeItem(key)
-    })
-
+    const store = await getScoreStore('readwrite')
+    await toPromise(store.clear())
   } catch (error) {
     console.warn('Failed to clear score cache:', error)
   }
 }
 
 /**
- * 获取缓存统计信息
+ * 获取缓存统计信息（totalSize 为缓存的 JSON 字节数）
  */
-export function getScoreCacheStats(): { count: number; totalSize: number } {
+export async function getScoreCacheStats(): Promise<{ count: number; totalSize: number }> {
   if (typeof window === 'undefined') {
     return { count: 0, totalSize: 0 }
   }
 
-  let count = 0
-  let totalSize = 0
-
   try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i)
-      if (key && key.startsWith(CACHE_KEY_PREFIX)) {
-        count++
-        const value = localStorage.getItem(key)
-        if (value) {
-          totalSize += value.length * 2 // UTF-16 每字符2字节
-        }
-      }
+    const store = await getScoreStore('readonly')
+    const scores = await toPromise<CachedScore[]>(store.getAll())
+    return {
+      count: scores.length,
+      totalSize: scores.reduce((sum, score) => sum + score.size, 0),
     }
   } catch (error) {
     console.warn('Failed to get cache stats:', error)
+    return { count: 0, totalSize: 0 }
   }
-
-  return { count, totalSize }
 }
 
 /**
- * 检查乐谱是否已缓存
+ * 检查乐谱是否已缓存（当前解析器版本）
  * @param songId 曲目ID
+ * @param xmlUrl MusicXML文件URL
+ * @param options 解析选项（练习的声部）
  */
-export function isScoreCached(songId: string): boolean {
+export async function isScoreCached(songId: string, xmlUrl: string, options: ParseOptions = {}): Promise<boolean> {
   if (typeof window === 'undefined') return false
 
-  const cacheKey = `${CACHE_KEY_PREFIX}${songId}_${CACHE_VERSION}`
   try {
-    return localStorage.getItem(cacheKey) !== null
+    return (await readCachedScore(getCacheKey(songId, options.partId), xmlUrl)) !== null
   } catch {
     return false
   }
 }
 
 /**
- * 预加载多个乐谱到缓存
+ * 预加载多个乐谱（默认声部）到缓存：未缓存的加载解析，已缓存的重新验证
+ * 最多同时加载 concurrency 首，避免一次请求整个曲库
  * @param songs 要预加载的曲目列表
  */
 export async function preloadScores(
-  songs: Array<{ id: string; musicXmlUrl: string }>
+  songs: Array<{ id: string; musicXmlUrl: string }>,
+  concurrency = PRELOAD_CONCURRENCY
 ): Promise<void> {
-  const uncachedSongs = songs.filter((song) => !isScoreCached(song.id))
+  if (typeof window === 'undefined') return
 
-  // 并发加载未缓存的乐谱
-  await Promise.all(
-    uncachedSongs.map(async (song) => {
+  const queue = [...songs]
+  const worker = async () => {
+    for (let song = queue.shift(); song; song = queue.shift()) {
       try {
-        await getScore(song.id, song.musicXmlUrl)
+        const cached = await readCachedScore(song.id, song.musicXmlUrl).catch(() => null)
+        if (cached) await revalidate(cached)
+        else await loadAndCache(song.id, song.musicXmlUrl, {})
       } catch (error) {
         console.warn(`Failed to preload score for ${song.id}:`, error)
       }
-    })
-  )
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
 }
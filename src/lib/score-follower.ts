@@ -0,0 +1,261 @@
+// ===================
+// 乐谱跟随（自由速度评测）
+// ===================
+// 把检测到的音高帧切分成“演奏事件”（同一音高持续一段时间，换音或换弓起音时切开），
+// 再用隐马尔可夫模型 (HMM) 的 Viterbi 算法把事件序列对齐到乐谱音符上：
+// - 状态 j 表示“最近一个事件对应第 j 个音符”
+// - 转移：前进一个音最自然；停留（多拉了一次 / 错音插入）、跳过音符、跳回前面（重复某一段）都有代价
+// - 观测：事件音高与音符音高相同得分最高，八度错误、相差半音次之，其他音最低
+// 演奏过程中取当前得分最高的状态作为位置；结束时回溯得到整首的对齐结果。
+
+import { getSoundingPitches } from './musicxml-parser'
+import type { ParsedNote } from '@/types'
+
+const CONFIG = {
+  MIN_EVENT_TIME: 60, // 音高至少持续这么久（毫秒）才算一个事件
+  STAY: -2, // 停留在同一个音符（重复演奏 / 多出来的音）
+  SKIP: -2.5, // 每跳过一个音符
+  JUMP: -8, // 跳到任意位置（跳回重复某段，或跳过一大段）的最大代价
+  MATCH: 0, // 音高正确
+  OCTAVE: -2, // 八度错误
+  SEMITONE: -2.5, // 相差半音
+  WRONG: -4, // 其他错音
+}
+
+type FollowerNote = Pick<ParsedNote, 'pitch' | 'soundingPitch' | 'chordPitches'>
+
+// 一个演奏事件
+export interface PlayedEvent {
+  midi: number
+  start: number // 毫秒
+  end: number
+}
+
+// 一个乐谱音符的对齐结果
+export interface NoteAlignment {
+  status: 'correct' | 'wrong' | 'missed'
+  onset: number | null // 对应事件的开始时间（毫秒）
+  played: string | null // 实际拉出的音高（音名）
+}
+
+export interface ScoreFollower {
+  /**
+   * 输入一帧音高
+   * @param frequency 检测到的频率，没有稳定音高时为 null
+   * @param time 这一帧的时间（毫秒）
+   * @param articulation 这一帧前有新的起音（换弓 / 拨弦），同音反复时用来切分事件
+   * @returns 当前位置（正在演奏的音符序号），还没开始时为 -1
+   */
+  push: (frequency: number | null, time: number, articulation?: boolean) => number
+  /** 结束并回溯，得到每个音符的对齐结果 */
+  finish: (time: number) => NoteAlignment[]
+  reset: () => void
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+/**
+ * 音名 → MIDI 音高（"C#4"、"Bb3"）
+ */
+function pitchToMidi(pitch: string): number | null {
+  const match = pitch.match(/^([A-G])(#{1,2}|b{1,2})?(-?\d+)$/)
+  if (!match) return null
+  const semitones: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+  const accidental = match[2] ?? ''
+  const alter = accidental.startsWith('#') ? accidental.length : -accidental.length
+  return (parseInt(match[3], 10) + 1) * 12 + semitones[match[1]] + alter
+}
+
+function midiToPitch(midi: number): string {
+  return `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`
+}
+
+function frequencyToMidi(frequency: number): number {
+  return Math.round(69 + 12 * Math.log2(frequency / 440))
+}
+
+// 事件音高与音符的匹配得分
+function emission(midi: number, targets: number[]): number {
+  let best = CONFIG.WRONG
+  for (const target of targets) {
+    const diff = Math.abs(midi - target)
+    if (diff === 0) return CONFIG.MATCH
+    if (diff === 12 || diff === 24) best = Math.max(best, CONFIG.OCTAVE)
+    else if (diff === 1) best = Math.max(best, CONFIG.SEMITONE)
+  }
+  return best
+}
+
+/**
+ * 创建乐谱跟随器
+ * @param notes 按演奏顺序排列的音符（expandPerformance 之后）
+ */
+export function createScoreFollower(notes: FollowerNote[]): ScoreFollower {
+  const targets = notes.map((note) =>
+    getSoundingPitches(note)
+      .map(pitchToMidi)
+      .filter((midi): midi is number => midi !== null)
+  )
+  const count = notes.length
+
+  // Viterbi 状态：scores[j] 为最后一个事件对应音符 j 的最高得分；还没有事件时为 null（起点）
+  let scores: Float64Array | null = null
+  let backpointers: Int32Array[] = []
+  let events: PlayedEvent[] = []
+  // 正在进行的事件（还没有结束）
+  let current: { midi: number; start: number; last: number } | null = null
+
+  const reset = () => {
+    scores = null
+    backpointers = []
+    events = []
+    current = null
+  }
+
+  // 一个事件的 Viterbi 递推，返回新的得分和回溯指针
+  const step = (midi: number): { next: Float64Array; from: Int32Array } => {
+    const next = new Float64Array(count)
+    const from = new Int32Array(count)
+
+    // 跳到任意位置：从全局最高分出发
+    let globalBest = 0
+    let globalFrom = -1
+    if (scores) {
+      globalBest = -Infinity
+      for (let i = 0; i < count; i++) {
+        if (scores[i] > globalBest) {
+          globalBest = scores[i]
+          globalFrom = i
+        }
+      }
+    }
+
+    // skipBest：从 i < j-1 跳过中间音符到 j 的最高得分（递推维护）
+    let skipBest = -Infinity
+    let skipFrom = -1
+    for (let j = 0; j < count; j++) {
+      let best: number
+      let bestFrom: number
+      if (!scores) {
+        // 第一个事件：从开头起，跳过前面的音符
+        best = Math.max(CONFIG.SKIP * j, CONFIG.JUMP)
+        bestFrom = -1
+      } else {
+        best = globalBest + CONFIG.JUMP
+        bestFrom = globalFrom
+        if (j > 0 && scores[j - 1] > best) {
+          best = scores[j - 1]
+          bestFrom = j - 1
+        }
+        if (scores[j] + CONFIG.STAY > best) {
+          best = scores[j] + CONFIG.STAY
+          bestFrom = j
+        }
+        if (skipBest > best) {
+          best = skipBest
+          bestFrom = skipFrom
+        }
+        // 为 j+1 准备：多跳过一个音符
+        skipBest += CONFIG.SKIP
+        if (j > 0 && scores[j - 1] + CONFIG.SKIP > skipBest) {
+          skipBest = scores[j - 1] + CONFIG.SKIP
+          skipFrom = j - 1
+        }
+      }
+      next[j] = best + emission(midi, targets[j])
+      from[j] = bestFrom
+    }
+    return { next, from }
+  }
+
+  const argmax = (values: Float64Array): number => {
+    let best = 0
+    for (let j = 1; j < values.length; j++) {
+      if (values[j] > values[best]) best = j
+    }
+    return best
+  }
+
+  // 结束当前事件，足够长的才计入
+  const commit = () => {
+    if (!current) return
+    const event = current
+    current = null
+    if (event.last - event.start < CONFIG.MIN_EVENT_TIME || count === 0) return
+
+    const { next, from } = step(event.midi)
+    scores = next
+    backpointers.push(from)
+    events.push({ midi: event.midi, start: event.start, end: event.last })
+  }
+
+  const push = (frequency: number | null, time: number, articulation = false): number => {
+    const midi = frequency !== null && frequency > 0 ? frequencyToMidi(frequency) : null
+
+    if (midi === null) {
+      commit()
+    } else if (!current || current.midi !== midi || (articulation && time - current.start >= CONFIG.MIN_EVENT_TIME)) {
+      commit()
+      current = { midi, start: time, last: time }
+    } else {
+      current.last = time
+    }
+
+    // 当前位置：正在进行的事件够长时按它预测，否则取已确认的位置
+    if (count === 0) return -1
+    if (current && current.last - current.start >= CONFIG.MIN_EVENT_TIME) {
+      return argmax(step(current.midi).next)
+    }
+    return scores ? argmax(scores) : -1
+  }
+
+  const finish = (time: number): NoteAlignment[] => {
+    if (current) current.last = Math.max(current.last, time)
+    commit()
+
+    const alignment: NoteAlignment[] = notes.map(() => ({ status: 'missed', onset: null, played: null }))
+    if (!scores) return alignment
+
+    // 回溯：每个事件对应的音符
+    const states = new Array<number>(events.length)
+    let state = argmax(scores)
+    for (let k = events.length - 1; k >= 0; k--) {
+      states[k] = state
+      state = backpointers[k][state]
+    }
+
+    events.forEach((event, k) => {
+      const result = alignment[states[k]]
+      const correct = emission(event.midi, targets[states[k]]) === CONFIG.MATCH
+      // 同一个音符有多个事件（重复演奏）时，有一次拉对即算正确，起音取第一次拉对的
+      if (result.status === 'correct') return
+      if (correct || result.status === 'missed') {
+        result.status = correct ? 'correct' : 'wrong'
+        result.onset = event.start
+        result.played = midiToPitch(event.midi)
+      }
+    })
+
+    // 同音连奏（没有换弓起音）时一个事件覆盖了相邻的几个相同音高的音符：
+    // 事件可能对齐到其中任意一个，起音归第一个音符，其余算正确但没有起音
+    const samePitch = (a: number, b: number) =>
+      targets[a].length > 0 &&
+      targets[a].length === targets[b].length &&
+      targets[a].every((midi, i) => midi === targets[b][i])
+    for (let j = count - 2; j >= 0; j--) {
+      if (alignment[j].status === 'missed' && alignment[j + 1].status === 'correct' && samePitch(j, j + 1)) {
+        alignment[j] = { ...alignment[j + 1] }
+        alignment[j + 1] = { ...alignment[j + 1], onset: null }
+      }
+    }
+    for (let j = 1; j < count; j++) {
+      if (alignment[j].status === 'missed' && alignment[j - 1].status === 'correct' && samePitch(j, j - 1)) {
+        alignment[j] = { status: 'correct', onset: null, played: alignment[j - 1].played }
+      }
+    }
+
+    return alignment
+  }
+
+  return { push, finish, reset }
+}
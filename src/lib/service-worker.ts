@@ -0,0 +1,49 @@
+// ===================
+// Service Worker 注册
+// ===================
+// 离线缓存由 public/sw.js 负责；只在生产构建中注册，开发时不缓存。
+
+const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID ?? 'dev'
+
+export function isServiceWorkerEnabled(): boolean {
+  return process.env.NODE_ENV === 'production' && typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/**
+ * 注册 service worker
+ * @param onUpdate 新版本已下载、等待接管时调用，参数为等待中的 worker
+ */
+export async function registerServiceWorker(onUpdate: (worker: ServiceWorker) => void): Promise<void> {
+  if (!isServiceWorkerEnabled()) return
+
+  const registration = await navigator.serviceWorker.register(`/sw.js?v=${BUILD_ID}`, { updateViaCache: 'none' })
+
+  // 有旧 worker 在控制页面时，新 worker 安装完成才算“有更新”
+  const notifyWhenInstalled = (worker: ServiceWorker | null) => {
+    if (!worker) return
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) onUpdate(worker)
+    })
+  }
+
+  if (registration.waiting && navigator.serviceWorker.controller) onUpdate(registration.waiting)
+  notifyWhenInstalled(registration.installing)
+  registration.addEventListener('updatefound', () => notifyWhenInstalled(registration.installing))
+}
+
+/**
+ * 让等待中的新版本接管，接管后刷新页面
+ */
+export function activateUpdate(worker: ServiceWorker): void {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+  worker.postMessage({ type: 'SKIP_WAITING' })
+}
+
+/**
+ * 缓存新增内容的页面（如导入乐谱的练习页），离线时也能打开
+ */
+export async function cachePagesForOffline(pages: string[]): Promise<void> {
+  if (!isServiceWorkerEnabled()) return
+  const registration = await navigator.serviceWorker.ready
+  registration.active?.postMessage({ type: 'CACHE_PAGES', pages })
+}
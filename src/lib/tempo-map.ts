@@ -0,0 +1,202 @@
+import { ParsedSong, TempoChange } from '@/types'
+
+// ===================
+// 速度图（拍 ↔ 秒）
+// ===================
+// 由速度变化事件（含 rit. / accel.）和延长记号构成的分段速度曲线。
+// 每段内速度线性变化，所有练习模式和合成播放共用同一套换算。
+
+// rit. / accel. 没有明确目标速度时的终点比例
+const RITARDANDO_RATIO = 0.75
+const ACCELERANDO_RATIO = 1.25
+// 延长记号：音符时值拉长的倍数
+const FERMATA_RATIO = 2
+
+interface TempoSegment {
+  startBeat: number
+  endBeat: number
+  startTempo: number // 每分钟四分音符数
+  endTempo: number
+  startSeconds: number
+}
+
+export interface TempoMap {
+  segments: TempoSegment[]
+}
+
+/**
+ * 渐变速度的目标：下一个事件给出了合适方向的速度就用它，否则按固定比例
+ */
+function getTransitionTarget(change: TempoChange, next: TempoChange | undefined): number {
+  if (change.transition === 'ritardando') {
+    return next && next.tempo < change.tempo ? next.tempo : change.tempo * RITARDANDO_RATIO
+  }
+  if (change.transition === 'accelerando') {
+    return next && next.tempo > change.tempo ? next.tempo : change.tempo * ACCELERANDO_RATIO
+  }
+  return change.tempo
+}
+
+/**
+ * 段内某一拍的速度
+ */
+function tempoInSegment(segment: TempoSegment, beat: number): number {
+  const length = segment.endBeat - segment.startBeat
+  if (length <= 0) return segment.startTempo
+  const ratio = (beat - segment.startBeat) / length
+  return segment.startTempo + (segment.endTempo - segment.startTempo) * ratio
+}
+
+/**
+ * 段内从段首到 offset 拍经过的秒数（线性变速的积分）
+ */
+function secondsInSegment(segment: TempoSegment, offset: number): number {
+  const { startTempo, endTempo } = segment
+  const length = segment.endBeat - segment.startBeat
+  const slope = length > 0 ? (endTempo - startTempo) / length : 0
+  if (Math.abs(slope) < 1e-9) return (60 * offset) / startTempo
+  return (60 / slope) * Math.log((startTempo + slope * offset) / startTempo)
+}
+
+/**
+ * 段内从段首经过 seconds 秒到达的拍数偏移
+ */
+function beatsInSegment(segment: TempoSegment, seconds: number): number {
+  const { startTempo, endTempo } = segment
+  const length = segment.endBeat - segment.startBeat
+  const slope = length > 0 ? (endTempo - startTempo) / length : 0
+  if (Math.abs(slope) < 1e-9) return (seconds * startTempo) / 60
+  return (startTempo * (Math.exp((seconds * slope) / 60) - 1)) / slope
+}
+
+/**
+ * 在 beat 处把包含它的段一分为二
+ */
+function splitSegments(segments: TempoSegment[], beat: number): TempoSegment[] {
+  return segments.flatMap((segment) => {
+    if (beat <= segment.startBeat || beat >= segment.endBeat) return [segment]
+    const tempo = tempoInSegment(segment, beat)
+    return [
+      { ...segment, endBeat: beat, endTempo: tempo },
+      { ...segment, startBeat: beat, startTempo: tempo },
+    ]
+  })
+}
+
+/**
+ * 根据乐曲的速度变化和延长记号创建速度图
+ */
+export function createTempoMap(
+  song: Pick<ParsedSong, 'tempo' | 'tempoChanges' | 'notes' | 'totalBeats'>
+): TempoMap {
+  const changes = [...(song.tempoChanges ?? [])].sort((a, b) => a.beat - b.beat)
+  if (changes.length === 0 || changes[0].beat > 0) {
+    changes.unshift({ beat: 0, measureNumber: 0, tempo: song.tempo || 120 })
+  }
+
+  const endBeat = Math.max(song.totalBeats, changes[changes.length - 1].beat)
+
+  let segments: TempoSegment[] = []
+  changes.forEach((change, i) => {
+    const next = changes[i + 1]
+    const segmentEnd = next ? next.beat : endBeat
+    if (segmentEnd <= change.beat) return
+    segments.push({
+      startBeat: change.beat,
+      endBeat: segmentEnd,
+      startTempo: change.tempo,
+      endTempo: getTransitionTarget(change, next),
+      startSeconds: 0,
+    })
+  })
+
+  // 延长记号：音符范围内速度减慢
+  const fermatas = song.notes
+    .filter((note) => note.fermata)
+    .map((note) => [note.startBeat, note.startBeat + note.duration] as const)
+  for (const [start, end] of fermatas) {
+    segments = splitSegments(splitSegments(segments, start), end)
+  }
+  segments = segments.map((segment) => {
+    const middle = (segment.startBeat + segment.endBeat) / 2
+    const held = fermatas.some(([start, end]) => middle >= start && middle < end)
+    return held
+      ? { ...segment, startTempo: segment.startTempo / FERMATA_RATIO, endTempo: segment.endTempo / FERMATA_RATIO }
+      : segment
+  })
+
+  // 累计每段开始的秒数
+  let seconds = 0
+  for (const segment of segments) {
+    segment.startSeconds = seconds
+    seconds += secondsInSegment(segment, segment.endBeat - segment.startBeat)
+  }
+
+  return { segments }
+}
+
+/**
+ * 找到 beat 所在的段（超出范围时返回首段或末段）
+ */
+function findSegmentByBeat(map: TempoMap, beat: number): TempoSegment | undefined {
+  const { segments } = map
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].startBeat <= beat) return segments[i]
+  }
+  return segments[0]
+}
+
+/**
+ * 拍数 → 秒
+ */
+export function beatToSeconds(map: TempoMap, beat: number): number {
+  const segment = findSegmentByBeat(map, beat)
+  if (!segment) return (beat * 60) / 120
+
+  // 超出末段按末段结束速度匀速外推
+  if (beat > segment.endBeat) {
+    const endSeconds = segment.startSeconds + secondsInSegment(segment, segment.endBeat - segment.startBeat)
+    return endSeconds + ((beat - segment.endBeat) * 60) / segment.endTempo
+  }
+  return segment.startSeconds + secondsInSegment(segment, beat - segment.startBeat)
+}
+
+/**
+ * 秒 → 拍数
+ */
+export function secondsToBeat(map: TempoMap, seconds: number): number {
+  const { segments } = map
+  if (segments.length === 0) return (seconds * 120) / 60
+
+  let segment = segments[0]
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].startSeconds <= seconds) {
+      segment = segments[i]
+      break
+    }
+  }
+
+  const length = segment.endBeat - segment.startBeat
+  const segmentSeconds = secondsInSegment(segment, length)
+  if (seconds - segment.startSeconds > segmentSeconds) {
+    return segment.endBeat + ((seconds - segment.startSeconds - segmentSeconds) * segment.endTempo) / 60
+  }
+  return segment.startBeat + beatsInSegment(segment, seconds - segment.startSeconds)
+}
+
+/**
+ * 从 startBeat 到 endBeat 经过的秒数（如音符的实际时长）
+ */
+export function beatSpanToSeconds(map: TempoMap, startBeat: number, endBeat: number): number {
+  return beatToSeconds(map, endBeat) - beatToSeconds(map, startBeat)
+}
+
+/**
+ * 某一拍的瞬时速度（每分钟四分音符数）
+ */
+export function getTempoAtBeat(map: TempoMap, beat: number): number {
+  const segment = findSegmentByBeat(map, beat)
+  if (!segment) return 120
+  if (beat >= segment.endBeat) return segment.endTempo
+  return tempoInSegment(segment, Math.max(beat, segment.startBeat))
+}
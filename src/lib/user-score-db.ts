@@ -0,0 +1,65 @@
+import type { SongMeta } from '@/types'
+import { STORES, openDatabase, toPromise, transactionDone } from './db'
+
+// ===================
+// 用户导入乐谱的本地存储
+// ===================
+// 导入的乐谱保存在本地数据库（见 db）中：
+// - userScores: 曲目元数据 (SongMeta)，用于曲库列表
+// - userScoreFiles: 原始文件内容 (.xml / .mxl)，练习时再解析
+
+// 导入乐谱的 musicXmlUrl 前缀，loadMusicXML 据此从本地读取
+export const USER_SCORE_URL_PREFIX = 'user-score:'
+
+const META_STORE = STORES.userScores
+const FILE_STORE = STORES.userScoreFiles
+
+// 导入的原始文件
+export interface UserScoreFile {
+  id: string
+  fileName: string
+  data: ArrayBuffer
+}
+
+/**
+ * 读取所有导入曲目的元数据（按导入时间从新到旧）
+ */
+export async function listUserScores(): Promise<SongMeta[]> {
+  const db = await openDatabase()
+  const scores = await toPromise<SongMeta[]>(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll()
+  )
+  return scores.sort((a, b) => (b.importedAt ?? 0) - (a.importedAt ?? 0))
+}
+
+/**
+ * 读取导入曲目的原始文件
+ */
+export async function getUserScoreFile(id: string): Promise<UserScoreFile | undefined> {
+  const db = await openDatabase()
+  return toPromise<UserScoreFile | undefined>(
+    db.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE).get(id)
+  )
+}
+
+/**
+ * 保存导入的曲目（元数据和原始文件在同一事务中写入）
+ */
+export async function saveUserScore(meta: SongMeta, file: UserScoreFile): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([META_STORE, FILE_STORE], 'readwrite')
+  transaction.objectStore(META_STORE).put(meta)
+  transaction.objectStore(FILE_STORE).put(file)
+  await transactionDone(transaction)
+}
+
+/**
+ * 删除导入的曲目
+ */
+export async function deleteUserScore(id: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([META_STORE, FILE_STORE], 'readwrite')
+  transaction.objectStore(META_STORE).delete(id)
+  transaction.objectStore(FILE_STORE).delete(id)
+  await transactionDone(transaction)
+}
@@ -0,0 +1,89 @@
+import type { ParsedSong, SongMeta } from '@/types'
+import {
+  addDefaultFingerings,
+  convertTimewiseToPartwise,
+  extractMxl,
+  isJianpuFileName,
+  isMidiData,
+  isZipData,
+  parseMusicXML,
+} from '@/lib/musicxml-parser'
+import { parseMidi } from '@/lib/midi'
+import { parseJianpu } from '@/lib/jianpu'
+import { estimateDifficulty } from '@/lib/difficulty'
+import { USER_SCORE_URL_PREFIX, saveUserScore } from '@/lib/user-score-db'
+
+// ===================
+// 导入用户乐谱
+// ===================
+// 接受 .xml / .musicxml / .mxl / .mid 文件和简谱文本 (.jianpu / .txt)，用与内置曲目相同的解析流程检查乐谱，
+// 推算曲库需要的元数据（标题、作曲家、难度、时长），保存到本地后即可在三种练习模式中使用。
+
+export const SCORE_FILE_ACCEPT = '.xml,.musicxml,.mxl,.mid,.midi,.jianpu,.txt'
+
+// 文件大小上限 (字节)
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+/**
+ * 按文件内容识别格式（MXL / MIDI / 简谱 / MusicXML）并解析
+ */
+async function parseScoreFile(fileName: string, data: ArrayBuffer): Promise<ParsedSong> {
+  if (isZipData(data)) {
+    return parseMusicXML(convertTimewiseToPartwise(await extractMxl(data)))
+  }
+  if (isMidiData(data)) {
+    return parseMidi(data)
+  }
+
+  const text = new TextDecoder().decode(data)
+  if (isJianpuFileName(fileName)) {
+    return parseJianpu(text)
+  }
+  if (!/<score-(partwise|timewise)[\s>]/.test(text)) {
+    throw new Error('Not a MusicXML or MIDI file')
+  }
+  return parseMusicXML(convertTimewiseToPartwise(text))
+}
+
+/**
+ * 生成导入曲目的 ID
+ */
+function createUserScoreId(): string {
+  return `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * 导入乐谱文件：解析检查、推算元数据并保存到本地
+ * @returns 新曲目的元数据
+ */
+export async function importScoreFile(file: File): Promise<SongMeta> {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error('File is too large')
+  }
+
+  const data = await file.arrayBuffer()
+  const song = addDefaultFingerings(await parseScoreFile(file.name, data))
+  if (song.notes.length === 0) {
+    throw new Error('No notes found in the score')
+  }
+
+  const { stars, xpReward, profile } = estimateDifficulty(song)
+
+  const id = createUserScoreId()
+  const fileTitle = file.name.replace(/\.(xml|musicxml|mxl|midi?|jianpu|txt)$/i, '')
+  const meta: SongMeta = {
+    id,
+    title: song.title && song.title !== 'Untitled' ? song.title : fileTitle,
+    composer: song.composer || undefined,
+    difficulty: stars,
+    duration: Math.round(profile.durationSeconds),
+    category: 'piece',
+    tags: [],
+    xpReward,
+    musicXmlUrl: `${USER_SCORE_URL_PREFIX}${id}`,
+    importedAt: Date.now(),
+  }
+
+  await saveUserScore(meta, { id, fileName: file.name, data })
+  return meta
+}
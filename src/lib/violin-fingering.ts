@@ -0,0 +1,295 @@
+import { ChordPitch, NoteAnnotations, ParsedNote } from '@/types'
+
+// ===================
+// 小提琴指法引擎
+// ===================
+// 对整条旋律一起选择弦和把位（Viterbi 动态规划），尽量减少换把和跨弦。
+// 支持半把位、一到七把位，以及一指向后 / 四指向前的扩指。
+
+type StringNumber = 1 | 2 | 3 | 4
+type FingerNumber = 0 | 1 | 2 | 3 | 4
+
+// 空弦的 MIDI 音高 (1=E5, 2=A4, 3=D4, 4=G3)
+export const OPEN_STRING_MIDI: Record<StringNumber, number> = {
+  1: 76,
+  2: 69,
+  3: 62,
+  4: 55,
+}
+const STRINGS: StringNumber[] = [4, 3, 2, 1]
+
+// 各把位一指所在的位置（相对空弦的半音数），0 = 半把位
+const POSITION_BASES: Record<number, number> = {
+  0: 1,
+  1: 2,
+  2: 4,
+  3: 5,
+  4: 7,
+  5: 9,
+  6: 10,
+  7: 12,
+}
+const POSITIONS = Object.keys(POSITION_BASES).map(Number)
+
+// 各手指相对一指的可达范围（半音），extension 为扩指
+const FINGER_REACH: Array<{ finger: FingerNumber; offset: number; extension?: boolean }> = [
+  { finger: 1, offset: -2, extension: true },
+  { finger: 1, offset: -1 },
+  { finger: 1, offset: 0 },
+  { finger: 2, offset: 1 },
+  { finger: 2, offset: 2 },
+  { finger: 3, offset: 3 },
+  { finger: 3, offset: 4 },
+  { finger: 4, offset: 4 }, // 低四指
+  { finger: 4, offset: 5 },
+  { finger: 4, offset: 6, extension: true },
+]
+
+// 代价权重
+const COST = {
+  position: 0.3, // 一把位以上每升高一个把位
+  halfPosition: 0.8, // 半把位
+  extension: 1, // 扩指
+  sameFinger: 1.5, // 同一手指在同一根弦上连续按不同的音
+  shift: 2, // 换把
+  shiftDistance: 0.4, // 换把距离（每半音）
+  stringCrossing: 0.5, // 每跨一根弦
+}
+
+// 超过这个间隔（拍）视为乐句分隔，换把不再有代价
+const PHRASE_GAP_BEATS = 1
+
+export interface FingeringChoice {
+  string: StringNumber
+  finger: FingerNumber
+  position: number // 0 = 半把位，1-7
+  extension?: boolean
+}
+
+/**
+ * 频率 → MIDI 音高
+ */
+function frequencyToMidi(frequency: number): number {
+  return Math.round(69 + 12 * Math.log2(frequency / 440))
+}
+
+/**
+ * 列出一个音在所有弦和把位上的按法
+ * 空弦音对每个把位都返回一个选项（手可以停留在任意把位）
+ */
+export function getFingeringOptions(midi: number): FingeringChoice[] {
+  const options: FingeringChoice[] = []
+
+  for (const string of STRINGS) {
+    const semitones = midi - OPEN_STRING_MIDI[string]
+    if (semitones < 0) continue
+
+    for (const position of POSITIONS) {
+      if (semitones === 0) {
+        options.push({ string, finger: 0, position })
+        continue
+      }
+      for (const reach of FINGER_REACH) {
+        if (POSITION_BASES[position] + reach.offset !== semitones) continue
+        options.push({
+          string,
+          finger: reach.finger,
+          position,
+          ...(reach.extension ? { extension: true } : {}),
+        })
+      }
+    }
+  }
+
+  return options
+}
+
+/**
+ * 单个按法本身的代价
+ */
+function choiceCost(choice: FingeringChoice): number {
+  if (choice.finger === 0) return 0
+  const positionCost = choice.position === 0 ? COST.halfPosition : (choice.position - 1) * COST.position
+  return positionCost + (choice.extension ? COST.extension : 0)
+}
+
+/**
+ * 两个相邻按法之间的代价（换把 + 跨弦）
+ */
+function transitionCost(
+  from: FingeringChoice,
+  to: FingeringChoice,
+  sameNote: boolean,
+  phraseBreak: boolean
+): number {
+  let cost = Math.abs(from.string - to.string) * COST.stringCrossing
+
+  if (!sameNote && from.finger > 0 && from.finger === to.finger && from.string === to.string) {
+    cost += COST.sameFinger
+  }
+
+  if (from.position !== to.position && !phraseBreak) {
+    const distance = Math.abs(POSITION_BASES[from.position] - POSITION_BASES[to.position])
+    const shiftCost = COST.shift + distance * COST.shiftDistance
+    // 空弦时手可以趁机换把
+    cost += from.finger === 0 || to.finger === 0 ? shiftCost / 2 : shiftCost
+  }
+
+  return cost
+}
+
+/**
+ * 乐谱上已有的（或用户标注的）弦、指法、把位标记作为约束，依次应用
+ * 不可能的标记（如空弦低于该弦）被忽略
+ */
+function applyAnnotation(options: FingeringChoice[], note: ParsedNote): FingeringChoice[] {
+  let constrained = options
+  for (const field of ['string', 'finger', 'position'] as const) {
+    if (note[field] === undefined) continue
+    const filtered = constrained.filter((option) => option[field] === note[field])
+    if (filtered.length > 0) constrained = filtered
+  }
+  return constrained
+}
+
+/**
+ * 双音：在主音的把位上为其他音找到相邻的弦
+ * 同一手指只有在两根弦上按同一位置（五度）时才能同时按
+ * @returns 每个和弦音的按法，无法同时演奏时返回 null
+ */
+function fitChord(choice: FingeringChoice, mainMidi: number, chordPitches: ChordPitch[]): FingeringChoice[] | null {
+  const stopped = [{ choice, semitones: mainMidi - OPEN_STRING_MIDI[choice.string] }]
+  const fitted: FingeringChoice[] = []
+
+  for (const chordPitch of chordPitches) {
+    const midi = frequencyToMidi(chordPitch.frequency)
+    const stringDistance = (option: FingeringChoice) =>
+      Math.min(...stopped.map((s) => Math.abs(s.choice.string - option.string)))
+
+    const options = getFingeringOptions(midi).filter((option) => {
+      const semitones = midi - OPEN_STRING_MIDI[option.string]
+      return (
+        // 必须和已有的音在相邻弦上
+        stringDistance(option) === 1 &&
+        (chordPitch.string === undefined || option.string === chordPitch.string) &&
+        (option.finger === 0 || choice.finger === 0 || option.position === choice.position) &&
+        stopped.every(
+          (s) => option.finger === 0 || s.choice.finger !== option.finger || s.semitones === semitones
+        )
+      )
+    })
+    if (options.length === 0) return null
+
+    // 优先空弦和与主音同一把位的按法
+    const best = options.find((option) => option.finger === 0)
+      ?? options.find((option) => option.position === choice.position)
+      ?? options[0]
+    fitted.push(best)
+    stopped.push({ choice: best, semitones: midi - OPEN_STRING_MIDI[best.string] })
+  }
+
+  return fitted
+}
+
+/**
+ * 对一段连续可演奏的音符做 Viterbi 搜索
+ */
+function solveSegment(notes: ParsedNote[], candidates: FingeringChoice[][]): FingeringChoice[] {
+  let costs = candidates[0].map(choiceCost)
+  const backPointers: number[][] = []
+
+  for (let i = 1; i < notes.length; i++) {
+    const gap = notes[i].startBeat - (notes[i - 1].startBeat + notes[i - 1].duration)
+    const phraseBreak = gap >= PHRASE_GAP_BEATS
+    const sameNote = notes[i].frequency === notes[i - 1].frequency
+
+    const nextCosts: number[] = []
+    const pointers: number[] = []
+    for (const choice of candidates[i]) {
+      let best = Infinity
+      let bestIndex = 0
+      candidates[i - 1].forEach((prev, j) => {
+        const cost = costs[j] + transitionCost(prev, choice, sameNote, phraseBreak)
+        if (cost < best) {
+          best = cost
+          bestIndex = j
+        }
+      })
+      nextCosts.push(best + choiceCost(choice))
+      pointers.push(bestIndex)
+    }
+    costs = nextCosts
+    backPointers.push(pointers)
+  }
+
+  // 回溯最优路径
+  let index = costs.indexOf(Math.min(...costs))
+  const path: FingeringChoice[] = [candidates[notes.length - 1][index]]
+  for (let i = notes.length - 2; i >= 0; i--) {
+    index = backPointers[i][index]
+    path.unshift(candidates[i][index])
+  }
+  return path
+}
+
+/**
+ * 为整首乐曲分配弦、指法和把位
+ * 超出小提琴音域的音符不分配指法
+ */
+export function assignFingerings(notes: ParsedNote[]): ParsedNote[] {
+  const result = notes.map((note) => ({ ...note }))
+  const candidates = result.map((note) => {
+    const midi = frequencyToMidi(note.frequency)
+    const options = applyAnnotation(getFingeringOptions(midi), note)
+    if (!note.chordPitches) return options
+    // 双音：只保留能同时按出其他音的按法（都不行时退回单音按法）
+    const playable = options.filter((option) => fitChord(option, midi, note.chordPitches!) !== null)
+    return playable.length > 0 ? playable : options
+  })
+
+  // 按不可演奏的音符切分成若干段分别求解
+  let segmentStart = 0
+  for (let i = 0; i <= result.length; i++) {
+    if (i < result.length && candidates[i].length > 0) continue
+
+    if (i > segmentStart) {
+      const path = solveSegment(result.slice(segmentStart, i), candidates.slice(segmentStart, i))
+      path.forEach((choice, k) => {
+        const note = result[segmentStart + k]
+        note.string = choice.string
+        note.finger = choice.finger
+        note.position = choice.position
+        if (choice.extension) note.extension = true
+
+        if (note.chordPitches) {
+          const chord = fitChord(choice, frequencyToMidi(note.frequency), note.chordPitches)
+          note.chordPitches = note.chordPitches.map((chordPitch, c) =>
+            chord ? { ...chordPitch, string: chord[c].string, finger: chord[c].finger } : chordPitch
+          )
+        }
+      })
+    }
+
+    if (i < result.length) {
+      // 无法演奏：不保留错误的指法
+      const note = result[i]
+      delete note.string
+      delete note.finger
+      delete note.position
+    }
+    segmentStart = i + 1
+  }
+
+  return result
+}
+
+/**
+ * 把用户标注合并到音符上（覆盖乐谱和自动指法中的值）
+ * notes 应是书写顺序，标注按音符 index 对应
+ */
+export function applyNoteAnnotations(notes: ParsedNote[], annotations: NoteAnnotations): ParsedNote[] {
+  return notes.map((note) => {
+    const annotation = annotations[note.index]
+    return annotation ? { ...note, ...annotation } : note
+  })
+}
@@ -0,0 +1,72 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { indexedDBStorage, waitForHydration } from '@/lib/persist-storage'
+import type { NoteAnnotation, NoteAnnotations } from '@/types'
+
+// ===================
+// 指法 / 弓向标注
+// ===================
+// 用户在乐谱上修改的弦、指法、把位、弓向，按曲目和声部保存在本机。
+// 读取乐谱后通过 addDefaultFingerings(song, annotations) 合并到音符上。
+
+const EMPTY_ANNOTATIONS: NoteAnnotations = {}
+
+/**
+ * 曲目 + 声部 → 标注的存储键
+ */
+export function getAnnotationKey(songId: string, partId: string): string {
+  return `${songId}#${partId}`
+}
+
+interface AnnotationState {
+  annotations: Record<string, NoteAnnotations>
+
+  // 设置一个音符的标注；字段为 undefined 表示恢复乐谱 / 自动指法的值，空对象即清除该音符的标注
+  setNoteAnnotation: (key: string, noteIndex: number, annotation: NoteAnnotation) => void
+  clearAnnotations: (key: string) => void
+}
+
+export const useAnnotationStore = create<AnnotationState>()(
+  persist(
+    (set) => ({
+      annotations: {},
+
+      setNoteAnnotation: (key, noteIndex, annotation) => {
+        const cleaned = Object.fromEntries(
+          Object.entries(annotation).filter(([, value]) => value !== undefined)
+        ) as NoteAnnotation
+        set((state) => {
+          const songAnnotations = { ...state.annotations[key] }
+          if (Object.keys(cleaned).length > 0) songAnnotations[noteIndex] = cleaned
+          else delete songAnnotations[noteIndex]
+          return { annotations: { ...state.annotations, [key]: songAnnotations } }
+        })
+      },
+
+      clearAnnotations: (key) => {
+        set((state) => {
+          const annotations = { ...state.annotations }
+          delete annotations[key]
+          return { annotations }
+        })
+      },
+    }),
+    {
+      name: 'melobuddy-annotation-storage',
+      storage: indexedDBStorage,
+    }
+  )
+)
+
+/**
+ * 读取曲目一个声部的标注（非 React 环境，如加载乐谱时）
+ * 标注从 IndexedDB 异步读取，直接打开练习页时要等读取完成
+ */
+export async function getNoteAnnotations(key: string): Promise<NoteAnnotations> {
+  await waitForHydration(useAnnotationStore)
+  return useAnnotationStore.getState().annotations[key] ?? EMPTY_ANNOTATIONS
+}
+
+// Selectors
+export const useNoteAnnotations = (key: string | null) =>
+  useAnnotationStore((state) => (key ? state.annotations[key] ?? EMPTY_ANNOTATIONS : EMPTY_ANNOTATIONS))
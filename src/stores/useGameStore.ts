@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { indexedDBStorage } from '@/lib/persist-storage'
 
 // ===================
 // 等级经验表
@@ -409,6 +410,7 @@ export const useGameStore = create<GameState>()(
     }),
     {
       name: 'melobuddy-game-storage',
+      storage: indexedDBStorage,
       // 只持久化这些字段
       partialize: (state) => ({
         xp: state.xp,
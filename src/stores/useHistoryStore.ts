@@ -0,0 +1,52 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { indexedDBStorage } from '@/lib/persist-storage'
+import type { AssessmentData } from '@/types'
+
+// ===================
+// 评测历史
+// ===================
+// 每次评测的完整结果（各维度得分和错误）都保存在本机，用于曲目的进步曲线。
+// useGameStore 的 recentPractice 只记最近几首的总分，这里保留每一次。
+
+interface HistoryState {
+  attempts: AssessmentData[] // 按时间顺序
+
+  addAttempt: (attempt: AssessmentData) => void
+  clearSongHistory: (songId: string) => void
+  clearHistory: () => void
+}
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set) => ({
+      attempts: [],
+
+      addAttempt: (attempt) => {
+        set((state) => ({ attempts: [...state.attempts, attempt] }))
+      },
+
+      clearSongHistory: (songId) => {
+        set((state) => ({ attempts: state.attempts.filter((attempt) => attempt.songId !== songId) }))
+      },
+
+      clearHistory: () => {
+        set({ attempts: [] })
+      },
+    }),
+    {
+      name: 'melobuddy-history-storage',
+      storage: indexedDBStorage,
+    }
+  )
+)
+
+/**
+ * 一首曲目的所有评测（按时间顺序）
+ */
+export function getSongAttempts(attempts: AssessmentData[], songId: string): AssessmentData[] {
+  return attempts.filter((attempt) => attempt.songId === songId)
+}
+
+// Selectors
+export const useAssessmentAttempts = () => useHistoryStore((state) => state.attempts)
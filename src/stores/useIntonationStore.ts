@@ -0,0 +1,42 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { indexedDBStorage } from '@/lib/persist-storage'
+import type { IntonationSession } from '@/types'
+
+// ===================
+// 音准记录
+// ===================
+// 每次练习各音符的音准汇总（见 lib/intonation），保存在本机，用于音准报告。
+
+// 最多保留的练习次数（旧的先删除）
+const MAX_SESSIONS = 100
+
+interface IntonationState {
+  sessions: IntonationSession[]
+
+  addSession: (session: IntonationSession) => void
+  clearSessions: () => void
+}
+
+export const useIntonationStore = create<IntonationState>()(
+  persist(
+    (set) => ({
+      sessions: [],
+
+      addSession: (session) => {
+        set((state) => ({ sessions: [...state.sessions, session].slice(-MAX_SESSIONS) }))
+      },
+
+      clearSessions: () => {
+        set({ sessions: [] })
+      },
+    }),
+    {
+      name: 'melobuddy-intonation-storage',
+      storage: indexedDBStorage,
+    }
+  )
+)
+
+// Selectors
+export const useIntonationSessions = () => useIntonationStore((state) => state.sessions)
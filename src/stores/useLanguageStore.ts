@@ -29,6 +29,7 @@ export const useLanguageStore = create<LanguageState>()(
       },
     }),
     {
+      // 界面语言在首屏渲染时就要用到，仍同步保存在 localStorage
       name: 'melobuddy-language-storage',
       partialize: (state) => ({
         language: state.language,
@@ -0,0 +1,53 @@
+import { create } from 'zustand'
+import type { SongMeta } from '@/types'
+import { listUserScores, deleteUserScore } from '@/lib/user-score-db'
+import { importScoreFile } from '@/lib/user-scores'
+import { cachePagesForOffline } from '@/lib/service-worker'
+import { clearScoreCacheById } from '@/lib/score-cache'
+
+// 用户导入的乐谱（数据保存在 IndexedDB，这里只保存元数据列表）
+interface UserScoreState {
+  scores: SongMeta[]
+  isLoaded: boolean
+  loadScores: () => Promise<void>
+  importScore: (file: File) => Promise<SongMeta>
+  removeScore: (id: string) => Promise<void>
+}
+
+export const useUserScoreStore = create<UserScoreState>()((set, get) => ({
+  scores: [],
+  isLoaded: false,
+
+  loadScores: async () => {
+    if (get().isLoaded) return
+    try {
+      set({ scores: await listUserScores(), isLoaded: true })
+    } catch (error) {
+      console.error('Failed to load imported scores:', error)
+      set({ isLoaded: true })
+    }
+  },
+
+  importScore: async (file: File) => {
+    const meta = await importScoreFile(file)
+    set((state) => ({ scores: [meta, ...state.scores] }))
+    // 乐谱在本地数据库中，练习页缓存后离线也能练习
+    cachePagesForOffline([`/practice/${meta.id}`]).catch((error) => {
+      console.warn('Failed to cache imported score page:', error)
+    })
+    return meta
+  },
+
+  removeScore: async (id: string) => {
+    await deleteUserScore(id)
+    // 解析后的缓存（包括各个声部）一起删除
+    await clearScoreCacheById(id)
+    set((state) => ({ scores: state.scores.filter((score) => score.id !== id) }))
+  },
+}))
+
+/**
+ * 按 ID 查找导入的曲目
+ */
+export const useUserScore = (id: string) =>
+  useUserScoreStore((state) => state.scores.find((score) => score.id === id))
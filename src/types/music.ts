@@ -13,6 +13,28 @@ export interface SongMeta {
   musicXmlUrl: string // MusicXML文件路径
   audioUrl?: string // 示范音频
   thumbnailUrl?: string
+  importedAt?: number // 用户导入的时间 (仅导入的曲目)
+}
+
+// 力度记号
+export type DynamicLevel = 'ppp' | 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff' | 'fff'
+
+// 奏法
+export type Articulation =
+  | 'staccato' // 断奏
+  | 'staccatissimo' // 短促断奏
+  | 'spiccato' // 跳弓
+  | 'accent' // 重音
+  | 'marcato' // 强重音
+  | 'tenuto' // 保持音
+  | 'detache' // 分弓
+
+// 与主音同时演奏的音（双音、和弦）
+export interface ChordPitch {
+  pitch: string
+  frequency: number
+  string?: 1 | 2 | 3 | 4
+  finger?: 0 | 1 | 2 | 3 | 4
 }
 
 // 解析后的音符
@@ -27,7 +49,111 @@ export interface ParsedNote {
   // 小提琴专属
   string?: 1 | 2 | 3 | 4 // 弦 (1=E, 2=A, 3=D, 4=G)
   finger?: 0 | 1 | 2 | 3 | 4 // 指法
+  position?: number // 把位 (0=半把位, 1-7)
+  extension?: boolean // 扩指
+
+  // 特殊技巧
+  pizzicato?: boolean // 拨弦
+  harmonic?: 'natural' | 'artificial' // 泛音（自然 / 人工）
+  soundingPitch?: string // 泛音实际发出的音高
+  soundingFrequency?: number
+  chordPitches?: ChordPitch[] // 双音：与主音同时演奏的其他音
   bowDirection?: 'up' | 'down' // 弓向
+
+  // 表情
+  fermata?: boolean // 延长记号
+  dynamic?: DynamicLevel // 当前生效的力度记号
+  velocity?: number // 力度 0-1（含渐强/渐弱的插值）
+  hairpin?: 'crescendo' | 'diminuendo' // 处于渐强/渐弱中
+  articulations?: Articulation[] // 奏法
+
+  // 多声部
+  voice?: number // 声部号 (MusicXML <voice>)
+
+  // 反复展开后，对应乐谱中的原始音符 index
+  writtenIndex?: number
+}
+
+// 用户在乐谱上修改的指法 / 弓向，覆盖乐谱和自动指法中的值
+export type NoteAnnotation = Partial<Pick<ParsedNote, 'string' | 'finger' | 'position' | 'bowDirection'>>
+
+// 一首曲目一个声部的所有标注，键为书写顺序的音符 index
+export type NoteAnnotations = Record<number, NoteAnnotation>
+
+// 乐谱中的小节（书写顺序）
+// 注意：所有"拍"均以四分音符为单位（6/8 拍一小节为 3 拍）
+export interface ParsedMeasure {
+  index: number // 小节在 part 中的序号
+  number: number // 小节号
+  startBeat: number // 书写顺序下的开始拍
+  duration: number // 拍数（由小节实际内容得出）
+  implicit?: boolean // 不计入小节号的小节（如弱起小节）
+
+  // 反复与跳转记号
+  repeatStart?: boolean // 反复开始 |:
+  repeatEnd?: number // 反复结束 :|，值为总演奏次数（默认 2）
+  endings?: number[] // 跳房子（volta）编号，如 [1] 或 [1, 2]
+  segno?: boolean // 𝄋
+  coda?: boolean // 𝄌 尾声开始处
+  toCoda?: boolean // To Coda 跳转处
+  fine?: boolean // Fine
+  daCapo?: boolean // D.C.
+  dalSegno?: boolean // D.S.
+}
+
+// 速度变化
+export interface TempoChange {
+  beat: number
+  measureNumber: number
+  tempo: number // 每分钟四分音符数
+  transition?: 'ritardando' | 'accelerando' // 从这里开始渐慢/渐快，直到下一个速度变化
+}
+
+// 拍号变化
+export interface TimeSignatureChange {
+  beat: number
+  measureNumber: number
+  timeSignature: [number, number]
+}
+
+// 调号变化
+export interface KeySignatureChange {
+  beat: number
+  measureNumber: number
+  keySignature: string
+  fifths: number
+  mode: 'major' | 'minor'
+}
+
+// 演奏顺序中的一个小节
+export interface PerformedMeasure {
+  measureIndex: number // 对应 ParsedMeasure.index
+  measureNumber: number
+  startBeat: number // 演奏顺序下的开始拍
+  writtenStartBeat: number // 书写顺序下的开始拍
+  duration: number
+  pass: number // 第几遍（反复）
+}
+
+// 连线（圆滑线）范围 - 同一弓内演奏的一组音符
+export interface SlurSpan {
+  startIndex: number // 起始音符 index
+  endIndex: number // 结束音符 index
+}
+
+// 乐谱中的一个声部（part-list 中的 score-part）
+export interface ScorePart {
+  id: string
+  name: string
+  instrument?: string // 乐器名（score-instrument）
+  isViolin: boolean
+}
+
+// 伴奏声部：只用于播放
+export interface AccompanimentPart {
+  id: string
+  name: string
+  notes: ParsedNote[]
 }
 
 // 解析后的完整曲目
@@ -35,8 +161,20 @@ export interface ParsedSong {
   title: string
   composer: string
   notes: ParsedNote[]
-  tempo: number
-  timeSignature: [number, number]
-  keySignature: string
+  tempo: number // 初始速度
+  timeSignature: [number, number] // 初始拍号
+  keySignature: string // 初始调号
   totalBeats: number
+  tempoChanges: TempoChange[]
+  timeSignatureChanges: TimeSignatureChange[]
+  keySignatureChanges: KeySignatureChange[]
+  slurs: SlurSpan[] // 连线分组（乐句 / 弓法）
+  measures: ParsedMeasure[] // 书写顺序的小节
+  parts: ScorePart[] // 乐谱中的所有声部
+  partId: string // notes 所属的声部（练习的声部）
+  accompaniment: AccompanimentPart[] // 其他声部
+
+  // 由 expandPerformance 生成：演奏顺序的小节
+  // 存在时 notes / totalBeats / slurs 都是演奏顺序
+  performance?: PerformedMeasure[]
 }
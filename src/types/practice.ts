@@ -28,6 +28,88 @@ export interface PracticeResult {
   maxCombo: number
   duration: number // 练习时长（毫秒）
   accuracy: number // 准确率百分比
+  take?: RecordedTake // 评测模式录下的演奏
+  recording?: SessionRecording // 评测模式录下的音频
+}
+
+// 评测模式录下的一个音
+export interface RecordedNote {
+  noteIndex: number // 对应的乐谱音符
+  pitch: string // 实际拉出的音高
+  time: number // 相对评测开始的时间（毫秒）
+  duration: number // 毫秒
+  offset?: number // 相对节拍的偏差（毫秒），负数为偏早；没有测到起音时省略
+}
+
+// 评测模式录下的一次演奏（可导出为 MIDI）
+export interface RecordedTake {
+  title: string
+  tempo: number // 乐曲的初始速度，用于把时间换算为拍
+  timeSignature: [number, number]
+  notes: RecordedNote[]
+}
+
+// 评测模式的一个错误
+export interface NoteError {
+  noteIndex: number
+  expected: string
+  actual: string
+  type: 'pitch' | 'rhythm' | 'missed'
+  timestamp: number // Date.now() 时间戳，没有对应时刻（如漏拉的音）时为 0
+  offset?: number // 节奏错误：相对节拍的偏差（毫秒），负数为偏早
+}
+
+// 评测维度得分
+export interface AssessmentDimensions {
+  pitch: number      // 音准得分
+  rhythm: number     // 节奏得分
+  tempo: number      // 速度稳定性
+  fluency: number    // 流畅度
+  completeness: number // 完整性
+}
+
+// 评测方式：逐音等待（拉对才前进）/ 自由演奏（乐谱跟随，按自己的速度拉完整首）
+export type AssessStyle = 'strict' | 'free'
+
+// 评测详细数据（每次评测保存在历史记录中）
+export interface AssessmentData {
+  id: string
+  songId: string
+  partId?: string
+  style: AssessStyle
+  speed: number // 评测速度（相对乐谱速度）
+  duration: number
+  score: number
+  dimensions: AssessmentDimensions
+  errors: NoteError[]
+  timestamp: number // Date.now()
+  totalNotes: number
+  correctNotes: number
+  maxCombo: number
+}
+
+// 录音中的一帧音高（时间相对录音开始，毫秒）
+export interface PitchPoint {
+  time: number
+  frequency: number | null // 没有稳定音高时为 null
+}
+
+// 录音上标出的错误（时间相对录音开始，毫秒）
+export interface RecordingMarker extends Omit<NoteError, 'timestamp'> {
+  time: number
+}
+
+// 评测时录下的音频，和评测数据一起保存在本机
+export interface SessionRecording {
+  id: string
+  songId: string
+  timestamp: number
+  mimeType: string
+  audio: Blob
+  duration: number // 毫秒
+  pitchCurve: PitchPoint[]
+  markers: RecordingMarker[]
+  assessment: AssessmentData
 }
 
 // 反馈类型
@@ -71,18 +153,21 @@ export interface PracticeCompleteProps {
 // 模式特定 Props
 export interface LearnModeProps {
   song: Song
+  partId?: string // 练习的声部，默认自动选择小提琴声部
   onComplete: (result: Omit<PracticeResult, 'mode' | 'songId'>) => void
   onBack: () => void
 }
 
 export interface FollowModeProps {
   song: Song
+  partId?: string // 练习的声部，默认自动选择小提琴声部
   onComplete: (result: Omit<PracticeResult, 'mode' | 'songId'>) => void
   onBack: () => void
 }
 
 export interface AssessModeProps {
   song: Song
+  partId?: string // 练习的声部，默认自动选择小提琴声部
   onComplete: (result: Omit<PracticeResult, 'mode' | 'songId'>) => void
   onBack: () => void
 }
@@ -90,9 +175,31 @@ export interface AssessModeProps {
 // 模式选择器 Props
 export interface ModeSelectorProps {
   song: Song
+  partId?: string
+  onPartChange: (partId: string) => void
   onSelectMode: (mode: PracticeMode) => void
   onBack: () => void
 }
 
 // 乐谱显示模式
 export type NotationMode = 'staff' | 'numbered'
+
+// 一个音符的音准记录（演奏中每帧的音分偏差汇总）
+export interface NoteIntonation {
+  noteIndex: number
+  pitch: string
+  string?: number // 弦 (1=E, 2=A, 3=D, 4=G)
+  finger?: number
+  mean: number // 平均偏差（音分），正数偏高
+  spread: number // 标准差（音分）
+  drift: number // 持续时的漂移（音分/秒），正数越拉越高
+  samples: number // 帧数
+}
+
+// 一次练习的音准记录
+export interface IntonationSession {
+  id: string
+  songId: string
+  timestamp: number
+  notes: NoteIntonation[]
+}
@@ -0,0 +1,94 @@
+/**
+ * 本地数据库测试：升级步骤、被旧版本连接阻塞时的超时、打开失败后重试
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { beforeEach, describe, mock, test } from 'node:test'
+import { forceCloseDatabase } from 'fake-indexeddb'
+import { createThrowingIndexedDB, readAll, replaceIndexedDB } from './helpers/browser-storage'
+import { DB_NAME, DB_VERSION, STORES, openDatabase, toPromise, transactionDone } from '../src/lib/db'
+
+/**
+ * 用原生 API 创建 v1 的数据库（只有导入的乐谱），返回仍然打开的连接
+ */
+async function createV1Database(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORES.userScores, { keyPath: 'id' })
+    request.result.createObjectStore(STORES.userScoreFiles, { keyPath: 'id' })
+  }
+  const db = await toPromise(request)
+  const transaction = db.transaction(STORES.userScores, 'readwrite')
+  transaction.objectStore(STORES.userScores).put({ id: 'imported', title: 'Imported' })
+  await transactionDone(transaction)
+  return db
+}
+
+beforeEach(async () => {
+  // 删除数据库：openDatabase 打开的连接收到 versionchange 后关闭，下次重新打开
+  await toPromise(indexedDB.deleteDatabase(DB_NAME))
+})
+
+describe('openDatabase', () => {
+  test('新数据库依次执行所有升级步骤，之后复用同一个连接', async () => {
+    const db = await openDatabase()
+    assert.equal(db.version, DB_VERSION)
+    assert.deepEqual([...db.objectStoreNames].sort(), Object.values(STORES).sort())
+    assert.equal(await openDatabase(), db)
+  })
+
+  test('从 v1 升级时保留导入的乐谱', async () => {
+    ;(await createV1Database()).close()
+
+    const db = await openDatabase()
+    assert.equal(db.version, DB_VERSION)
+    assert.deepEqual([...(await readAll(db, STORES.userScores)).keys()], ['imported'])
+    assert.ok(db.objectStoreNames.contains(STORES.recordings))
+  })
+
+  test('其他页面的旧版本连接不关闭时超时失败，关闭后可以重新打开', async () => {
+    const warn = mock.method(console, 'warn', () => {})
+    const oldConnection = await createV1Database()
+    try {
+      await assert.rejects(openDatabase(), /Timed out opening IndexedDB/)
+      assert.equal(warn.mock.callCount(), 1)
+    } finally {
+      warn.mock.restore()
+      oldConnection.close()
+    }
+
+    const db = await openDatabase()
+    assert.equal(db.version, DB_VERSION)
+    assert.deepEqual([...(await readAll(db, STORES.userScores)).keys()], ['imported'])
+  })
+
+  test('连接被浏览器关闭后重新打开', async () => {
+    const db = await openDatabase()
+    // fake-indexeddb 的类型声明把参数写成了 typeof IDBDatabase
+    forceCloseDatabase(db as unknown as Parameters<typeof forceCloseDatabase>[0])
+    const reopened = await openDatabase()
+    assert.notEqual(reopened, db)
+    assert.equal(reopened.version, DB_VERSION)
+  })
+
+  test('open 直接抛出错误时失败，之后可以重试', async () => {
+    const restore = replaceIndexedDB(createThrowingIndexedDB())
+    try {
+      await assert.rejects(openDatabase(), { name: 'SecurityError' })
+    } finally {
+      restore()
+    }
+    assert.equal((await openDatabase()).version, DB_VERSION)
+  })
+
+  test('不支持 IndexedDB 时失败', async () => {
+    const restore = replaceIndexedDB(undefined)
+    try {
+      await assert.rejects(openDatabase(), /IndexedDB is not available/)
+    } finally {
+      restore()
+    }
+  })
+})
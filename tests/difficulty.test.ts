@@ -0,0 +1,116 @@
+/**
+ * 难度分析测试：内置曲库中几首有代表性的乐谱的星级，以及计分表的换算
+ * 计分表按曲库校准，改动阈值后这里和 npm run validate-songs 都应检查
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { estimateDifficulty, rateDifficulty, type DifficultyProfile } from '../src/lib/difficulty'
+import { addDefaultFingerings, parseMusicXML } from '../src/lib/musicxml-parser'
+import { readScoreXml } from '../scripts/lib/score-files.mjs'
+
+async function estimateScore(url: string) {
+  return estimateDifficulty(addDefaultFingerings(parseMusicXML(await readScoreXml(url))))
+}
+
+describe('estimateDifficulty: 内置曲库', () => {
+  const expected: Array<[string, number]> = [
+    ['/scores/scale/scale-g-major-1oct.xml', 1],
+    ['/scores/piece/mary-lamb.xml', 1],
+    ['/scores/piece/two-tigers.xml', 1],
+    ['/scores/scale/scale-a-major-2oct.xml', 2],
+    ['/scores/scale/arpeggio-g-major.xml', 2],
+    ['/scores/piece/can-can.xml', 2],
+    ['/scores/scale/scale-g-minor-2oct.xml', 3],
+    ['/scores/scale/scale-d-minor-2oct.xml', 3],
+  ]
+
+  for (const [url, stars] of expected) {
+    test(`${url} → ${stars}★`, async () => {
+      assert.equal((await estimateScore(url)).stars, stars)
+    })
+  }
+
+  test('调号写错时按最贴合的调统计调外音', async () => {
+    // 乐谱记了一个升号，旋律其实是 C 大调（F 都是还原）
+    const { profile } = await estimateScore('/scores/piece/jingle-bells.xml')
+    assert.equal(profile.keyAccidentals, 1)
+    assert.equal(profile.chromaticRatio, 0)
+  })
+
+  test('小调音阶的导音算作调外音', async () => {
+    const { profile } = await estimateScore('/scores/scale/scale-g-minor-2oct.xml')
+    assert.ok(profile.chromaticRatio > 0.03 && profile.chromaticRatio < 0.15)
+  })
+})
+
+describe('rateDifficulty', () => {
+  const beginner: DifficultyProfile = {
+    noteCount: 24,
+    durationSeconds: 20,
+    lowestPitch: 'G4',
+    highestPitch: 'D5',
+    rangeSemitones: 7,
+    maxPosition: 1,
+    positionsUsed: [1],
+    keyAccidentals: 1,
+    chromaticRatio: 0,
+    notesPerSecond: 1.2,
+    shortestNote: 1,
+    maxTempo: 100,
+    shifts: 0,
+    stringCrossings: 8,
+    doubleStops: 0,
+    harmonics: 0,
+    pizzicatos: 0,
+  }
+
+  test('一把位的短儿歌为 1 星，经验与曲库中 1 星曲目相当', () => {
+    const rating = rateDifficulty(beginner)
+    assert.equal(rating.stars, 1)
+    assert.equal(rating.score, 0)
+    assert.ok(rating.xpReward >= 15 && rating.xpReward <= 25)
+  })
+
+  test('高把位、换把频繁的快速乐曲为 5 星', () => {
+    const rating = rateDifficulty({
+      ...beginner,
+      noteCount: 400,
+      durationSeconds: 240,
+      highestPitch: 'E7',
+      lowestPitch: 'G3',
+      rangeSemitones: 45,
+      maxPosition: 7,
+      positionsUsed: [1, 3, 5, 7],
+      keyAccidentals: 4,
+      chromaticRatio: 0.2,
+      notesPerSecond: 6.5,
+      shifts: 60,
+      stringCrossings: 300,
+      doubleStops: 12,
+    })
+    assert.equal(rating.stars, 5)
+    assert.equal(rating.xpReward, 80 + 20)
+  })
+
+  test('需要换把到三把位的乐曲至少 4 星', () => {
+    const rating = rateDifficulty({
+      ...beginner,
+      rangeSemitones: 26,
+      maxPosition: 3,
+      positionsUsed: [1, 3],
+      notesPerSecond: 3,
+      shifts: 3,
+    })
+    assert.ok(rating.stars >= 4, `${rating.stars}★ (${rating.score} 分)`)
+  })
+
+  test('时长越长经验越多', () => {
+    const short = rateDifficulty(beginner)
+    const long = rateDifficulty({ ...beginner, durationSeconds: 180 })
+    assert.equal(long.stars, short.stars)
+    assert.ok(long.xpReward > short.xpReward)
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * 本地存储测试用的浏览器环境：内存中的 IndexedDB（fake-indexeddb）和 localStorage
+ */
+
+import 'fake-indexeddb/auto'
+import { toPromise } from '../../src/lib/db'
+
+/**
+ * 内存中的 localStorage
+ */
+export function createMemoryStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value))
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+    clear: () => items.clear(),
+  }
+}
+
+/**
+ * 替换全局的 indexedDB，返回恢复原值的函数（value 为 undefined 时模拟不支持 IndexedDB 的浏览器）
+ */
+export function replaceIndexedDB(value: IDBFactory | undefined): () => void {
+  const original = Object.getOwnPropertyDescriptor(globalThis, 'indexedDB')!
+  if (value) {
+    Object.defineProperty(globalThis, 'indexedDB', { ...original, value })
+  } else {
+    delete (globalThis as { indexedDB?: IDBFactory }).indexedDB
+  }
+  return () => Object.defineProperty(globalThis, 'indexedDB', original)
+}
+
+/**
+ * 打开时直接抛出错误的 indexedDB（禁用了网站数据的浏览器）
+ */
+export function createThrowingIndexedDB(): IDBFactory {
+  return {
+    open: () => {
+      throw new DOMException('The operation is insecure.', 'SecurityError')
+    },
+  } as unknown as IDBFactory
+}
+
+/**
+ * 读取一个仓库中的所有键值对
+ */
+export async function readAll(db: IDBDatabase, storeName: string): Promise<Map<IDBValidKey, unknown>> {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName)
+  const [keys, values] = await Promise.all([toPromise(store.getAllKeys()), toPromise(store.getAll())])
+  return new Map(keys.map((key, i) => [key, values[i]]))
+}
@@ -0,0 +1,169 @@
+/**
+ * 音准分析测试：单个音符的汇总（平均、离散度、漂移）、一次练习的记录和多次练习的报告
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+  createIntonationSession,
+  getIntonationReport,
+  summarizeIntonation,
+  type IntonationSample,
+} from '../src/lib/intonation'
+import type { IntonationSession, NoteIntonation } from '../src/types'
+
+// 帧间隔（毫秒）
+const FRAME = 20
+
+/**
+ * 按帧生成音准记录，cents(i) 给出第 i 帧的偏差
+ */
+function createSamples(count: number, cents: (i: number) => number, start = 0): IntonationSample[] {
+  return Array.from({ length: count }, (_, i) => ({ time: start + i * FRAME, cents: cents(i) }))
+}
+
+/**
+ * 一次练习：每个音符只给出按法和平均偏差
+ */
+function createSession(
+  id: string,
+  timestamp: number,
+  notes: Array<Pick<NoteIntonation, 'pitch' | 'string' | 'finger' | 'mean'>>
+): IntonationSession {
+  return {
+    id,
+    songId: 'song',
+    timestamp,
+    notes: notes.map((note, noteIndex) => ({ noteIndex, spread: 2, drift: 0, samples: 10, ...note })),
+  }
+}
+
+// A 弦一指 (B4) 的一个音符
+const b4 = (mean: number) => ({ pitch: 'B4', string: 2, finger: 1, mean })
+
+describe('summarizeIntonation', () => {
+  test('稳定的音：平均偏差，离散度和漂移为 0', () => {
+    const summary = summarizeIntonation(createSamples(10, () => 12))
+    assert.deepEqual(summary, { mean: 12, spread: 0, drift: 0, samples: 10 })
+  })
+
+  test('漂移是音分对时间的最小二乘斜率（音分/秒）', () => {
+    // 每帧升高 0.5 音分 = 每秒 25 音分
+    const rising = summarizeIntonation(createSamples(11, (i) => i * 0.5))!
+    assert.equal(rising.drift, 25)
+    assert.equal(rising.mean, 2.5)
+
+    // 叠加正负交替的抖动不改变斜率
+    const noisy = summarizeIntonation(createSamples(21, (i) => -i + (i % 2 === 0 ? 3 : -3), 1000))!
+    assert.ok(Math.abs(noisy.drift + 50) < 2, `drift ${noisy.drift}`)
+    assert.ok(noisy.spread > 3)
+  })
+
+  test('所有帧在同一时间时漂移为 0', () => {
+    const samples = [10, 12, 14, 16, 18].map((cents) => ({ time: 500, cents }))
+    assert.equal(summarizeIntonation(samples)!.drift, 0)
+  })
+
+  test('少于 MIN_SAMPLES (5) 帧时不计入', () => {
+    assert.equal(summarizeIntonation(createSamples(4, () => 20)), null)
+    assert.notEqual(summarizeIntonation(createSamples(5, () => 20)), null)
+  })
+})
+
+describe('createIntonationSession', () => {
+  const notes = [
+    { pitch: 'A4', string: 2, finger: 0 },
+    { pitch: 'B4', string: 2, finger: 1 },
+    { pitch: 'C#5', string: 2, finger: 2 },
+  ]
+
+  test('按音符序号排列，带上按法，帧数太少和不存在的音符被跳过', () => {
+    const traces = new Map<number, IntonationSample[]>([
+      [2, createSamples(8, () => -15)],
+      [0, createSamples(8, () => 4)],
+      [1, createSamples(3, () => 30)],
+      [7, createSamples(8, () => 30)],
+    ])
+    const session = createIntonationSession('scale', notes, traces)!
+    assert.equal(session.songId, 'scale')
+    assert.deepEqual(
+      session.notes.map(({ noteIndex, pitch, string, finger, mean }) => ({ noteIndex, pitch, string, finger, mean })),
+      [
+        { noteIndex: 0, pitch: 'A4', string: 2, finger: 0, mean: 4 },
+        { noteIndex: 2, pitch: 'C#5', string: 2, finger: 2, mean: -15 },
+      ]
+    )
+  })
+
+  test('没有可用的音符时不产生记录', () => {
+    const traces = new Map([[0, createSamples(2, () => 10)]])
+    assert.equal(createIntonationSession('scale', notes, traces), null)
+  })
+})
+
+describe('getIntonationReport', () => {
+  test('同一按法至少 MIN_NOTES (4) 个音符、平均偏差至少 8 音分才下结论', () => {
+    const threeNotes = getIntonationReport([createSession('s1', 1, [b4(20), b4(20), b4(20)])])
+    assert.deepEqual(threeNotes.findings, [])
+    assert.deepEqual(threeNotes.pitches, [])
+
+    const fourNotes = getIntonationReport([createSession('s1', 1, [b4(20), b4(20), b4(20), b4(20)])])
+    assert.equal(fourNotes.findings.length, 1)
+    const [finding] = fourNotes.findings
+    assert.deepEqual([finding.key, finding.string, finding.finger, finding.pitch], ['2-1', 2, 1, undefined])
+    assert.deepEqual([finding.mean, finding.notes, finding.sessions], [20, 4, 1])
+    assert.equal(fourNotes.pitches[0].pitch, 'B4')
+    assert.equal(fourNotes.pitches[0].string, undefined)
+
+    const small = getIntonationReport([createSession('s1', 1, [b4(5), b4(6), b4(7), b4(6)])])
+    assert.deepEqual(small.findings, [])
+    assert.equal(small.pitches.length, 1)
+  })
+
+  test('多次练习时只报告大多数练习都偏向同一侧的按法', () => {
+    // 四次练习中三次偏高：一致性 0.75，报告
+    const consistent = getIntonationReport([
+      createSession('s1', 1, [b4(20), b4(18)]),
+      createSession('s2', 2, [b4(16), b4(22)]),
+      createSession('s3', 3, [b4(24)]),
+      createSession('s4', 4, [b4(-4)]),
+    ])
+    assert.equal(consistent.findings.length, 1)
+    assert.equal(consistent.findings[0].sessions, 4)
+    assert.equal(consistent.findings[0].consistency, 0.75)
+
+    // 两次偏高、一次偏低：平均仍偏高，但一致性只有 2/3，不报告
+    const inconsistent = getIntonationReport([
+      createSession('s1', 1, [b4(40), b4(40)]),
+      createSession('s2', 2, [b4(30), b4(30)]),
+      createSession('s3', 3, [b4(-20), b4(-20)]),
+    ])
+    assert.deepEqual(inconsistent.findings, [])
+    assert.equal(inconsistent.pitches[0].consistency, 2 / 3)
+  })
+
+  test('按偏差从大到小排列，没有按法的音符只按音高分组', () => {
+    const report = getIntonationReport([
+      createSession('s1', 1, [
+        ...[1, 2, 3, 4].map(() => b4(10)),
+        ...[1, 2, 3, 4].map(() => ({ pitch: 'D5', string: 2, finger: 3, mean: -25 })),
+        ...[1, 2, 3, 4].map(() => ({ pitch: 'G4', mean: 30 })),
+      ]),
+    ])
+    assert.deepEqual(report.findings.map((group) => group.key), ['2-3', '2-1'])
+    assert.deepEqual(report.pitches.map((group) => group.key), ['G4', 'D5', 'B4'])
+  })
+
+  test('趋势按时间排列，每次练习取偏差绝对值的平均', () => {
+    const report = getIntonationReport([
+      createSession('late', 2000, [b4(10), b4(-20)]),
+      createSession('early', 1000, [b4(5), b4(5)]),
+    ])
+    assert.deepEqual(report.trend, [
+      { timestamp: 1000, meanAbs: 5 },
+      { timestamp: 2000, meanAbs: 15 },
+    ])
+  })
+})
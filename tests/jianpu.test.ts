@@ -0,0 +1,69 @@
+/**
+ * 简谱解析测试：音高、时值、小节和头部
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { parseJianpu } from '../src/lib/jianpu'
+
+describe('parseJianpu', () => {
+  test('文件头部注释中的示例（《小蜜蜂》）', () => {
+    const song = parseJianpu(`标题: 小蜜蜂
+作曲: 德国民歌
+1=D 2/4 ♩=100
+5_ 3_ 3 | 4_ 2_ 2 | 1_ 2_ 3_ 4_ | 5_ 5_ 5 |`)
+    assert.equal(song.title, '小蜜蜂')
+    assert.equal(song.composer, '德国民歌')
+    assert.equal(song.tempo, 100)
+    assert.equal(song.keySignature, 'D')
+    assert.deepEqual(song.timeSignature, [2, 4])
+    assert.deepEqual(song.notes.map((note) => note.pitch).slice(0, 6), ['A4', 'F#4', 'F#4', 'G4', 'E4', 'E4'])
+    assert.deepEqual(song.measures.map((measure) => measure.duration), [2, 2, 2, 2])
+    assert.equal(song.totalBeats, 8)
+  })
+
+  test('八度、临时记号和指法', () => {
+    const song = parseJianpu("1=C 4/4\n1, #4 4 b7'^2 | 1'' ♮4 4 1 |")
+    assert.deepEqual(song.notes.map((note) => note.pitch), ['C3', 'F#4', 'F#4', 'Bb5', 'C6', 'F4', 'F4', 'C4'])
+    assert.equal(song.notes[3].finger, 2)
+  })
+
+  test('减时线、附点、延长线和连音', () => {
+    const song = parseJianpu('1=C 4/4\n1. 2_ 3 - | 5~ 5 6__ 6__ 6_ 0 |')
+    assert.deepEqual(
+      song.notes.map((note) => [note.pitch, note.startBeat, note.duration]),
+      [['C4', 0, 1.5], ['D4', 1.5, 0.5], ['E4', 2, 2], ['G4', 4, 2], ['A4', 6, 0.25], ['A4', 6.25, 0.25], ['A4', 6.5, 0.5]]
+    )
+  })
+
+  test('弱起小节不计小节号，反复段和最后一小节可以不满', () => {
+    const song = parseJianpu('1=G 3/4\n5 | 1 2 3 | 4 5 :| 6 7 1\' | 2\' |')
+    assert.deepEqual(song.measures.map((measure) => measure.number), [0, 1, 2, 3, 4])
+    assert.equal(song.measures[0].implicit, true)
+    assert.equal(song.measures[2].repeatEnd, 2)
+  })
+
+  test('小节拍数与拍号不符时报出行号和小节', () => {
+    assert.throws(
+      () => parseJianpu('1=D 2/4\n5 3 3 - | 4 2 2 - |'),
+      /line 2: measure 1 has 4 beats, expected 2 for 2\/4/
+    )
+    assert.throws(
+      () => parseJianpu('1=C 4/4\n1 2 3 4 |\n5 6 | 7 1\' 2\' 3\' |'),
+      /line 3: measure 2 has 2 beats, expected 4/
+    )
+  })
+
+  test('头部字段可以写在乐谱之后，与音符同行时给出明确的错误', () => {
+    const song = parseJianpu('1=C 4/4\n1 2 3 4 |\n速度：♩=90\ntitle: Scale')
+    assert.equal(song.tempo, 90)
+    assert.equal(song.title, 'Scale')
+    assert.throws(() => parseJianpu('1=C 4/4\n1 2 3 4 | 速度: 100'), /line 2: header "速度: 100" must be on its own line/)
+  })
+
+  test('没有音符时报错', () => {
+    assert.throws(() => parseJianpu('标题: 空\n0 0 0 0 |'), /No notes found/)
+  })
+})
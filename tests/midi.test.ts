@@ -0,0 +1,76 @@
+/**
+ * MIDI 读写测试：乐谱 → MIDI → 乐谱的往返，以及导入时的音名拼写
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { parseMidi, songToMidi, takeToMidi } from '../src/lib/midi'
+import { parseMusicXML } from '../src/lib/musicxml-parser'
+import { readScoreXml } from '../scripts/lib/score-files.mjs'
+
+async function roundTrip(url: string) {
+  const song = parseMusicXML(await readScoreXml(url))
+  return { song, imported: parseMidi(songToMidi(song).buffer) }
+}
+
+describe('songToMidi → parseMidi', () => {
+  for (const url of [
+    '/scores/scale/scale-d-minor-2oct.xml',
+    '/scores/scale/scale-g-minor-2oct.xml',
+    '/scores/scale/scale-a-major-2oct.xml',
+  ]) {
+    test(`${url} 的音名、节奏、调号和拍号不变`, async () => {
+      const { song, imported } = await roundTrip(url)
+      assert.deepEqual(imported.notes.map((note) => note.pitch), song.notes.map((note) => note.pitch))
+      assert.deepEqual(imported.notes.map((note) => note.startBeat), song.notes.map((note) => note.startBeat))
+      assert.deepEqual(imported.notes.map((note) => note.duration), song.notes.map((note) => note.duration))
+      assert.equal(imported.keySignature, song.keySignature)
+      assert.deepEqual(imported.timeSignature, song.timeSignature)
+      assert.equal(imported.tempo, song.tempo)
+    })
+  }
+
+  test('小调的导音拼成升七级', async () => {
+    const { imported: dMinor } = await roundTrip('/scores/scale/scale-d-minor-2oct.xml')
+    assert.ok(dMinor.notes.some((note) => note.pitch === 'C#5'))
+    assert.ok(!dMinor.notes.some((note) => note.pitch.startsWith('Db')))
+
+    const { imported: gMinor } = await roundTrip('/scores/scale/scale-g-minor-2oct.xml')
+    assert.ok(gMinor.notes.some((note) => note.pitch.startsWith('F#')))
+    assert.ok(!gMinor.notes.some((note) => note.pitch.startsWith('Gb')))
+  })
+
+  test('反复按演奏顺序展开', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <part-list><score-part id="P1"><part-name>Violin</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>1</divisions><time><beats>2</beats><beat-type>4</beat-type></time></attributes>
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>2</duration><type>half</type></note>
+      <barline location="right"><repeat direction="backward"/></barline>
+    </measure>
+  </part>
+</score-partwise>`
+    const imported = parseMidi(songToMidi(parseMusicXML(xml)).buffer)
+    assert.deepEqual(imported.notes.map((note) => [note.pitch, note.startBeat]), [['G4', 0], ['G4', 2]])
+  })
+})
+
+describe('takeToMidi', () => {
+  test('按乐曲速度把录音的毫秒换算成拍', () => {
+    const data = takeToMidi({
+      title: 'Take',
+      tempo: 120,
+      timeSignature: [4, 4],
+      notes: [
+        { noteIndex: 0, pitch: 'G4', time: 0, duration: 500 },
+        { noteIndex: 1, pitch: 'Bb4', time: 500, duration: 1000 },
+      ],
+    })
+    const imported = parseMidi(data.buffer)
+    assert.deepEqual(imported.notes.map((note) => [note.pitch, note.startBeat, note.duration]), [['G4', 0, 1], ['A#4', 1, 2]])
+  })
+})
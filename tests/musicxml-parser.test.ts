@@ -0,0 +1,354 @@
+/**
+ * MusicXML 解析测试：用最小的 MusicXML 片段逐项检查 parseMusicXML 的各个功能
+ * 整首乐谱的解析结果见 parser-golden.test.ts
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { parseMusicXML } from '../src/lib/musicxml-parser'
+
+const DEFAULT_ATTRIBUTES =
+  '<attributes><divisions>1</divisions><key><fifths>0</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time></attributes>'
+
+/**
+ * 一个音符，duration 以 divisions 为单位
+ */
+function note(step: string, octave: number, duration: number, extra = ''): string {
+  return `<note><pitch><step>${step}</step><octave>${octave}</octave></pitch><duration>${duration}</duration>${extra}</note>`
+}
+
+/**
+ * 单声部的 score-partwise 文档，第一小节前写入 attributes
+ * pickup 为 true 时第一小节是弱起小节（按惯例编号为 0 并标记 implicit）
+ */
+function score(measures: string[], attributes = DEFAULT_ATTRIBUTES, pickup = false): string {
+  const body = measures
+    .map((content, i) => {
+      const number = pickup ? i : i + 1
+      const implicit = pickup && i === 0 ? ' implicit="yes"' : ''
+      return `<measure number="${number}"${implicit}>${i === 0 ? attributes : ''}${content}</measure>`
+    })
+    .join('')
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <part-list><score-part id="P1"><part-name>Violin</part-name></score-part></part-list>
+  <part id="P1">${body}</part>
+</score-partwise>`
+}
+
+describe('parseMusicXML: 连音线、圆滑线和多声部', () => {
+  test('连音线连接的音合并为一个音符，时值相加', () => {
+    const song = parseMusicXML(score([
+      note('C', 5, 2, '<tie type="start"/><notations><tied type="start"/></notations>') +
+        note('C', 5, 1, '<tie type="stop"/><notations><tied type="stop"/></notations>') +
+        note('D', 5, 1),
+    ]))
+    assert.deepEqual(
+      song.notes.map((n) => [n.pitch, n.startBeat, n.duration]),
+      [['C5', 0, 3], ['D5', 3, 1]]
+    )
+  })
+
+  test('跨小节线的连音线也合并，音符属于开始的小节', () => {
+    const song = parseMusicXML(score([
+      note('G', 4, 4, '<tie type="start"/><notations><tied type="start"/></notations>'),
+      note('G', 4, 2, '<tie type="stop"/><notations><tied type="stop"/></notations>') + note('A', 4, 2),
+    ]))
+    assert.equal(song.notes.length, 2)
+    assert.equal(song.notes[0].duration, 6)
+    assert.equal(song.notes[0].measureNumber, 1)
+    assert.equal(song.notes[1].startBeat, 6)
+  })
+
+  test('圆滑线记录为起止音符 index（合并连音线之后的 index）', () => {
+    const song = parseMusicXML(score([
+      note('C', 5, 1, '<tie type="start"/><notations><tied type="start"/><slur type="start" number="1"/></notations>') +
+        note('C', 5, 1, '<tie type="stop"/><notations><tied type="stop"/></notations>') +
+        note('D', 5, 1, '<notations><slur type="stop" number="1"/></notations>') +
+        note('E', 5, 1),
+    ]))
+    assert.deepEqual(song.slurs, [{ startIndex: 0, endIndex: 1 }])
+  })
+
+  test('backup 之后的声部从小节开头重新计拍', () => {
+    const song = parseMusicXML(score([
+      note('E', 5, 4, '<voice>1</voice>') +
+        '<backup><duration>4</duration></backup>' +
+        note('C', 4, 2, '<voice>2</voice>') +
+        note('D', 4, 2, '<voice>2</voice>'),
+      note('F', 5, 4, '<voice>1</voice>'),
+    ]))
+    assert.deepEqual(
+      song.notes.map((n) => [n.pitch, n.startBeat, n.voice]),
+      [['E5', 0, 1], ['C4', 0, 2], ['D4', 2, 2], ['F5', 4, 1]]
+    )
+    assert.equal(song.measures[1].startBeat, 4)
+  })
+
+  test('forward 跳过的拍不产生音符', () => {
+    const song = parseMusicXML(score([
+      note('A', 4, 1) + '<forward><duration>2</duration></forward>' + note('B', 4, 1),
+    ]))
+    assert.deepEqual(song.notes.map((n) => n.startBeat), [0, 3])
+    assert.equal(song.totalBeats, 4)
+  })
+})
+
+describe('parseMusicXML: 小节时值和速度 / 拍号 / 调号变化', () => {
+  // 弱起小节 (3/4, G 大调, ♩=90) → 第 2 小节起 6/8, F 大调, ♩=60
+  const xml = score([
+    '<direction><sound tempo="90"/></direction>' + note('D', 5, 2),
+    note('G', 5, 6),
+    '<attributes><key><fifths>-1</fifths></key><time><beats>6</beats><beat-type>8</beat-type></time></attributes>' +
+      '<direction><sound tempo="60"/></direction>' +
+      note('F', 5, 3) + note('A', 5, 3),
+    note('A', 5, 6),
+  ], '<attributes><divisions>2</divisions><key><fifths>1</fifths></key><time><beats>3</beats><beat-type>4</beat-type></time></attributes>', true)
+
+  test('弱起小节的长度由内容决定，后面的小节紧接着开始', () => {
+    const song = parseMusicXML(xml)
+    assert.deepEqual(song.measures[0], { index: 0, number: 0, startBeat: 0, duration: 1, implicit: true })
+    assert.deepEqual(song.measures.map((m) => m.startBeat), [0, 1, 4, 7])
+    assert.equal(song.notes[1].startBeat, 1)
+  })
+
+  test('6/8 拍一小节为 3 个四分音符拍', () => {
+    const song = parseMusicXML(xml)
+    assert.equal(song.measures[2].duration, 3)
+    assert.deepEqual(
+      song.notes.filter((n) => n.measureNumber === 2).map((n) => [n.startBeat, n.duration]),
+      [[4, 1.5], [5.5, 1.5]]
+    )
+    assert.equal(song.totalBeats, 10)
+  })
+
+  test('速度、拍号和调号的每次变化都带拍位置', () => {
+    const song = parseMusicXML(xml)
+    assert.deepEqual(song.tempoChanges, [
+      { beat: 0, measureNumber: 0, tempo: 90 },
+      { beat: 4, measureNumber: 2, tempo: 60 },
+    ])
+    assert.deepEqual(song.timeSignatureChanges, [
+      { beat: 0, measureNumber: 0, timeSignature: [3, 4] },
+      { beat: 4, measureNumber: 2, timeSignature: [6, 8] },
+    ])
+    assert.deepEqual(
+      song.keySignatureChanges.map((k) => [k.beat, k.keySignature]),
+      [[0, 'G'], [4, 'F']]
+    )
+  })
+
+  test('初始速度 / 拍号 / 调号取第一个事件', () => {
+    const song = parseMusicXML(xml)
+    assert.equal(song.tempo, 90)
+    assert.deepEqual(song.timeSignature, [3, 4])
+    assert.equal(song.keySignature, 'G')
+  })
+})
+
+/**
+ * 方向标记（力度、渐强/渐弱、文字）
+ */
+function direction(content: string): string {
+  return `<direction><direction-type>${content}</direction-type></direction>`
+}
+
+describe('parseMusicXML: 力度和奏法', () => {
+  test('力度记号作用于之后的音符，直到下一个力度记号', () => {
+    const song = parseMusicXML(score([
+      direction('<dynamics><p/></dynamics>') + note('G', 4, 2) + note('A', 4, 2),
+      direction('<dynamics><f/></dynamics>') + note('B', 4, 4),
+    ]))
+    assert.deepEqual(song.notes.map((n) => n.dynamic), ['p', 'p', 'f'])
+    assert.equal(song.notes[0].velocity, 0.42)
+    assert.equal(song.notes[2].velocity, 0.78)
+  })
+
+  test('渐强在起点和终点的力度之间插值', () => {
+    const song = parseMusicXML(score([
+      direction('<dynamics><p/></dynamics>') + direction('<wedge type="crescendo"/>') +
+        note('C', 5, 1) + note('D', 5, 1) + note('E', 5, 1) + note('F', 5, 1),
+      direction('<wedge type="stop"/>') + direction('<dynamics><f/></dynamics>') + note('G', 5, 4),
+    ]))
+    const [first, second, , fourth, last] = song.notes
+    assert.equal(first.hairpin, 'crescendo')
+    assert.equal(first.velocity, 0.42)
+    assert.ok(second.velocity! > first.velocity! && fourth.velocity! > second.velocity!)
+    assert.ok(fourth.velocity! < 0.78)
+    assert.equal(last.hairpin, undefined)
+    assert.equal(last.velocity, 0.78)
+  })
+
+  test('没有终点力度的渐弱降一级', () => {
+    const song = parseMusicXML(score([
+      direction('<dynamics><mf/></dynamics>') + direction('<wedge type="diminuendo"/>') +
+        note('C', 5, 2) + note('D', 5, 2),
+      direction('<wedge type="stop"/>') + note('E', 5, 4),
+    ]))
+    assert.equal(song.notes[0].velocity, 0.65)
+    assert.ok(Math.abs(song.notes[1].velocity! - (0.65 + 0.54) / 2) < 1e-9)
+    assert.equal(song.notes[1].hairpin, 'diminuendo')
+  })
+
+  test('<articulations> 中的奏法', () => {
+    const song = parseMusicXML(score([
+      note('A', 4, 1, '<notations><articulations><staccato/><accent/></articulations></notations>') +
+        note('A', 4, 1, '<notations><articulations><strong-accent/></articulations></notations>') +
+        note('A', 4, 1, '<notations><articulations><tenuto/></articulations></notations>') +
+        note('A', 4, 1),
+    ]))
+    assert.deepEqual(song.notes.map((n) => n.articulations), [['staccato', 'accent'], ['marcato'], ['tenuto'], undefined])
+  })
+
+  test('弓法文字一直有效直到 ord.，突强作用于之后的第一个音', () => {
+    const song = parseMusicXML(score([
+      direction('<words>spicc.</words>') + note('D', 5, 1) + note('E', 5, 1) +
+        direction('<words>ord.</words>') + note('F', 5, 1) +
+        direction('<dynamics><sfz/></dynamics>') + note('G', 5, 1),
+    ]))
+    assert.deepEqual(song.notes.map((n) => n.articulations), [['spiccato'], ['spiccato'], undefined, ['accent']])
+  })
+})
+
+/**
+ * <technical> 标记
+ */
+function technical(content: string): string {
+  return `<notations><technical>${content}</technical></notations>`
+}
+
+describe('parseMusicXML: 泛音、拨弦和双音', () => {
+  test('自然泛音记在轻触点，由所在的弦推算实际音高', () => {
+    const song = parseMusicXML(score([
+      // A 弦上轻触 D5（纯四度）→ 两个八度 A6；轻触 E5（纯五度）→ E6
+      note('D', 5, 2, technical('<string>2</string><harmonic><natural/><touching-pitch/></harmonic>')) +
+        note('E', 5, 2, technical('<string>2</string><harmonic><natural/><touching-pitch/></harmonic>')),
+    ]))
+    assert.deepEqual(
+      song.notes.map((n) => [n.pitch, n.harmonic, n.soundingPitch]),
+      [['D5', 'natural', 'A6'], ['E5', 'natural', 'E6']]
+    )
+    assert.equal(song.notes[0].soundingFrequency, 1760)
+  })
+
+  test('记的是实际音高的泛音不变', () => {
+    const [harmonic] = parseMusicXML(score([
+      note('A', 5, 4, technical('<harmonic><natural/><sounding-pitch/></harmonic>')),
+    ])).notes
+    assert.equal(harmonic.soundingPitch, 'A5')
+  })
+
+  test('人工泛音：和弦中的菱形音符是轻触点，合并到按弦音上', () => {
+    const song = parseMusicXML(score([
+      note('A', 4, 4) + note('D', 5, 4, '<chord/><notehead>diamond</notehead>'),
+    ]))
+    assert.equal(song.notes.length, 1)
+    assert.equal(song.notes[0].harmonic, 'artificial')
+    assert.equal(song.notes[0].soundingPitch, 'A6')
+    assert.equal(song.notes[0].chordPitches, undefined)
+  })
+
+  test('拨弦：技术标记、音符属性和 pizz. / arco 文字', () => {
+    const song = parseMusicXML(score([
+      note('G', 4, 1, technical('<pizzicato/>')) +
+        note('A', 4, 1) +
+        direction('<words>pizz.</words>') + note('B', 4, 1) +
+        direction('<words>arco</words>') + note('C', 5, 1),
+    ]))
+    assert.deepEqual(song.notes.map((n) => n.pizzicato ?? false), [true, false, true, false])
+
+    const [attribute] = parseMusicXML(score([
+      note('D', 5, 4).replace('<note>', '<note pizzicato="yes">'),
+    ])).notes
+    assert.equal(attribute.pizzicato, true)
+  })
+
+  test('双音合并为一个练习目标，其他音及其指法记在 chordPitches', () => {
+    const song = parseMusicXML(score([
+      note('D', 4, 2, technical('<string>3</string><fingering>0</fingering>')) +
+        note('B', 4, 2, '<chord/>' + technical('<string>2</string><fingering>1</fingering>')) +
+        note('E', 5, 2),
+    ]))
+    assert.equal(song.notes.length, 2)
+    assert.equal(song.notes[0].pitch, 'D4')
+    assert.deepEqual(song.notes[0].chordPitches?.map(({ pitch, string, finger }) => ({ pitch, string, finger })), [
+      { pitch: 'B4', string: 2, finger: 1 },
+    ])
+    assert.equal(song.notes[1].startBeat, 2)
+  })
+})
+
+describe('parseMusicXML: score-timewise 和多声部乐谱', () => {
+  const PART_LIST = `<part-list>
+    <score-part id="P1"><part-name>Piano</part-name></score-part>
+    <score-part id="P2"><part-name>Solo</part-name><score-instrument id="P2-I1"><instrument-name>Violin</instrument-name></score-instrument></score-part>
+  </part-list>`
+  const PIANO = [
+    DEFAULT_ATTRIBUTES + '<direction><sound tempo="72"/></direction>' + note('C', 3, 4),
+    note('G', 2, 4),
+  ]
+  const VIOLIN = [DEFAULT_ATTRIBUTES + note('E', 5, 4), note('D', 5, 2) + note('C', 5, 2)]
+
+  const partwise = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <work><work-title>Duet</work-title></work>
+  ${PART_LIST}
+  <part id="P1">${PIANO.map((content, i) => `<measure number="${i + 1}">${content}</measure>`).join('')}</part>
+  <part id="P2">${VIOLIN.map((content, i) => `<measure number="${i + 1}">${content}</measure>`).join('')}</part>
+</score-partwise>`
+
+  const timewise = `<?xml version="1.0" encoding="UTF-8"?>
+<score-timewise version="3.1">
+  <work><work-title>Duet</work-title></work>
+  ${PART_LIST}
+  ${[0, 1].map((i) => `<measure number="${i + 1}">
+    <part id="P1">${PIANO[i]}</part>
+    <part id="P2">${VIOLIN[i]}</part>
+  </measure>`).join('')}
+</score-timewise>`
+
+  test('score-timewise 转换后与等价的 score-partwise 解析结果相同', () => {
+    assert.deepEqual(parseMusicXML(timewise), parseMusicXML(partwise))
+  })
+
+  test('列出所有声部，自动选择小提琴声部，其他声部作为伴奏', () => {
+    const song = parseMusicXML(partwise)
+    assert.equal(song.title, 'Duet')
+    assert.deepEqual(song.parts, [
+      { id: 'P1', name: 'Piano', isViolin: false },
+      { id: 'P2', name: 'Solo', instrument: 'Violin', isViolin: true },
+    ])
+    assert.equal(song.partId, 'P2')
+    assert.deepEqual(song.notes.map((n) => n.pitch), ['E5', 'D5', 'C5'])
+    assert.deepEqual(song.accompaniment.map((part) => [part.id, part.notes.map((n) => n.pitch)]), [
+      ['P1', ['C3', 'G2']],
+    ])
+  })
+
+  test('速度标记只在伴奏声部时也使用', () => {
+    assert.equal(parseMusicXML(partwise).tempo, 72)
+  })
+
+  test('partId 指定练习的声部', () => {
+    const song = parseMusicXML(partwise, { partId: 'P1' })
+    assert.equal(song.partId, 'P1')
+    assert.deepEqual(song.notes.map((n) => n.pitch), ['C3', 'G2'])
+    assert.deepEqual(song.accompaniment.map((part) => part.id), ['P2'])
+  })
+
+  test('按 MIDI 音色识别小提琴；没有小提琴声部时选第一个', () => {
+    const byProgram = partwise
+      .replace('<instrument-name>Violin</instrument-name>', '<instrument-name>Solo</instrument-name>')
+      .replace('</score-instrument></score-part>', '</score-instrument><midi-instrument id="P2-I1"><midi-program>41</midi-program></midi-instrument></score-part>')
+    assert.equal(parseMusicXML(byProgram).partId, 'P2')
+
+    const noViolin = partwise.replace('<instrument-name>Violin</instrument-name>', '<instrument-name>Flute</instrument-name>')
+    assert.equal(parseMusicXML(noViolin).partId, 'P1')
+  })
+
+  test('既不是 score-partwise 也不是 score-timewise 时报错', () => {
+    assert.throws(() => parseMusicXML('<?xml version="1.0"?><opus/>'), /missing score-partwise or score-timewise/)
+  })
+})
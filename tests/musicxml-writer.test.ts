@@ -0,0 +1,41 @@
+/**
+ * MusicXML 导出测试：写出的乐谱用 parseMusicXML 读回后与原来的 ParsedSong 一致
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { parseMusicXML, parseMusicXMLData } from '../src/lib/musicxml-parser'
+import { songToMusicXML, songToMxl } from '../src/lib/musicxml-writer'
+import { parseJianpu } from '../src/lib/jianpu'
+import { listScoreFiles, readScoreXml } from '../scripts/lib/score-files.mjs'
+
+describe('songToMusicXML → parseMusicXML', () => {
+  for (const url of listScoreFiles()) {
+    test(url, async () => {
+      const song = parseMusicXML(await readScoreXml(url))
+      assert.deepEqual(parseMusicXML(songToMusicXML(song)), song)
+    })
+  }
+
+  test('简谱导入的乐谱（弱起、连音、跨小节的音）', () => {
+    const song = parseJianpu("标题: Test\n1=F 3/4 ♩=90\n5, | 1 - 3~ | 3 2 #1 | 2 - - :| 0 5_ 6_ 7 | 1' |")
+    const roundTrip = parseMusicXML(songToMusicXML(song))
+    // parseMusicXML 另外给每个音记下声部（voice），只比较音高和节奏
+    const getNotes = (parsed: typeof song) =>
+      parsed.notes.map((note) => [note.pitch, note.startBeat, note.duration, note.measureNumber])
+    assert.deepEqual(getNotes(roundTrip), getNotes(song))
+    assert.deepEqual(roundTrip.measures, song.measures)
+    assert.equal(roundTrip.keySignature, song.keySignature)
+    assert.equal(roundTrip.tempo, song.tempo)
+  })
+})
+
+describe('songToMxl', () => {
+  test('压缩的 .mxl 能用 parseMusicXMLData 读回', async () => {
+    const song = parseMusicXML(await readScoreXml(listScoreFiles()[0]))
+    const data = await songToMxl(song)
+    assert.deepEqual(await parseMusicXMLData(data.buffer), song)
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * 节奏评判测试：起音与节拍网格的对齐和节奏得分
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { alignOnsets, getRhythmScore, getTimingTolerance, type NoteTiming } from '../src/lib/onset-detection'
+
+// 每 500ms 一个音的网格
+const GRID = [0, 500, 1000, 1500]
+// 演奏开始的时刻（起音和确认时间用绝对时间）
+const START = 10000
+// 起音后音高被确认的延迟
+const CONFIRM_DELAY = 200
+
+function confirmAfter(onsets: number[]): number[] {
+  return onsets.map((onset) => onset + CONFIRM_DELAY)
+}
+
+describe('alignOnsets', () => {
+  test('与网格一致的演奏没有偏差（与开始时刻无关）', () => {
+    const onsets = GRID.map((time) => START + time)
+    assert.deepEqual(alignOnsets(GRID, onsets, confirmAfter(onsets)), onsets.map((onset) => ({ onset, offset: 0 })))
+  })
+
+  test('偏晚的音符相对前面音符的节拍计算偏差', () => {
+    const onsets = [START, START + 500, START + 1100, START + 1500]
+    const timings = alignOnsets(GRID, onsets, confirmAfter(onsets))
+    assert.deepEqual(timings.map((timing) => timing.offset), [0, 0, 100, 0])
+  })
+
+  test('有多余的起音（换弓杂音等）时取最接近网格的', () => {
+    const onsets = [START, START + 300, START + 510]
+    const timings = alignOnsets([0, 500], onsets, [START + 100, START + 600])
+    assert.deepEqual(timings[1], { onset: START + 510, offset: 10 })
+  })
+
+  test('没有演奏或没有测到起音的音符为 null，不占用后面的起音', () => {
+    const onsets = [START, START + 1000, START + 1500]
+    const confirmed = [START + 200, null, START + 1200, START + 1700]
+    const timings = alignOnsets(GRID, onsets, confirmed)
+    assert.deepEqual(timings[1], { onset: null, offset: null })
+    assert.deepEqual(timings.map((timing) => timing.onset), [START, null, START + 1000, START + 1500])
+
+    // 确认前 1.5 秒内没有起音
+    assert.deepEqual(alignOnsets([0], [START], [START + 5000]), [{ onset: null, offset: null }])
+  })
+})
+
+describe('getTimingTolerance', () => {
+  test('音符时值的 1/4，限制在 60-150ms', () => {
+    assert.equal(getTimingTolerance(100), 60)
+    assert.equal(getTimingTolerance(400), 100)
+    assert.equal(getTimingTolerance(2000), 150)
+  })
+})
+
+describe('getRhythmScore', () => {
+  const timing = (offset: number | null): NoteTiming => ({ onset: offset === null ? null : 0, offset })
+
+  test('容差内满分，超出后线性扣分，到 3 倍容差为 0', () => {
+    const timings = [timing(0), timing(-100), timing(200), timing(400)]
+    // 1 + 1 + 0.5 + 0
+    assert.equal(getRhythmScore(timings, [100, 100, 100, 100]), 63)
+  })
+
+  test('没有测到起音的音符不计入', () => {
+    assert.equal(getRhythmScore([timing(0), timing(null)], [100, 100]), 100)
+    assert.equal(getRhythmScore([timing(null)], [100]), 0)
+  })
+})
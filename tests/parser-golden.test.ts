@@ -0,0 +1,66 @@
+/**
+ * 解析器 golden 测试
+ * 对 public/scores 下的每个乐谱，把 parseMusicXML 的结果 (ParsedSong JSON) 与 tests/golden 中保存的快照对比，
+ * 解析器的任何改动都会在这里显示出对全部曲目的具体影响。
+ *
+ * 运行: npm test
+ * 确认改动符合预期后更新快照: npm run test:update-golden
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import path from 'node:path'
+import { describe, test } from 'node:test'
+import { parseMusicXML } from '../src/lib/musicxml-parser'
+import { listScoreFiles, projectRoot, readScoreXml } from '../scripts/lib/score-files.mjs'
+
+const GOLDEN_DIR = path.join(projectRoot, 'tests/golden')
+const updateGolden = process.env.UPDATE_GOLDEN === '1'
+
+/**
+ * 乐谱 URL → 快照文件路径（/scores/piece/ode-to-joy.xml → tests/golden/piece/ode-to-joy.json）
+ */
+function getGoldenPath(url: string): string {
+  const relative = url.replace(/^\/scores\//, '').replace(/\.(xml|mxl)$/, '.json')
+  return path.join(GOLDEN_DIR, relative)
+}
+
+/**
+ * 列出已保存的所有快照
+ */
+function listGoldenFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return []
+  return fs.readdirSync(dir).flatMap((item) => {
+    const fullPath = path.join(dir, item)
+    if (fs.statSync(fullPath).isDirectory()) return listGoldenFiles(fullPath)
+    return item.endsWith('.json') ? [fullPath] : []
+  })
+}
+
+describe('parseMusicXML golden files', () => {
+  for (const url of listScoreFiles()) {
+    test(url, async () => {
+      const song = parseMusicXML(await readScoreXml(url))
+      const actual = JSON.stringify(song, null, 2) + '\n'
+      const goldenPath = getGoldenPath(url)
+
+      if (updateGolden || !fs.existsSync(goldenPath)) {
+        fs.mkdirSync(path.dirname(goldenPath), { recursive: true })
+        fs.writeFileSync(goldenPath, actual)
+        if (!updateGolden) {
+          assert.fail(`缺少快照，已生成 ${path.relative(projectRoot, goldenPath)}，请确认后提交`)
+        }
+        return
+      }
+
+      const expected = JSON.parse(fs.readFileSync(goldenPath, 'utf-8'))
+      assert.deepEqual(JSON.parse(actual), expected, `${url} 的解析结果与快照不一致`)
+    })
+  }
+
+  test('没有多余的快照', () => {
+    const expected = new Set(listScoreFiles().map(getGoldenPath))
+    const stale = listGoldenFiles(GOLDEN_DIR).filter((file) => !expected.has(file))
+    assert.deepEqual(stale.map((file) => path.relative(projectRoot, file)), [], '这些快照对应的乐谱已不存在，请删除')
+  })
+})
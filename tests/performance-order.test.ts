@@ -0,0 +1,124 @@
+/**
+ * 演奏顺序展开测试：反复、跳房子、D.C. / D.S.
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { getPerformanceOrder, expandPerformance, getWrittenNoteIndex } from '../src/lib/performance-order'
+import { parseMusicXML } from '../src/lib/musicxml-parser'
+import type { ParsedMeasure } from '../src/types'
+
+/**
+ * 每小节 4 拍的小节列表，marks 按小节号（从 1 开始）给出反复 / 跳转记号
+ */
+function createMeasures(count: number, marks: Record<number, Partial<ParsedMeasure>> = {}): ParsedMeasure[] {
+  return Array.from({ length: count }, (_, i) => ({
+    index: i,
+    number: i + 1,
+    startBeat: i * 4,
+    duration: 4,
+    ...marks[i + 1],
+  }))
+}
+
+// 演奏顺序的小节号
+function getOrder(measures: ParsedMeasure[]): number[] {
+  return getPerformanceOrder(measures).map((performed) => performed.measureNumber)
+}
+
+describe('getPerformanceOrder', () => {
+  test('没有记号时按书写顺序', () => {
+    assert.deepEqual(getOrder(createMeasures(3)), [1, 2, 3])
+  })
+
+  test(':| 没有 |: 时回到开头', () => {
+    assert.deepEqual(getOrder(createMeasures(3, { 2: { repeatEnd: 2 } })), [1, 2, 1, 2, 3])
+  })
+
+  test('|: :| 只反复中间一段，times 指定总遍数', () => {
+    const measures = createMeasures(4, { 2: { repeatStart: true }, 3: { repeatEnd: 3 } })
+    assert.deepEqual(getOrder(measures), [1, 2, 3, 2, 3, 2, 3, 4])
+  })
+
+  test('两个连续的反复段', () => {
+    const measures = createMeasures(4, { 2: { repeatEnd: 2 }, 4: { repeatEnd: 2 } })
+    assert.deepEqual(getOrder(measures), [1, 2, 1, 2, 3, 4, 3, 4])
+  })
+
+  test('跳房子按遍数演奏', () => {
+    const measures = createMeasures(4, {
+      3: { endings: [1], repeatEnd: 2 },
+      4: { endings: [2] },
+    })
+    const order = getPerformanceOrder(measures)
+    assert.deepEqual(order.map((m) => m.measureNumber), [1, 2, 3, 1, 2, 4])
+    assert.deepEqual(order.map((m) => m.pass), [1, 1, 1, 2, 2, 2])
+  })
+
+  test('D.C. al Fine 跳回开头，到 Fine 结束，跳转后不再反复', () => {
+    const measures = createMeasures(4, {
+      1: { repeatStart: true },
+      2: { repeatEnd: 2, fine: true },
+      4: { daCapo: true },
+    })
+    assert.deepEqual(getOrder(measures), [1, 2, 1, 2, 3, 4, 1, 2])
+  })
+
+  test('D.S. al Coda 跳到 segno，在 To Coda 处跳到尾声', () => {
+    const measures = createMeasures(6, {
+      2: { segno: true },
+      3: { toCoda: true },
+      4: { dalSegno: true },
+      6: { coda: true },
+    })
+    assert.deepEqual(getOrder(measures), [1, 2, 3, 4, 2, 3, 6])
+  })
+
+  test('D.C. 后只演奏最后一个跳房子', () => {
+    const measures = createMeasures(4, {
+      2: { endings: [1], repeatEnd: 2 },
+      3: { endings: [2] },
+      4: { daCapo: true },
+    })
+    assert.deepEqual(getOrder(measures), [1, 2, 1, 3, 4, 1, 3, 4])
+  })
+
+  test('演奏时间轴上的开始拍连续递增', () => {
+    const order = getPerformanceOrder(createMeasures(2, { 2: { repeatEnd: 2 } }))
+    assert.deepEqual(order.map((m) => m.startBeat), [0, 4, 8, 12])
+    assert.deepEqual(order.map((m) => m.writtenStartBeat), [0, 4, 0, 4])
+  })
+})
+
+describe('expandPerformance', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <part-list><score-part id="P1"><part-name>Violin</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>1</divisions><time><beats>2</beats><beat-type>4</beat-type></time></attributes>
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>1</duration><type>quarter</type></note>
+      <note><pitch><step>A</step><octave>4</octave></pitch><duration>1</duration><type>quarter</type></note>
+      <barline location="right"><repeat direction="backward"/></barline>
+    </measure>
+    <measure number="2">
+      <note><pitch><step>B</step><octave>4</octave></pitch><duration>2</duration><type>half</type></note>
+    </measure>
+  </part>
+</score-partwise>`
+
+  test('音符按演奏顺序复制，并指回书写顺序的音符', () => {
+    const song = expandPerformance(parseMusicXML(xml))
+    assert.deepEqual(song.notes.map((note) => note.pitch), ['G4', 'A4', 'G4', 'A4', 'B4'])
+    assert.deepEqual(song.notes.map((note) => note.startBeat), [0, 1, 2, 3, 4])
+    assert.deepEqual(song.notes.map((note) => getWrittenNoteIndex(song, note.index)), [0, 1, 0, 1, 2])
+    assert.equal(song.totalBeats, 6)
+  })
+
+  test('已经展开过的乐谱不再展开', () => {
+    const song = expandPerformance(parseMusicXML(xml))
+    assert.equal(expandPerformance(song), song)
+  })
+})
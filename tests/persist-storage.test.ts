@@ -0,0 +1,134 @@
+/**
+ * zustand 持久化存储测试：读写 IndexedDB、迁移 localStorage 中的旧数据、数据库不可用时退回 localStorage、等待读取完成
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { beforeEach, describe, mock, test } from 'node:test'
+import { persist } from 'zustand/middleware'
+import { createStore } from 'zustand/vanilla'
+import { createMemoryStorage, createThrowingIndexedDB, readAll, replaceIndexedDB } from './helpers/browser-storage'
+import { DB_NAME, STORES, openDatabase, toPromise, transactionDone } from '../src/lib/db'
+import { HYDRATION_TIMEOUT, indexedDBStorage, waitForHydration } from '../src/lib/persist-storage'
+
+const NAME = 'melobuddy-test-storage'
+const storage = indexedDBStorage!
+
+/**
+ * 直接写入 state 仓库（模拟上次保存的数据）
+ */
+async function writeState(name: string, value: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORES.state, 'readwrite')
+  transaction.objectStore(STORES.state).put(value, name)
+  await transactionDone(transaction)
+}
+
+async function readState(): Promise<Map<IDBValidKey, unknown>> {
+  return readAll(await openDatabase(), STORES.state)
+}
+
+/**
+ * 使用 indexedDBStorage 的 store
+ */
+function createCounterStore() {
+  return createStore<{ count: number }>()(persist(() => ({ count: 0 }), { name: NAME, storage }))
+}
+
+beforeEach(async () => {
+  globalThis.localStorage = createMemoryStorage()
+  await toPromise(indexedDB.deleteDatabase(DB_NAME))
+})
+
+describe('indexedDBStorage', () => {
+  test('保存到 state 仓库，键为 store 的 name', async () => {
+    await storage.setItem(NAME, { state: { count: 3 }, version: 0 })
+    assert.deepEqual(await storage.getItem(NAME), { state: { count: 3 }, version: 0 })
+    assert.deepEqual([...(await readState()).keys()], [NAME])
+    assert.equal(localStorage.length, 0)
+
+    await storage.removeItem(NAME)
+    assert.equal(await storage.getItem(NAME), null)
+    assert.equal((await readState()).size, 0)
+  })
+
+  test('第一次读取时把 localStorage 中的旧数据搬到数据库', async () => {
+    localStorage.setItem(NAME, JSON.stringify({ state: { count: 7 }, version: 0 }))
+
+    assert.deepEqual(await storage.getItem(NAME), { state: { count: 7 }, version: 0 })
+    assert.equal(localStorage.getItem(NAME), null)
+    assert.equal((await readState()).get(NAME), JSON.stringify({ state: { count: 7 }, version: 0 }))
+  })
+
+  test('数据库里已有数据时不读取 localStorage', async () => {
+    await writeState(NAME, JSON.stringify({ state: { count: 1 }, version: 0 }))
+    localStorage.setItem(NAME, JSON.stringify({ state: { count: 2 }, version: 0 }))
+
+    assert.deepEqual(await storage.getItem(NAME), { state: { count: 1 }, version: 0 })
+    assert.notEqual(localStorage.getItem(NAME), null)
+  })
+
+  test('数据库打不开时退回 localStorage', async () => {
+    const warn = mock.method(console, 'warn', () => {})
+    const restore = replaceIndexedDB(createThrowingIndexedDB())
+    try {
+      await storage.setItem(NAME, { state: { count: 5 }, version: 0 })
+      assert.deepEqual(JSON.parse(localStorage.getItem(NAME)!), { state: { count: 5 }, version: 0 })
+      assert.deepEqual(await storage.getItem(NAME), { state: { count: 5 }, version: 0 })
+      assert.ok(warn.mock.callCount() > 0)
+    } finally {
+      restore()
+      warn.mock.restore()
+    }
+  })
+
+  test('不支持 IndexedDB 时使用 localStorage', async () => {
+    const restore = replaceIndexedDB(undefined)
+    try {
+      await storage.setItem(NAME, { state: { count: 4 }, version: 0 })
+      assert.deepEqual(await storage.getItem(NAME), { state: { count: 4 }, version: 0 })
+      await storage.removeItem(NAME)
+      assert.equal(localStorage.getItem(NAME), null)
+    } finally {
+      restore()
+    }
+  })
+})
+
+describe('waitForHydration', () => {
+  test('store 读取完成后继续，读到保存的状态', async () => {
+    await writeState(NAME, JSON.stringify({ state: { count: 9 }, version: 0 }))
+    const store = createCounterStore()
+
+    await waitForHydration(store)
+    assert.equal(store.persist.hasHydrated(), true)
+    assert.equal(store.getState().count, 9)
+
+    // 已经读取完成时直接继续
+    await waitForHydration(store)
+  })
+
+  test('保存的数据损坏时 persist 不会报告读取完成，超时后按默认值继续', async () => {
+    await writeState(NAME, '{not json')
+    mock.timers.enable({ apis: ['setTimeout'] })
+    try {
+      const store = createCounterStore()
+      let finished = false
+      const waiting = waitForHydration(store).then(() => {
+        finished = true
+      })
+
+      mock.timers.tick(HYDRATION_TIMEOUT - 1)
+      await new Promise((resolve) => setImmediate(resolve))
+      assert.equal(finished, false)
+
+      mock.timers.tick(1)
+      await waiting
+      assert.equal(store.persist.hasHydrated(), false)
+      assert.equal(store.getState().count, 0)
+    } finally {
+      mock.timers.reset()
+    }
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * 乐谱缓存测试：缓存读写、按源文件哈希 / ETag 重新验证、解析器版本失效、声部缓存和旧 localStorage 缓存的迁移
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { beforeEach, describe, mock, test } from 'node:test'
+import { createMemoryStorage, readAll } from './helpers/browser-storage'
+import { DB_NAME, STORES, openDatabase, toPromise, transactionDone } from '../src/lib/db'
+import { PARSER_VERSION, parseMusicXML } from '../src/lib/musicxml-parser'
+import {
+  clearScoreCacheById,
+  getScore,
+  getScoreCacheStats,
+  isScoreCached,
+  preloadScores,
+} from '../src/lib/score-cache'
+import type { ParsedSong } from '../src/types'
+
+// 缓存记录中测试用到的字段
+interface CachedRecord {
+  id: string
+  url: string
+  partId: string | null
+  parserVersion: number
+  hash: string | null
+  etag: string | null
+  song: ParsedSong
+  size: number
+  cachedAt: number
+  checkedAt: number
+}
+
+const URL = '/scores/test.musicxml'
+
+/**
+ * 每个声部一小节四分音符的 MusicXML
+ */
+function musicXml(pitches: string[], partIds = ['P1']): string {
+  const notes = pitches
+    .map((pitch) => `<note><pitch><step>${pitch[0]}</step><octave>${pitch[1]}</octave></pitch><duration>1</duration></note>`)
+    .join('')
+  const attributes =
+    '<attributes><divisions>1</divisions><key><fifths>0</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time></attributes>'
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <part-list>${partIds.map((id) => `<score-part id="${id}"><part-name>Violin ${id}</part-name></score-part>`).join('')}</part-list>
+  ${partIds.map((id) => `<part id="${id}"><measure number="1">${attributes}${notes}</measure></part>`).join('')}
+</score-partwise>`
+}
+
+// 模拟的服务器：地址 -> 文件内容和 ETag，记录收到的请求
+const files = new Map<string, { xml: string; etag: string }>()
+const requests: Array<{ url: string; ifNoneMatch: string | null }> = []
+
+mock.method(globalThis, 'fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = String(input)
+  const ifNoneMatch = new Headers(init?.headers).get('If-None-Match')
+  requests.push({ url, ifNoneMatch })
+
+  const file = files.get(url)
+  if (!file) return new Response(null, { status: 404, statusText: 'Not Found' })
+  if (ifNoneMatch === file.etag) return new Response(null, { status: 304 })
+  return new Response(file.xml, { status: 200, headers: { ETag: file.etag } })
+})
+
+// score-cache 只在浏览器中使用缓存
+Object.assign(globalThis, { window: globalThis })
+
+async function readRecords(): Promise<Map<IDBValidKey, CachedRecord>> {
+  return (await readAll(await openDatabase(), STORES.scores)) as Map<IDBValidKey, CachedRecord>
+}
+
+async function readRecord(id: string): Promise<CachedRecord> {
+  const record = (await readRecords()).get(id)
+  assert.ok(record, `没有 ${id} 的缓存`)
+  return record
+}
+
+async function writeRecord(record: CachedRecord): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORES.scores, 'readwrite')
+  transaction.objectStore(STORES.scores).put(record)
+  await transactionDone(transaction)
+}
+
+/**
+ * 修改缓存记录（模拟旧版本写入的缓存或很久以前的检查时间）
+ */
+async function updateRecord(id: string, changes: Partial<CachedRecord>): Promise<void> {
+  await writeRecord({ ...(await readRecord(id)), ...changes })
+}
+
+const pitchesOf = (song: ParsedSong) => song.notes.map((note) => note.pitch)
+
+beforeEach(async () => {
+  await toPromise(indexedDB.deleteDatabase(DB_NAME))
+  globalThis.localStorage = createMemoryStorage()
+  files.clear()
+  files.set(URL, { xml: musicXml(['G4', 'A4', 'B4', 'C5']), etag: '"v1"' })
+  requests.length = 0
+})
+
+// 旧缓存只在第一次打开缓存时迁移，这一组要放在最前面
+describe('旧 localStorage 缓存的迁移', () => {
+  test('搬到 scores 仓库并从 localStorage 删除，已有的缓存不覆盖，损坏的记录丢弃，读取时按解析器版本失效', async () => {
+    const song = parseMusicXML(musicXml(['D5', 'E5']))
+    const existing: CachedRecord = {
+      id: 'cached',
+      url: URL,
+      partId: null,
+      parserVersion: PARSER_VERSION,
+      hash: 'hash',
+      etag: '"v1"',
+      song,
+      size: 1,
+      cachedAt: 1,
+      checkedAt: Date.now(),
+    }
+    await writeRecord(existing)
+    localStorage.setItem('melobuddy_score_legacy_v1', JSON.stringify(song))
+    localStorage.setItem('melobuddy_score_cached_v1', JSON.stringify({ ...song, title: 'Old' }))
+    localStorage.setItem('melobuddy_score_broken_v1', '{not json')
+    localStorage.setItem('melobuddy-settings', '{}')
+
+    assert.equal((await getScoreCacheStats()).count, 2)
+    assert.deepEqual([localStorage.key(0)], ['melobuddy-settings'])
+    assert.equal(localStorage.length, 1)
+    assert.deepEqual(await readRecord('cached'), existing)
+
+    const legacy = await readRecord('legacy')
+    assert.equal(legacy.parserVersion, 0)
+    assert.equal(legacy.hash, null)
+    assert.deepEqual(pitchesOf(legacy.song), ['D5', 'E5'])
+
+    // 旧记录按解析器版本失效，读取时重新加载
+    assert.equal(await isScoreCached('legacy', URL), false)
+    assert.deepEqual(pitchesOf(await getScore('legacy', URL)), ['G4', 'A4', 'B4', 'C5'])
+    assert.equal(requests.length, 1)
+    assert.equal((await readRecord('legacy')).parserVersion, PARSER_VERSION)
+  })
+
+})
+
+describe('getScore', () => {
+  test('没有缓存时加载解析并缓存，再次读取不请求', async () => {
+    const song = await getScore('test', URL)
+    assert.deepEqual(pitchesOf(song), ['G4', 'A4', 'B4', 'C5'])
+
+    const record = await readRecord('test')
+    assert.equal(record.url, URL)
+    assert.equal(record.parserVersion, PARSER_VERSION)
+    assert.match(record.hash!, /^[0-9a-f]{64}$/)
+    assert.equal(record.etag, '"v1"')
+    assert.equal(await isScoreCached('test', URL), true)
+
+    assert.deepEqual(pitchesOf(await getScore('test', URL)), pitchesOf(song))
+    assert.equal(requests.length, 1)
+  })
+
+  test('解析器版本或地址不同时重新加载', async () => {
+    await getScore('test', URL)
+    await updateRecord('test', { parserVersion: PARSER_VERSION - 1 })
+    await getScore('test', URL)
+    assert.equal(requests.length, 2)
+
+    files.set('/scores/moved.musicxml', files.get(URL)!)
+    await getScore('test', '/scores/moved.musicxml')
+    assert.equal(requests.length, 3)
+    assert.equal((await readRecord('test')).url, '/scores/moved.musicxml')
+  })
+
+  test('源文件有改动时先返回缓存，后台重新解析后调用 onUpdate，下次读取新版本', async () => {
+    await getScore('test', URL)
+    await updateRecord('test', { checkedAt: 0 })
+    files.set(URL, { xml: musicXml(['E5', 'D5']), etag: '"v2"' })
+
+    let onUpdate!: (song: ParsedSong) => void
+    const updated = new Promise<ParsedSong>((resolve) => (onUpdate = resolve))
+    const song = await getScore('test', URL, {}, onUpdate)
+    assert.deepEqual(pitchesOf(song), ['G4', 'A4', 'B4', 'C5'])
+    assert.deepEqual(pitchesOf(await updated), ['E5', 'D5'])
+    assert.deepEqual(requests[1], { url: URL, ifNoneMatch: '"v1"' })
+
+    assert.deepEqual(pitchesOf(await getScore('test', URL)), ['E5', 'D5'])
+    assert.equal((await readRecord('test')).etag, '"v2"')
+    assert.equal(requests.length, 2)
+  })
+
+  test('选择的声部分开缓存', async () => {
+    files.set(URL, { xml: musicXml(['G4', 'A4'], ['P1', 'P2']), etag: '"v1"' })
+    await getScore('test', URL)
+    await getScore('test', URL, { partId: 'P2' })
+
+    const records = await readRecords()
+    assert.deepEqual([...records.keys()].sort(), ['test', 'test#P2'])
+    assert.equal(records.get('test#P2')!.partId, 'P2')
+    assert.equal(await isScoreCached('test', URL, { partId: 'P2' }), true)
+    assert.equal(await isScoreCached('test', URL, { partId: 'P3' }), false)
+  })
+})
+
+describe('preloadScores 重新验证', () => {
+  test('距上次检查不到间隔时不请求', async () => {
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    assert.equal(requests.length, 1)
+  })
+
+  test('源文件未变（304）时只更新检查时间', async () => {
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    const record = await readRecord('test')
+    await updateRecord('test', { checkedAt: 0 })
+
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    assert.deepEqual(requests[1], { url: URL, ifNoneMatch: '"v1"' })
+    const revalidated = await readRecord('test')
+    assert.ok(revalidated.checkedAt > 0)
+    assert.equal(revalidated.cachedAt, record.cachedAt)
+    assert.equal(revalidated.hash, record.hash)
+  })
+
+  test('ETag 变了但内容相同时只更新 ETag，不重新解析', async () => {
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    const record = await readRecord('test')
+    await updateRecord('test', { checkedAt: 0, cachedAt: 1 })
+    files.set(URL, { ...files.get(URL)!, etag: '"v2"' })
+
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    const revalidated = await readRecord('test')
+    assert.equal(revalidated.etag, '"v2"')
+    assert.equal(revalidated.hash, record.hash)
+    assert.equal(revalidated.cachedAt, 1)
+  })
+
+  test('内容有改动时按原来的声部重新解析', async () => {
+    files.set(URL, { xml: musicXml(['G4', 'A4'], ['P1', 'P2']), etag: '"v1"' })
+    await getScore('test', URL, { partId: 'P2' })
+    await updateRecord('test#P2', { checkedAt: 0 })
+    files.set(URL, { xml: musicXml(['B4', 'C5'], ['P1', 'P2']), etag: '"v2"' })
+
+    // preloadScores 只处理默认声部，这里通过 getScore 的后台重新验证
+    const updated = new Promise<ParsedSong>((resolve) => getScore('test', URL, { partId: 'P2' }, resolve))
+    assert.equal((await updated).partId, 'P2')
+    const record = await readRecord('test#P2')
+    assert.deepEqual(pitchesOf(record.song), ['B4', 'C5'])
+    assert.equal(record.partId, 'P2')
+  })
+
+  test('没有源文件哈希的缓存（导入的乐谱）不重新验证', async () => {
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    await updateRecord('test', { hash: null, checkedAt: 0 })
+    await preloadScores([{ id: 'test', musicXmlUrl: URL }])
+    assert.equal(requests.length, 1)
+  })
+})
+
+describe('clearScoreCacheById', () => {
+  test('删除曲目的所有声部，不影响 ID 以它开头的其他曲目', async () => {
+    files.set(URL, { xml: musicXml(['G4', 'A4'], ['P1', 'P2']), etag: '"v1"' })
+    await getScore('test', URL)
+    await getScore('test', URL, { partId: 'P2' })
+    await getScore('test2', URL)
+
+    await clearScoreCacheById('test')
+    assert.deepEqual([...(await readRecords()).keys()], ['test2'])
+    assert.equal((await getScoreCacheStats()).count, 1)
+  })
+})
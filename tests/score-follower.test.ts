@@ -0,0 +1,114 @@
+/**
+ * 乐谱跟随测试：自由演奏的音高帧对齐到乐谱音符
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createScoreFollower, type ScoreFollower } from '../src/lib/score-follower'
+
+// 音高帧的间隔（毫秒）
+const FRAME = 20
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+function pitchToFrequency(pitch: string): number {
+  const match = pitch.match(/^([A-G]#?)(\d)$/)!
+  const midi = (parseInt(match[2], 10) + 1) * 12 + NOTE_NAMES.indexOf(match[1])
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
+
+function createNotes(pitches: string[]) {
+  return pitches.map((pitch) => ({ pitch }))
+}
+
+/**
+ * 按帧演奏一串音（每个音 300ms，null 为 100ms 静音），返回结束时间和每帧的位置
+ * 以 '>' 开头的音前有换弓起音
+ */
+function play(follower: ScoreFollower, pitches: (string | null)[], start = 0) {
+  let time = start
+  const positions: number[] = []
+  for (const item of pitches) {
+    if (item === null) {
+      for (const end = time + 100; time < end; time += FRAME) positions.push(follower.push(null, time))
+      continue
+    }
+    const articulation = item.startsWith('>')
+    const frequency = pitchToFrequency(item.replace('>', ''))
+    for (const end = time + 300; time < end; time += FRAME) {
+      positions.push(follower.push(frequency, time, articulation && time === end - 300))
+    }
+  }
+  return { time, positions }
+}
+
+const SCALE = ['C4', 'D4', 'E4', 'F4', 'G4']
+
+describe('createScoreFollower', () => {
+  test('按谱演奏：每个音都正确，起音依次递增，位置跟着前进', () => {
+    const follower = createScoreFollower(createNotes(SCALE))
+    const { time, positions } = play(follower, SCALE)
+    const alignment = follower.finish(time)
+
+    assert.deepEqual(alignment.map((note) => note.status), ['correct', 'correct', 'correct', 'correct', 'correct'])
+    assert.deepEqual(alignment.map((note) => note.onset), [0, 300, 600, 900, 1200])
+    assert.equal(positions[0], -1)
+    assert.deepEqual([...new Set(positions.filter((position) => position >= 0))], [0, 1, 2, 3, 4])
+  })
+
+  test('错音记为 wrong 并记下实际音高，后面的音不受影响', () => {
+    const follower = createScoreFollower(createNotes(SCALE))
+    const { time } = play(follower, ['C4', 'D4', 'E4', 'F#4', 'G4'])
+    const alignment = follower.finish(time)
+
+    assert.deepEqual(alignment.map((note) => note.status), ['correct', 'correct', 'correct', 'wrong', 'correct'])
+    assert.equal(alignment[3].played, 'F#4')
+    assert.equal(alignment[4].onset, 1200)
+  })
+
+  test('跳过的音记为 missed', () => {
+    const follower = createScoreFollower(createNotes(SCALE))
+    const { time } = play(follower, ['C4', 'D4', 'F4', 'G4'])
+    const alignment = follower.finish(time)
+
+    assert.deepEqual(alignment.map((note) => note.status), ['correct', 'correct', 'missed', 'correct', 'correct'])
+    assert.equal(alignment[2].onset, null)
+  })
+
+  test('跳回去重复一段：位置回到前面，起音取第一次拉对的', () => {
+    const notes = createNotes(['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5'])
+    const follower = createScoreFollower(notes)
+    const { time, positions } = play(follower, ['C4', 'D4', 'E4', 'F4', 'C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5'])
+    const alignment = follower.finish(time)
+
+    assert.ok(alignment.every((note) => note.status === 'correct'))
+    assert.deepEqual(alignment.slice(0, 4).map((note) => note.onset), [0, 300, 600, 900])
+    // 重复的 C4 先被当作 G4 的错音，接着拉到 D4 时位置回到第二个音
+    assert.equal(positions[Math.round(1780 / FRAME)], 1)
+  })
+
+  test('同音反复：有换弓起音时切成两个事件，连奏时一个事件覆盖两个音符', () => {
+    const notes = createNotes(['G4', 'G4', 'A4'])
+
+    const detached = createScoreFollower(notes)
+    const separated = detached.finish(play(detached, ['G4', '>G4', 'A4']).time)
+    assert.deepEqual(separated.map((note) => [note.status, note.onset]), [['correct', 0], ['correct', 300], ['correct', 600]])
+
+    const legato = createScoreFollower(notes)
+    const { time } = play(legato, ['G4', 'G4', 'A4'])
+    const joined = legato.finish(time)
+    assert.deepEqual(joined.map((note) => [note.status, note.onset]), [['correct', 0], ['correct', null], ['correct', 600]])
+  })
+
+  test('太短的音高和静音不算事件；reset 后重新开始', () => {
+    const follower = createScoreFollower(createNotes(['C4', 'D4']))
+    follower.push(pitchToFrequency('A#4'), 0)
+    follower.push(null, FRAME)
+    const { time } = play(follower, [null, 'C4', null, 'D4'], 2 * FRAME)
+    assert.deepEqual(follower.finish(time).map((note) => note.status), ['correct', 'correct'])
+
+    follower.reset()
+    assert.deepEqual(follower.finish(time).map((note) => note.status), ['missed', 'missed'])
+  })
+})
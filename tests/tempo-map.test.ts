@@ -0,0 +1,81 @@
+/**
+ * 速度图测试：拍 ↔ 秒换算、rit. / accel. 和延长记号
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+  beatSpanToSeconds,
+  beatToSeconds,
+  createTempoMap,
+  getTempoAtBeat,
+  secondsToBeat,
+} from '../src/lib/tempo-map'
+import type { ParsedNote, TempoChange } from '../src/types'
+
+function assertClose(actual: number, expected: number, message?: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, message ?? `${actual} ≠ ${expected}`)
+}
+
+function createSong(tempo: number, tempoChanges: TempoChange[] = [], notes: Partial<ParsedNote>[] = [], totalBeats = 8) {
+  return { tempo, tempoChanges, notes: notes as ParsedNote[], totalBeats }
+}
+
+describe('createTempoMap', () => {
+  test('匀速：每拍 60 / tempo 秒', () => {
+    const map = createTempoMap(createSong(120))
+    assertClose(beatToSeconds(map, 4), 2)
+    assertClose(beatSpanToSeconds(map, 2, 6), 2)
+    assertClose(getTempoAtBeat(map, 3), 120)
+  })
+
+  test('速度突变从变化的那一拍开始生效', () => {
+    const map = createTempoMap(createSong(120, [{ beat: 4, measureNumber: 2, tempo: 60 }]))
+    assertClose(beatToSeconds(map, 4), 2)
+    assertClose(beatToSeconds(map, 6), 4)
+    assertClose(getTempoAtBeat(map, 5), 60)
+  })
+
+  test('rit. 到下一个速度标记之间线性减慢', () => {
+    const map = createTempoMap(createSong(120, [
+      { beat: 0, measureNumber: 1, tempo: 120, transition: 'ritardando' },
+      { beat: 4, measureNumber: 2, tempo: 60 },
+    ]))
+    assertClose(getTempoAtBeat(map, 2), 90)
+    // 速度 120 - 15·b 的积分：-4·ln(0.5)
+    assertClose(beatToSeconds(map, 4), 4 * Math.log(2))
+    assertClose(beatToSeconds(map, 6), 4 * Math.log(2) + 2)
+  })
+
+  test('没有目标速度的 accel. 按固定比例加快到段尾', () => {
+    const map = createTempoMap(createSong(100, [
+      { beat: 0, measureNumber: 1, tempo: 100, transition: 'accelerando' },
+    ], [], 4))
+    assertClose(getTempoAtBeat(map, 4), 125)
+    assert.ok(beatToSeconds(map, 4) < 2.4)
+  })
+
+  test('延长记号把音符时值拉长一倍', () => {
+    const map = createTempoMap(createSong(60, [], [{ startBeat: 2, duration: 1, fermata: true }], 4))
+    assertClose(beatSpanToSeconds(map, 2, 3), 2)
+    assertClose(beatToSeconds(map, 4), 5)
+  })
+
+  test('秒 → 拍是拍 → 秒的逆运算', () => {
+    const map = createTempoMap(createSong(
+      90,
+      [
+        { beat: 0, measureNumber: 1, tempo: 90, transition: 'accelerando' },
+        { beat: 4, measureNumber: 2, tempo: 120, transition: 'ritardando' },
+        { beat: 8, measureNumber: 3, tempo: 80 },
+      ],
+      [{ startBeat: 9, duration: 1, fermata: true }],
+      12
+    ))
+    for (const beat of [0, 1.5, 4, 6.25, 9.5, 12, 14]) {
+      assertClose(secondsToBeat(map, beatToSeconds(map, beat)), beat, `beat ${beat}`)
+    }
+  })
+})
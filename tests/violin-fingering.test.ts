@@ -0,0 +1,139 @@
+/**
+ * 指法引擎测试：Viterbi 选弦选把位、乐谱标记约束、双音和用户标注
+ *
+ * 运行: npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { applyNoteAnnotations, assignFingerings } from '../src/lib/violin-fingering'
+import type { ParsedNote } from '../src/types'
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+function pitchToFrequency(pitch: string): number {
+  const match = pitch.match(/^([A-G]#?)(\d)$/)!
+  const midi = (parseInt(match[2], 10) + 1) * 12 + NOTE_NAMES.indexOf(match[1])
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
+
+/**
+ * 每个音一拍、首尾相接的旋律，extra 按下标给音符附加字段
+ */
+function createNotes(pitches: string[], extra: Record<number, Partial<ParsedNote>> = {}): ParsedNote[] {
+  return pitches.map((pitch, index) => ({
+    index,
+    pitch,
+    frequency: pitchToFrequency(pitch),
+    duration: 1,
+    startBeat: index,
+    measureNumber: 1,
+    ...extra[index],
+  }))
+}
+
+describe('assignFingerings', () => {
+  test('两个八度的 G 大调音阶停在一把位，逐弦向上', () => {
+    const notes = assignFingerings(
+      createNotes(['G3', 'A3', 'B3', 'C4', 'D4', 'E4', 'F#4', 'G4', 'A4', 'B4', 'C5', 'D5', 'E5', 'F#5', 'G5'])
+    )
+    assert.ok(notes.every((note) => note.position === 1))
+    assert.equal(notes[0].string, 4)
+    assert.equal(notes[0].finger, 0)
+    assert.equal(notes[notes.length - 1].string, 1)
+    for (let i = 1; i < notes.length; i++) {
+      const crossing = notes[i - 1].string! - notes[i].string!
+      assert.ok(crossing === 0 || crossing === 1, `${notes[i].pitch} 不应跳弦或回到低弦`)
+    }
+  })
+
+  test('高把位的乐句整体停在同一把位，不来回换把', () => {
+    const notes = assignFingerings(createNotes(['A5', 'B5', 'C#6', 'D6', 'E6', 'D6', 'C#6', 'B5', 'A5']))
+    const positions = new Set(notes.map((note) => note.position))
+    assert.equal(positions.size, 1)
+    assert.ok(notes[0].position! >= 3)
+  })
+
+  test('E 弦以上的音只能在 E 弦高把位', () => {
+    const [note] = assignFingerings(createNotes(['E6']))
+    assert.equal(note.string, 1)
+    assert.ok(note.position! >= 3)
+    assert.notEqual(note.finger, 0)
+  })
+
+  test('低于 G 弦的音不分配指法，前后的音各自求解', () => {
+    const notes = assignFingerings(createNotes(['A4', 'F3', 'B4'], { 1: { string: 4, finger: 1 } }))
+    assert.equal(notes[1].string, undefined)
+    assert.equal(notes[1].finger, undefined)
+    assert.equal(notes[1].position, undefined)
+    assert.notEqual(notes[0].string, undefined)
+    assert.notEqual(notes[2].string, undefined)
+  })
+
+  test('乐谱上的弦 / 指法标记作为约束', () => {
+    const [onD] = assignFingerings(createNotes(['D5'], { 0: { string: 3 } }))
+    assert.equal(onD.string, 3)
+    assert.equal(onD.finger, 4)
+
+    const [openA] = assignFingerings(createNotes(['A4'], { 0: { string: 2, finger: 0 } }))
+    assert.equal(openA.string, 2)
+    assert.equal(openA.finger, 0)
+  })
+
+  test('不可能的标记被忽略（B4 不是空弦）', () => {
+    const [note] = assignFingerings(createNotes(['B4'], { 0: { finger: 0 } }))
+    assert.notEqual(note.finger, 0)
+    assert.equal(note.string, 2)
+  })
+
+  test('不修改传入的音符', () => {
+    const input = createNotes(['G4'])
+    assignFingerings(input)
+    assert.equal(input[0].string, undefined)
+  })
+
+  test('双音放在相邻的弦上', () => {
+    const [note] = assignFingerings(
+      createNotes(['B4'], { 0: { chordPitches: [{ pitch: 'D4', frequency: pitchToFrequency('D4') }] } })
+    )
+    const [chord] = note.chordPitches!
+    assert.equal(Math.abs(chord.string! - note.string!), 1)
+    assert.notEqual(chord.finger, note.finger)
+  })
+
+  test('五度双音可以用同一手指按两根弦', () => {
+    const [note] = assignFingerings(
+      createNotes(['F#4'], { 0: { chordPitches: [{ pitch: 'C#5', frequency: pitchToFrequency('C#5') }] } })
+    )
+    const [chord] = note.chordPitches!
+    assert.equal(note.string, 3)
+    assert.equal(chord.string, 2)
+    assert.equal(chord.finger, note.finger)
+  })
+})
+
+describe('applyNoteAnnotations', () => {
+  test('按音符 index 覆盖指法和弓向，其他音符原样返回', () => {
+    const notes = createNotes(['G4', 'A4', 'B4'], {
+      1: { string: 2, finger: 0, position: 1 },
+      2: { string: 2, finger: 1, position: 1 },
+    })
+    const result = applyNoteAnnotations(notes, { 1: { string: 3, finger: 4 }, 2: { bowDirection: 'up' } })
+
+    assert.equal(result[0], notes[0])
+    assert.deepEqual(
+      { string: result[1].string, finger: result[1].finger, position: result[1].position },
+      { string: 3, finger: 4, position: 1 }
+    )
+    assert.equal(result[2].finger, 1)
+    assert.equal(result[2].bowDirection, 'up')
+    assert.equal(notes[1].string, 2)
+  })
+
+  test('标注对应书写顺序的 index，而不是数组下标', () => {
+    const notes = createNotes(['G4', 'A4']).map((note) => ({ ...note, index: note.index + 10 }))
+    const result = applyNoteAnnotations(notes, { 0: { finger: 3 }, 11: { finger: 2 } })
+    assert.equal(result[0].finger, undefined)
+    assert.equal(result[1].finger, 2)
+  })
+})